@@ -1,4 +1,13 @@
-import type { Access, CollectionConfig } from 'payload'
+import type { Access, CollectionConfig, PayloadRequest } from 'payload'
+import { PERMISSIONS, type Permission } from '@/lib/permissions'
+import { isTwoFactorPending } from '@/lib/two-factor'
+
+/**
+ * The request's user, or null until they pass two-factor authentication (see @/lib/two-factor)
+ * Every helper below grants access through this, never `req.user` directly.
+ */
+export const getActiveUser = (user: PayloadRequest['user']) =>
+  user && !isTwoFactorPending(user) ? user : null
 
 /**
  * Allow anyone access - use sparingly and only for public data
@@ -8,14 +17,15 @@ export const anyone: Access = () => true
 /**
  * Only allow authenticated users
  */
-export const authenticated: Access = ({ req: { user } }) => {
-  return Boolean(user)
+export const authenticated: Access = ({ req }) => {
+  return Boolean(getActiveUser(req.user))
 }
 
 /**
  * Only allow admin users
  */
-export const adminOnly: Access = ({ req: { user } }) => {
+export const adminOnly: Access = ({ req }) => {
+  const user = getActiveUser(req.user)
   if (!user) return false
   return user.role === 'admin'
 }
@@ -23,7 +33,8 @@ export const adminOnly: Access = ({ req: { user } }) => {
 /**
  * Allow admin users or the user themselves (for user collections)
  */
-export const adminOrSelf: Access = ({ req: { user } }) => {
+export const adminOrSelf: Access = ({ req }) => {
+  const user = getActiveUser(req.user)
   if (!user) return false
   if (user.role === 'admin') return true
 
@@ -38,19 +49,25 @@ export const adminOrSelf: Access = ({ req: { user } }) => {
  * Allow admin users or users with specific roles
  */
 export const hasRole = (...roles: string[]): Access => {
-  return ({ req: { user } }) => {
+  return ({ req }) => {
+    const user = getActiveUser(req.user)
     if (!user) return false
     if (user.role === 'admin') return true
     return roles.includes(user.role)
   }
 }
 
+/**
+ * Allow the roles granted a permission in the permission matrix (see @/lib/permissions)
+ */
+export const can = (permission: Permission): Access => hasRole(...PERMISSIONS[permission])
+
 /**
  * Published content is public, drafts are admin-only
  * For collections with a 'status' or '_status' field
  */
-export const publishedOrAdmin: Access = ({ req: { user } }) => {
-  if (user?.role === 'admin') return true
+export const publishedOrAdmin: Access = ({ req }) => {
+  if (getActiveUser(req.user)?.role === 'admin') return true
 
   return {
     _status: {
@@ -82,6 +99,16 @@ export const publicReadAdminWrite: CollectionConfig['access'] = {
   delete: adminOnly,
 }
 
+/**
+ * Allow public read; admins and content editors write
+ */
+export const publicReadContentWrite: CollectionConfig['access'] = {
+  read: anyone,
+  create: can('editContent'),
+  update: can('editContent'),
+  delete: can('editContent'),
+}
+
 /**
  * Allow public read of published content, admin controls everything
  */
@@ -1,3 +1,4 @@
+import { TwoFactorField as TwoFactorField_b6c20084c26f4dcb70aa71cc4a35bd43 } from '@/components/Admin/TwoFactorField'
 import { RscEntryLexicalCell as RscEntryLexicalCell_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
 import { RscEntryLexicalField as RscEntryLexicalField_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
 import { LexicalDiffComponent as LexicalDiffComponent_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
@@ -23,11 +24,16 @@ import { BlockquoteFeatureClient as BlockquoteFeatureClient_e70f5e05f09f93e00b99
 import { UploadFeatureClient as UploadFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
 import { HorizontalRuleFeatureClient as HorizontalRuleFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
 import { InlineToolbarFeatureClient as InlineToolbarFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
+import { RefundOrderButton as RefundOrderButton_a20e361948d0cb44b69988b74f7feda0 } from '@/components/Admin/RefundOrderButton'
+import { ProviderApiKeys as ProviderApiKeys_0831179971a295adca021520b4c060e9 } from '@/components/Admin/ProviderApiKeys'
+import { ReplayDeliveryButton as ReplayDeliveryButton_9b60c568ea0fd9089f8362d06411c5d9 } from '@/components/Admin/WebhookDeliveryActions'
+import { BulkReplayDeliveries as BulkReplayDeliveries_9b60c568ea0fd9089f8362d06411c5d9 } from '@/components/Admin/WebhookDeliveryActions'
 import { Avatar as Avatar_774f54d1ff585228e62fefb19ce8890e } from '@/components/Admin/Avatar'
 import { CustomNav as CustomNav_7a25bf58b9bf0789c79437d44273b9e5 } from 'payload-sidebar-plugin/rsc'
 import { AdminLogo as AdminLogo_1519062be06c6f010a03d3cd4e40f8fb } from '@/components/Admin/Logo'
 import { AfterDashboard as AfterDashboard_73d31bfc2a5cbdf5e9a4bc0a5f7fb979 } from '@/components/Admin/AfterDashboard'
 import { BeforeDashboard as BeforeDashboard_38646185cdf97cdc1988d32be82f7290 } from '@/components/Admin/BeforeDashboard'
+import { TwoFactorGate as TwoFactorGate_68f35a1accc6664e3ef8f40568cd0ed8 } from '@/components/Admin/TwoFactorGate'
 import { S3ClientUploadHandler as S3ClientUploadHandler_f97aa6c64367fa259c5bc0567239ef24 } from '@payloadcms/storage-s3/client'
 import { AdminDashboardLayout as AdminDashboardLayout_d2e5e8cdcf265e3c61c4d683161d9698 } from '@/components/AdminDashboard'
 import { ReportsView as ReportsView_08e6a8fd284768e2de05d16c5694a474 } from '@/components/Admin/ReportsView'
@@ -45,9 +51,11 @@ import { BillingView as BillingView_05e04345e3f4df37be503793b5847315 } from '@/c
 import { TeamView as TeamView_3b0ad88ac743b3eb0d9d6ba8f7abafc0 } from '@/components/Admin/TeamView'
 import { KnowledgeBaseView as KnowledgeBaseView_dd073aa5e0dd0ca65089781057ef2225 } from '@/components/Admin/KnowledgeBaseView'
 import { WalletsView as WalletsView_c7757ef83d39ed76e93e68ad9611bb33 } from '@/components/Admin/WalletsView'
+import { TwoFactorView as TwoFactorView_4d59354509da50e0947bdbc124a797f9 } from '@/components/Admin/TwoFactorView'
 import { CollectionCards as CollectionCards_ab83ff7e88da8d3530831f296ec4756a } from '@payloadcms/ui/rsc'
 
 export const importMap = {
+  "@/components/Admin/TwoFactorField#TwoFactorField": TwoFactorField_b6c20084c26f4dcb70aa71cc4a35bd43,
   "@payloadcms/richtext-lexical/rsc#RscEntryLexicalCell": RscEntryLexicalCell_44fe37237e0ebf4470c9990d8cb7b07e,
   "@payloadcms/richtext-lexical/rsc#RscEntryLexicalField": RscEntryLexicalField_44fe37237e0ebf4470c9990d8cb7b07e,
   "@payloadcms/richtext-lexical/rsc#LexicalDiffComponent": LexicalDiffComponent_44fe37237e0ebf4470c9990d8cb7b07e,
@@ -73,11 +81,16 @@ export const importMap = {
   "@payloadcms/richtext-lexical/client#UploadFeatureClient": UploadFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
   "@payloadcms/richtext-lexical/client#HorizontalRuleFeatureClient": HorizontalRuleFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
   "@payloadcms/richtext-lexical/client#InlineToolbarFeatureClient": InlineToolbarFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
+  "@/components/Admin/RefundOrderButton#RefundOrderButton": RefundOrderButton_a20e361948d0cb44b69988b74f7feda0,
+  "@/components/Admin/ProviderApiKeys#ProviderApiKeys": ProviderApiKeys_0831179971a295adca021520b4c060e9,
+  "@/components/Admin/WebhookDeliveryActions#ReplayDeliveryButton": ReplayDeliveryButton_9b60c568ea0fd9089f8362d06411c5d9,
+  "@/components/Admin/WebhookDeliveryActions#BulkReplayDeliveries": BulkReplayDeliveries_9b60c568ea0fd9089f8362d06411c5d9,
   "@/components/Admin/Avatar#Avatar": Avatar_774f54d1ff585228e62fefb19ce8890e,
   "payload-sidebar-plugin/rsc#CustomNav": CustomNav_7a25bf58b9bf0789c79437d44273b9e5,
   "@/components/Admin/Logo#AdminLogo": AdminLogo_1519062be06c6f010a03d3cd4e40f8fb,
   "@/components/Admin/AfterDashboard#AfterDashboard": AfterDashboard_73d31bfc2a5cbdf5e9a4bc0a5f7fb979,
   "@/components/Admin/BeforeDashboard#BeforeDashboard": BeforeDashboard_38646185cdf97cdc1988d32be82f7290,
+  "@/components/Admin/TwoFactorGate#TwoFactorGate": TwoFactorGate_68f35a1accc6664e3ef8f40568cd0ed8,
   "@payloadcms/storage-s3/client#S3ClientUploadHandler": S3ClientUploadHandler_f97aa6c64367fa259c5bc0567239ef24,
   "@/components/AdminDashboard#AdminDashboardLayout": AdminDashboardLayout_d2e5e8cdcf265e3c61c4d683161d9698,
   "@/components/Admin/ReportsView#ReportsView": ReportsView_08e6a8fd284768e2de05d16c5694a474,
@@ -95,5 +108,6 @@ export const importMap = {
   "@/components/Admin/TeamView#TeamView": TeamView_3b0ad88ac743b3eb0d9d6ba8f7abafc0,
   "@/components/Admin/KnowledgeBaseView#KnowledgeBaseView": KnowledgeBaseView_dd073aa5e0dd0ca65089781057ef2225,
   "@/components/Admin/WalletsView#WalletsView": WalletsView_c7757ef83d39ed76e93e68ad9611bb33,
+  "@/components/Admin/TwoFactorView#TwoFactorView": TwoFactorView_4d59354509da50e0947bdbc124a797f9,
   "@payloadcms/ui/rsc#CollectionCards": CollectionCards_ab83ff7e88da8d3530831f296ec4756a
 }
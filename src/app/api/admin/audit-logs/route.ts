@@ -0,0 +1,89 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { NextResponse } from 'next/server'
+import {
+  auditLogsToCsv,
+  buildAuditLogsWhere,
+  DEFAULT_AUDIT_LOGS_PAGE_SIZE,
+  MAX_AUDIT_LOG_EXPORT_ROWS,
+  MAX_AUDIT_LOGS_PAGE_SIZE,
+} from '@/lib/audit-log'
+import { getReportTimeZone } from '@/lib/order-reports'
+
+/**
+ * GET /api/admin/audit-logs
+ *
+ * Audit log entries, newest first.
+ * Query: action (comma-separated), collection, actor (user id), documentId, q, from / to, tz,
+ * page, limit (1-200). `format=csv` exports every matching entry (up to 10,000) instead.
+ */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, PERMISSIONS.viewAuditLogs)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
+
+    const { searchParams } = new URL(req.url)
+    const zone = await getReportTimeZone(payload, searchParams)
+    if ('error' in zone) {
+      return NextResponse.json({ error: zone.error }, { status: 400 })
+    }
+    const query = buildAuditLogsWhere(searchParams, zone.timeZone)
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 })
+    }
+
+    if (searchParams.get('format') === 'csv') {
+      const result = await payload.find({
+        collection: 'audit-logs',
+        where: query.where,
+        sort: '-createdAt',
+        limit: MAX_AUDIT_LOG_EXPORT_ROWS,
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+      })
+
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`
+      return new NextResponse(auditLogsToCsv(result.docs, zone.timeZone), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      })
+    }
+
+    const page = Number(searchParams.get('page') || 1)
+    const limit = Number(searchParams.get('limit') || DEFAULT_AUDIT_LOGS_PAGE_SIZE)
+    if (!Number.isInteger(page) || page < 1) {
+      return NextResponse.json({ error: 'page must be a positive integer' }, { status: 400 })
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_LOGS_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `limit must be an integer between 1 and ${MAX_AUDIT_LOGS_PAGE_SIZE}` },
+        { status: 400 },
+      )
+    }
+
+    const result = await payload.find({
+      collection: 'audit-logs',
+      where: query.where,
+      sort: '-createdAt',
+      page,
+      limit,
+      depth: 0,
+      overrideAccess: true,
+    })
+
+    return NextResponse.json({
+      docs: result.docs,
+      totalDocs: result.totalDocs,
+      page: result.page,
+      totalPages: result.totalPages,
+      timeZone: zone.timeZone,
+    })
+  } catch (error) {
+    console.error('[Admin Audit Logs API] Error:', error)
+    return NextResponse.json({ error: 'Failed to fetch audit logs' }, { status: 500 })
+  }
+}
@@ -1,5 +1,7 @@
-import { getPayloadClient } from '@/lib/payload'
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
 import { NextResponse } from 'next/server'
+import { withReportLivemode } from '@/lib/livemode'
 
 interface DisputedOrder {
   id: string
@@ -12,14 +14,20 @@ interface DisputedOrder {
   createdAt: string
 }
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const payload = await getPayloadClient()
+    const { searchParams } = new URL(request.url)
+    const auth = await requireAdminUser(request, PERMISSIONS.viewDisputes)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
     const result = await payload.find({
       collection: 'orders',
-      where: {
-        status: { equals: 'disputed' },
-      },
+      where: withReportLivemode(
+        {
+          status: { equals: 'disputed' },
+        },
+        searchParams
+      ),
       sort: '-createdAt',
       limit: 50,
       overrideAccess: true,
@@ -0,0 +1,58 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { getAuditSource } from '@/lib/audit-log'
+import { issueOrderRefund, type RefundReason } from '@/lib/refunds'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+import Stripe from 'stripe'
+
+/**
+ * POST /api/admin/orders/[id]/refund
+ *
+ * Issues a full or partial Stripe refund for an order.
+ * Body: { amount?: number (dollars, defaults to the refundable balance), reason?, note? }
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    // Refunds move money, so only admins and finance may issue them
+    const auth = await requireAdminUser(req, PERMISSIONS.refundOrders)
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    const body = await req.json().catch(() => ({}))
+    const amount =
+      body.amount === undefined || body.amount === null || body.amount === ''
+        ? null
+        : Number(body.amount)
+
+    const { order, refund } = await issueOrderRefund(payload, {
+      orderId: id,
+      amount,
+      reason: (body.reason as RefundReason | undefined) || undefined,
+      note: typeof body.note === 'string' ? body.note.slice(0, 500) : null,
+      user,
+      audit: getAuditSource(req, user),
+    })
+
+    return NextResponse.json({
+      refundId: refund.id,
+      refundStatus: refund.status,
+      amount: refund.amount / 100,
+      orderStatus: order.status,
+      amountRefunded: order.amountRefunded,
+    })
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof Stripe.errors.StripeError) {
+      // e.g. the charge was already refunded in the Stripe Dashboard
+      console.error('[Admin Refund API] Stripe error:', error.message)
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
+    console.error('[Admin Refund API] Error:', error)
+    return NextResponse.json({ error: 'Failed to refund order' }, { status: 500 })
+  }
+}
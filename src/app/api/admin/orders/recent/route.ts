@@ -1,10 +1,15 @@
-import { getPayloadClient } from '@/lib/payload'
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
 import { NextResponse } from 'next/server'
 import type { Order, Service, Provider } from '@/payload-types'
-import type { Where } from 'payload'
+import { getRefundableAmount, REFUNDABLE_STATUSES } from '@/lib/refunds'
+import { withReportLivemode } from '@/lib/livemode'
+import { getDateRangeWhere, getReportDateRange, getReportTimeZone } from '@/lib/order-reports'
 
 export interface RecentOrderResponse {
   id: string
+  // Payload document id (used for admin actions like refunds)
+  docId: string
   orderId?: string | null
   customer: string
   email: string
@@ -20,6 +25,8 @@ export interface RecentOrderResponse {
     | 'Refunded'
     | 'Disputed'
   date: string
+  // Amount still refundable in dollars, 0 if the order cannot be refunded
+  refundable: number
 }
 
 function mapOrderStatus(status: Order['status']): RecentOrderResponse['status'] {
@@ -32,6 +39,10 @@ function mapOrderStatus(status: Order['status']): RecentOrderResponse['status']
       return 'Failed'
     case 'refunded':
       return 'Cancelled'
+    case 'partially_refunded':
+      return 'Refunded'
+    case 'expired':
+      return 'Cancelled'
     case 'disputed':
       return 'Processing'
     default:
@@ -46,23 +57,20 @@ export async function GET(request: Request) {
     const to = searchParams.get('to')
 
     console.log('[Admin Recent Orders API] Starting request...', { from, to })
-    const payload = await getPayloadClient()
+    const auth = await requireAdminUser(request, PERMISSIONS.viewOrders)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
     console.log('[Admin Recent Orders API] Payload client initialized')
 
-    // Build date filter if provided
-    let dateFilter: Where | undefined
-    if (from || to) {
-      const createdAtFilter: Record<string, string> = {}
-      if (from) {
-        createdAtFilter.greater_than_equal = new Date(from).toISOString()
-      }
-      if (to) {
-        const toDate = new Date(to)
-        toDate.setHours(23, 59, 59, 999)
-        createdAtFilter.less_than_equal = toDate.toISOString()
-      }
-      dateFilter = { createdAt: createdAtFilter }
+    const zone = await getReportTimeZone(payload, searchParams)
+    if ('error' in zone) {
+      return NextResponse.json({ error: zone.error }, { status: 400 })
+    }
+    const range = getReportDateRange(searchParams, zone.timeZone)
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 })
     }
+    const dateFilter = getDateRangeWhere(range)
 
     // Get recent orders, sorted by createdAt descending
     console.log('[Admin Recent Orders API] Fetching orders from database...')
@@ -71,7 +79,7 @@ export async function GET(request: Request) {
       sort: '-createdAt',
       limit: 10,
       depth: 1, // Populate service and provider relationships
-      where: dateFilter,
+      where: withReportLivemode(dateFilter, searchParams),
       overrideAccess: true,
     })
     console.log(`[Admin Recent Orders API] Found ${ordersResult.docs.length} orders`)
@@ -90,6 +98,7 @@ export async function GET(request: Request) {
 
       return {
         id: order.orderId || order.id,
+        docId: order.id,
         orderId: order.orderId,
         customer: customerName,
         email: customerEmail,
@@ -100,7 +109,9 @@ export async function GET(request: Request) {
           month: 'short',
           day: 'numeric',
           year: 'numeric',
+          timeZone: zone.timeZone,
         }),
+        refundable: REFUNDABLE_STATUSES.includes(order.status) ? getRefundableAmount(order) : 0,
       }
     })
 
@@ -0,0 +1,90 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { NextResponse } from 'next/server'
+import type { Order, Provider, Service } from '@/payload-types'
+import { getRefundableAmount, REFUNDABLE_STATUSES } from '@/lib/refunds'
+import {
+  buildAdminOrdersQuery,
+  encodeAdminOrderCursor,
+  type AdminOrderResponse,
+} from '@/lib/admin-orders'
+import { getReportTimeZone } from '@/lib/order-reports'
+
+function serializeOrder(order: Order): AdminOrderResponse {
+  const service = order.service as Service | undefined
+  const provider = order.provider as Provider | undefined
+
+  return {
+    id: order.orderId || order.id,
+    docId: order.id,
+    externalId: order.externalId || null,
+    customer: provider?.name || order.customerEmail || 'Unknown Customer',
+    email: order.customerEmail || 'N/A',
+    product: service?.title || 'Unknown Service',
+    provider: provider?.slug || null,
+    amount: order.total || 0,
+    status: order.status,
+    livemode: order.livemode !== false,
+    stripePaymentIntentId: order.stripePaymentIntentId || null,
+    createdAt: order.createdAt,
+    refundable: REFUNDABLE_STATUSES.includes(order.status) ? getRefundableAmount(order) : 0,
+  }
+}
+
+/**
+ * GET /api/admin/orders
+ *
+ * Lists orders for the dashboard's Orders tab, newest first unless sorted otherwise.
+ * Query: q (searches order id, external id, customer email and PaymentIntent id),
+ * status (comma-separated), provider / service (slugs), from / to, tz, testOrders,
+ * sort (date-desc, date-asc, amount-desc, amount-asc), limit (1-100), cursor
+ * Pass `nextCursor` from the response as `cursor` (with the same filters) for the next page.
+ */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, PERMISSIONS.viewOrders)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
+
+    const { searchParams } = new URL(req.url)
+    const zone = await getReportTimeZone(payload, searchParams)
+    if ('error' in zone) {
+      return NextResponse.json({ error: zone.error }, { status: 400 })
+    }
+    const query = buildAdminOrdersQuery(searchParams, zone.timeZone)
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 })
+    }
+
+    // Fetch one extra order to know whether another page exists
+    const [result, count] = await Promise.all([
+      payload.find({
+        collection: 'orders',
+        where: query.where,
+        sort: query.sort,
+        limit: query.limit + 1,
+        pagination: false,
+        depth: 1, // Populate service and provider
+        overrideAccess: true,
+      }),
+      payload.count({
+        collection: 'orders',
+        where: query.filter,
+        overrideAccess: true,
+      }),
+    ])
+
+    const hasMore = result.docs.length > query.limit
+    const orders = result.docs.slice(0, query.limit)
+
+    return NextResponse.json({
+      orders: orders.map(serializeOrder),
+      totalDocs: count.totalDocs,
+      hasMore,
+      nextCursor: hasMore ? encodeAdminOrderCursor(orders, query.orderSort, query.cursor) : null,
+    })
+  } catch (error) {
+    console.error('[Admin Orders API] Error listing orders:', error)
+    return NextResponse.json({ error: 'Failed to list orders' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { getAuditSource } from '@/lib/audit-log'
+import { toProviderApiKeyResponse } from '@/lib/provider-api-keys'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+
+/**
+ * POST /api/admin/provider-api-keys/[id]/revoke
+ *
+ * Revokes a key immediately.
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const auth = await requireAdminUser(req, PERMISSIONS.manageApiKeys)
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    const apiKey = await payload.update({
+      collection: 'provider-api-keys',
+      id,
+      data: { status: 'revoked' },
+      overrideAccess: true,
+      context: { audit: getAuditSource(req, user) },
+    })
+
+    return NextResponse.json(toProviderApiKeyResponse(apiKey))
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Provider API Keys API] Error revoking key:', error)
+    return NextResponse.json({ error: 'Failed to revoke API key' }, { status: 500 })
+  }
+}
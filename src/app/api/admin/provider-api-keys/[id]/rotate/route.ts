@@ -0,0 +1,46 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { getAuditSource } from '@/lib/audit-log'
+import { rotateProviderApiKey, toProviderApiKeyResponse } from '@/lib/provider-api-keys'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+
+/**
+ * POST /api/admin/provider-api-keys/[id]/rotate
+ *
+ * Issues a replacement key. The old key stays valid for `graceHours` (default 24, 0 = revoke now).
+ * The full new key is only included in this response.
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const auth = await requireAdminUser(req, PERMISSIONS.manageApiKeys)
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    const body = await req.json().catch(() => ({}))
+    const graceHours =
+      body.graceHours === undefined || body.graceHours === null
+        ? undefined
+        : Number(body.graceHours)
+
+    const { key, apiKey, previous } = await rotateProviderApiKey(payload, {
+      id,
+      graceHours,
+      user,
+      audit: getAuditSource(req, user),
+    })
+
+    return NextResponse.json({
+      key,
+      apiKey: toProviderApiKeyResponse(apiKey),
+      previous: toProviderApiKeyResponse(previous),
+    })
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Provider API Keys API] Error rotating key:', error)
+    return NextResponse.json({ error: 'Failed to rotate API key' }, { status: 500 })
+  }
+}
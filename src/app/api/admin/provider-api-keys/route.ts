@@ -0,0 +1,87 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { getAuditSource } from '@/lib/audit-log'
+import { createProviderApiKey, toProviderApiKeyResponse } from '@/lib/provider-api-keys'
+import { API_KEY_MODES, type ApiKeyMode } from '@/lib/livemode'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+
+/**
+ * GET /api/admin/provider-api-keys?providerId=...
+ *
+ * Lists a provider's API keys (prefix and metadata only — never the key itself).
+ */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, PERMISSIONS.viewApiKeys)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
+
+    const providerId = new URL(req.url).searchParams.get('providerId')
+    if (!providerId) {
+      return NextResponse.json({ error: 'providerId is required' }, { status: 400 })
+    }
+
+    const result = await payload.find({
+      collection: 'provider-api-keys',
+      where: { provider: { equals: providerId } },
+      sort: '-createdAt',
+      limit: 100,
+      depth: 0,
+      overrideAccess: true,
+    })
+
+    return NextResponse.json(result.docs.map(toProviderApiKeyResponse))
+  } catch (error) {
+    console.error('[Admin Provider API Keys API] Error listing keys:', error)
+    return NextResponse.json({ error: 'Failed to list API keys' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/provider-api-keys
+ *
+ * Issues a new API key for a provider. The full key is only included in this response.
+ * Body: { providerId: string, name: string, mode?: 'live' | 'test' }
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, PERMISSIONS.manageApiKeys)
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    const body = await req.json().catch(() => ({}))
+    const name = typeof body.name === 'string' ? body.name.trim().slice(0, 100) : ''
+    if (!body.providerId || !name) {
+      return NextResponse.json({ error: 'providerId and name are required' }, { status: 400 })
+    }
+    const mode: ApiKeyMode = body.mode ?? 'live'
+    if (!API_KEY_MODES.includes(mode)) {
+      return NextResponse.json({ error: 'mode must be live or test' }, { status: 400 })
+    }
+
+    // Throws NotFound for unknown providers
+    await payload.findByID({
+      collection: 'providers',
+      id: String(body.providerId),
+      depth: 0,
+      overrideAccess: true,
+    })
+
+    const { key, apiKey } = await createProviderApiKey(payload, {
+      providerId: String(body.providerId),
+      name,
+      mode,
+      user,
+      audit: getAuditSource(req, user),
+    })
+
+    return NextResponse.json({ key, apiKey: toProviderApiKeyResponse(apiKey) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Provider API Keys API] Error creating key:', error)
+    return NextResponse.json({ error: 'Failed to create API key' }, { status: 500 })
+  }
+}
@@ -1,4 +1,5 @@
-import { getPayloadClient } from '@/lib/payload'
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
 import { NextResponse } from 'next/server'
 
 interface Provider {
@@ -10,9 +11,11 @@ interface Provider {
   createdAt: string
 }
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
-    const payload = await getPayloadClient()
+    const auth = await requireAdminUser(req, PERMISSIONS.viewProviders)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
     const result = await payload.find({
       collection: 'providers',
       sort: '-createdAt',
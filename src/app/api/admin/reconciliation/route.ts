@@ -0,0 +1,98 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import {
+  getDefaultReconciliationWindow,
+  MAX_RECONCILIATION_WINDOW_DAYS,
+  reconcileStripePayments,
+} from '@/lib/reconciliation'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+
+/**
+ * GET /api/admin/reconciliation
+ *
+ * Returns the latest reconciliation report (or `?id=` a specific one) and the recent runs.
+ */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, PERMISSIONS.viewReconciliation)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
+
+    const { searchParams } = new URL(req.url)
+    const id = searchParams.get('id')
+
+    const runs = await payload.find({
+      collection: 'reconciliation-reports',
+      sort: '-createdAt',
+      limit: 10,
+      depth: 0,
+      select: {
+        trigger: true,
+        status: true,
+        windowStart: true,
+        windowEnd: true,
+        summary: true,
+        createdAt: true,
+      },
+      overrideAccess: true,
+    })
+
+    const reportId = id || runs.docs[0]?.id
+    const report = reportId
+      ? await payload.findByID({
+          collection: 'reconciliation-reports',
+          id: reportId,
+          depth: 0,
+          overrideAccess: true,
+        })
+      : null
+
+    return NextResponse.json({ report, runs: runs.docs })
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Reconciliation API] Error fetching reports:', error)
+    return NextResponse.json({ error: 'Failed to fetch reconciliation reports' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/reconciliation
+ *
+ * Runs a reconciliation now and returns its report.
+ * Body: { from?: string, to?: string } — ISO dates, defaulting to the scheduled window
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, PERMISSIONS.runReconciliation)
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    const body = await req.json().catch(() => ({}))
+    const window = getDefaultReconciliationWindow()
+    const from = body.from ? new Date(body.from) : window.from
+    const to = body.to ? new Date(body.to) : window.to
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json({ error: 'from must be a date before to' }, { status: 400 })
+    }
+    if (to.getTime() - from.getTime() > MAX_RECONCILIATION_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `The window can be at most ${MAX_RECONCILIATION_WINDOW_DAYS} days` },
+        { status: 400 },
+      )
+    }
+
+    const report = await reconcileStripePayments(payload, { from, to, trigger: 'admin', user })
+
+    return NextResponse.json(report, { status: 201 })
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Reconciliation API] Error running reconciliation:', error)
+    return NextResponse.json({ error: 'Failed to run reconciliation' }, { status: 500 })
+  }
+}
@@ -1,40 +1,68 @@
-import { getPayloadClient } from '@/lib/payload'
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
 import { NextResponse } from 'next/server'
 import type { Where } from 'payload'
+import type { Service } from '@/payload-types'
+import {
+  getDateRangeWhere,
+  getOrderTotalsByProviderAndService,
+  getReportDateRange,
+  getReportTimeZone,
+} from '@/lib/order-reports'
+import { getReportLivemodeWhere } from '@/lib/livemode'
+
+interface ServiceRevenue {
+  name: string
+  slug: string
+  // Gross amount charged
+  revenue: number
+  platformFees: number
+  netPayable: number
+  orderCount: number
+  // Linked to the provider (orders can outlive a removed link)
+  linked: boolean
+  primary: boolean
+}
 
 interface ProviderRevenue {
   providerName: string
   providerSlug: string
+  // Gross amount charged
   revenue: number
+  // Kept by the platform
+  platformFees: number
+  // Owed to the provider
+  netPayable: number
   orderCount: number
-  services?: { name: string; slug: string; revenue: number; orderCount: number }[]
+  services?: ServiceRevenue[]
 }
 
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
-    const from = searchParams.get('from')
-    const to = searchParams.get('to')
     const service = searchParams.get('service')
     const statuses = searchParams.getAll('status')
 
-    const payload = await getPayloadClient()
+    const auth = await requireAdminUser(request, PERMISSIONS.viewReports)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
+
+    const zone = await getReportTimeZone(payload, searchParams)
+    if ('error' in zone) {
+      return NextResponse.json({ error: zone.error }, { status: 400 })
+    }
+    const range = getReportDateRange(searchParams, zone.timeZone)
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 })
+    }
 
     // Build filter conditions
     const filters: Where[] = []
 
     // Date filter
-    if (from || to) {
-      const createdAtFilter: Record<string, string> = {}
-      if (from) {
-        createdAtFilter.greater_than_equal = new Date(from).toISOString()
-      }
-      if (to) {
-        const toDate = new Date(to)
-        toDate.setHours(23, 59, 59, 999)
-        createdAtFilter.less_than_equal = toDate.toISOString()
-      }
-      filters.push({ createdAt: createdAtFilter })
+    const dateFilter = getDateRangeWhere(range)
+    if (dateFilter) {
+      filters.push(dateFilter)
     }
 
     // Status filter (multiple statuses supported)
@@ -49,9 +77,15 @@ export async function GET(request: Request) {
       filters.push({ status: { equals: 'paid' } })
     }
 
-    // Service filter
+    // Service filter (by slug)
     if (service) {
-      filters.push({ service: { equals: service } })
+      filters.push({ 'service.slug': { equals: service } })
+    }
+
+    // Test orders are left out unless requested
+    const livemodeFilter = getReportLivemodeWhere(searchParams)
+    if (livemodeFilter) {
+      filters.push(livemodeFilter)
     }
 
     // Build final where clause
@@ -62,90 +96,152 @@ export async function GET(request: Request) {
           ? filters[0]
           : { status: { equals: 'paid' } }
 
-    // Get orders with filters
-    const result = await payload.find({
-      collection: 'orders',
-      where: whereClause,
-      depth: 2, // Populate provider and service
-      limit: 1000,
+    // Totals per provider and service, summed by the database
+    const totals = await getOrderTotalsByProviderAndService(payload, whereClause)
+
+    // Start from every provider's linked services so links without orders show up too
+    const providers = await payload.find({
+      collection: 'providers',
+      depth: 1, // Populate linked services
+      pagination: false, // Every provider, however many there are
       overrideAccess: true,
     })
 
-    // Group revenue by provider
     const revenueByProvider = new Map<
       string,
-      ProviderRevenue & {
-        servicesBySlug: Map<
-          string,
-          { name: string; slug: string; revenue: number; orderCount: number }
-        >
-      }
+      ProviderRevenue & { servicesBySlug: Map<string, ServiceRevenue> }
     >()
 
-    for (const order of result.docs) {
-      const provider = order.provider as { name: string; slug: string } | undefined
+    for (const provider of providers.docs) {
+      const primaryId =
+        typeof provider.primaryService === 'string'
+          ? provider.primaryService
+          : provider.primaryService?.id
+      const servicesBySlug = new Map<string, ServiceRevenue>()
+
+      for (const link of provider.services || []) {
+        const linked = link.service as Service | string
+        if (!linked || typeof linked === 'string') continue
+        if (service && linked.slug !== service) continue
+        servicesBySlug.set(linked.slug, {
+          name: linked.title,
+          slug: linked.slug,
+          revenue: 0,
+          platformFees: 0,
+          netPayable: 0,
+          orderCount: 0,
+          linked: true,
+          primary: linked.id === primaryId,
+        })
+      }
+
+      // With a service filter, only providers linked to that service are listed
+      if (service && servicesBySlug.size === 0) continue
+
+      revenueByProvider.set(provider.slug, {
+        providerName: provider.name,
+        providerSlug: provider.slug,
+        revenue: 0,
+        platformFees: 0,
+        netPayable: 0,
+        orderCount: 0,
+        servicesBySlug,
+      })
+    }
+
+    // Providers and services with orders but missing from the lists above
+    const providersById = new Map(providers.docs.map((provider) => [provider.id, provider]))
+    const missingProviderIds = totals
+      .map((row) => row.provider)
+      .filter((id): id is string => !!id && !providersById.has(id))
+    if (missingProviderIds.length > 0) {
+      const missing = await payload.find({
+        collection: 'providers',
+        where: { id: { in: Array.from(new Set(missingProviderIds)) } },
+        depth: 0,
+        pagination: false,
+        overrideAccess: true,
+      })
+      for (const provider of missing.docs) providersById.set(provider.id, provider)
+    }
+
+    const serviceIds = Array.from(
+      new Set(totals.map((row) => row.service).filter((id): id is string => !!id)),
+    )
+    const servicesById = new Map<string, Service>()
+    if (serviceIds.length > 0) {
+      const orderServices = await payload.find({
+        collection: 'services',
+        where: { id: { in: serviceIds } },
+        depth: 0,
+        pagination: false,
+        overrideAccess: true,
+      })
+      for (const orderService of orderServices.docs) servicesById.set(orderService.id, orderService)
+    }
+
+    for (const row of totals) {
+      const provider = row.provider ? providersById.get(row.provider) : undefined
       const providerName = provider?.name || 'Direct Orders'
       const providerSlug = provider?.slug || 'direct'
-      const serviceData =
-        order.service && typeof order.service === 'object'
-          ? (order.service as { name?: string; slug?: string })
-          : undefined
-
-      const existing = revenueByProvider.get(providerSlug)
-      if (existing) {
-        existing.revenue += order.total || 0
-        existing.orderCount += 1
-
-        // Track service breakdown
-        if (serviceData?.slug) {
-          const serviceEntry = existing.servicesBySlug.get(serviceData.slug)
-          if (serviceEntry) {
-            serviceEntry.revenue += order.total || 0
-            serviceEntry.orderCount += 1
-          } else {
-            existing.servicesBySlug.set(serviceData.slug, {
-              name: serviceData.name || serviceData.slug,
-              slug: serviceData.slug,
-              revenue: order.total || 0,
-              orderCount: 1,
-            })
-          }
+      const serviceData = row.service ? servicesById.get(row.service) : undefined
+
+      let entry = revenueByProvider.get(providerSlug)
+      if (!entry) {
+        entry = {
+          providerName,
+          providerSlug,
+          revenue: 0,
+          platformFees: 0,
+          netPayable: 0,
+          orderCount: 0,
+          servicesBySlug: new Map(),
         }
-      } else {
-        const servicesBySlug = new Map<
-          string,
-          { name: string; slug: string; revenue: number; orderCount: number }
-        >()
-        if (serviceData?.slug) {
-          servicesBySlug.set(serviceData.slug, {
-            name: serviceData.name || serviceData.slug,
+        revenueByProvider.set(providerSlug, entry)
+      }
+
+      entry.revenue += row.grossAmount
+      entry.platformFees += row.platformFee
+      entry.netPayable += row.netAmount
+      entry.orderCount += row.orderCount
+
+      // Track service breakdown
+      if (serviceData?.slug) {
+        const serviceEntry = entry.servicesBySlug.get(serviceData.slug)
+        if (serviceEntry) {
+          serviceEntry.revenue += row.grossAmount
+          serviceEntry.platformFees += row.platformFee
+          serviceEntry.netPayable += row.netAmount
+          serviceEntry.orderCount += row.orderCount
+        } else {
+          entry.servicesBySlug.set(serviceData.slug, {
+            name: serviceData.title || serviceData.slug,
             slug: serviceData.slug,
-            revenue: order.total || 0,
-            orderCount: 1,
+            revenue: row.grossAmount,
+            platformFees: row.platformFee,
+            netPayable: row.netAmount,
+            orderCount: row.orderCount,
+            linked: false,
+            primary: false,
           })
         }
-        revenueByProvider.set(providerSlug, {
-          providerName,
-          providerSlug,
-          revenue: order.total || 0,
-          orderCount: 1,
-          servicesBySlug,
-        })
       }
     }
 
     // Convert to array and sort by revenue (descending)
-    const providers = Array.from(revenueByProvider.values())
+    const breakdown = Array.from(revenueByProvider.values())
       .map((p) => ({
         providerName: p.providerName,
         providerSlug: p.providerSlug,
         revenue: p.revenue,
+        platformFees: p.platformFees,
+        netPayable: p.netPayable,
         orderCount: p.orderCount,
         services: Array.from(p.servicesBySlug.values()).sort((a, b) => b.revenue - a.revenue),
       }))
       .sort((a, b) => b.revenue - a.revenue)
 
-    return NextResponse.json(providers)
+    return NextResponse.json(breakdown)
   } catch (error) {
     console.error('[Admin Provider Revenue API] Error:', error)
     return NextResponse.json({ error: 'Failed to fetch provider revenue' }, { status: 500 })
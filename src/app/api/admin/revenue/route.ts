@@ -1,47 +1,67 @@
-import { getPayloadClient } from '@/lib/payload'
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import {
+  EMPTY_ORDER_TOTALS,
+  getDateRangeWhere,
+  getOrderTotalsByStatus,
+  getReportDateRange,
+  getReportTimeZone,
+} from '@/lib/order-reports'
 import { NextResponse } from 'next/server'
+import { withReportLivemode } from '@/lib/livemode'
 
 interface RevenueStats {
+  // Gross amount of paid orders
   totalRevenue: number
+  // Kept by the platform
+  platformFees: number
+  // Owed to providers
+  netPayable: number
   paidOrdersCount: number
   averageOrderValue: number
   refundedAmount: number
   failedAmount: number
   pendingAmount: number
+  // Time zone the date range was read in
+  timeZone: string
 }
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const payload = await getPayloadClient()
+    const { searchParams } = new URL(request.url)
+    const auth = await requireAdminUser(request, PERMISSIONS.viewReports)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
 
-    // Get all orders to calculate revenue
-    const result = await payload.find({
-      collection: 'orders',
-      limit: 1000,
-      overrideAccess: true,
-    })
-
-    const orders = result.docs
-
-    const paidOrders = orders.filter((o) => o.status === 'paid')
-    const refundedOrders = orders.filter((o) => o.status === 'refunded')
-    const failedOrders = orders.filter((o) => o.status === 'failed')
-    const pendingOrders = orders.filter((o) => o.status === 'pending')
+    const zone = await getReportTimeZone(payload, searchParams)
+    if ('error' in zone) {
+      return NextResponse.json({ error: zone.error }, { status: 400 })
+    }
+    const range = getReportDateRange(searchParams, zone.timeZone)
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 })
+    }
 
-    const totalRevenue = paidOrders.reduce((sum, o) => sum + (o.total || 0), 0)
-    const refundedAmount = refundedOrders.reduce((sum, o) => sum + (o.total || 0), 0)
-    const failedAmount = failedOrders.reduce((sum, o) => sum + (o.total || 0), 0)
-    const pendingAmount = pendingOrders.reduce((sum, o) => sum + (o.total || 0), 0)
+    // Live orders only, unless test orders are requested
+    const totals = await getOrderTotalsByStatus(
+      payload,
+      withReportLivemode(getDateRangeWhere(range), searchParams),
+    )
+    const paid = totals.get('paid') || EMPTY_ORDER_TOTALS
 
-    const averageOrderValue = paidOrders.length > 0 ? totalRevenue / paidOrders.length : 0
+    const totalRevenue = paid.grossAmount
+    const averageOrderValue = paid.orderCount > 0 ? totalRevenue / paid.orderCount : 0
 
     const stats: RevenueStats = {
       totalRevenue,
-      paidOrdersCount: paidOrders.length,
+      platformFees: paid.platformFee,
+      netPayable: paid.netAmount,
+      paidOrdersCount: paid.orderCount,
       averageOrderValue,
-      refundedAmount,
-      failedAmount,
-      pendingAmount,
+      refundedAmount: totals.get('refunded')?.total || 0,
+      failedAmount: totals.get('failed')?.total || 0,
+      pendingAmount: totals.get('pending')?.total || 0,
+      timeZone: zone.timeZone,
     }
 
     return NextResponse.json(stats)
@@ -0,0 +1,87 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { NextResponse } from 'next/server'
+import type { Where } from 'payload'
+import { withReportLivemode } from '@/lib/livemode'
+import {
+  getDateRangeWhere,
+  getOrderSeries,
+  getReportDateRange,
+  getReportTimeZone,
+  getSeriesBuckets,
+  MAX_SERIES_BUCKETS,
+  REPORT_INTERVALS,
+  type ReportInterval,
+} from '@/lib/order-reports'
+
+// Range shown when no dates are given: the last 6 months, 12 weeks or 30 days
+const DEFAULT_BUCKETS: Record<ReportInterval, number> = { month: 6, week: 12, day: 30 }
+
+/**
+ * GET /api/admin/revenue/series
+ *
+ * Paid-order revenue per day, week or month, one entry per bucket (zero when there were no
+ * orders). Buckets start at midnight in the reporting time zone.
+ * Query: interval (day, week or month; default month), from / to, tz, testOrders
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const auth = await requireAdminUser(request, PERMISSIONS.viewReports)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
+
+    const interval = (searchParams.get('interval') || 'month') as ReportInterval
+    if (!REPORT_INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { error: `interval must be one of: ${REPORT_INTERVALS.join(', ')}` },
+        { status: 400 },
+      )
+    }
+
+    const zone = await getReportTimeZone(payload, searchParams)
+    if ('error' in zone) {
+      return NextResponse.json({ error: zone.error }, { status: 400 })
+    }
+    const range = getReportDateRange(searchParams, zone.timeZone)
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 })
+    }
+    const to = range.to || new Date()
+    const from = range.from || new Date(to)
+    if (!range.from) {
+      if (interval === 'month') {
+        // Mid-month, so no time zone moves it into a neighbouring month
+        from.setUTCMonth(from.getUTCMonth() - (DEFAULT_BUCKETS.month - 1), 15)
+      } else {
+        const days = interval === 'week' ? 7 * (DEFAULT_BUCKETS.week - 1) : DEFAULT_BUCKETS.day - 1
+        from.setUTCDate(from.getUTCDate() - days)
+      }
+    }
+
+    const buckets = getSeriesBuckets(from, to, interval, zone.timeZone)
+    if (!buckets) {
+      return NextResponse.json(
+        { error: `Date range too long: at most ${MAX_SERIES_BUCKETS} ${interval}s` },
+        { status: 400 },
+      )
+    }
+
+    const conditions: Where[] = [
+      getDateRangeWhere({ from: buckets[0], to })!,
+      { status: { equals: 'paid' } },
+    ]
+    const series = await getOrderSeries(
+      payload,
+      withReportLivemode({ and: conditions }, searchParams),
+      interval,
+      zone.timeZone,
+      buckets,
+    )
+
+    return NextResponse.json({ interval, timeZone: zone.timeZone, series })
+  } catch (error) {
+    console.error('[Admin Revenue Series API] Error:', error)
+    return NextResponse.json({ error: 'Failed to fetch revenue series' }, { status: 500 })
+  }
+}
@@ -1,9 +1,12 @@
-import { getPayloadClient } from '@/lib/payload'
+import { requireAdminUser } from '@/lib/admin-auth'
+import { USER_ROLES } from '@/lib/permissions'
 import { NextResponse } from 'next/server'
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
-    const payload = await getPayloadClient()
+    const auth = await requireAdminUser(req, USER_ROLES)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
 
     const result = await payload.find({
       collection: 'services',
@@ -1,6 +1,13 @@
-import { getPayloadClient } from '@/lib/payload'
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
 import { NextResponse } from 'next/server'
-import type { Where } from 'payload'
+import { withReportLivemode } from '@/lib/livemode'
+import {
+  countOrdersByStatus,
+  getDateRangeWhere,
+  getReportDateRange,
+  getReportTimeZone,
+} from '@/lib/order-reports'
 
 export interface OrderStats {
   totalOrders: number
@@ -17,76 +24,40 @@ export async function GET(request: Request) {
     const to = searchParams.get('to')
 
     console.log('[Admin Stats API] Starting request...', { from, to })
-    const payload = await getPayloadClient()
+    const auth = await requireAdminUser(request, PERMISSIONS.viewReports)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
     console.log('[Admin Stats API] Payload client initialized')
 
-    // Build date filter if provided
-    let dateFilter: Where | undefined
-    if (from || to) {
-      const createdAtFilter: Record<string, string> = {}
-      if (from) {
-        createdAtFilter.greater_than_equal = new Date(from).toISOString()
-      }
-      if (to) {
-        const toDate = new Date(to)
-        toDate.setHours(23, 59, 59, 999)
-        createdAtFilter.less_than_equal = toDate.toISOString()
-      }
-      dateFilter = { createdAt: createdAtFilter }
+    const zone = await getReportTimeZone(payload, searchParams)
+    if ('error' in zone) {
+      return NextResponse.json({ error: zone.error }, { status: 400 })
+    }
+    const range = getReportDateRange(searchParams, zone.timeZone)
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 })
     }
 
-    // Get total orders count (filtered by date if provided)
-    console.log('[Admin Stats API] Fetching total orders count...')
-    const totalOrdersResult = await payload.count({
-      collection: 'orders',
-      where: dateFilter,
-      overrideAccess: true,
-    })
-    console.log('[Admin Stats API] Total orders:', totalOrdersResult.totalDocs)
-
-    // Get pending orders count
-    const pendingOrdersResult = await payload.count({
-      collection: 'orders',
-      where: dateFilter
-        ? { and: [dateFilter, { status: { equals: 'pending' } }] }
-        : { status: { equals: 'pending' } },
-      overrideAccess: true,
-    })
-
-    // Get failed orders count
-    const failedOrdersResult = await payload.count({
-      collection: 'orders',
-      where: dateFilter
-        ? { and: [dateFilter, { status: { equals: 'failed' } }] }
-        : { status: { equals: 'failed' } },
-      overrideAccess: true,
-    })
-
-    // Get paid/successful orders count
-    const paidOrdersResult = await payload.count({
-      collection: 'orders',
-      where: dateFilter
-        ? { and: [dateFilter, { status: { equals: 'paid' } }] }
-        : { status: { equals: 'paid' } },
-      overrideAccess: true,
-    })
-
-    // Get orders from the last 30 days for recent orders (or within date range)
+    // Counts per status in one pass; without a date range, "recent" is the last 30 days
     const thirtyDaysAgo = new Date()
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
 
-    const recentOrdersResult = await payload.count({
-      collection: 'orders',
-      where: dateFilter || { createdAt: { greater_than: thirtyDaysAgo.toISOString() } },
-      overrideAccess: true,
-    })
+    console.log('[Admin Stats API] Counting orders...')
+    const counts = await countOrdersByStatus(
+      payload,
+      withReportLivemode(getDateRangeWhere(range), searchParams),
+      range.from || range.to ? new Date(0) : thirtyDaysAgo,
+    )
+
+    const sum = (key: 'count' | 'recent') =>
+      Array.from(counts.values()).reduce((total, entry) => total + entry[key], 0)
 
     const stats: OrderStats = {
-      totalOrders: totalOrdersResult.totalDocs || 0,
-      pendingOrders: pendingOrdersResult.totalDocs || 0,
-      failedOrders: failedOrdersResult.totalDocs || 0,
-      recentOrdersCount: recentOrdersResult.totalDocs || 0,
-      paidOrders: paidOrdersResult.totalDocs || 0,
+      totalOrders: sum('count'),
+      pendingOrders: counts.get('pending')?.count || 0,
+      failedOrders: counts.get('failed')?.count || 0,
+      recentOrdersCount: sum('recent'),
+      paidOrders: counts.get('paid')?.count || 0,
     }
 
     console.log('[Admin Stats API] Returning stats:', stats)
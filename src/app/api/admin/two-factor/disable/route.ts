@@ -0,0 +1,35 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { USER_ROLES } from '@/lib/permissions'
+import { getAuditSource } from '@/lib/audit-log'
+import { disableTwoFactor } from '@/lib/two-factor'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+
+/**
+ * POST /api/admin/two-factor/disable
+ *
+ * Body: { code } to turn off your own two-factor (not allowed for admin and finance users),
+ * or { userId } for an admin resetting another user who lost their device and recovery codes.
+ * A reset user who must use two-factor enrolls again at their next sign-in.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, USER_ROLES)
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    const body = await req.json().catch(() => ({}))
+    await disableTwoFactor(payload, user, {
+      userId: typeof body.userId === 'string' ? body.userId : undefined,
+      code: typeof body.code === 'string' ? body.code : undefined,
+      audit: getAuditSource(req, user),
+    })
+    return NextResponse.json({ enabled: false })
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Two-Factor API] Error disabling:', error)
+    return NextResponse.json({ error: 'Failed to disable two-factor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { USER_ROLES } from '@/lib/permissions'
+import { getAuditSource } from '@/lib/audit-log'
+import { regenerateRecoveryCodes } from '@/lib/two-factor'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+
+/**
+ * POST /api/admin/two-factor/recovery-codes
+ *
+ * Body: { code } from the authenticator app.
+ * Replaces every recovery code; the new `recoveryCodes` are only included in this response.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, USER_ROLES)
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    const body = await req.json().catch(() => ({}))
+    if (typeof body.code !== 'string') {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 })
+    }
+
+    const result = await regenerateRecoveryCodes(payload, user, {
+      code: body.code,
+      audit: getAuditSource(req, user),
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Two-Factor API] Error regenerating recovery codes:', error)
+    return NextResponse.json({ error: 'Failed to regenerate recovery codes' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { USER_ROLES } from '@/lib/permissions'
+import { getTwoFactorStatus } from '@/lib/two-factor'
+import { NextResponse } from 'next/server'
+
+/**
+ * GET /api/admin/two-factor
+ *
+ * Two-factor status of the logged-in user and this session:
+ * `{ enabled, required, verified, recoveryCodesRemaining }`. Answered before two-factor passes,
+ * so the admin panel knows where to send the user.
+ */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, USER_ROLES, { allowTwoFactorPending: true })
+    if ('response' in auth) return auth.response
+
+    return NextResponse.json(getTwoFactorStatus(auth.user))
+  } catch (error) {
+    console.error('[Admin Two-Factor API] Error:', error)
+    return NextResponse.json({ error: 'Failed to fetch two-factor status' }, { status: 500 })
+  }
+}
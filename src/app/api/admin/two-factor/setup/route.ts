@@ -0,0 +1,27 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { USER_ROLES } from '@/lib/permissions'
+import { startTwoFactorSetup } from '@/lib/two-factor'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+
+/**
+ * POST /api/admin/two-factor/setup
+ *
+ * Starts enrollment: returns a new `secret` and its `uri` (otpauth://) for an authenticator app.
+ * Nothing changes until `POST /api/admin/two-factor/enable` confirms a code.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, USER_ROLES, { allowTwoFactorPending: true })
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    return NextResponse.json(await startTwoFactorSetup(payload, user))
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Two-Factor API] Error starting setup:', error)
+    return NextResponse.json({ error: 'Failed to start two-factor setup' }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { USER_ROLES } from '@/lib/permissions'
+import { getAuditSource } from '@/lib/audit-log'
+import { verifyTwoFactor } from '@/lib/two-factor'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+
+/**
+ * POST /api/admin/two-factor/verify
+ *
+ * Body: { code } from the authenticator app, or { recoveryCode }, which is used up.
+ * Marks this login session as verified. Five wrong codes in a row lock the account
+ * for 15 minutes and end its sessions.
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, USER_ROLES, { allowTwoFactorPending: true })
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    const body = await req.json().catch(() => ({}))
+    const code = typeof body.code === 'string' ? body.code : undefined
+    const recoveryCode = typeof body.recoveryCode === 'string' ? body.recoveryCode : undefined
+    if (!code && !recoveryCode) {
+      return NextResponse.json({ error: 'code or recoveryCode is required' }, { status: 400 })
+    }
+
+    await verifyTwoFactor(payload, user, {
+      code,
+      recoveryCode,
+      audit: getAuditSource(req, user),
+    })
+    return NextResponse.json({ verified: true })
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Two-Factor API] Error verifying:', error)
+    return NextResponse.json({ error: 'Failed to verify two-factor' }, { status: 500 })
+  }
+}
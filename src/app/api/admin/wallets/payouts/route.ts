@@ -0,0 +1,54 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { getAuditSource, recordAuditLog } from '@/lib/audit-log'
+import { recordPayout } from '@/lib/provider-ledger'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+
+/**
+ * POST /api/admin/wallets/payouts
+ *
+ * Records a payout made to a provider, debiting its balance.
+ * Body: { providerId: string, amount: number, reference: string, note?: string }
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, PERMISSIONS.recordPayouts)
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    const body = await req.json().catch(() => ({}))
+    const reference = typeof body.reference === 'string' ? body.reference.trim().slice(0, 100) : ''
+    const note = typeof body.note === 'string' ? body.note.trim().slice(0, 200) : ''
+    if (!body.providerId || typeof body.amount !== 'number' || !reference) {
+      return NextResponse.json(
+        { error: 'providerId, amount and reference are required' },
+        { status: 400 },
+      )
+    }
+
+    const entry = await recordPayout(payload, {
+      providerId: String(body.providerId),
+      amount: body.amount,
+      reference,
+      note: note || undefined,
+      user,
+    })
+
+    await recordAuditLog(payload, {
+      action: 'payout',
+      collectionSlug: 'providers',
+      documentId: String(body.providerId),
+      summary: `Recorded a $${entry.amount.toFixed(2)} payout (${reference})`,
+      source: getAuditSource(req, user),
+    })
+
+    return NextResponse.json(entry, { status: 201 })
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Wallets API] Error recording payout:', error)
+    return NextResponse.json({ error: 'Failed to record payout' }, { status: 500 })
+  }
+}
@@ -0,0 +1,82 @@
+import { describeFeeSchedule } from '@/lib/fee-schedule'
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { summarizeLedger, type LedgerSummary } from '@/lib/provider-ledger'
+import { NextResponse } from 'next/server'
+
+interface ProviderWallet extends LedgerSummary {
+  providerId: string
+  providerName: string
+  providerSlug: string
+  status: string
+  feeSchedule: string
+  lastPayoutAt: string | null
+}
+
+/**
+ * GET /api/admin/wallets
+ *
+ * Ledger balance per provider (what the platform currently owes it) with lifetime totals.
+ */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, PERMISSIONS.viewLedger)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
+
+    const [providers, entries] = await Promise.all([
+      payload.find({
+        collection: 'providers',
+        sort: 'name',
+        depth: 0,
+        pagination: false,
+        overrideAccess: true,
+        select: { name: true, slug: true, status: true, feeSchedule: true },
+      }),
+      payload.find({
+        collection: 'ledger-entries',
+        depth: 0,
+        pagination: false,
+        overrideAccess: true,
+        select: {
+          provider: true,
+          type: true,
+          amount: true,
+          debitAccount: true,
+          creditAccount: true,
+          occurredAt: true,
+        },
+      }),
+    ])
+
+    const entriesByProvider = new Map<string, typeof entries.docs>()
+    for (const entry of entries.docs) {
+      const providerId = typeof entry.provider === 'string' ? entry.provider : entry.provider.id
+      entriesByProvider.set(providerId, [...(entriesByProvider.get(providerId) || []), entry])
+    }
+
+    const wallets: ProviderWallet[] = providers.docs.map((provider) => {
+      const providerEntries = entriesByProvider.get(provider.id) || []
+      const lastPayout = providerEntries
+        .filter((entry) => entry.type === 'payout')
+        .map((entry) => entry.occurredAt)
+        .sort()
+        .pop()
+
+      return {
+        providerId: provider.id,
+        providerName: provider.name,
+        providerSlug: provider.slug,
+        status: provider.status,
+        feeSchedule: describeFeeSchedule(provider.feeSchedule),
+        lastPayoutAt: lastPayout || null,
+        ...summarizeLedger(providerEntries),
+      }
+    })
+
+    return NextResponse.json(wallets)
+  } catch (error) {
+    console.error('[Admin Wallets API] Error loading balances:', error)
+    return NextResponse.json({ error: 'Failed to load provider balances' }, { status: 500 })
+  }
+}
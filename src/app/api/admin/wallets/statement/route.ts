@@ -0,0 +1,69 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { getProviderStatement, statementToCsv } from '@/lib/provider-ledger'
+import { getReportTimeZone } from '@/lib/order-reports'
+import { parseReportDate } from '@/lib/timezone'
+import { NextResponse } from 'next/server'
+import { APIError } from 'payload'
+
+/**
+ * GET /api/admin/wallets/statement?providerId=...&from=YYYY-MM-DD&to=YYYY-MM-DD&format=csv
+ *
+ * Provider statement for a period (both dates inclusive): opening balance, entries, closing
+ * balance and reconciliation against the orders collection. JSON unless `format=csv`.
+ * Days are in the reporting time zone, or in `tz` if given.
+ */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireAdminUser(req, PERMISSIONS.viewLedger)
+    if ('response' in auth) return auth.response
+    const { payload } = auth
+
+    const { searchParams } = new URL(req.url)
+    const providerId = searchParams.get('providerId')
+    const zone = await getReportTimeZone(payload, searchParams)
+    if ('error' in zone) {
+      return NextResponse.json({ error: zone.error }, { status: 400 })
+    }
+    const from = parseReportDate(searchParams.get('from') || '', zone.timeZone)
+    // Include the whole `to` day
+    const endOfDay = parseReportDate(searchParams.get('to') || '', zone.timeZone, true)
+    if (!providerId || !from || !endOfDay) {
+      return NextResponse.json({ error: 'providerId, from and to are required' }, { status: 400 })
+    }
+
+    const to = new Date(endOfDay.getTime() + 1)
+    if (to <= from) {
+      return NextResponse.json({ error: 'from must be before to' }, { status: 400 })
+    }
+
+    // Throws NotFound for unknown providers
+    const provider = await payload.findByID({
+      collection: 'providers',
+      id: providerId,
+      depth: 0,
+      overrideAccess: true,
+      select: { name: true, slug: true },
+    })
+
+    const statement = await getProviderStatement(payload, providerId, { from, to })
+
+    if (searchParams.get('format') !== 'csv') {
+      return NextResponse.json(statement)
+    }
+
+    const filename = `statement-${provider.slug}-${searchParams.get('from')}-${searchParams.get('to')}.csv`
+    return new NextResponse(statementToCsv(statement, provider.name), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Admin Wallets API] Error building statement:', error)
+    return NextResponse.json({ error: 'Failed to build statement' }, { status: 500 })
+  }
+}
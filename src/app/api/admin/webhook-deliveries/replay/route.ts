@@ -0,0 +1,77 @@
+import { requireAdminUser } from '@/lib/admin-auth'
+import { PERMISSIONS } from '@/lib/permissions'
+import { getAuditSource, recordAuditLog } from '@/lib/audit-log'
+import { replayWebhookDelivery } from '@/lib/webhook-delivery'
+import { NextResponse } from 'next/server'
+
+const MAX_BULK_REPLAY = 100
+
+/**
+ * POST /api/admin/webhook-deliveries/replay
+ *
+ * Replays one or more provider webhook deliveries with a fresh attempt budget.
+ * Body: { ids: string[] } or { status: 'dead_letter' } to replay every dead-lettered delivery.
+ */
+export async function POST(req: Request) {
+  try {
+    // Replays send real requests to providers, so only admins and support may trigger them
+    const auth = await requireAdminUser(req, PERMISSIONS.replayWebhooks)
+    if ('response' in auth) return auth.response
+    const { payload, user } = auth
+
+    const body = await req.json().catch(() => ({}))
+    let ids: string[] = Array.isArray(body.ids) ? body.ids.map(String) : []
+
+    if (ids.length === 0 && body.status === 'dead_letter') {
+      const deadLetters = await payload.find({
+        collection: 'webhook-deliveries',
+        where: { status: { equals: 'dead_letter' } },
+        sort: 'createdAt',
+        limit: MAX_BULK_REPLAY,
+        depth: 0,
+        overrideAccess: true,
+      })
+      ids = deadLetters.docs.map((doc) => doc.id)
+    }
+
+    if (ids.length === 0) {
+      return NextResponse.json({ error: 'No deliveries selected' }, { status: 400 })
+    }
+
+    if (ids.length > MAX_BULK_REPLAY) {
+      return NextResponse.json(
+        { error: `Cannot replay more than ${MAX_BULK_REPLAY} deliveries at once` },
+        { status: 400 },
+      )
+    }
+
+    const results: { id: string; status: string; error?: string | null }[] = []
+    const source = getAuditSource(req, user)
+
+    for (const id of ids) {
+      try {
+        const delivery = await replayWebhookDelivery(payload, id)
+        results.push({ id, status: delivery.status, error: delivery.lastError })
+      } catch (err) {
+        results.push({ id, status: 'error', error: err instanceof Error ? err.message : 'Unknown' })
+      }
+
+      await recordAuditLog(payload, {
+        action: 'replay',
+        collectionSlug: 'webhook-deliveries',
+        documentId: id,
+        summary: `Replayed webhook delivery ${id}: ${results[results.length - 1].status}`,
+        source,
+      })
+    }
+
+    return NextResponse.json({
+      replayed: results.length,
+      delivered: results.filter((r) => r.status === 'delivered').length,
+      results,
+    })
+  } catch (error) {
+    console.error('[Admin Webhook Replay API] Error:', error)
+    return NextResponse.json({ error: 'Failed to replay webhook deliveries' }, { status: 500 })
+  }
+}
@@ -1,14 +1,26 @@
 import { getPayloadClient } from '@/lib/payload'
-import { getStripe } from '@/lib/stripe'
+import { getClientPublishableKey, getStripeAccountForOrder } from '@/lib/stripe-accounts'
 import { NextResponse } from 'next/server'
 import { isValidCheckoutToken } from '@/lib/checkout-token'
+import {
+  expireCheckout,
+  getCheckoutDeadline,
+  getDefaultCheckoutExpiryMinutes,
+  isCheckoutExpired,
+} from '@/lib/checkout-expiry'
+import { AWAITING_PAYMENT_STATUSES } from '@/lib/order-status'
+import { resolveAmountRules } from '@/lib/amount-rules'
+import { DEFAULT_PAYMENT_METHODS } from '@/lib/payment-methods'
+import { findProviderServiceLink } from '@/lib/provider-services'
 import type { Service, Provider } from '@/payload-types'
+import type Stripe from 'stripe'
 
 /**
  * GET /api/checkout-session/[token]
  *
  * Resolves a checkout token to the full checkout session data.
  * This is the secure replacement for exposing serviceId + orderId in the URL.
+ * Links past their expiry respond with 410 and `errorCode: 'CHECKOUT_EXPIRED'`.
  */
 export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
   try {
@@ -45,26 +57,42 @@ export async function GET(_req: Request, { params }: { params: Promise<{ token:
     // Get provider info
     const provider = order.provider as Provider | null
     const providerName = provider && typeof provider !== 'string' ? provider.name : undefined
+    // Per-order URLs sent by the provider take precedence over the provider defaults
     const successRedirectUrl =
-      provider && typeof provider !== 'string' ? provider.successRedirectUrl : undefined
+      order.successRedirectUrl ||
+      (provider && typeof provider !== 'string' ? provider.successRedirectUrl : undefined)
     const cancelRedirectUrl =
-      provider && typeof provider !== 'string' ? provider.cancelRedirectUrl : undefined
+      order.cancelRedirectUrl ||
+      (provider && typeof provider !== 'string' ? provider.cancelRedirectUrl : undefined)
+
+    // Amount rules the order was priced with (service rules plus provider overrides)
+    const amountRules = resolveAmountRules(
+      service,
+      provider && typeof provider !== 'string'
+        ? findProviderServiceLink(provider, service.id)
+        : null,
+    )
 
     // If order has a payment intent, retrieve the client secret
     let clientSecret: string | null = null
     let effectiveStatus = order.status
+    let paymentIntent: Stripe.PaymentIntent | undefined
+    // Publishable key of a service's or provider's own Stripe account, or the test account
+    let stripePublishableKey: string | undefined
 
     if (order.stripePaymentIntentId) {
       try {
-        const stripe = getStripe()
-        const paymentIntent = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId)
+        const stripeAccount = await getStripeAccountForOrder(payload, order)
+        const { stripe } = stripeAccount
+        stripePublishableKey = getClientPublishableKey(stripeAccount)
+        paymentIntent = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId)
         clientSecret = paymentIntent.client_secret
 
         // Check if Stripe status is ahead of DB (webhook lag or missing webhook)
         // If so, update the DB as a fallback — don't rely solely on webhooks
         if (
           paymentIntent.status === 'succeeded' &&
-          (effectiveStatus === 'pending' || effectiveStatus === 'failed')
+          AWAITING_PAYMENT_STATUSES.includes(effectiveStatus)
         ) {
           effectiveStatus = 'paid'
           // Actually persist the status update to the database
@@ -76,6 +104,7 @@ export async function GET(_req: Request, { params }: { params: Promise<{ token:
                 status: 'paid',
               },
               overrideAccess: true,
+              context: { statusSource: 'sync', statusNote: 'checkout-session fallback' },
             })
             console.log(
               `[CHECKOUT-SESSION] Order ${order.id} updated to 'paid' (fallback — Stripe confirmed succeeded but DB was '${order.status}')`,
@@ -97,6 +126,7 @@ export async function GET(_req: Request, { params }: { params: Promise<{ token:
               id: order.id,
               data: { status: 'failed' },
               overrideAccess: true,
+              context: { statusSource: 'sync', statusNote: 'checkout-session fallback' },
             })
             console.log(
               `[CHECKOUT-SESSION] Order ${order.id} updated to 'failed' (Stripe status: ${paymentIntent.status})`,
@@ -111,15 +141,56 @@ export async function GET(_req: Request, { params }: { params: Promise<{ token:
       }
     }
 
+    // Expire the order now if the sweeper has not reached it yet
+    const defaultExpiryMinutes = await getDefaultCheckoutExpiryMinutes(payload)
+    if (isCheckoutExpired({ ...order, status: effectiveStatus }, defaultExpiryMinutes)) {
+      try {
+        const result = await expireCheckout(payload, order, {
+          note: 'checkout-session expired',
+          paymentIntent,
+        })
+        effectiveStatus = result.order.status
+      } catch (err) {
+        console.error('[CHECKOUT-SESSION] Failed to expire order:', err)
+        return NextResponse.json({ error: 'Failed to retrieve payment session' }, { status: 500 })
+      }
+    }
+
+    if (effectiveStatus === 'expired') {
+      return NextResponse.json(
+        {
+          error: 'This checkout link has expired',
+          errorCode: 'CHECKOUT_EXPIRED',
+          orderId: order.id,
+          externalId: order.externalId || null,
+          status: effectiveStatus,
+          expiredAt: getCheckoutDeadline(order, defaultExpiryMinutes).toISOString(),
+          ...(providerName && { provider: providerName }),
+          ...(cancelRedirectUrl && { cancelRedirectUrl }),
+        },
+        { status: 410 },
+      )
+    }
+
     return NextResponse.json({
       clientSecret,
       orderId: order.id,
+      externalId: order.externalId || null,
       checkoutToken: token,
       status: effectiveStatus,
+      expiresAt: getCheckoutDeadline(order, defaultExpiryMinutes).toISOString(),
+      // Payments that need extra steps or settle later (e.g. ACH debits)
+      paymentIntentStatus: paymentIntent?.status || null,
+      ...(paymentIntent?.next_action?.verify_with_microdeposits && {
+        verificationUrl:
+          paymentIntent.next_action.verify_with_microdeposits.hosted_verification_url,
+      }),
+      paymentMethods: order.paymentMethods?.length ? order.paymentMethods : DEFAULT_PAYMENT_METHODS,
       amount: order.total,
       quantity: order.quantity || 1,
       serviceName: service.title,
       serviceId: service.id,
+      ...(stripePublishableKey && { stripePublishableKey }),
       // Service data for the UI
       service: {
         id: service.id,
@@ -129,6 +200,7 @@ export async function GET(_req: Request, { params }: { params: Promise<{ token:
         slug: service.slug,
         icon: service.icon || undefined,
         priceUnit: service.priceUnit || undefined,
+        amountRules,
       },
       // Provider info
       ...(providerName && { provider: providerName }),
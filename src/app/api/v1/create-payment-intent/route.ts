@@ -1,11 +1,45 @@
 import { getPayloadClient } from '@/lib/payload'
 import { NextResponse } from 'next/server'
-import { getStripe } from '@/lib/stripe'
-import { isValidApiKeyFormat } from '@/lib/api-key'
+import {
+  getClientPublishableKey,
+  getStripeAccountForOrder,
+  resolveStripeAccount,
+  type StripeAccountSource,
+} from '@/lib/stripe-accounts'
+import { getBearerApiKey } from '@/lib/api-key'
+import { authenticateProviderApiKey } from '@/lib/provider-api-keys'
 import { generateCheckoutToken } from '@/lib/checkout-token'
-import type { Payload } from 'payload'
+import { getCheckoutExpiryMinutes } from '@/lib/checkout-expiry'
+import { evaluateAmount, resolveAmountRules } from '@/lib/amount-rules'
+import {
+  DEFAULT_PAYMENT_METHODS,
+  describePaymentMethods,
+  resolvePaymentMethods,
+  toStripePaymentMethodTypes,
+  type PaymentMethod,
+} from '@/lib/payment-methods'
+import {
+  findProviderServiceLink,
+  resolveProviderService,
+  type ProviderServiceLink,
+} from '@/lib/provider-services'
+import {
+  validateProviderCheckoutOptions,
+  type ProviderCheckoutOptions,
+} from '@/lib/provider-checkout-options'
+import { APIError, type Payload } from 'payload'
+import Stripe from 'stripe'
 import type { Service, Order, Provider } from '@/payload-types'
 import { generateOrderId } from '@/lib/order-generator'
+import { AWAITING_PAYMENT_STATUSES } from '@/lib/order-status'
+import {
+  claimIdempotencyKey,
+  finishIdempotencyKey,
+  fingerprintRequest,
+  getStripeIdempotencyKey,
+  IDEMPOTENCY_KEY_HEADER,
+  isValidIdempotencyKey,
+} from '@/lib/idempotency'
 
 /**
  * Helper function to create a pending order with retry logic
@@ -22,6 +56,11 @@ async function createPendingOrderWithRetry(
     externalId?: string
     clientOrderId?: string
     checkoutToken: string
+    checkoutExpiresAt: string
+    checkoutOptions: ProviderCheckoutOptions
+    paymentMethods: PaymentMethod[]
+    stripeAccount: StripeAccountSource
+    livemode: boolean
   },
   maxRetries: number = 3,
 ): Promise<Order> {
@@ -72,14 +111,29 @@ async function createPendingOrderWithRetry(
           quantity: orderData.quantity || 1,
           stripePaymentIntentId: orderData.paymentIntentId,
           checkoutToken: orderData.checkoutToken,
+          checkoutExpiresAt: orderData.checkoutExpiresAt,
+          paymentMethods: orderData.paymentMethods,
+          stripeAccount: orderData.stripeAccount,
+          livemode: orderData.livemode,
           // Store provider reference if applicable
           ...(orderData.providerId && { provider: orderData.providerId }),
           // Store external ID for provider tracking
           ...(orderData.externalId && { externalId: orderData.externalId }),
           // Store client-generated Order ID
           ...(orderData.clientOrderId && { orderId: orderData.clientOrderId }),
+          // Per-order redirect URLs and metadata sent by the provider
+          ...(orderData.checkoutOptions.successUrl && {
+            successRedirectUrl: orderData.checkoutOptions.successUrl,
+          }),
+          ...(orderData.checkoutOptions.cancelUrl && {
+            cancelRedirectUrl: orderData.checkoutOptions.cancelUrl,
+          }),
+          ...(orderData.checkoutOptions.metadata && {
+            metadata: orderData.checkoutOptions.metadata,
+          }),
         },
         overrideAccess: true,
+        context: { statusSource: 'api', statusNote: 'create-payment-intent' },
       })
 
       console.log(`Successfully created pending order: ${order.id}`)
@@ -128,68 +182,51 @@ async function createPendingOrderWithRetry(
 }
 
 /**
- * Validate provider API key and return provider with linked service
+ * Validate provider API key and return the provider with its linked services populated,
+ * and whether the key is a live or test key
  */
 async function validateProviderApiKey(
   payload: Payload,
   apiKey: string,
-): Promise<{ provider: Provider; service: Service } | null> {
-  // Quick format check before database query
-  if (!isValidApiKeyFormat(apiKey)) {
-    console.warn('Invalid API key format provided')
-    return null
-  }
-
+): Promise<{ provider: Provider; livemode: boolean } | null> {
   try {
-    const result = await payload.find({
-      collection: 'providers',
-      where: {
-        apiKey: { equals: apiKey },
-        status: { equals: 'active' },
-      },
-      limit: 1,
-      depth: 1, // Populate the service relationship
-    })
+    const result = await authenticateProviderApiKey(payload, apiKey)
 
-    if (result.docs.length === 0) {
+    if (!result) {
       console.warn('No active provider found for API key')
       return null
     }
 
-    const provider = result.docs[0]
-
-    // Get the linked service
-    const service = provider.service as Service
-    if (!service || typeof service === 'string') {
-      console.error('Provider service not populated or missing')
-      return null
-    }
-
-    // Update last used timestamp (fire and forget)
-    payload
-      .update({
-        collection: 'providers',
-        id: provider.id,
-        data: {
-          lastUsedAt: new Date().toISOString(),
-        },
-      })
-      .catch((err) => console.error('Failed to update lastUsedAt:', err))
-
-    return {
-      provider,
-      service,
-    }
+    return { provider: result.provider, livemode: result.livemode }
   } catch (error) {
     console.error('Error validating provider API key:', error)
     return null
   }
 }
 
-export async function POST(req: Request) {
+/**
+ * Create (or resume) a payment session
+ * Requests made with an Idempotency-Key header come with the provider `POST` already
+ * authenticated and the derived `stripeIdempotencyKey`
+ */
+async function createPaymentIntent(
+  req: Request,
+  {
+    auth: authenticated,
+    stripeIdempotencyKey,
+  }: {
+    auth?: { provider: Provider; livemode: boolean }
+    stripeIdempotencyKey?: string
+  } = {},
+) {
+  // Methods offered for this checkout (used to explain Stripe errors too)
+  let paymentMethods: PaymentMethod[] = [...DEFAULT_PAYMENT_METHODS]
+
   try {
     const body = await req.json()
-    const { serviceId, apiKey, externalId } = body
+    const { serviceId, externalId } = body
+    // Prefer the Authorization header; `apiKey` in the body is still accepted for older integrations
+    const apiKey: string | undefined = getBearerApiKey(req) || body.apiKey
     const payload = await getPayloadClient()
 
     let service: Service | undefined
@@ -197,6 +234,13 @@ export async function POST(req: Request) {
     let providerName: string | undefined
     let successRedirectUrl: string | undefined
     let cancelRedirectUrl: string | undefined
+    let checkoutExpiryMinutes: number | null | undefined
+    let checkoutOptions: ProviderCheckoutOptions = {}
+    let providerPaymentMethods: Provider['paymentMethods']
+    // The provider's link to the charged service (carries per-service amount limits)
+    let serviceLink: ProviderServiceLink | null = null
+    // Test API keys create test orders in a Stripe test account
+    let livemode = true
 
     // Check if we are resuming an existing order
     let existingOrder: Order | null = null
@@ -249,22 +293,21 @@ export async function POST(req: Request) {
 
     // If we verify the existing order, recover the session
     if (existingOrder && service) {
-      // Use default Stripe instance
-      const stripe = getStripe()
-
       if (existingOrder.stripePaymentIntentId) {
         try {
-          // Retrieve the existing payment intent
+          // Retrieve the existing payment intent from the account it was created in
+          const stripeAccount = await getStripeAccountForOrder(payload, existingOrder)
+          const { stripe } = stripeAccount
           const paymentIntent = await stripe.paymentIntents.retrieve(
             existingOrder.stripePaymentIntentId,
           )
 
           // Check if Stripe status is succeeded but DB is not updated yet (webhook lag)
-          // Only override if the order is not already in a final state like disputed or refunded
+          // Only override while the order is still awaiting payment (never e.g. refunded -> paid)
           let effectiveStatus = existingOrder.status
           if (
             paymentIntent.status === 'succeeded' &&
-            (effectiveStatus === 'pending' || effectiveStatus === 'failed')
+            AWAITING_PAYMENT_STATUSES.includes(effectiveStatus)
           ) {
             effectiveStatus = 'paid'
           }
@@ -299,14 +342,21 @@ export async function POST(req: Request) {
               typeof existingOrder.provider === 'object'
                 ? existingOrder.provider?.id
                 : existingOrder.provider,
+            externalId: existingOrder.externalId || undefined,
+            stripePublishableKey: getClientPublishableKey(stripeAccount),
+            paymentMethods: existingOrder.paymentMethods?.length
+              ? existingOrder.paymentMethods
+              : DEFAULT_PAYMENT_METHODS,
             successRedirectUrl:
-              typeof existingOrder.provider === 'object'
+              existingOrder.successRedirectUrl ||
+              (typeof existingOrder.provider === 'object'
                 ? existingOrder.provider?.successRedirectUrl
-                : undefined,
+                : undefined),
             cancelRedirectUrl:
-              typeof existingOrder.provider === 'object'
+              existingOrder.cancelRedirectUrl ||
+              (typeof existingOrder.provider === 'object'
                 ? existingOrder.provider?.cancelRedirectUrl
-                : undefined,
+                : undefined),
           })
         } catch (stripeError) {
           console.error('Failed to retrieve existing payment intent:', stripeError)
@@ -322,17 +372,37 @@ export async function POST(req: Request) {
 
     // Check if this is an external provider request (using API key)
     if (apiKey) {
-      const providerResult = await validateProviderApiKey(payload, apiKey)
+      const auth = authenticated || (await validateProviderApiKey(payload, apiKey))
 
-      if (!providerResult) {
+      if (!auth) {
         return NextResponse.json({ error: 'Invalid or inactive API key' }, { status: 401 })
       }
+      const { provider } = auth
+      livemode = auth.livemode
+
+      // Charge the requested service, or the provider's primary service
+      const resolved = resolveProviderService(provider, body.serviceSlug)
+      if ('error' in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 })
+      }
 
-      service = providerResult.service
-      providerId = providerResult.provider.id
-      providerName = providerResult.provider.name
-      successRedirectUrl = providerResult.provider.successRedirectUrl || undefined
-      cancelRedirectUrl = providerResult.provider.cancelRedirectUrl || undefined
+      service = resolved.service
+      serviceLink = resolved.link
+      providerId = provider.id
+      providerName = provider.name
+      successRedirectUrl = provider.successRedirectUrl || undefined
+      cancelRedirectUrl = provider.cancelRedirectUrl || undefined
+      checkoutExpiryMinutes = provider.checkoutExpiryMinutes
+      providerPaymentMethods = provider.paymentMethods
+
+      // Optional per-order redirect URLs (checked against the provider's allowlist) and metadata
+      const options = validateProviderCheckoutOptions(provider, body)
+      if ('error' in options) {
+        return NextResponse.json({ error: options.error }, { status: 400 })
+      }
+      checkoutOptions = options
+      successRedirectUrl = options.successUrl || successRedirectUrl
+      cancelRedirectUrl = options.cancelUrl || cancelRedirectUrl
 
       console.log(`Provider "${providerName}" authenticated, using service: ${service.title}`)
     } else if (serviceId && !existingOrder) {
@@ -358,7 +428,7 @@ export async function POST(req: Request) {
         const providers = await payload.find({
           collection: 'providers',
           where: {
-            service: { equals: service.id },
+            'services.service': { equals: service.id },
             status: { equals: 'active' },
           },
           limit: 1,
@@ -370,6 +440,9 @@ export async function POST(req: Request) {
           providerName = linkedProvider.name
           successRedirectUrl = linkedProvider.successRedirectUrl || undefined
           cancelRedirectUrl = linkedProvider.cancelRedirectUrl || undefined
+          checkoutExpiryMinutes = linkedProvider.checkoutExpiryMinutes
+          providerPaymentMethods = linkedProvider.paymentMethods
+          serviceLink = findProviderServiceLink(linkedProvider, service.id)
           console.log(`Auto-linked service ${service.title} to provider ${providerName}`)
         }
       } catch (err) {
@@ -377,55 +450,52 @@ export async function POST(req: Request) {
       }
     }
 
-    // Always use default Stripe account (Single Stripe Account Workflow)
-    const stripe = getStripe()
-
-    // Determine final amount and quantity
-    // Default to service price if no specific amount is requested
-    let finalAmount = service.price
-    let quantity = 1
-
-    // If a custom amount is provided by the provider
-    if (body.amount) {
-      const requestedAmount = Number(body.amount)
-
-      if (isNaN(requestedAmount) || requestedAmount <= 0) {
-        return NextResponse.json({ error: 'Invalid amount provided' }, { status: 400 })
-      }
-
-      // 1. Validate amount is a multiple of 5
-      if (requestedAmount % 5 !== 0) {
-        return NextResponse.json({ error: 'Amount must be a multiple of 5' }, { status: 400 })
-      }
-
-      // 2. Validate amount is at least the service price (optional, but good practice)
-      if (requestedAmount < service.price) {
-        return NextResponse.json(
-          { error: `Amount cannot be less than service price (${service.price})` },
-          { status: 400 },
-        )
-      }
-
-      // 3. Calculate quantity
-      // Logic: Quantity = Requested Amount / Service Price
-      // Example: Service=5, Amount=100 -> Quantity=20
-      quantity = requestedAmount / service.price
+    // The provider's or service's own Stripe account, else the platform (test) account
+    const stripeAccount = await resolveStripeAccount(payload, {
+      serviceId: service.id,
+      providerId,
+      livemode,
+    })
+    const { stripe } = stripeAccount
+
+    // Determine final amount and quantity from the service's amount rules,
+    // with the provider's overrides for this service (if any)
+    const amountRules = resolveAmountRules(service, serviceLink)
+    const requestedAmount =
+      body.amount !== undefined && body.amount !== null && body.amount !== ''
+        ? Number(body.amount)
+        : null
+    const evaluated = evaluateAmount(amountRules, requestedAmount)
+
+    if ('error' in evaluated) {
+      return NextResponse.json(
+        { error: evaluated.error, errorCode: 'INVALID_AMOUNT', amountRules },
+        { status: 400 },
+      )
+    }
 
-      // Ensure quantity is a whole number (optional check)
-      if (!Number.isInteger(quantity)) {
-        return NextResponse.json(
-          { error: `Amount ${requestedAmount} is not divisible by service price ${service.price}` },
-          { status: 400 },
-        )
-      }
+    const finalAmount = evaluated.amount
+    const quantity = evaluated.quantity
 
-      finalAmount = requestedAmount
+    // Payment methods allowed by the service, narrowed by the provider
+    paymentMethods = resolvePaymentMethods(service.paymentMethods, providerPaymentMethods)
+    if (paymentMethods.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'No payment methods are available for this service',
+          errorCode: 'PAYMENT_METHOD_UNAVAILABLE',
+        },
+        { status: 400 },
+      )
     }
 
     // Create idempotency key to prevent duplicate PaymentIntents
-    // Priority: externalId (provider) > incomingOrderId (client) > random (fallback)
+    // Priority: Idempotency-Key header > externalId (provider) > incomingOrderId (client) > random (fallback)
     let idempotencyKey: string
-    if (externalId) {
+    if (stripeIdempotencyKey) {
+      // Derived from the provider's Idempotency-Key and the request fingerprint
+      idempotencyKey = stripeIdempotencyKey
+    } else if (externalId) {
       // Provider-initiated: use external ID
       idempotencyKey = `pi_${service.id}_${externalId}_${finalAmount}`
     } else if (incomingOrderId) {
@@ -435,17 +505,20 @@ export async function POST(req: Request) {
       // Fallback: random (shouldn't normally happen)
       idempotencyKey = `pi_${service.id}_${Date.now()}_${Math.random().toString(36).substring(7)}`
     }
+    // Live and test orders may share a Stripe account when STRIPE_SECRET_KEY is a test key
+    if (!livemode) {
+      idempotencyKey = `test_${idempotencyKey}`
+    }
 
     const paymentDescription = `${service.title}`
 
-    // Create a PaymentIntent using the service's Stripe account
-    // Note: Cash App is only available for US-based Stripe accounts
+    // Create a PaymentIntent in the resolved Stripe account
+    // Note: Cash App and ACH debits are only available for US-based Stripe accounts
     const paymentIntent = await stripe.paymentIntents.create(
       {
         amount: Math.round(finalAmount * 100), // Amount in cents
         currency: 'usd',
-        // Cash App only - requires US-based Stripe account
-        payment_method_types: ['cashapp'],
+        payment_method_types: toStripePaymentMethodTypes(paymentMethods),
         // Description visible in Stripe Dashboard for easy identification
         description: paymentDescription,
         metadata: {
@@ -463,6 +536,9 @@ export async function POST(req: Request) {
 
     // Generate a unique checkout token for this session
     let checkoutToken = generateCheckoutToken()
+    // The checkout link (and its PaymentIntent) expire after the provider's or global lifetime
+    const expiryMinutes = await getCheckoutExpiryMinutes(payload, { checkoutExpiryMinutes })
+    let checkoutExpiresAt = new Date(Date.now() + expiryMinutes * 60 * 1000).toISOString()
 
     // Create a pending order in the database with retry logic
     let orderId: string
@@ -476,13 +552,33 @@ export async function POST(req: Request) {
         externalId,
         clientOrderId: incomingOrderId, // Pass frontend ID
         checkoutToken,
+        checkoutExpiresAt,
+        checkoutOptions,
+        paymentMethods,
+        stripeAccount: stripeAccount.source,
+        livemode,
       })
       orderId = order.id
 
+      // Retrying an expired checkout returns its canceled PaymentIntent (Stripe idempotency)
+      if (order.status === 'expired') {
+        return NextResponse.json(
+          {
+            error: 'The checkout for this order has expired',
+            errorCode: 'CHECKOUT_EXPIRED',
+            orderId: order.id,
+          },
+          { status: 410 },
+        )
+      }
+
       // If we resumed an existing order, use its token instead of the new one
       if (order.checkoutToken) {
         checkoutToken = order.checkoutToken
       }
+      if (order.checkoutExpiresAt) {
+        checkoutExpiresAt = order.checkoutExpiresAt
+      }
     } catch (dbError) {
       console.error('Error creating pending order after retries:', dbError)
       // Generate a temporary ID if order creation fails
@@ -497,6 +593,7 @@ export async function POST(req: Request) {
       orderId,
       checkoutToken,
       checkoutUrl,
+      expiresAt: checkoutExpiresAt,
       amount: finalAmount,
       quantity,
       serviceName: service.title,
@@ -504,6 +601,8 @@ export async function POST(req: Request) {
       ...(providerName && { provider: providerName }),
       ...(providerId && { providerId }),
       ...(externalId && { externalId }),
+      stripePublishableKey: getClientPublishableKey(stripeAccount),
+      paymentMethods,
       ...(successRedirectUrl && { successRedirectUrl }),
       ...(cancelRedirectUrl && { cancelRedirectUrl }),
     }
@@ -514,7 +613,11 @@ export async function POST(req: Request) {
         checkoutUrl,
         orderId,
         externalId: externalId || null,
+        serviceSlug: service.slug,
         amount: finalAmount,
+        paymentMethods,
+        expiresAt: checkoutExpiresAt,
+        livemode,
       })
     }
 
@@ -525,18 +628,30 @@ export async function POST(req: Request) {
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
 
-    // Check if this is a Cash App not available error
-    // This happens when the Stripe account is not US-based
+    // Stripe rejects a derived idempotency key (same externalId and amount) sent with other parameters
+    if ((error as { type?: string }).type === 'StripeIdempotencyError') {
+      return NextResponse.json(
+        {
+          error: 'externalId and amount were already used with different parameters',
+          errorCode: 'IDEMPOTENCY_CONFLICT',
+        },
+        { status: 409 },
+      )
+    }
+
+    // Stripe rejects `payment_method_types` when a method is not enabled on the account
+    // Cash App and ACH debits require a US-based Stripe account
     if (
-      errorMessage.includes('cashapp') ||
-      errorMessage.includes('payment_method_types') ||
-      errorMessage.includes('not available')
+      error instanceof Stripe.errors.StripeInvalidRequestError &&
+      (error.param === 'payment_method_types' || error.code === 'payment_method_unactivated')
     ) {
       return NextResponse.json(
         {
-          error: 'Cash App payments are not available for this service',
+          error: `${describePaymentMethods(paymentMethods)} payments are not available for this service`,
+          errorCode: 'PAYMENT_METHOD_UNAVAILABLE',
+          paymentMethods,
           details:
-            'This payment method requires a US-based Stripe account. Please contact support.',
+            'A payment method is not enabled on the Stripe account (Cash App and ACH debits require a US-based account). Please contact support.',
         },
         { status: 400 },
       )
@@ -548,3 +663,108 @@ export async function POST(req: Request) {
     )
   }
 }
+
+/**
+ * POST /api/v1/create-payment-intent
+ *
+ * Providers may send an `Idempotency-Key` header: the first successful response for a key is
+ * stored and replayed (with `Idempotent-Replayed: true`) to retries with the same body for 24
+ * hours. Reusing the key with a different body, or while the first request runs, returns 409.
+ */
+export async function POST(req: Request) {
+  try {
+    const key = req.headers.get(IDEMPOTENCY_KEY_HEADER)
+    if (key === null) {
+      return createPaymentIntent(req)
+    }
+
+    if (!isValidIdempotencyKey(key)) {
+      return NextResponse.json(
+        {
+          error: 'Idempotency-Key must be 1-255 printable ASCII characters',
+          errorCode: 'INVALID_IDEMPOTENCY_KEY',
+        },
+        { status: 400 },
+      )
+    }
+
+    const body = await req
+      .clone()
+      .json()
+      .catch(() => null)
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+    }
+
+    // Keys are scoped to the provider, so requests without an API key (header or body) ignore them
+    const apiKey = getBearerApiKey(req) || (typeof body.apiKey === 'string' ? body.apiKey : null)
+    if (!apiKey) {
+      return createPaymentIntent(req)
+    }
+
+    const payload = await getPayloadClient()
+    const auth = await validateProviderApiKey(payload, apiKey)
+    if (!auth) {
+      return NextResponse.json({ error: 'Invalid or inactive API key' }, { status: 401 })
+    }
+    const { provider, livemode } = auth
+
+    const fingerprint = fingerprintRequest(body)
+    const claim = await claimIdempotencyKey(payload, {
+      providerId: provider.id,
+      key,
+      fingerprint,
+      livemode,
+    })
+
+    if (claim.action === 'conflict') {
+      return NextResponse.json(
+        claim.reason === 'mismatch'
+          ? {
+              error: 'Idempotency-Key was already used with a different body',
+              errorCode: 'IDEMPOTENCY_KEY_REUSED',
+            }
+          : {
+              error: 'A request with this Idempotency-Key is still being processed',
+              errorCode: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+            },
+        { status: 409 },
+      )
+    }
+
+    if (claim.action === 'replay') {
+      return NextResponse.json(claim.record.responseBody, {
+        status: claim.record.responseStatus || 200,
+        headers: { 'Idempotent-Replayed': 'true' },
+      })
+    }
+
+    const response = await createPaymentIntent(req, {
+      auth,
+      stripeIdempotencyKey: getStripeIdempotencyKey(
+        livemode ? provider.id : `test:${provider.id}`,
+        key,
+        fingerprint,
+      ),
+    })
+
+    try {
+      await finishIdempotencyKey(payload, claim.record.id, {
+        status: response.status,
+        body: await response.clone().json(),
+      })
+    } catch (err) {
+      // The response is still returned; a retry takes the key over once its lease ends
+      console.error(`Failed to store the response for Idempotency-Key ${key}:`, err)
+    }
+
+    return response
+  } catch (error) {
+    // e.g. the API key lookup or the idempotency record failed
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error handling Idempotency-Key request:', error)
+    return NextResponse.json({ error: 'Failed to create payment intent' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { getPayloadClient } from '@/lib/payload'
+import { NextResponse } from 'next/server'
+import {
+  authenticateProviderRequest,
+  findProviderOrder,
+  serializeProviderOrder,
+} from '@/lib/provider-api'
+
+/**
+ * GET /api/v1/provider/orders/[id]
+ *
+ * Returns one of the calling provider's orders by DZTech order id (or client order id ORD-...).
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const payload = await getPayloadClient()
+
+    const auth = await authenticateProviderRequest(payload, req)
+    if (!auth) {
+      return NextResponse.json({ error: 'Invalid or inactive API key' }, { status: 401 })
+    }
+
+    const order = await findProviderOrder(payload, auth.provider, id, auth.livemode)
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(serializeProviderOrder(order))
+  } catch (error) {
+    console.error('[Provider Orders API] Error fetching order:', error)
+    return NextResponse.json({ error: 'Failed to fetch order' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { getPayloadClient } from '@/lib/payload'
+import { NextResponse } from 'next/server'
+import { authenticateProviderRequest, serializeProviderOrder } from '@/lib/provider-api'
+import { getLivemodeWhere } from '@/lib/livemode'
+
+/**
+ * GET /api/v1/provider/orders/external/[externalId]
+ *
+ * Returns the calling provider's most recent order with the given externalId.
+ * Use `GET /api/v1/provider/orders?externalId=...` to list every order sharing an externalId.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ externalId: string }> }) {
+  try {
+    const { externalId } = await params
+    const payload = await getPayloadClient()
+
+    const auth = await authenticateProviderRequest(payload, req)
+    if (!auth) {
+      return NextResponse.json({ error: 'Invalid or inactive API key' }, { status: 401 })
+    }
+
+    const result = await payload.find({
+      collection: 'orders',
+      where: {
+        and: [
+          { provider: { equals: auth.provider.id } },
+          getLivemodeWhere(auth.livemode),
+          { externalId: { equals: externalId } },
+        ],
+      },
+      sort: '-createdAt',
+      limit: 1,
+      depth: 1, // Populate service
+      overrideAccess: true,
+    })
+
+    if (result.docs.length === 0) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(serializeProviderOrder(result.docs[0]))
+  } catch (error) {
+    console.error('[Provider Orders API] Error looking up order by externalId:', error)
+    return NextResponse.json({ error: 'Failed to fetch order' }, { status: 500 })
+  }
+}
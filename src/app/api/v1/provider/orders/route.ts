@@ -0,0 +1,55 @@
+import { getPayloadClient } from '@/lib/payload'
+import { NextResponse } from 'next/server'
+import {
+  authenticateProviderRequest,
+  buildProviderOrdersQuery,
+  encodeOrderCursor,
+  serializeProviderOrder,
+} from '@/lib/provider-api'
+
+/**
+ * GET /api/v1/provider/orders
+ *
+ * Lists the calling provider's orders, newest first. Test API keys list test orders only.
+ * Query: status (comma-separated), from / to (ISO dates), externalId, limit (1-100), cursor
+ * Pass `nextCursor` from the response as `cursor` to fetch the next page.
+ */
+export async function GET(req: Request) {
+  try {
+    const payload = await getPayloadClient()
+
+    const auth = await authenticateProviderRequest(payload, req)
+    if (!auth) {
+      return NextResponse.json({ error: 'Invalid or inactive API key' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const query = buildProviderOrdersQuery(auth.provider, searchParams, auth.livemode)
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 })
+    }
+
+    // Fetch one extra order to know whether another page exists
+    const result = await payload.find({
+      collection: 'orders',
+      where: query.where,
+      sort: '-createdAt',
+      limit: query.limit + 1,
+      pagination: false,
+      depth: 1, // Populate service
+      overrideAccess: true,
+    })
+
+    const hasMore = result.docs.length > query.limit
+    const orders = result.docs.slice(0, query.limit)
+
+    return NextResponse.json({
+      orders: orders.map(serializeProviderOrder),
+      hasMore,
+      nextCursor: hasMore ? encodeOrderCursor(orders, query.cursor) : null,
+    })
+  } catch (error) {
+    console.error('[Provider Orders API] Error listing orders:', error)
+    return NextResponse.json({ error: 'Failed to list orders' }, { status: 500 })
+  }
+}
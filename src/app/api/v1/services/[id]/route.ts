@@ -1,4 +1,5 @@
 import { getPayloadClient } from '@/lib/payload'
+import { resolveAmountRules } from '@/lib/amount-rules'
 import { NextResponse } from 'next/server'
 
 type Props = {
@@ -43,6 +44,7 @@ export async function GET(request: Request, { params }: Props) {
       price: service.price,
       originalPrice: service.originalPrice,
       priceUnit: service.priceUnit,
+      amountRules: resolveAmountRules(service),
       icon: service.icon,
       slug: service.slug,
       category: service.category,
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getStripe } from '@/lib/stripe'
+import { constructStripeWebhookEvent, type StripeAccount } from '@/lib/stripe-accounts'
+import { getPayloadClient } from '@/lib/payload'
+import { claimStripeEvent, finishStripeEvent } from '@/stripe/event-ledger'
 
 import {
   paymentIntentSucceeded,
@@ -7,6 +9,8 @@ import {
   handleDisputeCreated,
   handleDisputeUpdated,
   handleDisputeClosed,
+  handleChargeRefunded,
+  handleRefundUpdated,
 } from '@/stripe/webhooks'
 import type Stripe from 'stripe'
 
@@ -32,32 +36,41 @@ export async function POST(req: NextRequest) {
 
   const webhookSecret = process.env.STRIPE_WEBHOOKS_ENDPOINT_SECRET
 
-  if (!webhookSecret) {
-    console.error('[WEBHOOK] STRIPE_WEBHOOKS_ENDPOINT_SECRET is not set')
-    return NextResponse.json({ error: 'Webhook secret not configured' }, { status: 500 })
-  }
-
   // Warn if the secret looks like a placeholder
-  if (webhookSecret === 'whsec_your_webhook_secret' || !webhookSecret.startsWith('whsec_')) {
+  if (
+    webhookSecret &&
+    (webhookSecret === 'whsec_your_webhook_secret' || !webhookSecret.startsWith('whsec_'))
+  ) {
     console.error(
       '[WEBHOOK] ⚠️  STRIPE_WEBHOOKS_ENDPOINT_SECRET looks like a placeholder! Get the real secret from Stripe Dashboard > Developers > Webhooks',
     )
   }
 
-  console.log('[WEBHOOK] Using webhook secret ending with:', webhookSecret.slice(-8))
-
+  const payload = await getPayloadClient()
   let event: Stripe.Event
+  let account: StripeAccount
 
+  // Services and providers may have their own Stripe accounts, each with its own endpoint secret
   try {
-    const stripe = getStripe()
-    event = stripe.webhooks.constructEvent(body, signature, webhookSecret)
-    console.log('[WEBHOOK] ✅ Signature verified successfully')
+    const verified = await constructStripeWebhookEvent(payload, body, signature)
+
+    if (!verified) {
+      console.error(
+        '[WEBHOOK] ❌ Signature verification FAILED for every configured Stripe account',
+      )
+      console.error(
+        '[WEBHOOK] This usually means STRIPE_WEBHOOKS_ENDPOINT_SECRET or an account webhook secret is wrong.',
+      )
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 400 })
+    }
+
+    event = verified.event
+    account = verified.account
+    console.log(`[WEBHOOK] ✅ Signature verified (${verified.account.source} Stripe account)`)
   } catch (err) {
     const errMsg = err instanceof Error ? err.message : 'Unknown error'
-    console.error('[WEBHOOK] ❌ Signature verification FAILED:', errMsg)
-    console.error('[WEBHOOK] This usually means STRIPE_WEBHOOKS_ENDPOINT_SECRET is wrong.')
-    console.error('[WEBHOOK] Current secret starts with:', webhookSecret.substring(0, 10) + '...')
-    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 })
+    console.error('[WEBHOOK] ❌ Failed to load Stripe webhook secrets:', errMsg)
+    return NextResponse.json({ error: 'Webhook secret not configured' }, { status: 500 })
   }
 
   console.log('[WEBHOOK] Event type:', event.type)
@@ -72,40 +85,85 @@ export async function POST(req: NextRequest) {
     console.log('[WEBHOOK] PaymentIntent metadata:', JSON.stringify(pi.metadata))
   }
 
+  // Record the event in the ledger and skip redeliveries / superseded events
+  let ledgerId: string
+
+  try {
+    const claim = await claimStripeEvent(payload, event)
+
+    if (claim.action === 'duplicate') {
+      console.log(
+        `[WEBHOOK] ⏭️  Event ${event.id} already ${claim.record.status} — skipping redelivery`,
+      )
+      return NextResponse.json({ received: true, duplicate: true })
+    }
+
+    if (claim.action === 'stale') {
+      console.log(`[WEBHOOK] ⏭️  Event ${event.id} superseded by ${claim.supersededBy} — skipping`)
+      return NextResponse.json({ received: true, stale: true })
+    }
+
+    ledgerId = claim.record.id
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`[WEBHOOK] ❌ Failed to record event in ledger: ${errorMessage}`)
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+
   // Handle the event
   try {
+    let outcome: string | null = null
+
     switch (event.type) {
       case 'payment_intent.succeeded':
         console.log('[WEBHOOK] → Calling paymentIntentSucceeded handler')
-        await paymentIntentSucceeded({ event })
+        outcome = await paymentIntentSucceeded({ event, account })
         console.log('[WEBHOOK] ✅ paymentIntentSucceeded completed')
         break
 
       case 'payment_intent.payment_failed':
         console.log('[WEBHOOK] → Calling paymentIntentFailed handler')
-        await paymentIntentFailed({ event })
+        outcome = await paymentIntentFailed({ event, account })
         console.log('[WEBHOOK] ✅ paymentIntentFailed completed')
         break
 
       case 'charge.dispute.created':
         console.log('[WEBHOOK] → Calling handleDisputeCreated handler')
-        await handleDisputeCreated({ event })
+        outcome = await handleDisputeCreated({ event, account })
         break
 
       case 'charge.dispute.updated':
         console.log('[WEBHOOK] → Calling handleDisputeUpdated handler')
-        await handleDisputeUpdated({ event })
+        outcome = await handleDisputeUpdated({ event, account })
         break
 
       case 'charge.dispute.closed':
         console.log('[WEBHOOK] → Calling handleDisputeClosed handler')
-        await handleDisputeClosed({ event })
+        outcome = await handleDisputeClosed({ event, account })
+        break
+
+      case 'charge.refunded':
+        console.log('[WEBHOOK] → Calling handleChargeRefunded handler')
+        outcome = await handleChargeRefunded({ event, account })
+        break
+
+      case 'refund.updated':
+        console.log('[WEBHOOK] → Calling handleRefundUpdated handler')
+        outcome = await handleRefundUpdated({ event, account })
         break
 
       default:
         console.log(`[WEBHOOK] ⚠️  Unhandled event type: ${event.type}`)
     }
 
+    await finishStripeEvent(
+      payload,
+      ledgerId,
+      outcome === null
+        ? { status: 'skipped', outcome: `Unhandled event type: ${event.type}` }
+        : { status: 'processed', outcome },
+    )
+
     console.log('[WEBHOOK] === WEBHOOK PROCESSING COMPLETE ===')
     return NextResponse.json({ received: true })
   } catch (error) {
@@ -114,6 +172,12 @@ export async function POST(req: NextRequest) {
     if (error instanceof Error && error.stack) {
       console.error('[WEBHOOK] Stack trace:', error.stack)
     }
+
+    // Mark as failed so Stripe's retry of this event is processed again
+    await finishStripeEvent(payload, ledgerId, { status: 'failed', error: errorMessage }).catch(
+      (ledgerErr) => console.error('[WEBHOOK] Failed to record event failure:', ledgerErr),
+    )
+
     return NextResponse.json({ error: errorMessage }, { status: 500 })
   }
 }
@@ -0,0 +1,128 @@
+import { APIError, type CollectionConfig } from 'payload'
+import { can } from '@/access'
+
+/**
+ * Append-only record of who changed what, written by the audit hooks (see @/lib/audit-log)
+ * Entries can't be edited or deleted by anyone, including the local API with overrideAccess.
+ */
+export const AuditLogs: CollectionConfig = {
+  slug: 'audit-logs',
+  admin: {
+    useAsTitle: 'summary',
+    description:
+      'Who changed what and from where. Written automatically when orders, providers, API keys, services, users or site settings change; entries can never be edited.',
+    defaultColumns: ['createdAt', 'actorEmail', 'action', 'collectionSlug', 'summary'],
+  },
+  access: {
+    read: can('viewAuditLogs'),
+    // Entries are written by the audit hooks with overrideAccess only
+    create: () => false,
+    update: () => false,
+    delete: () => false,
+  },
+  hooks: {
+    beforeChange: [
+      ({ operation }) => {
+        if (operation !== 'create') {
+          throw new APIError('Audit log entries cannot be changed', 403, undefined, true)
+        }
+      },
+    ],
+    beforeDelete: [
+      () => {
+        throw new APIError('Audit log entries cannot be deleted', 403, undefined, true)
+      },
+    ],
+  },
+  indexes: [{ fields: ['collectionSlug', 'documentId', 'createdAt'] }],
+  fields: [
+    {
+      name: 'action',
+      type: 'select',
+      required: true,
+      index: true,
+      options: [
+        { label: 'Create', value: 'create' },
+        { label: 'Update', value: 'update' },
+        { label: 'Delete', value: 'delete' },
+        { label: 'Payout', value: 'payout' },
+        { label: 'Webhook Replay', value: 'replay' },
+      ],
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'collectionSlug',
+      type: 'text',
+      label: 'Collection',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Collection or global that changed',
+      },
+    },
+    {
+      name: 'documentId',
+      type: 'text',
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'summary',
+      type: 'text',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'changes',
+      type: 'json',
+      admin: {
+        readOnly: true,
+        description: 'Changed fields with their values before and after; secrets are redacted',
+      },
+    },
+    {
+      name: 'actor',
+      type: 'relationship',
+      relationTo: 'users',
+      index: true,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Empty for changes made by the system, e.g. Stripe webhooks',
+      },
+    },
+    {
+      name: 'actorEmail',
+      type: 'text',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Email of the actor at the time, kept if the user is deleted',
+      },
+    },
+    {
+      name: 'ip',
+      type: 'text',
+      label: 'IP Address',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'userAgent',
+      type: 'text',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+}
@@ -1,13 +1,13 @@
 import type { CollectionConfig } from 'payload'
 import { revalidate } from '@/hooks/revalidate'
-import { publicReadAdminWrite } from '@/access'
+import { publicReadContentWrite } from '@/access'
 
 export const Categories: CollectionConfig = {
   slug: 'categories',
   admin: {
     useAsTitle: 'name',
   },
-  access: publicReadAdminWrite,
+  access: publicReadContentWrite,
   hooks: {
     afterChange: [revalidate],
   },
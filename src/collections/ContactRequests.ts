@@ -1,5 +1,5 @@
 import type { CollectionConfig } from 'payload'
-import { anyone, adminOnly } from '@/access'
+import { anyone, adminOnly, can } from '@/access'
 
 export const ContactRequests: CollectionConfig = {
   slug: 'contact-requests',
@@ -8,8 +8,8 @@ export const ContactRequests: CollectionConfig = {
   },
   access: {
     create: anyone, // Allow anyone to submit a contact request
-    read: adminOnly, // Only admins can read
-    update: adminOnly, // Only admins can update
+    read: can('viewContactRequests'), // Admins and support staff can read
+    update: can('viewContactRequests'), // Admins and support staff can update
     delete: adminOnly, // Only admins can delete
   },
   fields: [
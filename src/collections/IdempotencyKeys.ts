@@ -0,0 +1,115 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access'
+
+/**
+ * Idempotency-Key headers sent by providers to /api/v1/create-payment-intent
+ * Stores a fingerprint of the first request and its response, replayed for 24 hours
+ */
+export const IdempotencyKeys: CollectionConfig = {
+  slug: 'idempotency-keys',
+  admin: {
+    useAsTitle: 'key',
+    description:
+      'Provider Idempotency-Key headers with the request fingerprint and cached response. Expired keys are purged hourly.',
+    defaultColumns: ['key', 'provider', 'status', 'responseStatus', 'order', 'expiresAt'],
+  },
+  access: {
+    read: adminOnly,
+    // Keys are written by the payment route with overrideAccess only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+  fields: [
+    {
+      name: 'scopedKey',
+      type: 'text',
+      required: true,
+      unique: true,
+      index: true,
+      admin: {
+        hidden: true,
+      },
+    },
+    {
+      name: 'key',
+      type: 'text',
+      required: true,
+      label: 'Idempotency Key',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'provider',
+      type: 'relationship',
+      relationTo: 'providers',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'fingerprint',
+      type: 'text',
+      required: true,
+      admin: {
+        readOnly: true,
+        description: 'SHA-256 of the request body; reusing the key with another body is a 409',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'processing',
+      options: [
+        { label: '⏳ Processing', value: 'processing' },
+        { label: '✅ Completed', value: 'completed' },
+      ],
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'responseStatus',
+      type: 'number',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'responseBody',
+      type: 'json',
+      admin: {
+        readOnly: true,
+        description: 'Response replayed to retries with the same key and body',
+      },
+    },
+    {
+      name: 'order',
+      type: 'relationship',
+      relationTo: 'orders',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'expiresAt',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+  ],
+}
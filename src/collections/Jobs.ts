@@ -1,6 +1,6 @@
 import type { CollectionConfig } from 'payload'
 import { revalidate } from '@/hooks/revalidate'
-import { publicReadAdminWrite } from '@/access'
+import { publicReadContentWrite } from '@/access'
 
 export const Jobs: CollectionConfig = {
   slug: 'jobs',
@@ -8,7 +8,7 @@ export const Jobs: CollectionConfig = {
     useAsTitle: 'title',
     defaultColumns: ['title', 'location', 'type', 'status'],
   },
-  access: publicReadAdminWrite,
+  access: publicReadContentWrite,
   hooks: {
     afterChange: [revalidate],
   },
@@ -0,0 +1,150 @@
+import type { CollectionConfig } from 'payload'
+import { can } from '@/access'
+
+const accountOptions = [
+  { label: 'Stripe Balance', value: 'stripe_balance' },
+  { label: 'Provider Payable', value: 'provider_payable' },
+  { label: 'Platform Revenue', value: 'platform_revenue' },
+]
+
+/**
+ * Double-entry settlement ledger of what the platform owes each provider
+ * Each document is one balanced transaction (debit one account, credit another). Entries are
+ * posted from order changes and recorded payouts, and are never edited afterwards.
+ */
+export const LedgerEntries: CollectionConfig = {
+  slug: 'ledger-entries',
+  admin: {
+    useAsTitle: 'description',
+    description:
+      'Settlement ledger per provider. Written when orders are paid, refunded or lose a dispute, and when payouts are recorded from Wallets.',
+    defaultColumns: ['occurredAt', 'provider', 'type', 'amount', 'order', 'description'],
+  },
+  access: {
+    read: can('viewLedger'),
+    // Entries are posted by the ledger with overrideAccess only; corrections are new entries
+    create: () => false,
+    update: () => false,
+    delete: () => false,
+  },
+  fields: [
+    {
+      name: 'key',
+      type: 'text',
+      required: true,
+      unique: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Identifies the business event, so an event is never posted twice',
+      },
+    },
+    {
+      name: 'type',
+      type: 'select',
+      required: true,
+      index: true,
+      options: [
+        { label: 'Payment', value: 'payment' },
+        { label: 'Platform Fee', value: 'platform_fee' },
+        { label: 'Refund', value: 'refund' },
+        { label: 'Dispute Loss', value: 'dispute_loss' },
+        { label: 'Payout', value: 'payout' },
+      ],
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'provider',
+      type: 'relationship',
+      relationTo: 'providers',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'order',
+      type: 'relationship',
+      relationTo: 'orders',
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'debitAccount',
+          type: 'select',
+          required: true,
+          options: accountOptions,
+          admin: {
+            readOnly: true,
+            width: '50%',
+          },
+        },
+        {
+          name: 'creditAccount',
+          type: 'select',
+          required: true,
+          options: accountOptions,
+          admin: {
+            readOnly: true,
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'amount',
+      type: 'number',
+      required: true,
+      min: 0.01,
+      admin: {
+        readOnly: true,
+        description: 'Amount in dollars',
+      },
+    },
+    {
+      name: 'description',
+      type: 'text',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'reference',
+      type: 'text',
+      admin: {
+        readOnly: true,
+        description: 'Stripe refund/dispute id, or the bank reference of a payout',
+      },
+    },
+    {
+      name: 'occurredAt',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'createdBy',
+      type: 'relationship',
+      relationTo: 'users',
+      admin: {
+        readOnly: true,
+        description: 'Admin who recorded the payout',
+      },
+    },
+  ],
+}
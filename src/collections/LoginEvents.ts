@@ -0,0 +1,103 @@
+import type { Access, CollectionConfig } from 'payload'
+import { getActiveUser } from '@/access'
+
+// Admins see every sign-in, other users only their own
+const adminOrOwner: Access = ({ req }) => {
+  const user = getActiveUser(req.user)
+  if (!user) return false
+  if (user.role === 'admin') return true
+  return { user: { equals: user.id } }
+}
+
+/**
+ * Login history: sign-in attempts and two-factor checks (see @/lib/login-history)
+ * Entries are written with overrideAccess only and can't be changed.
+ */
+export const LoginEvents: CollectionConfig = {
+  slug: 'login-events',
+  labels: {
+    singular: 'Login Event',
+    plural: 'Login History',
+  },
+  admin: {
+    useAsTitle: 'email',
+    description:
+      'Sign-in attempts to the admin panel, with the IP address and browser they came from.',
+    defaultColumns: ['createdAt', 'email', 'outcome', 'ip', 'newDevice'],
+  },
+  access: {
+    read: adminOrOwner,
+    create: () => false,
+    update: () => false,
+    delete: () => false,
+  },
+  indexes: [{ fields: ['user', 'outcome', 'createdAt'] }],
+  fields: [
+    {
+      name: 'outcome',
+      type: 'select',
+      required: true,
+      index: true,
+      options: [
+        { label: 'Signed In', value: 'success' },
+        { label: 'Wrong Password', value: 'failed' },
+        { label: 'Account Locked', value: 'locked' },
+        { label: 'Two-Factor Passed', value: 'two_factor_verified' },
+        { label: 'Two-Factor Failed', value: 'two_factor_failed' },
+      ],
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Empty when the email matches no user',
+      },
+    },
+    {
+      name: 'email',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'ip',
+      type: 'text',
+      label: 'IP Address',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'userAgent',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'deviceId',
+      type: 'text',
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Hash of the user agent, used to spot new devices',
+      },
+    },
+    {
+      name: 'newDevice',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        readOnly: true,
+        description: 'First sign-in from this browser; the user was emailed an alert',
+      },
+    },
+  ],
+}
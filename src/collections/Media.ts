@@ -1,13 +1,13 @@
 import type { CollectionConfig } from 'payload'
 import { revalidate } from '@/hooks/revalidate'
-import { publicReadAdminWrite } from '@/access'
+import { publicReadContentWrite } from '@/access'
 
 export const Media: CollectionConfig = {
   slug: 'media',
   admin: {
     useAsTitle: 'alt',
   },
-  access: publicReadAdminWrite,
+  access: publicReadContentWrite,
   hooks: {
     afterChange: [revalidate],
   },
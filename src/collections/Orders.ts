@@ -1,5 +1,13 @@
 import type { CollectionConfig, Access } from 'payload'
-import { adminOnly } from '@/access'
+import { adminOnly, can, getActiveUser } from '@/access'
+import { applyOrderFees } from '@/hooks/orderFees'
+import { enforceOrderStatusTransition } from '@/hooks/orderStatus'
+import { postProviderLedgerEntries } from '@/hooks/providerLedger'
+import { auditAfterChange, auditAfterDelete } from '@/hooks/auditLog'
+import { ORDER_STATUSES, ORDER_STATUS_LABELS } from '@/lib/order-status'
+import { PAYMENT_METHOD_OPTIONS } from '@/lib/payment-methods'
+
+const statusOptions = ORDER_STATUSES.map((value) => ({ label: ORDER_STATUS_LABELS[value], value }))
 
 // Allow webhook/API operations to bypass access control when needed
 // But regular operations require admin access
@@ -7,8 +15,9 @@ const adminOrApi: Access = ({ req }) => {
   // If this is a webhook/API call without a user, it should be handled
   // by the specific endpoint with overrideAccess: true
   // For all other cases, require admin
-  if (!req.user) return false
-  return req.user.role === 'admin'
+  const user = getActiveUser(req.user)
+  if (!user) return false
+  return user.role === 'admin'
 }
 
 export const Orders: CollectionConfig = {
@@ -18,11 +27,26 @@ export const Orders: CollectionConfig = {
     defaultColumns: ['id', 'createdAt', 'status', 'total', 'service', 'provider', 'disputeStatus'],
   },
   access: {
-    read: adminOnly,
+    read: can('viewOrders'),
     create: adminOrApi,
+    // Status, amounts and settlement fields drive fees and the provider ledger, so editing orders
+    // stays admin-only; other roles act on orders through /api/admin routes (e.g. refunds)
     update: adminOrApi,
     delete: adminOnly,
   },
+  hooks: {
+    beforeChange: [enforceOrderStatusTransition, applyOrderFees],
+    afterChange: [postProviderLedgerEntries, auditAfterChange],
+    afterDelete: [auditAfterDelete],
+  },
+  // Admin reports match on mode, status and date, or one provider's or service's orders by date;
+  // fee volume tiers sum one provider's orders by payment date
+  indexes: [
+    { fields: ['livemode', 'status', 'createdAt'] },
+    { fields: ['provider', 'createdAt'] },
+    { fields: ['service', 'createdAt'] },
+    { fields: ['provider', 'paidAt'] },
+  ],
   fields: [
     {
       name: 'orderId',
@@ -45,6 +69,35 @@ export const Orders: CollectionConfig = {
         description: 'Unique token for secure checkout URL (auto-generated)',
       },
     },
+    {
+      name: 'checkoutExpiresAt',
+      type: 'date',
+      label: 'Checkout Expires At',
+      index: true,
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'The checkout link stops working and the order expires after this time',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'checkoutNextCheckAt',
+      type: 'date',
+      label: 'Expiry Retry At',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        condition: (data) => Boolean(data?.checkoutNextCheckAt),
+        description:
+          'The expiry sweep skipped this order (payment in flight, or an error) and checks it again after this time',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
     {
       name: 'externalId',
       type: 'text',
@@ -62,6 +115,36 @@ export const Orders: CollectionConfig = {
         description: 'External provider that initiated this order (if applicable)',
       },
     },
+    {
+      name: 'successRedirectUrl',
+      type: 'text',
+      label: 'Success Redirect URL',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.successRedirectUrl),
+        description: "Per-order override of the provider's success URL",
+      },
+    },
+    {
+      name: 'cancelRedirectUrl',
+      type: 'text',
+      label: 'Cancel Redirect URL',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.cancelRedirectUrl),
+        description: "Per-order override of the provider's cancel URL",
+      },
+    },
+    {
+      name: 'metadata',
+      type: 'json',
+      label: 'Provider Metadata',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.metadata),
+        description: 'Sent by the provider when the order was created; echoed in webhooks',
+      },
+    },
     {
       name: 'service',
       type: 'relationship',
@@ -71,19 +154,77 @@ export const Orders: CollectionConfig = {
     {
       name: 'status',
       type: 'select',
-      options: [
-        { label: 'Pending', value: 'pending' },
-        { label: 'Paid', value: 'paid' },
-        { label: 'Failed', value: 'failed' },
-        { label: 'Refunded', value: 'refunded' },
-        { label: 'Disputed', value: 'disputed' },
-      ],
+      options: statusOptions,
       defaultValue: 'pending',
       required: true,
       admin: {
         position: 'sidebar',
+        description: 'Only legal transitions are accepted (see src/lib/order-status.ts)',
       },
     },
+    {
+      name: 'statusHistory',
+      type: 'array',
+      label: 'Status History',
+      admin: {
+        readOnly: true,
+        initCollapsed: true,
+        description: 'Append-only log of status changes',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'from',
+              type: 'select',
+              options: statusOptions,
+              admin: { width: '25%' },
+            },
+            {
+              name: 'to',
+              type: 'select',
+              required: true,
+              options: statusOptions,
+              admin: { width: '25%' },
+            },
+            {
+              name: 'source',
+              type: 'select',
+              required: true,
+              options: [
+                { label: 'Stripe Webhook', value: 'webhook' },
+                { label: 'Stripe Sync', value: 'sync' },
+                { label: 'Admin', value: 'admin' },
+                { label: 'API', value: 'api' },
+                { label: 'System', value: 'system' },
+              ],
+              admin: { width: '25%' },
+            },
+            {
+              name: 'changedAt',
+              type: 'date',
+              required: true,
+              admin: {
+                width: '25%',
+                date: {
+                  pickerAppearance: 'dayAndTime',
+                },
+              },
+            },
+          ],
+        },
+        {
+          name: 'note',
+          type: 'text',
+        },
+        {
+          name: 'changedBy',
+          type: 'relationship',
+          relationTo: 'users',
+        },
+      ],
+    },
     {
       name: 'total',
       type: 'number',
@@ -97,6 +238,65 @@ export const Orders: CollectionConfig = {
         description: 'Number of units purchased (Total / Service Price)',
       },
     },
+    // Settlement: set from the provider's fee schedule when the order becomes paid
+    {
+      name: 'paidAt',
+      type: 'date',
+      index: true,
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'grossAmount',
+          type: 'number',
+          label: 'Gross ($)',
+          admin: {
+            readOnly: true,
+            width: '33%',
+            description: 'Amount charged',
+          },
+        },
+        {
+          name: 'platformFee',
+          type: 'number',
+          label: 'Platform Fee ($)',
+          admin: {
+            readOnly: true,
+            width: '33%',
+            description: 'Kept by the platform',
+          },
+        },
+        {
+          name: 'netAmount',
+          type: 'number',
+          label: 'Net ($)',
+          admin: {
+            readOnly: true,
+            width: '33%',
+            description: 'Owed to the provider',
+          },
+        },
+      ],
+    },
+    {
+      name: 'paymentMethods',
+      type: 'select',
+      hasMany: true,
+      label: 'Allowed Payment Methods',
+      options: PAYMENT_METHOD_OPTIONS,
+      admin: {
+        readOnly: true,
+        description: 'Payment methods offered at checkout for this order',
+      },
+    },
     {
       name: 'stripeSessionId',
       type: 'text',
@@ -105,6 +305,33 @@ export const Orders: CollectionConfig = {
         position: 'sidebar',
       },
     },
+    {
+      name: 'stripeAccount',
+      type: 'select',
+      defaultValue: 'platform',
+      options: [
+        { label: 'Platform', value: 'platform' },
+        { label: 'Service', value: 'service' },
+        { label: 'Provider', value: 'provider' },
+      ],
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Stripe account holding the PaymentIntent',
+      },
+    },
+    {
+      name: 'livemode',
+      type: 'checkbox',
+      label: 'Live Mode',
+      defaultValue: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Unchecked for test orders created with a provider test API key',
+      },
+    },
     {
       name: 'stripePaymentIntentId',
       type: 'text',
@@ -162,5 +389,106 @@ export const Orders: CollectionConfig = {
         position: 'sidebar',
       },
     },
+    // Refund Tracking Fields
+    {
+      name: 'refundAction',
+      type: 'ui',
+      admin: {
+        position: 'sidebar',
+        components: {
+          Field: '@/components/Admin/RefundOrderButton#RefundOrderButton',
+        },
+      },
+    },
+    {
+      name: 'amountRefunded',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Total of succeeded refunds in dollars',
+      },
+    },
+    {
+      name: 'refunds',
+      type: 'array',
+      label: 'Refunds',
+      admin: {
+        readOnly: true,
+        initCollapsed: true,
+        description: 'Refunds issued from the dashboard or synced from Stripe',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'stripeRefundId',
+              type: 'text',
+              required: true,
+              admin: { width: '25%' },
+            },
+            {
+              name: 'amount',
+              type: 'number',
+              required: true,
+              admin: { width: '25%', description: 'Amount in dollars' },
+            },
+            {
+              name: 'status',
+              type: 'select',
+              options: [
+                { label: 'Pending', value: 'pending' },
+                { label: 'Requires Action', value: 'requires_action' },
+                { label: 'Succeeded', value: 'succeeded' },
+                { label: 'Failed', value: 'failed' },
+                { label: 'Canceled', value: 'canceled' },
+              ],
+              admin: { width: '25%' },
+            },
+            {
+              name: 'reason',
+              type: 'select',
+              options: [
+                { label: 'Requested by Customer', value: 'requested_by_customer' },
+                { label: 'Duplicate', value: 'duplicate' },
+                { label: 'Fraudulent', value: 'fraudulent' },
+              ],
+              admin: { width: '25%' },
+            },
+          ],
+        },
+        {
+          name: 'note',
+          type: 'text',
+        },
+        {
+          name: 'failureReason',
+          type: 'text',
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'createdBy',
+              type: 'relationship',
+              relationTo: 'users',
+              admin: { width: '50%' },
+            },
+            {
+              name: 'createdAt',
+              type: 'date',
+              admin: {
+                width: '50%',
+                date: {
+                  pickerAppearance: 'dayAndTime',
+                },
+              },
+            },
+          ],
+        },
+      ],
+    },
   ],
 }
@@ -6,7 +6,7 @@ import {
 import type { CollectionConfig } from 'payload'
 import { revalidate } from '@/hooks/revalidate'
 import { formatSlug } from '@/utils/slug'
-import { publicReadAdminWrite } from '@/access'
+import { publicReadContentWrite } from '@/access'
 
 export const Pages: CollectionConfig = {
   slug: 'pages',
@@ -14,7 +14,7 @@ export const Pages: CollectionConfig = {
     useAsTitle: 'title',
     defaultColumns: ['title', 'slug', 'status', 'updatedAt'],
   },
-  access: publicReadAdminWrite,
+  access: publicReadContentWrite,
   hooks: {
     afterChange: [revalidate],
   },
@@ -1,6 +1,6 @@
 import type { CollectionConfig } from 'payload'
 import { revalidate } from '@/hooks/revalidate'
-import { publicReadAdminWrite } from '@/access'
+import { publicReadContentWrite } from '@/access'
 
 export const Projects: CollectionConfig = {
   slug: 'projects',
@@ -8,7 +8,7 @@ export const Projects: CollectionConfig = {
     useAsTitle: 'title',
     defaultColumns: ['title', 'client', 'status'],
   },
-  access: publicReadAdminWrite,
+  access: publicReadContentWrite,
   hooks: {
     afterChange: [revalidate],
   },
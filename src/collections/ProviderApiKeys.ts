@@ -0,0 +1,147 @@
+import type { CollectionConfig } from 'payload'
+import { can } from '@/access'
+import { auditAfterChange, auditAfterDelete } from '@/hooks/auditLog'
+
+/**
+ * API keys used by providers to call /api/v1/*
+ * Only a SHA-256 hash of each key is stored; the full key is shown once when it is created
+ */
+export const ProviderApiKeys: CollectionConfig = {
+  slug: 'provider-api-keys',
+  admin: {
+    useAsTitle: 'name',
+    description:
+      'Provider API keys. Create and rotate keys from the provider page — the full key is only shown once.',
+    defaultColumns: ['name', 'provider', 'prefix', 'mode', 'status', 'expiresAt', 'lastUsedAt'],
+  },
+  access: {
+    read: can('viewApiKeys'),
+    // Keys are issued by /api/admin/provider-api-keys so the plaintext can be returned once
+    create: () => false,
+    update: can('manageApiKeys'),
+    delete: can('manageApiKeys'),
+  },
+  hooks: {
+    afterChange: [auditAfterChange],
+    afterDelete: [auditAfterDelete],
+  },
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+      admin: {
+        description: 'What this key is used for, e.g. "Production backend"',
+      },
+    },
+    {
+      name: 'provider',
+      type: 'relationship',
+      relationTo: 'providers',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'keyHash',
+      type: 'text',
+      required: true,
+      unique: true,
+      index: true,
+      access: {
+        // Never expose the hash through the API or admin panel
+        read: () => false,
+        update: () => false,
+      },
+      admin: {
+        hidden: true,
+      },
+    },
+    {
+      name: 'prefix',
+      type: 'text',
+      required: true,
+      label: 'Key Prefix',
+      admin: {
+        readOnly: true,
+        description: 'First characters of the key, to tell keys apart',
+      },
+    },
+    {
+      name: 'mode',
+      type: 'select',
+      required: true,
+      defaultValue: 'live',
+      options: [
+        { label: 'Live', value: 'live' },
+        { label: 'Test', value: 'test' },
+      ],
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Test keys charge a Stripe test account and create test orders',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'active',
+      index: true,
+      options: [
+        { label: '🟢 Active', value: 'active' },
+        { label: '🔴 Revoked', value: 'revoked' },
+      ],
+      admin: {
+        position: 'sidebar',
+        description: 'Revoked keys are rejected immediately',
+      },
+    },
+    {
+      name: 'expiresAt',
+      type: 'date',
+      label: 'Expires At',
+      admin: {
+        position: 'sidebar',
+        description: 'Set when the key is rotated out; the key is rejected after this time',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'lastUsedAt',
+      type: 'date',
+      label: 'Last Used At',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'replacedBy',
+      type: 'relationship',
+      relationTo: 'provider-api-keys',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        condition: (data) => Boolean(data?.replacedBy),
+        description: 'Key issued when this one was rotated',
+      },
+    },
+    {
+      name: 'createdBy',
+      type: 'relationship',
+      relationTo: 'users',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+}
@@ -1,29 +1,91 @@
-import type { CollectionConfig } from 'payload'
-import { generateApiKey } from '@/lib/api-key'
-import { adminOnly } from '@/access'
+import type {
+  ArrayFieldValidation,
+  CollectionConfig,
+  RelationshipFieldSingleValidation,
+  SelectFieldManyValidation,
+} from 'payload'
+import type { Provider } from '@/payload-types'
+import { generateWebhookSecret } from '@/lib/webhook-signature'
+import { can } from '@/access'
+import { encryptStripeConfig } from '@/hooks/stripeConfig'
+import { auditAfterChange, auditAfterDelete } from '@/hooks/auditLog'
+import { stripeConfigField } from '@/fields/stripeConfig'
+import { MAX_CHECKOUT_EXPIRY_MINUTES, MIN_CHECKOUT_EXPIRY_MINUTES } from '@/lib/checkout-expiry'
+import { PAYMENT_METHOD_OPTIONS, validatePaymentMethodSelection } from '@/lib/payment-methods'
+
+// The primary service must be one of the provider's linked services
+const validatePrimaryService: RelationshipFieldSingleValidation = (value, { siblingData }) => {
+  if (!value) return 'Select the primary service'
+  const links = (siblingData as Partial<Provider>).services || []
+  const linked = links.some(
+    (link) => (typeof link.service === 'string' ? link.service : link.service?.id) === value,
+  )
+  return linked || 'The primary service must be one of the linked services'
+}
+
+const validatePaymentMethods: SelectFieldManyValidation = (value) =>
+  validatePaymentMethodSelection(value)
+
+// Each volume threshold may only be used once
+const validateFeeTiers: ArrayFieldValidation = (_, { siblingData }) => {
+  const tiers = (siblingData as NonNullable<Provider['feeSchedule']>).tiers || []
+  const thresholds = tiers.map((tier) => tier.minMonthlyVolume)
+  if (new Set(thresholds).size !== thresholds.length) {
+    return 'Each tier needs a different monthly volume'
+  }
+  return true
+}
 
 export const Providers: CollectionConfig = {
   slug: 'providers',
   admin: {
     useAsTitle: 'name',
     description: 'External providers that use dztech.shop as their payment gateway',
-    defaultColumns: ['name', 'service', 'status', 'createdAt'],
+    defaultColumns: ['name', 'primaryService', 'status', 'createdAt'],
   },
   access: {
-    read: adminOnly,
-    create: adminOnly,
-    update: adminOnly,
-    delete: adminOnly,
+    read: can('viewProviders'),
+    create: can('manageProviders'),
+    update: can('manageProviders'),
+    delete: can('manageProviders'),
   },
   hooks: {
+    beforeValidate: [
+      ({ data }) => {
+        // Default the primary service to the first linked service
+        if (data && !data.primaryService && data.services?.[0]?.service) {
+          data.primaryService = data.services[0].service
+        }
+        return data
+      },
+    ],
     beforeChange: [
-      async ({ data, operation }) => {
-        if (operation === 'create' && !data.apiKey) {
-          data.apiKey = generateApiKey()
+      encryptStripeConfig,
+      async ({ data, operation, originalDoc }) => {
+        // Every provider gets a signing secret (also backfills providers created before signing)
+        if (!data.webhookSigningSecret && !originalDoc?.webhookSigningSecret) {
+          data.webhookSigningSecret = generateWebhookSecret()
         }
+
+        // Rotation: keep the current secret valid for the grace window, then issue a new one
+        if (operation === 'update' && data.rotateWebhookSecret) {
+          const graceHours =
+            data.webhookSecretGraceHours ?? originalDoc?.webhookSecretGraceHours ?? 24
+          const currentSecret = originalDoc?.webhookSigningSecret || data.webhookSigningSecret
+
+          data.previousWebhookSigningSecret = currentSecret
+          data.previousWebhookSigningSecretExpiresAt = new Date(
+            Date.now() + graceHours * 60 * 60 * 1000,
+          ).toISOString()
+          data.webhookSigningSecret = generateWebhookSecret()
+          data.rotateWebhookSecret = false
+        }
+
         return data
       },
     ],
+    afterChange: [auditAfterChange],
+    afterDelete: [auditAfterDelete],
   },
   fields: [
     {
@@ -46,27 +108,206 @@ export const Providers: CollectionConfig = {
       },
     },
     {
-      name: 'apiKey',
-      type: 'text',
+      name: 'apiKeys',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: '@/components/Admin/ProviderApiKeys#ProviderApiKeys',
+        },
+      },
+    },
+    {
+      name: 'services',
+      type: 'array',
+      label: 'Linked Services',
       required: true,
-      unique: true,
-      label: 'API Key',
+      minRows: 1,
       admin: {
         description:
-          'The API key this provider will use to authenticate requests. Will be auto-generated if not provided.',
-        readOnly: true,
+          'Services this provider can sell. Requests pick one with `serviceSlug`; amount rules can be overridden per service.',
       },
+      fields: [
+        {
+          name: 'service',
+          type: 'relationship',
+          relationTo: 'services',
+          required: true,
+        },
+        {
+          type: 'collapsible',
+          label: 'Amount Rule Overrides',
+          admin: {
+            initCollapsed: true,
+            description: "Leave empty to use the service's amount rules",
+          },
+          fields: [
+            {
+              name: 'pricingMode',
+              type: 'select',
+              options: [
+                { label: 'Per unit (amount = price × quantity)', value: 'unit' },
+                { label: 'Open amount', value: 'open' },
+              ],
+            },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'minAmount',
+                  type: 'number',
+                  label: 'Min Amount ($)',
+                  min: 0,
+                  admin: { width: '33%' },
+                },
+                {
+                  name: 'maxAmount',
+                  type: 'number',
+                  label: 'Max Amount ($)',
+                  min: 0,
+                  validate: (
+                    value: number | null | undefined,
+                    { siblingData }: { siblingData: { minAmount?: number | null } },
+                  ) =>
+                    value == null || siblingData.minAmount == null || value >= siblingData.minAmount
+                      ? true
+                      : 'Max amount must be at least the min amount',
+                  admin: { width: '33%' },
+                },
+                {
+                  name: 'amountStep',
+                  type: 'number',
+                  label: 'Step ($)',
+                  min: 0.01,
+                  admin: { width: '33%' },
+                },
+              ],
+            },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'minQuantity',
+                  type: 'number',
+                  label: 'Min Quantity',
+                  min: 1,
+                  admin: { width: '50%' },
+                },
+                {
+                  name: 'maxQuantity',
+                  type: 'number',
+                  label: 'Max Quantity',
+                  min: 1,
+                  admin: { width: '50%' },
+                },
+              ],
+            },
+          ],
+        },
+      ],
     },
     {
-      name: 'service',
+      name: 'primaryService',
       type: 'relationship',
       relationTo: 'services',
       required: true,
-      label: 'Linked Service',
+      label: 'Primary Service',
+      validate: validatePrimaryService,
+      admin: {
+        description: 'Charged when a request does not send a `serviceSlug`',
+      },
+    },
+    {
+      name: 'paymentMethods',
+      type: 'select',
+      hasMany: true,
+      label: 'Allowed Payment Methods',
+      options: PAYMENT_METHOD_OPTIONS,
+      validate: validatePaymentMethods,
+      admin: {
+        description:
+          "Limits checkout to these methods, within each service's allowed methods. Leave empty to offer everything the service allows.",
+      },
+    },
+    {
+      name: 'feeSchedule',
+      type: 'group',
+      label: 'Platform Fee Schedule',
       admin: {
-        description: 'The service whose Stripe configuration will be used for payments',
+        description:
+          'What the platform keeps from each paid order. Applied when the order becomes paid; the rest is owed to the provider.',
       },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'percentage',
+              type: 'number',
+              label: 'Percentage (%)',
+              defaultValue: 0,
+              min: 0,
+              max: 100,
+              admin: {
+                width: '50%',
+              },
+            },
+            {
+              name: 'fixedFee',
+              type: 'number',
+              label: 'Fixed Fee per Order ($)',
+              defaultValue: 0,
+              min: 0,
+              admin: {
+                width: '50%',
+                step: 0.01,
+              },
+            },
+          ],
+        },
+        {
+          name: 'tiers',
+          type: 'array',
+          label: 'Volume Tiers',
+          validate: validateFeeTiers,
+          admin: {
+            description:
+              "Replace the percentage once the provider's paid volume this calendar month (UTC) reaches a threshold. The highest reached tier applies.",
+            initCollapsed: true,
+          },
+          fields: [
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'minMonthlyVolume',
+                  type: 'number',
+                  label: 'From Monthly Volume ($)',
+                  required: true,
+                  min: 0,
+                  admin: {
+                    width: '50%',
+                  },
+                },
+                {
+                  name: 'percentage',
+                  type: 'number',
+                  label: 'Percentage (%)',
+                  required: true,
+                  min: 0,
+                  max: 100,
+                  admin: {
+                    width: '50%',
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
     },
+    stripeConfigField(
+      "Charge this provider's payments to its own Stripe account. Overrides the services' accounts and the platform account.",
+    ),
     {
       name: 'status',
       type: 'select',
@@ -90,13 +331,73 @@ export const Providers: CollectionConfig = {
           'URL to notify when a payment is completed (POST request with payment details)',
       },
     },
+    {
+      name: 'webhookSigningSecret',
+      type: 'text',
+      label: 'Webhook Signing Secret',
+      admin: {
+        description:
+          'Used to sign webhook deliveries (HMAC-SHA256, sent in X-DZTech-Signature). Share it with the provider so they can verify requests. Auto-generated.',
+        readOnly: true,
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'rotateWebhookSecret',
+          type: 'checkbox',
+          label: 'Rotate Signing Secret',
+          defaultValue: false,
+          admin: {
+            width: '50%',
+            description:
+              'Check and save to issue a new signing secret. The current secret keeps signing deliveries until the grace period ends.',
+          },
+        },
+        {
+          name: 'webhookSecretGraceHours',
+          type: 'number',
+          label: 'Rotation Grace Period (hours)',
+          defaultValue: 24,
+          min: 0,
+          max: 168,
+          admin: {
+            width: '50%',
+            description: 'How long the previous secret stays valid after a rotation',
+          },
+        },
+      ],
+    },
+    {
+      name: 'previousWebhookSigningSecret',
+      type: 'text',
+      label: 'Previous Signing Secret',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.previousWebhookSigningSecret),
+        description: 'Still included in webhook signatures until the expiry below',
+      },
+    },
+    {
+      name: 'previousWebhookSigningSecretExpiresAt',
+      type: 'date',
+      label: 'Previous Secret Expires At',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.previousWebhookSigningSecret),
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
     {
       name: 'successRedirectUrl',
       type: 'text',
       label: 'Success Redirect URL',
       admin: {
         description:
-          'URL to redirect users after successful payment. Use {orderId} as placeholder. Example: https://bitloader.com/payment/success?orderId={orderId}',
+          'URL to redirect users after successful payment. Placeholders: {orderId}, {externalId}, {status}. Example: https://bitloader.com/payment/success?orderId={orderId}',
       },
     },
     {
@@ -105,7 +406,42 @@ export const Providers: CollectionConfig = {
       label: 'Cancel Redirect URL',
       admin: {
         description:
-          'URL to redirect users if they cancel payment. Use {orderId} as placeholder. Example: https://bitloader.com/payment/cancelled?orderId={orderId}',
+          'URL to redirect users if they cancel payment. Placeholders: {orderId}, {externalId}, {status}. Example: https://bitloader.com/payment/cancelled?orderId={orderId}',
+      },
+    },
+    {
+      name: 'allowedRedirectDomains',
+      type: 'array',
+      label: 'Allowed Redirect Domains',
+      admin: {
+        description:
+          'Domains the provider may send as per-order successUrl / cancelUrl (subdomains included). Leave empty to disallow per-order URLs.',
+      },
+      fields: [
+        {
+          name: 'domain',
+          type: 'text',
+          required: true,
+          admin: {
+            placeholder: 'bitloader.com',
+          },
+          validate: (value: string | null | undefined) =>
+            !value ||
+            /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/i.test(value)
+              ? true
+              : 'Enter a domain name only, e.g. bitloader.com',
+        },
+      ],
+    },
+    {
+      name: 'checkoutExpiryMinutes',
+      type: 'number',
+      label: 'Checkout Expiry (minutes)',
+      min: MIN_CHECKOUT_EXPIRY_MINUTES,
+      max: MAX_CHECKOUT_EXPIRY_MINUTES,
+      admin: {
+        description:
+          'How long checkout links for this provider stay payable. Leave empty to use Site Settings → Checkout.',
       },
     },
     {
@@ -127,5 +463,13 @@ export const Providers: CollectionConfig = {
         description: 'Last time this provider made an API request',
       },
     },
+    {
+      name: 'payoutLockedUntil',
+      type: 'date',
+      admin: {
+        hidden: true,
+        description: 'Held while a payout is recorded, so payouts to a provider run one at a time',
+      },
+    },
   ],
 }
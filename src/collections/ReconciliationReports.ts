@@ -0,0 +1,185 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly, can } from '@/access'
+
+/**
+ * Results of Stripe-to-database reconciliation runs
+ * Written by the `reconcileStripePayments` task and admin-triggered runs; each run lists the
+ * drifts it fixed and the discrepancies that need a person to look at them.
+ */
+export const ReconciliationReports: CollectionConfig = {
+  slug: 'reconciliation-reports',
+  admin: {
+    useAsTitle: 'windowEnd',
+    description:
+      'Stripe PaymentIntents and refunds matched against orders. Safe drifts are fixed automatically; the rest are listed as discrepancies.',
+    defaultColumns: ['createdAt', 'trigger', 'status', 'windowStart', 'windowEnd', 'summary'],
+  },
+  access: {
+    read: can('viewReconciliation'),
+    // Reports are written by the reconciliation with overrideAccess only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'trigger',
+          type: 'select',
+          required: true,
+          options: [
+            { label: 'Scheduled', value: 'schedule' },
+            { label: 'Admin', value: 'admin' },
+          ],
+          admin: {
+            readOnly: true,
+            width: '50%',
+          },
+        },
+        {
+          name: 'status',
+          type: 'select',
+          required: true,
+          options: [
+            { label: '✅ Completed', value: 'completed' },
+            { label: '❌ Failed', value: 'failed' },
+          ],
+          admin: {
+            readOnly: true,
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'windowStart',
+          type: 'date',
+          required: true,
+          admin: {
+            readOnly: true,
+            width: '50%',
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+          },
+        },
+        {
+          name: 'windowEnd',
+          type: 'date',
+          required: true,
+          index: true,
+          admin: {
+            readOnly: true,
+            width: '50%',
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+          },
+        },
+      ],
+    },
+    {
+      name: 'summary',
+      type: 'group',
+      admin: {
+        readOnly: true,
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            { name: 'accounts', type: 'number', defaultValue: 0, admin: { width: '20%' } },
+            { name: 'paymentIntents', type: 'number', defaultValue: 0, admin: { width: '20%' } },
+            { name: 'refunds', type: 'number', defaultValue: 0, admin: { width: '20%' } },
+            { name: 'fixed', type: 'number', defaultValue: 0, admin: { width: '20%' } },
+            { name: 'unresolved', type: 'number', defaultValue: 0, admin: { width: '20%' } },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'fixes',
+      type: 'array',
+      label: 'Fixed Automatically',
+      admin: {
+        readOnly: true,
+        initCollapsed: true,
+      },
+      fields: [
+        {
+          name: 'order',
+          type: 'relationship',
+          relationTo: 'orders',
+        },
+        {
+          name: 'stripeObjectId',
+          type: 'text',
+        },
+        {
+          name: 'outcome',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      name: 'discrepancies',
+      type: 'array',
+      admin: {
+        readOnly: true,
+      },
+      fields: [
+        {
+          name: 'type',
+          type: 'select',
+          required: true,
+          options: [
+            { label: 'PaymentIntent without order', value: 'missing_order' },
+            { label: 'Paid in Stripe, not in orders', value: 'paid_in_stripe' },
+            { label: 'Paid in orders, not in Stripe', value: 'not_paid_in_stripe' },
+            { label: 'Amount mismatch', value: 'amount_mismatch' },
+            { label: 'PaymentIntent not found', value: 'payment_intent_not_found' },
+          ],
+        },
+        {
+          name: 'order',
+          type: 'relationship',
+          relationTo: 'orders',
+        },
+        {
+          name: 'stripeObjectId',
+          type: 'text',
+        },
+        {
+          name: 'stripeAccount',
+          type: 'text',
+        },
+        {
+          name: 'message',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      name: 'error',
+      type: 'textarea',
+      admin: {
+        readOnly: true,
+        condition: (data) => data?.status === 'failed',
+      },
+    },
+    {
+      name: 'requestedBy',
+      type: 'relationship',
+      relationTo: 'users',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
+  ],
+}
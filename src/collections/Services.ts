@@ -1,6 +1,17 @@
-import type { CollectionConfig } from 'payload'
+import type { CollectionConfig, SelectFieldManyValidation } from 'payload'
 import { revalidate } from '@/hooks/revalidate'
-import { publicReadAdminWrite } from '@/access'
+import { encryptStripeConfig } from '@/hooks/stripeConfig'
+import { auditAfterChange, auditAfterDelete } from '@/hooks/auditLog'
+import { stripeConfigField } from '@/fields/stripeConfig'
+import { publicReadContentWrite } from '@/access'
+import {
+  DEFAULT_PAYMENT_METHODS,
+  PAYMENT_METHOD_OPTIONS,
+  validatePaymentMethodSelection,
+} from '@/lib/payment-methods'
+
+const validatePaymentMethods: SelectFieldManyValidation = (value) =>
+  validatePaymentMethodSelection(value)
 
 export const Services: CollectionConfig = {
   slug: 'services',
@@ -9,9 +20,11 @@ export const Services: CollectionConfig = {
     // Updated columns to show Stripe status
     defaultColumns: ['title', 'category', 'price', 'status'],
   },
-  access: publicReadAdminWrite,
+  access: publicReadContentWrite,
   hooks: {
-    afterChange: [revalidate],
+    beforeChange: [encryptStripeConfig],
+    afterChange: [revalidate, auditAfterChange],
+    afterDelete: [auditAfterDelete],
   },
   fields: [
     {
@@ -102,6 +115,97 @@ export const Services: CollectionConfig = {
       ],
       defaultValue: 'project',
     },
+    {
+      name: 'amountRules',
+      type: 'group',
+      label: 'Amount Rules',
+      admin: {
+        description:
+          'Which amounts can be charged for this service. Providers can override these per linked service.',
+      },
+      fields: [
+        {
+          name: 'pricingMode',
+          type: 'select',
+          required: true,
+          defaultValue: 'unit',
+          options: [
+            { label: 'Per unit (amount = price × quantity)', value: 'unit' },
+            { label: 'Open amount', value: 'open' },
+          ],
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'minAmount',
+              type: 'number',
+              label: 'Min Amount ($)',
+              min: 0,
+              admin: { width: '33%' },
+            },
+            {
+              name: 'maxAmount',
+              type: 'number',
+              label: 'Max Amount ($)',
+              min: 0,
+              admin: { width: '33%' },
+            },
+            {
+              name: 'amountStep',
+              type: 'number',
+              label: 'Step ($)',
+              min: 0.01,
+              admin: {
+                width: '33%',
+                description: 'Amounts must be a multiple of this',
+              },
+            },
+          ],
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'minQuantity',
+              type: 'number',
+              label: 'Min Quantity',
+              min: 1,
+              admin: {
+                width: '50%',
+                condition: (_, siblingData) => siblingData?.pricingMode !== 'open',
+              },
+            },
+            {
+              name: 'maxQuantity',
+              type: 'number',
+              label: 'Max Quantity',
+              min: 1,
+              admin: {
+                width: '50%',
+                condition: (_, siblingData) => siblingData?.pricingMode !== 'open',
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'paymentMethods',
+      type: 'select',
+      hasMany: true,
+      label: 'Allowed Payment Methods',
+      options: PAYMENT_METHOD_OPTIONS,
+      defaultValue: [...DEFAULT_PAYMENT_METHODS],
+      validate: validatePaymentMethods,
+      admin: {
+        description:
+          'Payment methods offered at checkout. ACH debits settle after a few business days. Leave empty for Cash App only.',
+      },
+    },
+    stripeConfigField(
+      "Charge this service's payments to its own Stripe account instead of the platform account. A provider's own account takes precedence.",
+    ),
     {
       name: 'features',
       type: 'array',
@@ -0,0 +1,141 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly, can } from '@/access'
+
+/**
+ * Ledger of Stripe webhook events received by /api/v1/stripe/webhooks
+ * Used to skip redeliveries and events that arrive after a newer event for the same object
+ */
+export const StripeEvents: CollectionConfig = {
+  slug: 'stripe-events',
+  admin: {
+    useAsTitle: 'eventId',
+    description: 'Stripe webhook events and how they were processed. Written by the webhook route.',
+    defaultColumns: ['eventId', 'type', 'status', 'objectId', 'stripeCreatedAt', 'deliveryCount'],
+  },
+  access: {
+    read: can('viewStripeEvents'),
+    // The ledger is written by the webhook route with overrideAccess only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+  fields: [
+    {
+      name: 'eventId',
+      type: 'text',
+      required: true,
+      unique: true,
+      index: true,
+      label: 'Event ID',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'type',
+      type: 'text',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'processing',
+      index: true,
+      options: [
+        { label: '⏳ Processing', value: 'processing' },
+        { label: '✅ Processed', value: 'processed' },
+        { label: '⏭️ Skipped', value: 'skipped' },
+        { label: '❌ Failed', value: 'failed' },
+      ],
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'objectId',
+      type: 'text',
+      index: true,
+      label: 'Object ID',
+      admin: {
+        readOnly: true,
+        description: 'ID of the Stripe object the event is about (PaymentIntent, dispute, ...)',
+      },
+    },
+    {
+      name: 'paymentIntentId',
+      type: 'text',
+      index: true,
+      label: 'PaymentIntent ID',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'stripeCreatedAt',
+      type: 'date',
+      required: true,
+      index: true,
+      label: 'Created in Stripe',
+      admin: {
+        readOnly: true,
+        description: 'Event creation time in Stripe, used to order events for the same object',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'outcome',
+      type: 'text',
+      admin: {
+        readOnly: true,
+        description: 'What processing did, or why the event was skipped',
+      },
+    },
+    {
+      name: 'error',
+      type: 'textarea',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.error),
+      },
+    },
+    {
+      name: 'deliveryCount',
+      type: 'number',
+      defaultValue: 1,
+      label: 'Deliveries',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Times Stripe delivered this event to us',
+      },
+    },
+    {
+      name: 'processedAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'livemode',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+}
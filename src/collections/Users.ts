@@ -1,18 +1,37 @@
 import type { CollectionConfig } from 'payload'
-import { adminOnly, adminOrSelf } from '@/access'
+import { adminOnly, adminOrSelf, getActiveUser } from '@/access'
+import { USER_ROLE_OPTIONS } from '@/lib/permissions'
+import { auditAfterChange, auditAfterDelete } from '@/hooks/auditLog'
+import { recordFailedLogin, recordLogin } from '@/hooks/loginHistory'
+import { LOGIN_LOCK_TIME_MS, MAX_LOGIN_ATTEMPTS } from '@/lib/login-history'
+
+// Two-factor secrets and state are only read and written by /api/admin/two-factor routes
+const noFieldAccess = { read: () => false, create: () => false, update: () => false }
 
 export const Users: CollectionConfig = {
   slug: 'users',
   admin: {
     useAsTitle: 'email',
   },
-  auth: true,
+  auth: {
+    // Lets scripts call /api/admin/* with `Authorization: users API-Key <key>`
+    useAPIKey: true,
+    // Per-account lockout after repeated wrong passwords (two-factor failures count too)
+    maxLoginAttempts: MAX_LOGIN_ATTEMPTS,
+    lockTime: LOGIN_LOCK_TIME_MS,
+  },
   access: {
     read: adminOrSelf,
     create: adminOnly,
     update: adminOrSelf,
     delete: adminOnly,
   },
+  hooks: {
+    afterChange: [auditAfterChange],
+    afterDelete: [auditAfterDelete],
+    afterLogin: [recordLogin],
+    afterError: [recordFailedLogin],
+  },
   fields: [
     {
       name: 'name',
@@ -22,15 +41,98 @@ export const Users: CollectionConfig = {
     {
       name: 'role',
       type: 'select',
-      options: [
-        { label: 'Admin', value: 'admin' },
-        { label: 'Editor', value: 'editor' },
-      ],
+      options: USER_ROLE_OPTIONS,
       defaultValue: 'editor',
       required: true,
       saveToJWT: true, // Include role in JWT for fast access checks
       access: {
-        update: ({ req }) => req.user?.role === 'admin', // Only admins can change roles
+        update: ({ req }) => getActiveUser(req.user)?.role === 'admin', // Only admins can change roles
+      },
+    },
+    {
+      name: 'twoFactorSettings',
+      type: 'ui',
+      admin: {
+        position: 'sidebar',
+        components: {
+          Field: '@/components/Admin/TwoFactorField#TwoFactorField',
+        },
+      },
+    },
+    {
+      name: 'twoFactor',
+      type: 'group',
+      label: 'Two-Factor Authentication',
+      admin: {
+        hidden: true,
+      },
+      fields: [
+        {
+          name: 'enabled',
+          type: 'checkbox',
+          defaultValue: false,
+          access: {
+            create: () => false,
+            update: () => false,
+          },
+        },
+        {
+          name: 'enabledAt',
+          type: 'date',
+          access: {
+            create: () => false,
+            update: () => false,
+          },
+        },
+        {
+          // Encrypted TOTP secret
+          name: 'secret',
+          type: 'text',
+          access: noFieldAccess,
+        },
+        {
+          // Encrypted secret being enrolled, until confirmed with a code
+          name: 'pendingSecret',
+          type: 'text',
+          access: noFieldAccess,
+        },
+        {
+          // SHA-256 hashes of the unused recovery codes
+          name: 'recoveryCodes',
+          type: 'text',
+          hasMany: true,
+          access: noFieldAccess,
+        },
+        {
+          // Time step of the last accepted code, so codes can't be replayed
+          name: 'lastUsedStep',
+          type: 'number',
+          access: noFieldAccess,
+        },
+        {
+          name: 'failedAttempts',
+          type: 'number',
+          defaultValue: 0,
+          access: noFieldAccess,
+        },
+        {
+          // Login sessions (`sid`) that passed two-factor
+          name: 'verifiedSessions',
+          type: 'text',
+          hasMany: true,
+          access: noFieldAccess,
+        },
+      ],
+    },
+    {
+      name: 'loginHistory',
+      type: 'join',
+      collection: 'login-events',
+      on: 'user',
+      defaultSort: '-createdAt',
+      defaultLimit: 10,
+      admin: {
+        defaultColumns: ['createdAt', 'outcome', 'ip', 'userAgent', 'newDevice'],
       },
     },
   ],
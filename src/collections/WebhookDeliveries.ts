@@ -0,0 +1,195 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly, can } from '@/access'
+
+export const WebhookDeliveries: CollectionConfig = {
+  slug: 'webhook-deliveries',
+  admin: {
+    useAsTitle: 'event',
+    description:
+      'Outbound provider webhook deliveries. Failed deliveries are retried in the background and dead-lettered after the final attempt.',
+    defaultColumns: ['event', 'provider', 'order', 'status', 'attemptCount', 'nextAttemptAt'],
+    components: {
+      beforeListTable: ['@/components/Admin/WebhookDeliveryActions#BulkReplayDeliveries'],
+    },
+  },
+  access: {
+    read: can('viewWebhookDeliveries'),
+    // Deliveries are written by the delivery worker with overrideAccess, and replayed through
+    // /api/admin/webhook-deliveries/replay. Editing one would let its body be resent signed.
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+  fields: [
+    {
+      name: 'provider',
+      type: 'relationship',
+      relationTo: 'providers',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'order',
+      type: 'relationship',
+      relationTo: 'orders',
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'event',
+      type: 'select',
+      required: true,
+      options: [
+        { label: 'Payment Succeeded', value: 'payment_succeeded' },
+        { label: 'Payment Failed', value: 'payment_failed' },
+        { label: 'Payment Refunded', value: 'payment_refunded' },
+        { label: 'Payment Expired', value: 'payment_expired' },
+      ],
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'pending',
+      index: true,
+      options: [
+        { label: '⏳ Pending', value: 'pending' },
+        { label: '🔁 Retrying', value: 'retrying' },
+        { label: '✅ Delivered', value: 'delivered' },
+        { label: '☠️ Dead Letter', value: 'dead_letter' },
+      ],
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'replay',
+      type: 'ui',
+      admin: {
+        position: 'sidebar',
+        components: {
+          Field: '@/components/Admin/WebhookDeliveryActions#ReplayDeliveryButton',
+        },
+      },
+    },
+    {
+      name: 'attemptCount',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Attempts made since the delivery was created or last replayed',
+      },
+    },
+    {
+      name: 'nextAttemptAt',
+      type: 'date',
+      index: true,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'deliveredAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'lastResponseCode',
+      type: 'number',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'lastError',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'payload',
+      type: 'json',
+      required: true,
+      admin: {
+        readOnly: true,
+        description: 'Body sent to the provider (signed fresh on every attempt)',
+      },
+    },
+    {
+      name: 'attempts',
+      type: 'array',
+      labels: {
+        singular: 'Attempt',
+        plural: 'Attempts',
+      },
+      admin: {
+        readOnly: true,
+        initCollapsed: true,
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'attemptedAt',
+              type: 'date',
+              required: true,
+              admin: {
+                width: '33%',
+                date: {
+                  pickerAppearance: 'dayAndTime',
+                },
+              },
+            },
+            {
+              name: 'responseCode',
+              type: 'number',
+              admin: {
+                width: '33%',
+              },
+            },
+            {
+              name: 'latencyMs',
+              type: 'number',
+              label: 'Latency (ms)',
+              admin: {
+                width: '33%',
+              },
+            },
+          ],
+        },
+        {
+          name: 'url',
+          type: 'text',
+        },
+        {
+          name: 'error',
+          type: 'text',
+        },
+      ],
+    },
+  ],
+}
@@ -1,12 +1,244 @@
 'use client'
 
-import React from 'react'
+import React, { useCallback, useEffect, useState } from 'react'
+import type { AuditLog } from '@/payload-types'
+import {
+  AUDIT_ACTIONS,
+  AUDITED_COLLECTIONS,
+  formatAuditValue,
+  type AuditChange,
+} from '@/lib/audit-log'
 
+interface AuditLogPage {
+  docs: AuditLog[]
+  totalDocs: number
+  page: number
+  totalPages: number
+  timeZone: string
+}
+
+const buttonStyle = (
+  disabled: boolean,
+  color = 'var(--theme-elevation-500)',
+): React.CSSProperties => ({
+  padding: '6px 12px',
+  backgroundColor: disabled ? '#ccc' : color,
+  color: '#fff',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+})
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid var(--theme-elevation-150)',
+  textAlign: 'left',
+  verticalAlign: 'top',
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  border: '1px solid var(--theme-elevation-250)',
+  borderRadius: '4px',
+  background: 'var(--theme-input-bg)',
+  color: 'var(--theme-text)',
+}
+
+/**
+ * Searchable, filterable audit log with CSV export
+ */
 export const AuditLogView: React.FC = () => {
+  const [search, setSearch] = useState('')
+  const [action, setAction] = useState('')
+  const [collection, setCollection] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [page, setPage] = useState(1)
+  const [result, setResult] = useState<AuditLogPage | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const getParams = useCallback(() => {
+    const params = new URLSearchParams()
+    if (search.trim()) params.set('q', search.trim())
+    if (action) params.set('action', action)
+    if (collection) params.set('collection', collection)
+    if (from) params.set('from', from)
+    if (to) params.set('to', to)
+    return params
+  }, [search, action, collection, from, to])
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError('')
+    try {
+      const params = getParams()
+      params.set('page', String(page))
+      const res = await fetch(`/api/admin/audit-logs?${params}`, { credentials: 'include' })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+      setResult(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit logs')
+    } finally {
+      setLoading(false)
+    }
+  }, [getParams, page])
+
+  useEffect(() => {
+    // Debounce typing in the search box
+    const timeout = setTimeout(load, 300)
+    return () => clearTimeout(timeout)
+  }, [load])
+
+  // Any filter change starts again from the first page
+  const setFilter =
+    (setter: (value: string) => void) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      setter(e.target.value)
+      setPage(1)
+    }
+
+  const exportParams = getParams()
+  exportParams.set('format', 'csv')
+
   return (
     <div style={{ padding: '24px' }}>
-      <h1 style={{ marginBottom: '16px' }}>Audit Logs</h1>
-      <p>View system audit logs and activity history.</p>
+      <h1 style={{ marginBottom: '8px' }}>Audit Logs</h1>
+      <p style={{ margin: '0 0 16px 0', color: 'var(--theme-elevation-800)' }}>
+        Who changed orders, providers, API keys, services, users and site settings, and from where.
+        Entries are written automatically and can never be edited.
+      </p>
+
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '16px' }}>
+        <input
+          type="search"
+          placeholder="Search summary, email, document or IP"
+          value={search}
+          onChange={setFilter(setSearch)}
+          style={{ ...inputStyle, minWidth: '260px' }}
+        />
+        <select value={action} onChange={setFilter(setAction)} style={inputStyle}>
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <select value={collection} onChange={setFilter(setCollection)} style={inputStyle}>
+          <option value="">All collections</option>
+          {[...AUDITED_COLLECTIONS, 'webhook-deliveries'].map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <input type="date" value={from} onChange={setFilter(setFrom)} style={inputStyle} />
+        <span style={{ alignSelf: 'center' }}>to</span>
+        <input type="date" value={to} onChange={setFilter(setTo)} style={inputStyle} />
+        <a href={`/api/admin/audit-logs?${exportParams}`} style={buttonStyle(false)} download>
+          Export CSV
+        </a>
+      </div>
+
+      {error && <p style={{ margin: '0 0 12px 0', color: 'var(--theme-error-500)' }}>{error}</p>}
+
+      <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '16px' }}>
+        <thead>
+          <tr>
+            <th style={cellStyle}>Date</th>
+            <th style={cellStyle}>Actor</th>
+            <th style={cellStyle}>Action</th>
+            <th style={cellStyle}>Collection</th>
+            <th style={cellStyle}>Summary</th>
+            <th style={cellStyle}>IP</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result?.docs.map((log) => (
+            <React.Fragment key={log.id}>
+              <tr
+                onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                style={{
+                  cursor: 'pointer',
+                  background: expandedId === log.id ? 'var(--theme-elevation-100)' : undefined,
+                }}
+              >
+                <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                  {new Date(log.createdAt).toLocaleString('en-US', { timeZone: result.timeZone })}
+                </td>
+                <td style={cellStyle}>{log.actorEmail || 'System'}</td>
+                <td style={cellStyle}>{log.action}</td>
+                <td style={cellStyle}>{log.collectionSlug}</td>
+                <td style={cellStyle}>{log.summary}</td>
+                <td style={cellStyle}>{log.ip || '—'}</td>
+              </tr>
+              {expandedId === log.id && (
+                <tr>
+                  <td style={cellStyle} colSpan={6}>
+                    {Array.isArray(log.changes) && log.changes.length > 0 ? (
+                      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                        <tbody>
+                          {(log.changes as AuditChange[]).map((change) => (
+                            <tr key={change.field}>
+                              <td style={{ ...cellStyle, fontWeight: 'bold' }}>{change.field}</td>
+                              <td style={cellStyle}>
+                                {formatAuditValue(change.before)} → {formatAuditValue(change.after)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    ) : (
+                      <p style={{ margin: 0 }}>No field changes recorded.</p>
+                    )}
+                    <p style={{ margin: '8px 0 0 0', color: 'var(--theme-elevation-800)' }}>
+                      Document: {log.documentId || '—'} · User agent: {log.userAgent || '—'}
+                    </p>
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+          {result && result.docs.length === 0 && (
+            <tr>
+              <td style={cellStyle} colSpan={6}>
+                No audit log entries match these filters.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {result && result.totalPages > 1 && (
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+          <button
+            type="button"
+            onClick={() => setPage(page - 1)}
+            disabled={loading || page <= 1}
+            style={buttonStyle(loading || page <= 1)}
+          >
+            Previous
+          </button>
+          <span>
+            Page {result.page} of {result.totalPages} ({result.totalDocs} entries)
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage(page + 1)}
+            disabled={loading || page >= result.totalPages}
+            style={buttonStyle(loading || page >= result.totalPages)}
+          >
+            Next
+          </button>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,305 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useAuth, useDocumentInfo } from '@payloadcms/ui'
+import type { User } from '@/payload-types'
+import { hasPermission } from '@/lib/permissions'
+
+interface ApiKeyRow {
+  id: string
+  name: string
+  prefix: string
+  mode: 'live' | 'test'
+  status: 'active' | 'revoked'
+  expiresAt?: string | null
+  lastUsedAt?: string | null
+  createdAt: string
+}
+
+async function request<T>(url: string, body?: Record<string, unknown>): Promise<T> {
+  const res = await fetch(url, {
+    method: body ? 'POST' : 'GET',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json()
+  if (!res.ok) {
+    throw new Error(data.error || 'Request failed')
+  }
+  return data
+}
+
+const buttonStyle = (
+  disabled: boolean,
+  color = 'var(--theme-success-500)',
+): React.CSSProperties => ({
+  padding: '6px 12px',
+  backgroundColor: disabled ? '#ccc' : color,
+  color: '#fff',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontWeight: 'bold',
+})
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid var(--theme-elevation-150)',
+  textAlign: 'left',
+}
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString() : '—')
+
+function keyState(key: ApiKeyRow): string {
+  if (key.status === 'revoked') return '🔴 Revoked'
+  if (key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now()) return '⚪ Expired'
+  if (key.expiresAt) return '🟡 Expiring'
+  return '🟢 Active'
+}
+
+/**
+ * API key management on a provider: create, rotate and revoke keys
+ * New keys are shown once, right after they are issued
+ */
+export const ProviderApiKeys: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const { user } = useAuth<User>()
+  const canView = hasPermission(user, 'viewApiKeys')
+  const canManage = hasPermission(user, 'manageApiKeys')
+  const [keys, setKeys] = useState<ApiKeyRow[]>([])
+  const [name, setName] = useState('')
+  const [mode, setMode] = useState<'live' | 'test'>('live')
+  const [graceHours, setGraceHours] = useState('24')
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState(false)
+
+  const load = useCallback(async () => {
+    if (!id || !canView) return
+    try {
+      setKeys(await request<ApiKeyRow[]>(`/api/admin/provider-api-keys?providerId=${id}`))
+    } catch (err) {
+      setError(true)
+      setMessage(err instanceof Error ? err.message : 'Failed to load API keys')
+    }
+  }, [id, canView])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<{ key?: string }>, success: string) => {
+    setLoading(true)
+    setMessage('')
+    setError(false)
+    try {
+      const result = await action()
+      setNewKey(result.key || null)
+      setMessage(success)
+      await load()
+      return true
+    } catch (err) {
+      setError(true)
+      setMessage(err instanceof Error ? err.message : 'An error occurred.')
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = () => {
+    if (!name.trim()) return
+    run(
+      () => request('/api/admin/provider-api-keys', { providerId: id, name: name.trim(), mode }),
+      mode === 'test' ? 'Test API key created' : 'API key created',
+    ).then((ok) => ok && setName(''))
+  }
+
+  const handleRotate = (key: ApiKeyRow) => {
+    const hours = Number(graceHours)
+    if (
+      !confirm(
+        hours > 0
+          ? `Issue a new "${key.name}" key? The current key keeps working for ${hours} hours.`
+          : `Issue a new "${key.name}" key and revoke the current key immediately?`,
+      )
+    )
+      return
+    run(
+      () => request(`/api/admin/provider-api-keys/${key.id}/rotate`, { graceHours: hours }),
+      'API key rotated',
+    )
+  }
+
+  const handleRevoke = (key: ApiKeyRow) => {
+    if (!confirm(`Revoke "${key.name}" (${key.prefix}…)? Requests using it will fail immediately.`))
+      return
+    run(() => request(`/api/admin/provider-api-keys/${key.id}/revoke`, {}), 'API key revoked')
+  }
+
+  if (!canView) return null
+
+  if (!id) {
+    return (
+      <div style={{ marginBottom: '24px' }}>
+        <h4 style={{ margin: '0 0 8px 0' }}>API Keys</h4>
+        <p style={{ margin: 0, color: 'var(--theme-elevation-800)' }}>
+          Save the provider first to create API keys.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ marginBottom: '24px' }}>
+      <h4 style={{ margin: '0 0 8px 0' }}>API Keys</h4>
+      <p style={{ margin: '0 0 12px 0', color: 'var(--theme-elevation-800)' }}>
+        Providers send a key as <code>Authorization: Bearer provider_…</code>. Only a hash is
+        stored, so a key is shown once when it is created. Test keys (<code>provider_test_…</code>)
+        create test orders against the Stripe test account.
+      </p>
+
+      {newKey && (
+        <div
+          style={{
+            marginBottom: '12px',
+            padding: '12px',
+            background: 'var(--theme-elevation-100)',
+            border: '1px solid var(--theme-warning-500)',
+            borderRadius: '4px',
+          }}
+        >
+          <strong>Copy this key now — it will not be shown again:</strong>
+          <pre style={{ margin: '8px 0', whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
+            {newKey}
+          </pre>
+          <button
+            type="button"
+            onClick={() => navigator.clipboard.writeText(newKey)}
+            style={buttonStyle(false)}
+          >
+            Copy
+          </button>{' '}
+          <button
+            type="button"
+            onClick={() => setNewKey(null)}
+            style={buttonStyle(false, 'var(--theme-elevation-500)')}
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {keys.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '12px' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>Name</th>
+              <th style={cellStyle}>Key</th>
+              <th style={cellStyle}>Mode</th>
+              <th style={cellStyle}>Status</th>
+              <th style={cellStyle}>Expires</th>
+              <th style={cellStyle}>Last Used</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map((key) => {
+              const usable =
+                key.status === 'active' &&
+                !(key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now())
+              return (
+                <tr key={key.id}>
+                  <td style={cellStyle}>{key.name}</td>
+                  <td style={cellStyle}>
+                    <code>{key.prefix}…</code>
+                  </td>
+                  <td style={cellStyle}>{key.mode === 'test' ? '🧪 Test' : 'Live'}</td>
+                  <td style={cellStyle}>{keyState(key)}</td>
+                  <td style={cellStyle}>{formatDate(key.expiresAt)}</td>
+                  <td style={cellStyle}>{formatDate(key.lastUsedAt)}</td>
+                  <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                    {canManage && usable && !key.expiresAt && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => handleRotate(key)}
+                          disabled={loading}
+                          style={buttonStyle(loading)}
+                        >
+                          Rotate
+                        </button>{' '}
+                      </>
+                    )}
+                    {canManage && usable && (
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(key)}
+                        disabled={loading}
+                        style={buttonStyle(loading, 'var(--theme-error-500)')}
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {canManage && (
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+          <input
+            type="text"
+            placeholder='Key name, e.g. "Production backend"'
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            style={{ flex: 1, minWidth: '200px', padding: '6px 8px' }}
+          />
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as 'live' | 'test')}
+            style={{ padding: '6px 8px' }}
+          >
+            <option value="live">Live</option>
+            <option value="test">Test</option>
+          </select>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={loading || !name.trim()}
+            style={buttonStyle(loading || !name.trim())}
+          >
+            Create API Key
+          </button>
+          <label style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+            Rotation grace (hours)
+            <input
+              type="number"
+              min="0"
+              max="720"
+              value={graceHours}
+              onChange={(e) => setGraceHours(e.target.value)}
+              style={{ width: '70px', padding: '6px 8px' }}
+            />
+          </label>
+        </div>
+      )}
+
+      {message && (
+        <p
+          style={{
+            margin: '8px 0 0 0',
+            color: error ? 'var(--theme-error-500)' : 'var(--theme-success-500)',
+          }}
+        >
+          {message}
+        </p>
+      )}
+    </div>
+  )
+}
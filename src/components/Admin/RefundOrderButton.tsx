@@ -0,0 +1,134 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth, useDocumentInfo, useFormFields } from '@payloadcms/ui'
+import type { User } from '@/payload-types'
+import { hasPermission } from '@/lib/permissions'
+
+const REFUNDABLE_STATUSES = ['paid', 'partially_refunded', 'disputed']
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 8px',
+  marginBottom: '8px',
+  border: '1px solid var(--theme-elevation-200)',
+  borderRadius: '4px',
+  background: 'var(--theme-input-bg)',
+  color: 'var(--theme-text)',
+}
+
+/**
+ * Sidebar form on an order: issues a full or partial Stripe refund
+ */
+export const RefundOrderButton: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const { user } = useAuth<User>()
+  const router = useRouter()
+  const status = useFormFields(([fields]) => fields.status?.value as string | undefined)
+  const total = useFormFields(([fields]) => (fields.total?.value as number | undefined) || 0)
+  const amountRefunded = useFormFields(
+    ([fields]) => (fields.amountRefunded?.value as number | undefined) || 0,
+  )
+
+  const [amount, setAmount] = useState('')
+  const [reason, setReason] = useState('requested_by_customer')
+  const [note, setNote] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState(false)
+
+  if (!id || !status || !REFUNDABLE_STATUSES.includes(status)) return null
+  if (!hasPermission(user, 'refundOrders')) return null
+
+  const refundable = Math.max(0, Math.round((total - amountRefunded) * 100) / 100)
+
+  const handleRefund = async () => {
+    const refundAmount = amount ? Number(amount) : refundable
+    if (!confirm(`Refund $${refundAmount.toFixed(2)} to the customer? This cannot be undone.`))
+      return
+
+    setLoading(true)
+    setMessage('Refunding...')
+    setError(false)
+
+    try {
+      const res = await fetch(`/api/admin/orders/${id}/refund`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ amount: amount || null, reason, note }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Refund failed')
+      }
+      setMessage(`Refund ${data.refundStatus}: $${data.amount.toFixed(2)}`)
+      setAmount('')
+      setNote('')
+      router.refresh()
+    } catch (err) {
+      setError(true)
+      setMessage(err instanceof Error ? err.message : 'An error occurred.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div style={{ marginBottom: '24px' }}>
+      <h4 style={{ margin: '0 0 8px 0' }}>Refund</h4>
+      <p style={{ margin: '0 0 8px 0', color: 'var(--theme-elevation-800)' }}>
+        Refundable: ${refundable.toFixed(2)}
+      </p>
+      <input
+        type="number"
+        min="0.01"
+        step="0.01"
+        max={refundable}
+        placeholder={`Amount (default ${refundable.toFixed(2)})`}
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        style={inputStyle}
+      />
+      <select value={reason} onChange={(e) => setReason(e.target.value)} style={inputStyle}>
+        <option value="requested_by_customer">Requested by customer</option>
+        <option value="duplicate">Duplicate</option>
+        <option value="fraudulent">Fraudulent</option>
+      </select>
+      <input
+        type="text"
+        placeholder="Internal note (optional)"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        style={inputStyle}
+      />
+      <button
+        type="button"
+        onClick={handleRefund}
+        disabled={loading || refundable <= 0}
+        style={{
+          padding: '8px 16px',
+          backgroundColor: loading || refundable <= 0 ? '#ccc' : 'var(--theme-error-500)',
+          color: '#fff',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: loading || refundable <= 0 ? 'not-allowed' : 'pointer',
+          fontWeight: 'bold',
+        }}
+      >
+        {loading ? 'Refunding...' : amount ? 'Issue Partial Refund' : 'Refund in Full'}
+      </button>
+      {message && (
+        <p
+          style={{
+            margin: '8px 0 0 0',
+            color: error ? 'var(--theme-error-500)' : 'var(--theme-success-500)',
+          }}
+        >
+          {message}
+        </p>
+      )}
+    </div>
+  )
+}
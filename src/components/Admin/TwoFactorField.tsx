@@ -0,0 +1,73 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useAuth, useDocumentInfo, useFormFields } from '@payloadcms/ui'
+import type { User } from '@/payload-types'
+
+/**
+ * Two-factor status in a user's sidebar: a link to set it up on your own account,
+ * and for admins a reset for users who lost their device and recovery codes
+ */
+export const TwoFactorField: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const { user } = useAuth<User>()
+  const router = useRouter()
+  const enabled = useFormFields(([fields]) => Boolean(fields['twoFactor.enabled']?.value))
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+
+  if (!id || !user) return null
+  const isSelf = String(id) === user.id
+
+  const handleReset = async () => {
+    if (!confirm('Turn off two-factor for this user? They will have to set it up again.')) return
+    setLoading(true)
+    setMessage('')
+    try {
+      const res = await fetch('/api/admin/two-factor/disable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ userId: String(id) }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Request failed')
+      router.refresh()
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to reset two-factor')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div style={{ marginBottom: '24px' }}>
+      <h4 style={{ margin: '0 0 8px 0' }}>Two-Factor Authentication</h4>
+      <p style={{ margin: '0 0 8px 0', color: 'var(--theme-elevation-800)' }}>
+        {enabled ? 'On: signing in needs a code from an authenticator app.' : 'Off'}
+      </p>
+      {isSelf && <Link href="/admin/two-factor">Manage two-factor</Link>}
+      {!isSelf && enabled && user.role === 'admin' && (
+        <button
+          type="button"
+          onClick={handleReset}
+          disabled={loading}
+          style={{
+            padding: '6px 12px',
+            backgroundColor: loading ? '#ccc' : 'var(--theme-error-500)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: loading ? 'not-allowed' : 'pointer',
+            fontWeight: 'bold',
+          }}
+        >
+          Reset two-factor
+        </button>
+      )}
+      {message && <p style={{ margin: '8px 0 0 0', color: 'var(--theme-error-500)' }}>{message}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import React, { useEffect } from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import { useAuth } from '@payloadcms/ui'
+
+/**
+ * Sends a signed-in user who hasn't passed two-factor in this session (or must still enroll)
+ * to the Two-Factor view. Until then access control denies them everything anyway.
+ */
+export const TwoFactorGate: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth()
+  const pathname = usePathname()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!user || pathname.endsWith('/two-factor') || pathname.endsWith('/logout')) return
+
+    let cancelled = false
+    fetch('/api/admin/two-factor', { credentials: 'include' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((status) => {
+        if (!cancelled && status && !status.verified) {
+          router.replace(`/admin/two-factor?redirect=${encodeURIComponent(pathname)}`)
+        }
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [user, pathname, router])
+
+  return <>{children}</>
+}
@@ -0,0 +1,308 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import type { TwoFactorStatus } from '@/lib/two-factor'
+
+async function request<T>(url: string, body?: Record<string, unknown>): Promise<T> {
+  const res = await fetch(url, {
+    method: body ? 'POST' : 'GET',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json()
+  if (!res.ok) {
+    throw new Error(data.error || 'Request failed')
+  }
+  return data
+}
+
+const buttonStyle = (
+  disabled: boolean,
+  color = 'var(--theme-success-500)',
+): React.CSSProperties => ({
+  padding: '6px 12px',
+  backgroundColor: disabled ? '#ccc' : color,
+  color: '#fff',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontWeight: 'bold',
+})
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  border: '1px solid var(--theme-elevation-250)',
+  borderRadius: '4px',
+  background: 'var(--theme-input-bg)',
+  color: 'var(--theme-text)',
+}
+
+const boxStyle: React.CSSProperties = {
+  marginBottom: '16px',
+  padding: '12px',
+  background: 'var(--theme-elevation-100)',
+  border: '1px solid var(--theme-elevation-250)',
+  borderRadius: '4px',
+}
+
+/**
+ * Two-factor enrollment, the per-session code check after signing in, and recovery codes
+ */
+export const TwoFactorView: React.FC = () => {
+  const searchParams = useSearchParams()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = useState<{ secret: string; uri: string } | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      setStatus(await request<TwoFactorStatus>('/api/admin/two-factor'))
+    } catch (err) {
+      setError(true)
+      setMessage(err instanceof Error ? err.message : 'Failed to load two-factor status')
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  // Back to where the gate sent the user from, staying inside the admin panel
+  const continueToAdmin = () => {
+    const redirect = searchParams.get('redirect')
+    window.location.href = redirect?.startsWith('/admin') ? redirect : '/admin'
+  }
+
+  const run = async <T,>(action: () => Promise<T>, success?: string) => {
+    setLoading(true)
+    setMessage('')
+    setError(false)
+    try {
+      const result = await action()
+      setCode('')
+      if (success) setMessage(success)
+      return result
+    } catch (err) {
+      setError(true)
+      setMessage(err instanceof Error ? err.message : 'An error occurred.')
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSetup = async () => {
+    const result = await run(() =>
+      request<{ secret: string; uri: string }>('/api/admin/two-factor/setup', {}),
+    )
+    if (result) setSetup(result)
+  }
+
+  const handleEnable = async () => {
+    const result = await run(
+      () => request<{ recoveryCodes: string[] }>('/api/admin/two-factor/enable', { code }),
+      'Two-factor authentication is on',
+    )
+    if (result) {
+      setSetup(null)
+      setRecoveryCodes(result.recoveryCodes)
+      await load()
+    }
+  }
+
+  const handleVerify = async () => {
+    const result = await run(() =>
+      request('/api/admin/two-factor/verify', useRecoveryCode ? { recoveryCode: code } : { code }),
+    )
+    if (result) continueToAdmin()
+  }
+
+  const handleRegenerate = async () => {
+    const result = await run(
+      () => request<{ recoveryCodes: string[] }>('/api/admin/two-factor/recovery-codes', { code }),
+      'New recovery codes generated; the old ones no longer work',
+    )
+    if (result) {
+      setRecoveryCodes(result.recoveryCodes)
+      await load()
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!confirm('Turn off two-factor authentication?')) return
+    const result = await run(
+      () => request('/api/admin/two-factor/disable', { code }),
+      'Two-factor authentication is off',
+    )
+    if (result) await load()
+  }
+
+  const codeInput = (placeholder = '6-digit code') => (
+    <input
+      type="text"
+      inputMode={useRecoveryCode ? 'text' : 'numeric'}
+      autoComplete="one-time-code"
+      placeholder={placeholder}
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      style={{ ...inputStyle, width: '160px' }}
+    />
+  )
+
+  return (
+    <div style={{ padding: '24px', maxWidth: '640px' }}>
+      <h1 style={{ marginBottom: '8px' }}>Two-Factor Authentication</h1>
+      <p style={{ margin: '0 0 16px 0', color: 'var(--theme-elevation-800)' }}>
+        After your password, signing in asks for a code from an authenticator app such as 1Password,
+        Google Authenticator or Authy. Admin and finance accounts must use it.
+      </p>
+
+      {recoveryCodes && (
+        <div style={{ ...boxStyle, border: '1px solid var(--theme-warning-500)' }}>
+          <strong>Save these recovery codes now — they will not be shown again:</strong>
+          <p style={{ margin: '8px 0' }}>
+            Each code signs you in once if you lose your authenticator app.
+          </p>
+          <pre style={{ margin: '8px 0', columns: 2 }}>{recoveryCodes.join('\n')}</pre>
+          <button
+            type="button"
+            onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+            style={buttonStyle(false)}
+          >
+            Copy
+          </button>{' '}
+          <button
+            type="button"
+            // After enrolling on the way in, carry on to where the user was going
+            onClick={() =>
+              searchParams.get('redirect') ? continueToAdmin() : setRecoveryCodes(null)
+            }
+            style={buttonStyle(false, 'var(--theme-elevation-500)')}
+          >
+            I saved them
+          </button>
+        </div>
+      )}
+
+      {status && !status.enabled && !recoveryCodes && (
+        <div>
+          {status.required && (
+            <p style={{ margin: '0 0 12px 0' }}>
+              <strong>Your role requires two-factor authentication.</strong> Set it up to continue.
+            </p>
+          )}
+          {!setup ? (
+            <button
+              type="button"
+              onClick={handleSetup}
+              disabled={loading}
+              style={buttonStyle(loading)}
+            >
+              Set up authenticator app
+            </button>
+          ) : (
+            <div style={boxStyle}>
+              <p style={{ margin: '0 0 8px 0' }}>
+                Add this key to your authenticator app, or{' '}
+                <a href={setup.uri}>open it in the app</a> on this device:
+              </p>
+              <pre style={{ margin: '0 0 12px 0', wordBreak: 'break-all', whiteSpace: 'pre-wrap' }}>
+                {setup.secret.match(/.{1,4}/g)?.join(' ')}
+              </pre>
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                {codeInput()}
+                <button
+                  type="button"
+                  onClick={handleEnable}
+                  disabled={loading || !code.trim()}
+                  style={buttonStyle(loading || !code.trim())}
+                >
+                  Turn on
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {status?.enabled && !status.verified && (
+        <div>
+          <p style={{ margin: '0 0 12px 0' }}>
+            {useRecoveryCode
+              ? 'Enter one of your recovery codes.'
+              : 'Enter the code from your authenticator app to continue.'}
+          </p>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+            {codeInput(useRecoveryCode ? 'XXXXX-XXXXX' : '6-digit code')}
+            <button
+              type="button"
+              onClick={handleVerify}
+              disabled={loading || !code.trim()}
+              style={buttonStyle(loading || !code.trim())}
+            >
+              Verify
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode)
+              setCode('')
+            }}
+            style={{ ...buttonStyle(false, 'transparent'), color: 'var(--theme-text)', padding: 0 }}
+          >
+            {useRecoveryCode ? 'Use the authenticator app instead' : 'Use a recovery code'}
+          </button>
+        </div>
+      )}
+
+      {status?.enabled && status.verified && (
+        <div>
+          <p style={{ margin: '0 0 12px 0' }}>
+            Two-factor authentication is <strong>on</strong>. {status.recoveryCodesRemaining}{' '}
+            recovery codes left.
+          </p>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+            {codeInput()}
+            <button
+              type="button"
+              onClick={handleRegenerate}
+              disabled={loading || !code.trim()}
+              style={buttonStyle(loading || !code.trim())}
+            >
+              New recovery codes
+            </button>
+            {!status.required && (
+              <button
+                type="button"
+                onClick={handleDisable}
+                disabled={loading || !code.trim()}
+                style={buttonStyle(loading || !code.trim(), 'var(--theme-error-500)')}
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p
+          style={{
+            margin: '12px 0 0 0',
+            color: error ? 'var(--theme-error-500)' : 'var(--theme-success-500)',
+          }}
+        >
+          {message}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,387 @@
 'use client'
 
-import React from 'react'
+import React, { useCallback, useEffect, useState } from 'react'
 
+interface WalletRow {
+  providerId: string
+  providerName: string
+  providerSlug: string
+  status: string
+  feeSchedule: string
+  balance: number
+  payments: number
+  fees: number
+  refunds: number
+  disputeLosses: number
+  payouts: number
+  lastPayoutAt: string | null
+}
+
+interface StatementPreview {
+  openingBalance: number
+  closingBalance: number
+  totals: {
+    payments: number
+    fees: number
+    refunds: number
+    disputeLosses: number
+    payouts: number
+  }
+  lines: unknown[]
+  discrepancies: { orderId: string; key: string; issue: string }[]
+}
+
+async function request<T>(url: string, body?: Record<string, unknown>): Promise<T> {
+  const res = await fetch(url, {
+    method: body ? 'POST' : 'GET',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json()
+  if (!res.ok) {
+    throw new Error(data.error || 'Request failed')
+  }
+  return data
+}
+
+const buttonStyle = (
+  disabled: boolean,
+  color = 'var(--theme-success-500)',
+): React.CSSProperties => ({
+  padding: '6px 12px',
+  backgroundColor: disabled ? '#ccc' : color,
+  color: '#fff',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontWeight: 'bold',
+})
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid var(--theme-elevation-150)',
+  textAlign: 'left',
+}
+
+const numberCellStyle: React.CSSProperties = { ...cellStyle, textAlign: 'right' }
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  border: '1px solid var(--theme-elevation-250)',
+  borderRadius: '4px',
+  background: 'var(--theme-input-bg)',
+  color: 'var(--theme-text)',
+}
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString() : '—')
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Provider balances from the settlement ledger, payout recording and period statements
+ */
 export const WalletsView: React.FC = () => {
+  const now = new Date()
+  const [wallets, setWallets] = useState<WalletRow[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [amount, setAmount] = useState('')
+  const [reference, setReference] = useState('')
+  const [note, setNote] = useState('')
+  const [from, setFrom] = useState(isoDate(new Date(now.getFullYear(), now.getMonth(), 1)))
+  const [to, setTo] = useState(isoDate(now))
+  const [preview, setPreview] = useState<StatementPreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      setWallets(await request<WalletRow[]>('/api/admin/wallets'))
+    } catch (err) {
+      setError(true)
+      setMessage(err instanceof Error ? err.message : 'Failed to load balances')
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const statementUrl = (provider: WalletRow, format?: 'csv') =>
+    `/api/admin/wallets/statement?providerId=${provider.providerId}&from=${from}&to=${to}${
+      format ? `&format=${format}` : ''
+    }`
+
+  const selected = wallets.find((wallet) => wallet.providerId === selectedId) || null
+
+  const select = (wallet: WalletRow) => {
+    setSelectedId(wallet.providerId)
+    setPreview(null)
+    setMessage('')
+    setError(false)
+  }
+
+  const handlePayout = async () => {
+    if (!selected) return
+    const value = Number(amount)
+    if (!value || !reference.trim()) return
+    if (!confirm(`Record a ${formatMoney(value)} payout to ${selected.providerName}?`)) return
+
+    setLoading(true)
+    setMessage('')
+    setError(false)
+    try {
+      await request('/api/admin/wallets/payouts', {
+        providerId: selected.providerId,
+        amount: value,
+        reference: reference.trim(),
+        note: note.trim(),
+      })
+      setMessage(`Payout of ${formatMoney(value)} recorded`)
+      setAmount('')
+      setReference('')
+      setNote('')
+      await load()
+    } catch (err) {
+      setError(true)
+      setMessage(err instanceof Error ? err.message : 'An error occurred.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    if (!selected) return
+    setLoading(true)
+    setMessage('')
+    setError(false)
+    try {
+      setPreview(await request<StatementPreview>(statementUrl(selected)))
+    } catch (err) {
+      setError(true)
+      setMessage(err instanceof Error ? err.message : 'An error occurred.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const totalOwed = wallets.reduce((sum, wallet) => sum + Math.max(0, wallet.balance), 0)
+
   return (
     <div style={{ padding: '24px' }}>
-      <h1 style={{ marginBottom: '16px' }}>Wallets</h1>
-      <p>Manage digital wallets and payment methods.</p>
+      <h1 style={{ marginBottom: '8px' }}>Wallets</h1>
+      <p style={{ margin: '0 0 16px 0', color: 'var(--theme-elevation-800)' }}>
+        What the platform owes each provider: paid orders, less platform fees, refunds, lost
+        disputes and recorded payouts. Total owed: <strong>{formatMoney(totalOwed)}</strong>
+      </p>
+
+      {message && (
+        <p
+          style={{
+            margin: '0 0 12px 0',
+            color: error ? 'var(--theme-error-500)' : 'var(--theme-success-500)',
+          }}
+        >
+          {message}
+        </p>
+      )}
+
+      <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '24px' }}>
+        <thead>
+          <tr>
+            <th style={cellStyle}>Provider</th>
+            <th style={cellStyle}>Fee Schedule</th>
+            <th style={numberCellStyle}>Payments</th>
+            <th style={numberCellStyle}>Fees</th>
+            <th style={numberCellStyle}>Refunds</th>
+            <th style={numberCellStyle}>Disputes Lost</th>
+            <th style={numberCellStyle}>Paid Out</th>
+            <th style={numberCellStyle}>Balance</th>
+            <th style={cellStyle}>Last Payout</th>
+            <th style={cellStyle} />
+          </tr>
+        </thead>
+        <tbody>
+          {wallets.map((wallet) => (
+            <tr
+              key={wallet.providerId}
+              style={{
+                background:
+                  selectedId === wallet.providerId ? 'var(--theme-elevation-100)' : undefined,
+              }}
+            >
+              <td style={cellStyle}>
+                {wallet.providerName}
+                {wallet.status !== 'active' && ' (inactive)'}
+              </td>
+              <td style={cellStyle}>{wallet.feeSchedule}</td>
+              <td style={numberCellStyle}>{formatMoney(wallet.payments)}</td>
+              <td style={numberCellStyle}>{formatMoney(wallet.fees)}</td>
+              <td style={numberCellStyle}>{formatMoney(wallet.refunds)}</td>
+              <td style={numberCellStyle}>{formatMoney(wallet.disputeLosses)}</td>
+              <td style={numberCellStyle}>{formatMoney(wallet.payouts)}</td>
+              <td
+                style={{
+                  ...numberCellStyle,
+                  fontWeight: 'bold',
+                  color: wallet.balance < 0 ? 'var(--theme-error-500)' : undefined,
+                }}
+              >
+                {formatMoney(wallet.balance)}
+              </td>
+              <td style={cellStyle}>{formatDate(wallet.lastPayoutAt)}</td>
+              <td style={cellStyle}>
+                <button type="button" onClick={() => select(wallet)} style={buttonStyle(false)}>
+                  Manage
+                </button>
+              </td>
+            </tr>
+          ))}
+          {wallets.length === 0 && (
+            <tr>
+              <td style={cellStyle} colSpan={10}>
+                No providers yet.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {selected && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '24px' }}>
+          <div>
+            <h4 style={{ margin: '0 0 8px 0' }}>Record Payout — {selected.providerName}</h4>
+            <p style={{ margin: '0 0 12px 0', color: 'var(--theme-elevation-800)' }}>
+              Record money sent to the provider outside the platform. Balance:{' '}
+              {formatMoney(selected.balance)}
+            </p>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                placeholder="Amount (USD)"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                style={inputStyle}
+              />
+              <input
+                type="text"
+                placeholder="Bank / transfer reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                style={inputStyle}
+              />
+              <input
+                type="text"
+                placeholder="Note (optional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                style={inputStyle}
+              />
+              <div>
+                <button
+                  type="button"
+                  onClick={handlePayout}
+                  disabled={loading || !Number(amount) || !reference.trim()}
+                  style={buttonStyle(loading || !Number(amount) || !reference.trim())}
+                >
+                  Record Payout
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h4 style={{ margin: '0 0 8px 0' }}>Statement</h4>
+            <p style={{ margin: '0 0 12px 0', color: 'var(--theme-elevation-800)' }}>
+              Ledger entries for the period, reconciled against the orders collection.
+            </p>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                style={inputStyle}
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                style={inputStyle}
+              />
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={loading}
+                style={buttonStyle(loading, 'var(--theme-elevation-500)')}
+              >
+                Preview
+              </button>
+              <a href={statementUrl(selected, 'csv')} style={buttonStyle(false)} download>
+                Download CSV
+              </a>
+            </div>
+
+            {preview && (
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '12px' }}>
+                <tbody>
+                  <tr>
+                    <td style={cellStyle}>Opening balance</td>
+                    <td style={numberCellStyle}>{formatMoney(preview.openingBalance)}</td>
+                  </tr>
+                  <tr>
+                    <td style={cellStyle}>Payments</td>
+                    <td style={numberCellStyle}>{formatMoney(preview.totals.payments)}</td>
+                  </tr>
+                  <tr>
+                    <td style={cellStyle}>Platform fees</td>
+                    <td style={numberCellStyle}>−{formatMoney(preview.totals.fees)}</td>
+                  </tr>
+                  <tr>
+                    <td style={cellStyle}>Refunds</td>
+                    <td style={numberCellStyle}>−{formatMoney(preview.totals.refunds)}</td>
+                  </tr>
+                  <tr>
+                    <td style={cellStyle}>Disputes lost</td>
+                    <td style={numberCellStyle}>−{formatMoney(preview.totals.disputeLosses)}</td>
+                  </tr>
+                  <tr>
+                    <td style={cellStyle}>Payouts</td>
+                    <td style={numberCellStyle}>−{formatMoney(preview.totals.payouts)}</td>
+                  </tr>
+                  <tr>
+                    <td style={{ ...cellStyle, fontWeight: 'bold' }}>Closing balance</td>
+                    <td style={{ ...numberCellStyle, fontWeight: 'bold' }}>
+                      {formatMoney(preview.closingBalance)}
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style={cellStyle}>Reconciliation</td>
+                    <td
+                      style={{
+                        ...numberCellStyle,
+                        color: preview.discrepancies.length
+                          ? 'var(--theme-error-500)'
+                          : 'var(--theme-success-500)',
+                      }}
+                    >
+                      {preview.discrepancies.length
+                        ? `${preview.discrepancies.length} discrepancies (see CSV)`
+                        : `${preview.lines.length} entries match orders`}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,140 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useDocumentInfo, useSelection } from '@payloadcms/ui'
+
+interface ReplayResponse {
+  replayed?: number
+  delivered?: number
+  error?: string
+}
+
+async function replayDeliveries(body: { ids?: string[]; status?: 'dead_letter' }) {
+  const res = await fetch('/api/admin/webhook-deliveries/replay', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(body),
+  })
+  const data: ReplayResponse = await res.json()
+  if (!res.ok) {
+    throw new Error(data.error || 'Replay failed')
+  }
+  return data
+}
+
+const buttonStyle = (disabled: boolean): React.CSSProperties => ({
+  padding: '8px 16px',
+  backgroundColor: disabled ? '#ccc' : 'var(--theme-success-500)',
+  color: '#fff',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontWeight: 'bold',
+})
+
+function useReplay() {
+  const router = useRouter()
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState(false)
+
+  const run = async (body: { ids?: string[]; status?: 'dead_letter' }) => {
+    setLoading(true)
+    setMessage('Replaying...')
+    setError(false)
+
+    try {
+      const result = await replayDeliveries(body)
+      setMessage(`Replayed ${result.replayed}, delivered ${result.delivered}`)
+      router.refresh()
+    } catch (err) {
+      setError(true)
+      setMessage(err instanceof Error ? err.message : 'An error occurred.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const status = message ? (
+    <p
+      style={{
+        margin: '8px 0 0 0',
+        color: error ? 'var(--theme-error-500)' : 'var(--theme-success-500)',
+      }}
+    >
+      {message}
+    </p>
+  ) : null
+
+  return { loading, run, status }
+}
+
+/**
+ * Sidebar button on a single delivery: replays it immediately
+ */
+export const ReplayDeliveryButton: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const { loading, run, status } = useReplay()
+
+  if (!id) return null
+
+  return (
+    <div style={{ marginBottom: '24px' }}>
+      <button
+        type="button"
+        onClick={() => run({ ids: [String(id)] })}
+        disabled={loading}
+        style={buttonStyle(loading)}
+      >
+        {loading ? 'Replaying...' : 'Replay Delivery'}
+      </button>
+      {status}
+    </div>
+  )
+}
+
+/**
+ * Shown above the deliveries list: replays the selected rows or every dead letter
+ */
+export const BulkReplayDeliveries: React.FC = () => {
+  const { getSelectedIds } = useSelection()
+  const { loading, run, status } = useReplay()
+
+  const handleReplaySelected = () => {
+    const ids = getSelectedIds().map(String)
+    if (ids.length === 0) return
+    if (!confirm(`Replay ${ids.length} selected deliveries?`)) return
+    run({ ids })
+  }
+
+  const handleReplayDeadLetters = () => {
+    if (!confirm('Replay every dead-lettered delivery (up to 100)?')) return
+    run({ status: 'dead_letter' })
+  }
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button
+          type="button"
+          onClick={handleReplaySelected}
+          disabled={loading}
+          style={buttonStyle(loading)}
+        >
+          Replay Selected
+        </button>
+        <button
+          type="button"
+          onClick={handleReplayDeadLetters}
+          disabled={loading}
+          style={buttonStyle(loading)}
+        >
+          Replay All Dead Letters
+        </button>
+      </div>
+      {status}
+    </div>
+  )
+}
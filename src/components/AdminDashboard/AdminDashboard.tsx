@@ -1,7 +1,6 @@
 'use client'
 
 import { useRef } from 'react'
-import { useSearchParams } from 'next/navigation'
 import { QueryProvider } from './providers/QueryProviders'
 import { DashboardHeader } from './components/dashboard-header'
 import { SectionCards } from './components/section-cards'
@@ -11,20 +10,29 @@ import { ProvidersTab } from './components/providers-tab'
 import { DisputesTab } from './components/disputes-tab'
 import { ProviderRevenueChart } from './components/provider-revenue-chart'
 import { RevenueTab } from './components/revenue-tab'
+import { ReconciliationTab } from './components/reconciliation-tab'
 import { Tabs, TabsContent } from '@/components/admin-ui/tabs'
 import { AdminTabs } from './components/admin-tabs'
+import { SessionExpiredBanner } from './components/session-expired-banner'
+import { useDashboardView } from './hooks/usePermissions'
 
 export function AdminDashboard() {
   const portalRef = useRef<HTMLDivElement>(null)
-  const searchParams = useSearchParams()
-  const currentView = searchParams.get('view') || 'overview'
+  // Only the current tab's content mounts, so tabs the role can't see never fetch
+  const { currentView } = useDashboardView()
 
   return (
     <QueryProvider>
       <div className="adm-root" ref={portalRef}>
         <DashboardHeader />
         <main className="adm-main">
-          <Tabs value={currentView} className="adm:flex adm:flex-col adm:gap-6">
+          <SessionExpiredBanner />
+          {!currentView && (
+            <p className="adm:text-sm adm:text-(--adm-muted)">
+              Your role has no access to the dashboard. Use the collections in the sidebar instead.
+            </p>
+          )}
+          <Tabs value={currentView ?? undefined} className="adm:flex adm:flex-col adm:gap-6">
             <AdminTabs />
             <TabsContent value="overview" className="adm:outline-none">
               <div className="adm:flex adm:flex-col adm:gap-6">
@@ -45,6 +53,9 @@ export function AdminDashboard() {
             <TabsContent value="revenue" className="adm:outline-none">
               <RevenueTab />
             </TabsContent>
+            <TabsContent value="reconciliation" className="adm:outline-none">
+              <ReconciliationTab />
+            </TabsContent>
           </Tabs>
         </main>
         <div id="admin-dashboard-portal" />
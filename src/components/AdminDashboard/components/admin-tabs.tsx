@@ -8,15 +8,17 @@ import {
   Building2,
   AlertTriangle,
   CircleDollarSign,
+  Scale,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { useDashboardView, type DashboardView } from '../hooks/usePermissions'
 
 export function AdminTabs() {
   const router = useRouter()
   const pathname = usePathname()
   const searchParams = useSearchParams()
 
-  const currentView = searchParams.get('view') || 'overview'
+  const { views, currentView } = useDashboardView()
 
   const handleValueChange = (value: string) => {
     const params = new URLSearchParams(searchParams)
@@ -30,10 +32,11 @@ export function AdminTabs() {
     { value: 'providers', label: 'Providers', icon: Building2 },
     { value: 'disputes', label: 'Disputes', icon: AlertTriangle },
     { value: 'revenue', label: 'Revenue', icon: CircleDollarSign },
-  ]
+    { value: 'reconciliation', label: 'Reconciliation', icon: Scale },
+  ].filter((tab) => views.includes(tab.value as DashboardView))
 
   return (
-    <Tabs value={currentView} onValueChange={handleValueChange}>
+    <Tabs value={currentView ?? undefined} onValueChange={handleValueChange}>
       <TabsList className="adm:bg-[#1f1f1f] adm:rounded-full adm:p-1 adm:gap-1 adm:border adm:border-[#333]">
         {tabs.map((tab) => {
           const Icon = tab.icon
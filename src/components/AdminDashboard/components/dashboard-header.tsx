@@ -3,8 +3,12 @@
 import { AdminDatePicker } from './admin-date-picker'
 import { SearchInput } from './search-input'
 import { DownloadButton } from './download-button'
+import { TestOrdersToggle } from './test-orders-toggle'
+import { usePermissions } from '../hooks/usePermissions'
 
 export function DashboardHeader() {
+  const { can } = usePermissions()
+
   return (
     <header className="adm:flex adm:flex-col adm:gap-4 adm:pb-6 adm:border-b adm:border-[var(--adm-border)]">
       <div className="adm:flex adm:items-end adm:justify-between">
@@ -17,8 +21,9 @@ export function DashboardHeader() {
           <div className="adm:w-64">
             <SearchInput placeholder="Search orders across dashboard..." />
           </div>
+          <TestOrdersToggle />
           <AdminDatePicker />
-          <DownloadButton />
+          {can('viewReports') && <DownloadButton />}
         </div>
       </div>
     </header>
@@ -7,20 +7,51 @@ import {
   getPaginationRowModel,
   getSortedRowModel,
   SortingState,
+  Updater,
   useReactTable,
   VisibilityState,
 } from '@tanstack/react-table'
 import { useState } from 'react'
 import { Settings2, ChevronDown, Eye, EyeOff } from 'lucide-react'
 
+// Pages loaded by the caller (e.g. by cursor) instead of sliced from `data`
+export interface ServerPagination {
+  pageIndex: number
+  pageCount: number
+  canPreviousPage: boolean
+  canNextPage: boolean
+  onPreviousPage: () => void
+  onNextPage: () => void
+}
+
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[]
   data: TData[]
+  // Server-side sorting and pagination; without them the table sorts and pages `data` itself
+  sorting?: SortingState
+  onSortingChange?: (sorting: SortingState) => void
+  pagination?: ServerPagination
 }
 
-export function DataTable<TData, TValue>({ columns, data }: DataTableProps<TData, TValue>) {
-  const [sorting, setSorting] = useState<SortingState>([])
+export function DataTable<TData, TValue>({
+  columns,
+  data,
+  sorting: serverSorting,
+  onSortingChange,
+  pagination,
+}: DataTableProps<TData, TValue>) {
+  const [localSorting, setLocalSorting] = useState<SortingState>([])
   const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+  const sorting = serverSorting ?? localSorting
+
+  const handleSortingChange = (updater: Updater<SortingState>) => {
+    const next = typeof updater === 'function' ? updater(sorting) : updater
+    if (onSortingChange) {
+      onSortingChange(next)
+    } else {
+      setLocalSorting(next)
+    }
+  }
 
   const table = useReactTable({
     data,
@@ -28,12 +59,21 @@ export function DataTable<TData, TValue>({ columns, data }: DataTableProps<TData
     getCoreRowModel: getCoreRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
-    onSortingChange: setSorting,
+    manualSorting: !!onSortingChange,
+    manualPagination: !!pagination,
+    // The caller always has a sort, so clicking a sorted column only flips its direction
+    enableSortingRemoval: !onSortingChange,
+    onSortingChange: handleSortingChange,
     onColumnVisibilityChange: setColumnVisibility,
     state: { sorting, columnVisibility },
     initialState: { pagination: { pageSize: 8 } },
   })
 
+  const pageIndex = pagination ? pagination.pageIndex : table.getState().pagination.pageIndex
+  const pageCount = pagination ? pagination.pageCount : table.getPageCount()
+  const canPreviousPage = pagination ? pagination.canPreviousPage : table.getCanPreviousPage()
+  const canNextPage = pagination ? pagination.canNextPage : table.getCanNextPage()
+
   return (
     <div className="adm:w-full">
       {/* Column Visibility Controls */}
@@ -142,19 +182,19 @@ export function DataTable<TData, TValue>({ columns, data }: DataTableProps<TData
       {/* Pagination */}
       <div className="adm:flex adm:items-center adm:justify-between adm:mt-4">
         <p className="adm:text-xs adm:text-(--adm-muted)">
-          Page {table.getState().pagination.pageIndex + 1} of {table.getPageCount()}
+          Page {pageIndex + 1} of {pageCount}
         </p>
         <div className="adm:flex adm:gap-2">
           <button
-            onClick={() => table.previousPage()}
-            disabled={!table.getCanPreviousPage()}
+            onClick={() => (pagination ? pagination.onPreviousPage() : table.previousPage())}
+            disabled={!canPreviousPage}
             className="adm:px-3 adm:py-1.5 adm:text-xs adm:font-semibold adm:rounded-lg adm:border adm:border-(--adm-border) adm:bg-(--adm-surface) adm:text-(--adm-text) hover:adm:bg-(--adm-surface-hover) disabled:adm:opacity-40 disabled:adm:cursor-not-allowed adm:transition-colors"
           >
             Previous
           </button>
           <button
-            onClick={() => table.nextPage()}
-            disabled={!table.getCanNextPage()}
+            onClick={() => (pagination ? pagination.onNextPage() : table.nextPage())}
+            disabled={!canNextPage}
             className="adm:px-3 adm:py-1.5 adm:text-xs adm:font-semibold adm:rounded-lg adm:border adm:border-(--adm-border) adm:bg-(--adm-surface) adm:text-(--adm-text) hover:adm:bg-(--adm-surface-hover) disabled:adm:opacity-40 disabled:adm:cursor-not-allowed adm:transition-colors"
           >
             Next
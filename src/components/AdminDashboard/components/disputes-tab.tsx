@@ -2,6 +2,9 @@
 
 import Link from 'next/link'
 import { useQuery } from '@tanstack/react-query'
+import { useSearchParams } from 'next/navigation'
+import { TEST_ORDERS_PARAM } from '@/lib/livemode'
+import { adminFetch } from '../queries/adminFetch'
 
 interface DisputedOrder {
   id: string
@@ -15,10 +18,16 @@ interface DisputedOrder {
 }
 
 function useDisputesQuery() {
+  const searchParams = useSearchParams()
+  const testOrders = searchParams.get(TEST_ORDERS_PARAM)
+
   return useQuery({
-    queryKey: ['disputed-orders'],
+    queryKey: ['disputed-orders', { testOrders }],
     queryFn: async (): Promise<DisputedOrder[]> => {
-      const response = await fetch('/api/admin/disputes')
+      const url = new URL('/api/admin/disputes', window.location.origin)
+      if (testOrders) url.searchParams.set(TEST_ORDERS_PARAM, testOrders)
+
+      const response = await adminFetch(url.toString())
       if (!response.ok) {
         throw new Error('Failed to fetch disputed orders')
       }
@@ -3,8 +3,10 @@
 import { useState, useRef, useEffect } from 'react'
 import { Download, FileSpreadsheet, FileText, ChevronDown } from 'lucide-react'
 import { useSearchParams } from 'next/navigation'
+import { TEST_ORDERS_PARAM } from '@/lib/livemode'
 import { useRecentOrdersQuery } from '../queries/useRecentOrdersQuery'
 import { toast } from 'sonner'
+import { adminFetch } from '../queries/adminFetch'
 
 interface ExportData {
   orders: Array<{
@@ -18,11 +20,15 @@ interface ExportData {
   }>
   revenue: {
     totalRevenue: number
+    platformFees: number
+    netPayable: number
     paidOrdersCount: number
     averageOrderValue: number
     refundedAmount: number
     failedAmount: number
     pendingAmount: number
+    // Reporting time zone of the date range and order dates
+    timeZone: string
   } | null
   stats: {
     totalOrders: number
@@ -39,6 +45,7 @@ export function DownloadButton() {
   const searchParams = useSearchParams()
   const from = searchParams.get('from')
   const to = searchParams.get('to')
+  const testOrders = searchParams.get(TEST_ORDERS_PARAM)
 
   const { data: orders = [] } = useRecentOrdersQuery()
 
@@ -53,9 +60,20 @@ export function DownloadButton() {
   }, [])
 
   const fetchExportData = async (): Promise<ExportData> => {
+    const revenueUrl = new URL('/api/admin/revenue', window.location.origin)
+    const statsUrl = new URL('/api/admin/stats', window.location.origin)
+    for (const url of [revenueUrl, statsUrl]) {
+      if (from) url.searchParams.set('from', from)
+      if (to) url.searchParams.set('to', to)
+    }
+    if (testOrders) {
+      revenueUrl.searchParams.set(TEST_ORDERS_PARAM, testOrders)
+      statsUrl.searchParams.set(TEST_ORDERS_PARAM, testOrders)
+    }
+
     const [revenueRes, statsRes] = await Promise.all([
-      fetch('/api/admin/revenue'),
-      fetch(`/api/admin/stats${from || to ? `?from=${from || ''}&to=${to || ''}` : ''}`),
+      adminFetch(revenueUrl.toString()),
+      adminFetch(statsUrl.toString()),
     ])
 
     const revenue = revenueRes.ok ? await revenueRes.json() : null
@@ -73,13 +91,21 @@ export function DownloadButton() {
     if (from || to) {
       lines.push(`Date Range: ${from || 'All time'} to ${to || 'Present'}`)
     }
+    if (data.revenue) {
+      lines.push(`Time Zone: ${data.revenue.timeZone}`)
+    }
+    if (testOrders) {
+      lines.push('Includes test orders')
+    }
     lines.push('')
 
     // Revenue Summary
     if (data.revenue) {
       lines.push('REVENUE SUMMARY')
       lines.push('Metric,Value')
-      lines.push(`Total Revenue,$${data.revenue.totalRevenue.toFixed(2)}`)
+      lines.push(`Gross Revenue,$${data.revenue.totalRevenue.toFixed(2)}`)
+      lines.push(`Platform Fees (Net Revenue),$${data.revenue.platformFees.toFixed(2)}`)
+      lines.push(`Owed to Providers,$${data.revenue.netPayable.toFixed(2)}`)
       lines.push(`Paid Orders,${data.revenue.paidOrdersCount}`)
       lines.push(`Average Order Value,$${data.revenue.averageOrderValue.toFixed(2)}`)
       lines.push(`Refunded Amount,$${data.revenue.refundedAmount.toFixed(2)}`)
@@ -167,6 +193,7 @@ export function DownloadButton() {
         <h1>Dashboard Report</h1>
         <p>Generated: ${new Date().toLocaleString()}</p>
         ${dateRange ? `<p>${dateRange}</p>` : ''}
+        ${data.revenue ? `<p>Time Zone: ${data.revenue.timeZone}</p>` : ''}
     `
 
     if (data.revenue) {
@@ -174,9 +201,13 @@ export function DownloadButton() {
         <h2>Revenue Summary</h2>
         <div class="summary-grid">
           <div class="summary-item">
-            <div class="summary-label">Total Revenue</div>
+            <div class="summary-label">Gross Revenue</div>
             <div class="summary-value">$${data.revenue.totalRevenue.toFixed(2)}</div>
           </div>
+          <div class="summary-item">
+            <div class="summary-label">Net Revenue (Platform Fees)</div>
+            <div class="summary-value">$${data.revenue.platformFees.toFixed(2)}</div>
+          </div>
           <div class="summary-item">
             <div class="summary-label">Paid Orders</div>
             <div class="summary-value">${data.revenue.paidOrdersCount}</div>
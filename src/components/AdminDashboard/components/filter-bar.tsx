@@ -2,7 +2,9 @@
 
 import { ChevronDown, Filter, X } from 'lucide-react'
 import { useState, useRef, useEffect } from 'react'
+import { isAdminOrderSort } from '@/lib/admin-orders'
 import { useAdminStore, OrderStatus, ProviderStatus } from '../stores/useAdminStore'
+import { useProvidersListQuery, useServicesListQuery } from '../queries/useFilterListsQuery'
 
 interface FilterOption<T = string> {
   label: string
@@ -102,6 +104,7 @@ function StatusFilter({
 interface SortFilterProps {
   value: string
   onChange: (value: string) => void
+  options?: FilterOption[]
 }
 
 const sortOptions: FilterOption[] = [
@@ -113,7 +116,10 @@ const sortOptions: FilterOption[] = [
   { label: 'Name: Z to A', value: 'name-desc' },
 ]
 
-function SortFilter({ value, onChange }: SortFilterProps) {
+// Orders sort on the server, which has no customer name to sort by
+const orderSortOptions = sortOptions.filter((option) => isAdminOrderSort(option.value))
+
+function SortFilter({ value, onChange, options = sortOptions }: SortFilterProps) {
   const [isOpen, setIsOpen] = useState(false)
   const containerRef = useRef<HTMLDivElement>(null)
 
@@ -128,7 +134,7 @@ function SortFilter({ value, onChange }: SortFilterProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside)
   }, [])
 
-  const selectedLabel = sortOptions.find((opt) => opt.value === value)?.label || 'Sort'
+  const selectedLabel = options.find((opt) => opt.value === value)?.label || 'Sort'
 
   return (
     <div ref={containerRef} className="adm:relative">
@@ -146,7 +152,7 @@ function SortFilter({ value, onChange }: SortFilterProps) {
 
       {isOpen && (
         <div className="adm:absolute adm:top-full adm:right-0 adm:mt-2 adm:z-50 adm:min-w-[180px] adm:rounded-lg adm:bg-surface adm:shadow-lg adm:shadow-black/20 adm:overflow-hidden">
-          {sortOptions.map((option) => (
+          {options.map((option) => (
             <button
               key={option.value}
               onClick={() => {
@@ -190,15 +196,25 @@ const providerStatusOptions: FilterOption<ProviderStatus>[] = [
 export function FilterBar({ type, totalCount, filteredCount, inline }: FilterBarProps) {
   const {
     orderStatus,
+    orderProviderFilter,
+    orderServiceFilter,
     providerStatus,
     sortBy,
     setOrderStatus,
+    setOrderProviderFilter,
+    setOrderServiceFilter,
     setProviderStatus,
     setSortBy,
     clearFilters,
   } = useAdminStore()
+  const { data: providers = [] } = useProvidersListQuery({ enabled: type === 'orders' })
+  const { data: services = [] } = useServicesListQuery({ enabled: type === 'orders' })
 
-  const hasFilters = orderStatus !== null || providerStatus !== null
+  const hasFilters =
+    orderStatus !== null ||
+    orderProviderFilter !== null ||
+    orderServiceFilter !== null ||
+    providerStatus !== null
 
   return (
     <div className={`adm:flex adm:items-center adm:gap-2 ${inline ? '' : 'adm:mb-4'}`}>
@@ -213,6 +229,23 @@ export function FilterBar({ type, totalCount, filteredCount, inline }: FilterBar
         />
       )}
 
+      {type === 'orders' && (
+        <>
+          <StatusFilter
+            options={providers.map((p) => ({ label: p.name, value: p.slug }))}
+            value={orderProviderFilter}
+            onChange={setOrderProviderFilter}
+            allLabel="All providers"
+          />
+          <StatusFilter
+            options={services.map((s) => ({ label: s.name, value: s.slug }))}
+            value={orderServiceFilter}
+            onChange={setOrderServiceFilter}
+            allLabel="All services"
+          />
+        </>
+      )}
+
       {type === 'providers' && (
         <StatusFilter
           options={providerStatusOptions}
@@ -224,7 +257,11 @@ export function FilterBar({ type, totalCount, filteredCount, inline }: FilterBar
       )}
 
       {/* Sort filter */}
-      <SortFilter value={sortBy} onChange={setSortBy} />
+      <SortFilter
+        value={type === 'orders' && !isAdminOrderSort(sortBy) ? 'date-desc' : sortBy}
+        onChange={setSortBy}
+        options={type === 'orders' ? orderSortOptions : sortOptions}
+      />
 
       {/* Clear filters */}
       {hasFilters && (
@@ -1,8 +1,12 @@
 'use client'
 
-import { ColumnDef } from '@tanstack/react-table'
+import { ColumnDef, SortingState } from '@tanstack/react-table'
+import { isAdminOrderSort } from '@/lib/admin-orders'
 import { DataTable } from './data-table'
 import { useOrdersQuery, Order } from '../queries/useOrdersQuery'
+import { useAdminStore } from '../stores/useAdminStore'
+import { RefundButton } from './refund-dialog'
+import { usePermissions } from '../hooks/usePermissions'
 
 const statusStyles: Record<Order['status'], string> = {
   Completed:
@@ -16,6 +20,7 @@ const columns: ColumnDef<Order>[] = [
   {
     accessorKey: 'id',
     header: 'Order ID',
+    enableSorting: false,
     cell: ({ row }) => (
       <span className="adm:font-mono adm:font-semibold adm:text-xs adm:text-(--adm-muted)">
         {row.getValue('id')}
@@ -25,6 +30,7 @@ const columns: ColumnDef<Order>[] = [
   {
     accessorKey: 'customer',
     header: 'Customer',
+    enableSorting: false,
     cell: ({ row }) => {
       const order = row.original
       return (
@@ -38,6 +44,7 @@ const columns: ColumnDef<Order>[] = [
   {
     accessorKey: 'product',
     header: 'Product',
+    enableSorting: false,
     cell: ({ row }) => <span className="adm:font-medium">{row.getValue('product')}</span>,
   },
   {
@@ -48,6 +55,7 @@ const columns: ColumnDef<Order>[] = [
   {
     accessorKey: 'status',
     header: 'Status',
+    enableSorting: false,
     cell: ({ row }) => {
       const status = row.getValue('status') as Order['status']
       return (
@@ -72,6 +80,12 @@ const columns: ColumnDef<Order>[] = [
       </span>
     ),
   },
+  {
+    id: 'actions',
+    header: 'Actions',
+    enableSorting: false,
+    cell: ({ row }) => <RefundButton order={row.original} />,
+  },
 ]
 
 function TableSkeleton() {
@@ -96,8 +110,23 @@ function TableSkeleton() {
   )
 }
 
-export function OrdersTable() {
-  const { data, isLoading, isError } = useOrdersQuery()
+// Only the date and amount columns sort, on the server; the column ids match the sort names
+function toSorting(sortBy: string): SortingState {
+  if (!isAdminOrderSort(sortBy)) return [{ id: 'date', desc: true }]
+  const [id, direction] = sortBy.split('-')
+  return [{ id, desc: direction === 'desc' }]
+}
+
+function fromSorting(sorting: SortingState): string {
+  const [column] = sorting
+  return column ? `${column.id}-${column.desc ? 'desc' : 'asc'}` : 'date-desc'
+}
+
+export function OrdersTable({ orders }: { orders: ReturnType<typeof useOrdersQuery> }) {
+  const { data, isLoading, isError, pagination } = orders
+  const sortBy = useAdminStore((state) => state.sortBy)
+  const setSortBy = useAdminStore((state) => state.setSortBy)
+  const { can } = usePermissions()
 
   if (isLoading) return <TableSkeleton />
 
@@ -108,5 +137,13 @@ export function OrdersTable() {
       </div>
     )
 
-  return <DataTable columns={columns} data={data ?? []} />
+  return (
+    <DataTable
+      columns={can('refundOrders') ? columns : columns.filter((column) => column.id !== 'actions')}
+      data={data?.orders ?? []}
+      sorting={toSorting(sortBy)}
+      onSortingChange={(sorting) => setSortBy(fromSorting(sorting))}
+      pagination={pagination}
+    />
+  )
 }
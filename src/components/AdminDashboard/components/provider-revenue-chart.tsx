@@ -2,6 +2,7 @@
 
 import { useQuery } from '@tanstack/react-query'
 import { useSearchParams } from 'next/navigation'
+import { TEST_ORDERS_PARAM } from '@/lib/livemode'
 import {
   BarChart,
   Bar,
@@ -12,6 +13,7 @@ import {
   ResponsiveContainer,
   Cell,
 } from 'recharts'
+import { adminFetch } from '../queries/adminFetch'
 
 interface ProviderRevenue {
   providerName: string
@@ -24,16 +26,18 @@ function useProviderRevenueQuery() {
   const searchParams = useSearchParams()
   const from = searchParams.get('from')
   const to = searchParams.get('to')
+  const testOrders = searchParams.get(TEST_ORDERS_PARAM)
 
   return useQuery({
-    queryKey: ['provider-revenue', { from, to }],
+    queryKey: ['provider-revenue', { from, to, testOrders }],
     queryFn: async (): Promise<ProviderRevenue[]> => {
       // Build URL with date params
       const url = new URL('/api/admin/revenue-by-provider', window.location.origin)
       if (from) url.searchParams.set('from', from)
       if (to) url.searchParams.set('to', to)
+      if (testOrders) url.searchParams.set(TEST_ORDERS_PARAM, testOrders)
 
-      const response = await fetch(url.toString())
+      const response = await adminFetch(url.toString())
       if (!response.ok) {
         throw new Error('Failed to fetch provider revenue')
       }
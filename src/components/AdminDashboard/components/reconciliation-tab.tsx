@@ -0,0 +1,286 @@
+'use client'
+
+import Link from 'next/link'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { adminFetch } from '../queries/adminFetch'
+import { usePermissions } from '../hooks/usePermissions'
+
+interface ReconciliationSummary {
+  accounts?: number | null
+  paymentIntents?: number | null
+  refunds?: number | null
+  fixed?: number | null
+  unresolved?: number | null
+}
+
+interface ReconciliationRun {
+  id: string
+  trigger: 'schedule' | 'admin'
+  status: 'completed' | 'failed'
+  windowStart: string
+  windowEnd: string
+  summary?: ReconciliationSummary | null
+  createdAt: string
+}
+
+interface ReconciliationReport extends ReconciliationRun {
+  discrepancies?:
+    | {
+        id?: string | null
+        type: string
+        order?: string | null
+        stripeObjectId?: string | null
+        stripeAccount?: string | null
+        message?: string | null
+      }[]
+    | null
+  error?: string | null
+}
+
+function useReconciliationQuery() {
+  return useQuery({
+    queryKey: ['reconciliation'],
+    queryFn: async (): Promise<{
+      report: ReconciliationReport | null
+      runs: ReconciliationRun[]
+    }> => {
+      const response = await adminFetch('/api/admin/reconciliation')
+      if (!response.ok) {
+        throw new Error('Failed to fetch reconciliation reports')
+      }
+      return response.json()
+    },
+  })
+}
+
+function useRunReconciliationMutation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (): Promise<ReconciliationReport> => {
+      const response = await adminFetch('/api/admin/reconciliation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run reconciliation')
+      }
+
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reconciliation'] })
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      queryClient.invalidateQueries({ queryKey: ['section-cards'] })
+    },
+  })
+}
+
+const discrepancyLabels: Record<string, string> = {
+  missing_order: 'PaymentIntent without order',
+  paid_in_stripe: 'Paid in Stripe, not in orders',
+  not_paid_in_stripe: 'Paid in orders, not in Stripe',
+  amount_mismatch: 'Amount mismatch',
+  payment_intent_not_found: 'PaymentIntent not found',
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString()
+
+function SummaryCard({
+  title,
+  value,
+  description,
+  color = 'var(--adm-text)',
+}: {
+  title: string
+  value: number
+  description: string
+  color?: string
+}) {
+  return (
+    <div className="adm-card">
+      <div className="adm-card-top">
+        <span className="adm-card-title">{title}</span>
+      </div>
+      <div className="adm-card-value" style={{ color }}>
+        {value}
+      </div>
+      <div className="adm-card-divider" />
+      <p className="adm-card-desc">{description}</p>
+    </div>
+  )
+}
+
+function TableSkeleton() {
+  return (
+    <div className="adm-table-skeleton">
+      {Array.from({ length: 5 }).map((_, i) => (
+        <div key={i} className="adm-table-skeleton-row">
+          <div className="adm-skeleton adm-skeleton-sm" />
+          <div className="adm-skeleton adm-skeleton-md" />
+          <div className="adm-skeleton adm-skeleton-sm" />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function ReconciliationTab() {
+  const { data, isLoading, isError } = useReconciliationQuery()
+  const run = useRunReconciliationMutation()
+  const { can } = usePermissions()
+
+  const report = data?.report
+  const summary = report?.summary
+
+  return (
+    <div className="adm:flex adm:flex-col adm:gap-6">
+      {report && (
+        <div className="adm-cards-grid">
+          <SummaryCard
+            title="PaymentIntents"
+            value={summary?.paymentIntents || 0}
+            description={`Across ${summary?.accounts || 0} Stripe accounts`}
+          />
+          <SummaryCard
+            title="Refunds"
+            value={summary?.refunds || 0}
+            description="Refunds created in the window"
+          />
+          <SummaryCard
+            title="Fixed"
+            value={summary?.fixed || 0}
+            description="Drifts corrected automatically"
+            color="var(--adm-green)"
+          />
+          <SummaryCard
+            title="Unresolved"
+            value={summary?.unresolved || 0}
+            description="Discrepancies that need review"
+            color={summary?.unresolved ? 'var(--adm-red)' : 'var(--adm-green)'}
+          />
+        </div>
+      )}
+
+      <div className="adm-panel">
+        <div className="adm-panel-header">
+          <div>
+            <h2 className="adm-panel-title">Stripe Reconciliation</h2>
+            <p className="adm-panel-sub">
+              {report
+                ? `${report.trigger === 'schedule' ? 'Scheduled' : 'Manual'} run · ${formatDateTime(report.windowStart)} – ${formatDateTime(report.windowEnd)}`
+                : 'No reconciliation has run yet'}
+            </p>
+          </div>
+          {can('runReconciliation') && (
+            <button
+              type="button"
+              onClick={() => run.mutate()}
+              disabled={run.isPending}
+              className="adm:px-3 adm:py-1.5 adm:text-xs adm:font-semibold adm:rounded-lg adm:border adm:border-(--adm-border) adm:text-(--adm-text) hover:adm:bg-(--adm-surface-hover) adm:transition-colors adm:disabled:opacity-50"
+            >
+              {run.isPending ? 'Running…' : 'Run now'}
+            </button>
+          )}
+        </div>
+
+        {run.isError && <div className="adm-error">{run.error.message}</div>}
+
+        {isLoading ? (
+          <TableSkeleton />
+        ) : isError ? (
+          <div className="adm-error">Failed to load reconciliation reports.</div>
+        ) : report?.status === 'failed' ? (
+          <div className="adm-error">Reconciliation failed: {report.error}</div>
+        ) : !report?.discrepancies?.length ? (
+          <div className="adm-panel" style={{ textAlign: 'center', padding: '3rem' }}>
+            <p style={{ color: 'var(--adm-muted)', fontSize: '1.125rem' }}>No discrepancies</p>
+            <p style={{ color: 'var(--adm-muted)', marginTop: '0.5rem' }}>
+              Stripe and the orders collection agree
+            </p>
+          </div>
+        ) : (
+          <div className="adm-table-wrapper">
+            <table className="adm-table">
+              <thead>
+                <tr>
+                  <th>Type</th>
+                  <th>Order</th>
+                  <th>Stripe Object</th>
+                  <th>Account</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.discrepancies.map((item, index) => (
+                  <tr key={item.id || index} className="adm-table-row">
+                    <td>
+                      <span className="adm-status adm-status-pending">
+                        {discrepancyLabels[item.type] || item.type}
+                      </span>
+                    </td>
+                    <td className="adm-table-id">
+                      {item.order ? (
+                        <Link href={`/admin/collections/orders/${item.order}`}>{item.order}</Link>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                    <td className="adm-table-id">{item.stripeObjectId || '—'}</td>
+                    <td>{item.stripeAccount || '—'}</td>
+                    <td>{item.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {!!data?.runs.length && (
+        <div className="adm-panel">
+          <div className="adm-panel-header">
+            <div>
+              <h2 className="adm-panel-title">Recent Runs</h2>
+              <p className="adm-panel-sub">Daily at 03:00 UTC, plus manual runs</p>
+            </div>
+          </div>
+          <div className="adm-table-wrapper">
+            <table className="adm-table">
+              <thead>
+                <tr>
+                  <th>Ran At</th>
+                  <th>Trigger</th>
+                  <th>Status</th>
+                  <th>Fixed</th>
+                  <th>Unresolved</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.runs.map((item) => (
+                  <tr key={item.id} className="adm-table-row">
+                    <td className="adm-table-date">{formatDateTime(item.createdAt)}</td>
+                    <td>{item.trigger === 'schedule' ? 'Scheduled' : 'Manual'}</td>
+                    <td>
+                      <span
+                        className={`adm-status ${item.status === 'completed' ? 'adm-status-completed' : 'adm-status-cancelled'}`}
+                      >
+                        {item.status === 'completed' ? 'Completed' : 'Failed'}
+                      </span>
+                    </td>
+                    <td>{item.summary?.fixed || 0}</td>
+                    <td>{item.summary?.unresolved || 0}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
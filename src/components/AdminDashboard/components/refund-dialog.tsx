@@ -0,0 +1,119 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import type { Order } from '../queries/useOrdersQuery'
+import { useRefundOrderMutation, RefundReason } from '../queries/useRefundOrderMutation'
+
+const fieldClass =
+  'adm:w-full adm:px-3 adm:py-2 adm:text-sm adm:rounded-lg adm:border adm:border-(--adm-border) adm:bg-(--adm-surface) adm:text-(--adm-text)'
+
+export function RefundButton({ order }: { order: Order }) {
+  const [open, setOpen] = useState(false)
+
+  if (order.refundable <= 0) {
+    return <span className="adm:text-xs adm:text-(--adm-muted)">—</span>
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="adm:px-2.5 adm:py-1 adm:text-xs adm:font-semibold adm:rounded-lg adm:border adm:border-(--adm-red-border) adm:text-(--adm-red) hover:adm:bg-(--adm-red-dim) adm:transition-colors"
+      >
+        Refund
+      </button>
+      {open && <RefundDialog order={order} onClose={() => setOpen(false)} />}
+    </>
+  )
+}
+
+function RefundDialog({ order, onClose }: { order: Order; onClose: () => void }) {
+  const [amount, setAmount] = useState('')
+  const [reason, setReason] = useState<RefundReason>('requested_by_customer')
+  const [note, setNote] = useState('')
+  const refund = useRefundOrderMutation()
+
+  const refundAmount = amount ? Number(amount) : order.refundable
+  const invalid = !(refundAmount > 0) || refundAmount > order.refundable
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (invalid) return
+    refund.mutate(
+      { docId: order.docId, amount: amount ? refundAmount : undefined, reason, note },
+      { onSuccess: onClose },
+    )
+  }
+
+  return (
+    <div
+      className="adm:fixed adm:inset-0 adm:z-50 adm:flex adm:items-center adm:justify-center adm:bg-black/40"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="adm:w-full adm:max-w-sm adm:rounded-xl adm:border adm:border-(--adm-border) adm:bg-(--adm-surface) adm:p-5 adm:shadow-lg adm:space-y-3"
+      >
+        <div className="adm:flex adm:items-center adm:justify-between">
+          <h3 className="adm:text-base adm:font-semibold adm:text-(--adm-text)">
+            Refund {order.id}
+          </h3>
+          <button type="button" onClick={onClose} className="adm:text-(--adm-muted)">
+            <X className="adm:w-4 adm:h-4" />
+          </button>
+        </div>
+        <p className="adm:text-xs adm:text-(--adm-muted)">
+          Refundable balance: ${order.refundable.toFixed(2)} of {order.amount}
+        </p>
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          max={order.refundable}
+          placeholder={`Amount (full: ${order.refundable.toFixed(2)})`}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className={fieldClass}
+        />
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value as RefundReason)}
+          className={fieldClass}
+        >
+          <option value="requested_by_customer">Requested by customer</option>
+          <option value="duplicate">Duplicate</option>
+          <option value="fraudulent">Fraudulent</option>
+        </select>
+        <input
+          type="text"
+          placeholder="Internal note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className={fieldClass}
+        />
+        {refund.isError && (
+          <p className="adm:text-xs adm:text-(--adm-red)">{refund.error.message}</p>
+        )}
+        <div className="adm:flex adm:justify-end adm:gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="adm:px-3 adm:py-1.5 adm:text-xs adm:font-semibold adm:rounded-lg adm:border adm:border-(--adm-border) adm:text-(--adm-text)"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={invalid || refund.isPending}
+            className="adm:px-3 adm:py-1.5 adm:text-xs adm:font-semibold adm:rounded-lg adm:bg-(--adm-red) adm:text-white disabled:adm:opacity-40 disabled:adm:cursor-not-allowed"
+          >
+            {refund.isPending ? 'Refunding...' : `Refund $${(refundAmount || 0).toFixed(2)}`}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 'use client'
 
+import { useSearchParams } from 'next/navigation'
 import { useRevenueQuery } from '../queries/useRevenueQuery'
 import {
   AreaChart,
@@ -32,20 +33,39 @@ function CustomTooltip({
 }
 
 export function RevenueChart() {
-  const { data, isLoading } = useRevenueQuery()
+  const searchParams = useSearchParams()
+  const hasRange = !!searchParams.get('from')
+  const { data: series, isLoading } = useRevenueQuery()
+  const data = series?.data ?? []
+
+  const total = data.reduce((sum, bucket) => sum + bucket.revenue, 0)
+  // Latest bucket against the one before it
+  const [previous, latest] = data.slice(-2).map((bucket) => bucket.revenue)
+  const change = data.length >= 2 && previous > 0 ? ((latest - previous) / previous) * 100 : null
 
   return (
     <div className="adm-panel">
       <div className="adm-panel-header">
         <div>
           <h2 className="adm-panel-title">Revenue</h2>
-          <p className="adm-panel-sub">Last 7 months</p>
+          <p className="adm-panel-sub">
+            {hasRange ? 'Selected range' : 'Last 6 months'}
+            {series && ` · ${series.timeZone}`}
+          </p>
         </div>
         <div className="adm-panel-stat">
-          <span className="adm-panel-stat-value">$11,250</span>
-          <span className="adm-badge-trend adm-trend-up" style={{ fontSize: '0.7rem' }}>
-            +34% vs last month
+          <span className="adm-panel-stat-value">
+            ${total.toLocaleString('en-US', { maximumFractionDigits: 0 })}
           </span>
+          {change !== null && series && (
+            <span
+              className={`adm-badge-trend ${change >= 0 ? 'adm-trend-up' : 'adm-trend-down'}`}
+              style={{ fontSize: '0.7rem' }}
+            >
+              {change >= 0 ? '+' : ''}
+              {change.toFixed(0)}% vs last {series.interval}
+            </span>
+          )}
         </div>
       </div>
 
@@ -62,7 +82,7 @@ export function RevenueChart() {
             </defs>
             <CartesianGrid strokeDasharray="3 3" stroke="var(--adm-border)" vertical={false} />
             <XAxis
-              dataKey="month"
+              dataKey="label"
               tick={{ fill: 'var(--adm-muted)', fontSize: 11, fontFamily: 'var(--font-geist)' }}
               axisLine={false}
               tickLine={false}
@@ -4,12 +4,17 @@ import { useState, useRef, useEffect, useMemo } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { ChevronDown, ArrowUpDown, Building2, X, Layers, CheckSquare } from 'lucide-react'
 import { useSearchParams } from 'next/navigation'
+import { TEST_ORDERS_PARAM } from '@/lib/livemode'
 import { useAdminStore } from '../stores/useAdminStore'
 import { RevenuePieChart } from './revenue-pie-chart'
 import { ProviderBarChart } from './provider-bar-chart'
+import { adminFetch } from '../queries/adminFetch'
+import { useProvidersListQuery, useServicesListQuery } from '../queries/useFilterListsQuery'
 
 interface RevenueStats {
   totalRevenue: number
+  platformFees: number
+  netPayable: number
   paidOrdersCount: number
   averageOrderValue: number
   refundedAmount: number
@@ -17,11 +22,25 @@ interface RevenueStats {
   pendingAmount: number
 }
 
+interface ServiceRevenue {
+  name: string
+  slug: string
+  revenue: number
+  platformFees: number
+  netPayable: number
+  orderCount: number
+  linked: boolean
+  primary: boolean
+}
+
 interface ProviderRevenue {
   providerName: string
   providerSlug: string
   revenue: number
+  platformFees: number
+  netPayable: number
   orderCount: number
+  services?: ServiceRevenue[]
 }
 
 type SortOption =
@@ -42,38 +61,22 @@ const sortOptions: { label: string; value: SortOption }[] = [
 ]
 
 function useRevenueQuery() {
-  return useQuery({
-    queryKey: ['revenue-stats'],
-    queryFn: async (): Promise<RevenueStats> => {
-      const response = await fetch('/api/admin/revenue')
-      if (!response.ok) {
-        throw new Error('Failed to fetch revenue stats')
-      }
-      return response.json()
-    },
-  })
-}
+  const searchParams = useSearchParams()
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+  const testOrders = searchParams.get(TEST_ORDERS_PARAM)
 
-function useServicesQuery() {
   return useQuery({
-    queryKey: ['services-list'],
-    queryFn: async () => {
-      const response = await fetch('/api/admin/services')
-      if (!response.ok) {
-        throw new Error('Failed to fetch services')
-      }
-      return response.json() as Promise<{ name: string; slug: string }[]>
-    },
-  })
-}
+    queryKey: ['revenue-stats', { from, to, testOrders }],
+    queryFn: async (): Promise<RevenueStats> => {
+      const url = new URL('/api/admin/revenue', window.location.origin)
+      if (from) url.searchParams.set('from', from)
+      if (to) url.searchParams.set('to', to)
+      if (testOrders) url.searchParams.set(TEST_ORDERS_PARAM, testOrders)
 
-function useProvidersQuery() {
-  return useQuery({
-    queryKey: ['providers-list'],
-    queryFn: async () => {
-      const response = await fetch('/api/admin/providers')
+      const response = await adminFetch(url.toString())
       if (!response.ok) {
-        throw new Error('Failed to fetch providers')
+        throw new Error('Failed to fetch revenue stats')
       }
       return response.json()
     },
@@ -84,17 +87,19 @@ function useProviderRevenueQuery(service?: string | null, statuses?: string[]) {
   const searchParams = useSearchParams()
   const from = searchParams.get('from')
   const to = searchParams.get('to')
+  const testOrders = searchParams.get(TEST_ORDERS_PARAM)
 
   return useQuery({
-    queryKey: ['revenue-by-provider', { from, to, service, statuses }],
+    queryKey: ['revenue-by-provider', { from, to, testOrders, service, statuses }],
     queryFn: async (): Promise<ProviderRevenue[]> => {
       const url = new URL('/api/admin/revenue-by-provider', window.location.origin)
       if (from) url.searchParams.set('from', from)
       if (to) url.searchParams.set('to', to)
+      if (testOrders) url.searchParams.set(TEST_ORDERS_PARAM, testOrders)
       if (service) url.searchParams.set('service', service)
       statuses?.forEach((status) => url.searchParams.append('status', status))
 
-      const response = await fetch(url.toString())
+      const response = await adminFetch(url.toString())
       if (!response.ok) {
         throw new Error('Failed to fetch provider revenue')
       }
@@ -237,7 +242,9 @@ const statusOptions = [
   { label: 'Pending', value: 'pending', color: 'amber' },
   { label: 'Failed', value: 'failed', color: 'red' },
   { label: 'Refunded', value: 'refunded', color: 'gray' },
+  { label: 'Partially Refunded', value: 'partially_refunded', color: 'gray' },
   { label: 'Disputed', value: 'disputed', color: 'orange' },
+  { label: 'Expired', value: 'expired', color: 'gray' },
 ]
 
 function ServiceFilter({
@@ -474,8 +481,8 @@ function SortFilter({
 
 export function RevenueTab() {
   const { data: stats, isLoading: isLoadingStats, isError: isStatsError } = useRevenueQuery()
-  const { data: providers = [], isLoading: isLoadingProviders } = useProvidersQuery()
-  const { data: services = [], isLoading: _isLoadingServices } = useServicesQuery()
+  const { data: providers = [], isLoading: isLoadingProviders } = useProvidersListQuery()
+  const { data: services = [], isLoading: _isLoadingServices } = useServicesListQuery()
 
   const revenueProviderFilter = useAdminStore((state) => state.revenueProviderFilter)
   const setRevenueProviderFilter = useAdminStore((state) => state.setRevenueProviderFilter)
@@ -533,6 +540,8 @@ export function RevenueTab() {
     return {
       ...stats,
       totalRevenue: provider.revenue,
+      platformFees: provider.platformFees,
+      netPayable: provider.netPayable,
       paidOrdersCount: provider.orderCount,
       averageOrderValue: provider.orderCount > 0 ? provider.revenue / provider.orderCount : 0,
     }
@@ -591,13 +600,20 @@ export function RevenueTab() {
 
       <div className="adm-cards-grid">
         <StatCard
-          title="Total Revenue"
+          title="Gross Revenue"
           value={displayStats.totalRevenue.toFixed(2)}
           prefix="$"
           trend="+8.2%"
           description={revenueProviderFilter ? 'From selected provider' : 'From paid orders'}
           color="green"
         />
+        <StatCard
+          title="Net Revenue"
+          value={displayStats.platformFees.toFixed(2)}
+          prefix="$"
+          description={`Platform fees · $${displayStats.netPayable.toFixed(2)} owed to providers`}
+          color="green"
+        />
         <StatCard
           title="Average Order Value"
           value={displayStats.averageOrderValue.toFixed(2)}
@@ -645,8 +661,11 @@ export function RevenueTab() {
               <thead>
                 <tr>
                   <th>Provider</th>
+                  <th>Services</th>
                   <th>Orders</th>
-                  <th>Revenue</th>
+                  <th>Gross</th>
+                  <th>Platform Fees</th>
+                  <th>Net to Provider</th>
                   <th>% of Total</th>
                 </tr>
               </thead>
@@ -659,8 +678,25 @@ export function RevenueTab() {
                   return (
                     <tr key={provider.providerSlug} className="adm-table-row">
                       <td className="adm-table-name">{provider.providerName}</td>
+                      <td>
+                        <div className="adm:flex adm:flex-col adm:gap-0.5">
+                          {(provider.services || []).map((service) => (
+                            <span
+                              key={service.slug}
+                              className="adm:text-xs adm:text-(--adm-muted)"
+                              title={service.linked ? undefined : 'No longer linked'}
+                            >
+                              {service.name}
+                              {service.primary && ' (primary)'}
+                              {!service.linked && ' (unlinked)'} · ${service.revenue.toFixed(2)}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
                       <td>{provider.orderCount}</td>
                       <td className="adm-table-amount">${provider.revenue.toFixed(2)}</td>
+                      <td className="adm-table-amount">${provider.platformFees.toFixed(2)}</td>
+                      <td className="adm-table-amount">${provider.netPayable.toFixed(2)}</td>
                       <td>
                         <div className="adm:flex adm:items-center adm:gap-2">
                           <div className="adm:w-24 adm:h-2 adm:bg-(--adm-overlay-sm) adm:rounded-full adm:overflow-hidden">
@@ -0,0 +1,28 @@
+'use client'
+
+import { LogIn } from 'lucide-react'
+import { useAdminStore } from '../stores/useAdminStore'
+
+/**
+ * Shown when an admin API answers 401, with a link back to this page after signing in
+ */
+export function SessionExpiredBanner() {
+  const sessionExpired = useAdminStore((state) => state.sessionExpired)
+
+  if (!sessionExpired) return null
+
+  const redirect = encodeURIComponent(`${window.location.pathname}${window.location.search}`)
+
+  return (
+    <div className="adm-error adm:flex adm:items-center adm:justify-between adm:gap-4">
+      <span>Your session has expired. Sign in again to keep using the dashboard.</span>
+      <a
+        href={`/admin/login?redirect=${redirect}`}
+        className="adm:flex adm:items-center adm:gap-2 adm:font-semibold adm:text-[var(--adm-red)] adm:whitespace-nowrap"
+      >
+        <LogIn className="adm:h-4 adm:w-4" />
+        Sign in
+      </a>
+    </div>
+  )
+}
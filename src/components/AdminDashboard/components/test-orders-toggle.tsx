@@ -0,0 +1,58 @@
+'use client'
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { FlaskConical } from 'lucide-react'
+import { includesTestOrders, TEST_ORDERS_PARAM } from '@/lib/livemode'
+import { cn } from '@/lib/utils'
+
+/**
+ * Adds orders created with provider test API keys to every dashboard query (off by default)
+ */
+export function TestOrdersToggle() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const enabled = includesTestOrders(searchParams)
+
+  const toggle = () => {
+    const params = new URLSearchParams(searchParams)
+    if (enabled) {
+      params.delete(TEST_ORDERS_PARAM)
+    } else {
+      params.set(TEST_ORDERS_PARAM, 'include')
+    }
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false })
+  }
+
+  return (
+    <div className="adm:flex adm:items-center adm:gap-2">
+      <button
+        onClick={toggle}
+        className={cn(
+          'adm:relative adm:w-11 adm:h-6 adm:rounded-full adm:transition-colors',
+          enabled
+            ? 'adm:bg-[var(--adm-amber)]'
+            : 'adm:bg-[var(--adm-surface-hover)] adm:border adm:border-[var(--adm-border)]',
+        )}
+        aria-pressed={enabled}
+        aria-label="Include test orders"
+      >
+        <span
+          className={cn(
+            'adm:absolute adm:top-0.5 adm:left-0.5 adm:w-5 adm:h-5 adm:rounded-full adm:bg-white adm:transition-transform adm:shadow-sm',
+            enabled ? 'adm:translate-x-5' : 'adm:translate-x-0',
+          )}
+        />
+      </button>
+      <span
+        className={cn(
+          'adm:flex adm:items-center adm:gap-1 adm:text-sm adm:whitespace-nowrap adm:transition-colors',
+          enabled ? 'adm:text-[var(--adm-amber)] adm:font-medium' : 'adm:text-[var(--adm-muted)]',
+        )}
+      >
+        <FlaskConical className="adm:h-4 adm:w-4" />
+        Test orders
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { useAuth } from '@payloadcms/ui'
+import type { User } from '@/payload-types'
+import { hasPermission, type Permission } from '@/lib/permissions'
+
+// Permission needed to see each dashboard tab, in tab order
+export const DASHBOARD_VIEW_PERMISSIONS = {
+  overview: 'viewReports',
+  orders: 'viewOrders',
+  providers: 'viewProviders',
+  disputes: 'viewDisputes',
+  revenue: 'viewReports',
+  reconciliation: 'viewReconciliation',
+} as const satisfies Record<string, Permission>
+
+export type DashboardView = keyof typeof DASHBOARD_VIEW_PERMISSIONS
+
+/**
+ * Permission checks for the logged-in user, to hide what their role can't do
+ * The admin API enforces the same matrix; this only keeps the dashboard from offering it.
+ */
+export function usePermissions() {
+  const { user } = useAuth<User>()
+  const can = useCallback((permission: Permission) => hasPermission(user, permission), [user])
+  return { can }
+}
+
+/**
+ * Tabs the user may see and the one to show: `?view=` if allowed, else the first allowed tab
+ * `currentView` is null for roles without any dashboard tab (content editors).
+ */
+export function useDashboardView() {
+  const { can } = usePermissions()
+  const searchParams = useSearchParams()
+
+  const views = (Object.keys(DASHBOARD_VIEW_PERMISSIONS) as DashboardView[]).filter((view) =>
+    can(DASHBOARD_VIEW_PERMISSIONS[view]),
+  )
+  const requested = searchParams.get('view') as DashboardView | null
+  const currentView = requested && views.includes(requested) ? requested : (views[0] ?? null)
+
+  return { views, currentView }
+}
@@ -1,17 +1,32 @@
 'use client'
 
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { MutationCache, QueryCache, QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
 import { useState } from 'react'
+import { SessionExpiredError } from '../queries/adminFetch'
+import { useAdminStore } from '../stores/useAdminStore'
+
+const handleError = (error: Error) => {
+  if (error instanceof SessionExpiredError) {
+    useAdminStore.getState().setSessionExpired(true)
+  }
+}
 
 export function QueryProvider({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(
     () =>
       new QueryClient({
+        queryCache: new QueryCache({
+          onError: handleError,
+          onSuccess: () => useAdminStore.getState().setSessionExpired(false),
+        }),
+        mutationCache: new MutationCache({ onError: handleError }),
         defaultOptions: {
           queries: {
             staleTime: 60 * 1000,
-            retry: 1,
+            // Retrying cannot help once the session has expired
+            retry: (failureCount, error) =>
+              !(error instanceof SessionExpiredError) && failureCount < 1,
             refetchOnWindowFocus: false,
           },
         },
@@ -0,0 +1,27 @@
+/**
+ * Thrown when an admin API answers 401: the session expired or the user signed out
+ */
+export class SessionExpiredError extends Error {
+  constructor() {
+    super('Your session has expired')
+    this.name = 'SessionExpiredError'
+  }
+}
+
+/**
+ * fetch for /api/admin/* routes
+ * Sends the session cookie and turns 401 / 403 into errors, so every query fails the same way
+ * (QueryProvider shows the sign-in banner for SessionExpiredError).
+ */
+export async function adminFetch(input: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, { credentials: 'include', ...init })
+
+  if (response.status === 401) {
+    throw new SessionExpiredError()
+  }
+  if (response.status === 403) {
+    throw new Error('You do not have permission to view this data')
+  }
+
+  return response
+}
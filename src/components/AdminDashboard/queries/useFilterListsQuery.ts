@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query'
+import { adminFetch } from './adminFetch'
+
+// Options for the dashboard's service and provider filters (published services only)
+
+export function useServicesListQuery({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['services-list'],
+    enabled,
+    queryFn: async () => {
+      const response = await adminFetch('/api/admin/services')
+      if (!response.ok) {
+        throw new Error('Failed to fetch services')
+      }
+      return response.json() as Promise<{ name: string; slug: string }[]>
+    },
+  })
+}
+
+export function useProvidersListQuery({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['providers-list'],
+    enabled,
+    queryFn: async () => {
+      const response = await adminFetch('/api/admin/providers')
+      if (!response.ok) {
+        throw new Error('Failed to fetch providers')
+      }
+      return response.json() as Promise<{ id: string; name: string; slug: string }[]>
+    },
+  })
+}
@@ -1,9 +1,19 @@
-import { useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
 import { useSearchParams } from 'next/navigation'
+import { TEST_ORDERS_PARAM } from '@/lib/livemode'
+import {
+  DEFAULT_ADMIN_ORDERS_PAGE_SIZE,
+  isAdminOrderSort,
+  type AdminOrderResponse,
+} from '@/lib/admin-orders'
+import type { OrderStatus as ApiOrderStatus } from '@/lib/order-status'
 import { useAdminStore, OrderStatus } from '../stores/useAdminStore'
+import { adminFetch } from './adminFetch'
 
 export type Order = {
   id: string
+  docId: string
   customer: string
   email: string
   product: string
@@ -11,23 +21,28 @@ export type Order = {
   status: 'Completed' | 'Pending' | 'Cancelled' | 'Processing'
   date: string
   time: string
+  refundable: number
 }
 
-function mapApiStatus(status: string): Order['status'] {
-  switch (status) {
-    case 'Completed':
-    case 'Paid':
-      return 'Completed'
-    case 'Pending':
-      return 'Pending'
-    case 'Failed':
-      return 'Cancelled'
-    case 'Processing':
-    case 'Disputed':
-      return 'Processing'
-    default:
-      return 'Pending'
-  }
+export interface OrdersPage {
+  orders: Order[]
+  totalDocs: number
+  nextCursor: string | null
+}
+
+// Order statuses behind each dashboard status
+const statusGroups: Record<OrderStatus, ApiOrderStatus[]> = {
+  Completed: ['paid', 'partially_refunded'],
+  Pending: ['pending'],
+  Processing: ['disputed'],
+  Cancelled: ['failed', 'expired', 'refunded'],
+}
+
+function mapApiStatus(status: ApiOrderStatus): Order['status'] {
+  const group = (Object.keys(statusGroups) as OrderStatus[]).find((key) =>
+    statusGroups[key].includes(status),
+  )
+  return group || 'Pending'
 }
 
 function formatTime(dateString: string): string {
@@ -39,120 +54,92 @@ function formatTime(dateString: string): string {
   })
 }
 
-interface OrdersQueryOptions {
-  searchQuery?: string
-  status?: OrderStatus | null
-  sortBy?: string
-}
-
-function filterAndSortOrders(orders: Order[], options: OrdersQueryOptions): Order[] {
-  let result = [...orders]
-
-  // Filter by search query
-  if (options.searchQuery) {
-    const query = options.searchQuery.toLowerCase()
-    result = result.filter(
-      (order) =>
-        order.id.toLowerCase().includes(query) ||
-        order.customer.toLowerCase().includes(query) ||
-        order.email.toLowerCase().includes(query) ||
-        order.product.toLowerCase().includes(query),
-    )
-  }
-
-  // Filter by status
-  if (options.status) {
-    result = result.filter((order) => order.status === options.status)
-  }
-
-  // Sort
-  if (options.sortBy) {
-    result.sort((a, b) => {
-      switch (options.sortBy) {
-        case 'date-desc':
-          return new Date(b.date).getTime() - new Date(a.date).getTime()
-        case 'date-asc':
-          return new Date(a.date).getTime() - new Date(b.date).getTime()
-        case 'amount-desc': {
-          const amountA = parseFloat(a.amount.replace(/[$,]/g, ''))
-          const amountB = parseFloat(b.amount.replace(/[$,]/g, ''))
-          return amountB - amountA
-        }
-        case 'amount-asc': {
-          const amountA = parseFloat(a.amount.replace(/[$,]/g, ''))
-          const amountB = parseFloat(b.amount.replace(/[$,]/g, ''))
-          return amountA - amountB
-        }
-        case 'name-asc':
-          return a.customer.localeCompare(b.customer)
-        case 'name-desc':
-          return b.customer.localeCompare(a.customer)
-        default:
-          return 0
-      }
-    })
-  }
-
-  return result
-}
-
+/**
+ * One page of orders from the server, filtered, searched and sorted there
+ * Paging walks forward through `nextCursor`s; the cursors already visited allow going back.
+ */
 export function useOrdersQuery() {
   const searchParams = useSearchParams()
   const from = searchParams.get('from')
   const to = searchParams.get('to')
+  const testOrders = searchParams.get(TEST_ORDERS_PARAM)
   const searchQuery = useAdminStore((state) => state.searchQuery)
   const orderStatus = useAdminStore((state) => state.orderStatus)
+  const provider = useAdminStore((state) => state.orderProviderFilter)
+  const service = useAdminStore((state) => state.orderServiceFilter)
   const sortBy = useAdminStore((state) => state.sortBy)
+  // The sort is shared with the Providers tab, which can also sort by name
+  const sort = isAdminOrderSort(sortBy) ? sortBy : 'date-desc'
+
+  const filters = { from, to, testOrders, searchQuery, orderStatus, provider, service, sort }
+  const filtersKey = JSON.stringify(filters)
+
+  // Cursors of the pages visited so far (null is the first page); back to page one on new filters
+  const [pages, setPages] = useState<{ key: string; cursors: (string | null)[] }>({
+    key: filtersKey,
+    cursors: [null],
+  })
+  const cursors = pages.key === filtersKey ? pages.cursors : [null]
+  const cursor = cursors[cursors.length - 1]
 
-  return useQuery({
-    queryKey: ['orders', { from, to, searchQuery, orderStatus, sortBy }],
-    queryFn: async (): Promise<Order[]> => {
-      // Build URL with date params
-      const url = new URL('/api/admin/orders/recent', window.location.origin)
+  const query = useQuery({
+    queryKey: ['orders', { ...filters, cursor }],
+    queryFn: async (): Promise<OrdersPage> => {
+      const url = new URL('/api/admin/orders', window.location.origin)
       if (from) url.searchParams.set('from', from)
       if (to) url.searchParams.set('to', to)
+      if (testOrders) url.searchParams.set(TEST_ORDERS_PARAM, testOrders)
+      if (searchQuery.trim()) url.searchParams.set('q', searchQuery.trim())
+      if (orderStatus) url.searchParams.set('status', statusGroups[orderStatus].join(','))
+      if (provider) url.searchParams.set('provider', provider)
+      if (service) url.searchParams.set('service', service)
+      url.searchParams.set('sort', sort)
+      if (cursor) url.searchParams.set('cursor', cursor)
 
-      const response = await fetch(url.toString())
+      const response = await adminFetch(url.toString())
 
       if (!response.ok) {
         throw new Error('Failed to fetch orders')
       }
 
-      const data = await response.json()
+      const data: { orders: AdminOrderResponse[]; totalDocs: number; nextCursor: string | null } =
+        await response.json()
 
-      // Map API response to Order type
-      const orders: Order[] = data.map(
-        (order: {
-          id: string
-          customer: string
-          email: string
-          product: string
-          amount: string
-          status: string
-          date: string
-          createdAt?: string
-        }) => ({
+      return {
+        orders: data.orders.map((order) => ({
           id: order.id,
+          docId: order.docId,
           customer: order.customer,
           email: order.email,
           product: order.product,
-          amount: order.amount,
+          amount: `$${order.amount.toFixed(2)}`,
           status: mapApiStatus(order.status),
-          date: order.date,
-          time: order.createdAt ? formatTime(order.createdAt) : '--:--',
-        }),
-      )
-
-      return filterAndSortOrders(orders, {
-        searchQuery,
-        status: orderStatus,
-        sortBy,
-      })
+          date: order.createdAt,
+          time: formatTime(order.createdAt),
+          refundable: order.refundable,
+        })),
+        totalDocs: data.totalDocs,
+        nextCursor: data.nextCursor,
+      }
     },
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
   })
-}
 
-export function useOrdersCount() {
-  const { data: orders } = useOrdersQuery()
-  return { total: orders?.length || 0 }
+  const nextCursor = query.data?.nextCursor
+  const totalDocs = query.data?.totalDocs ?? 0
+
+  return {
+    ...query,
+    pagination: {
+      pageIndex: cursors.length - 1,
+      pageCount: Math.max(1, Math.ceil(totalDocs / DEFAULT_ADMIN_ORDERS_PAGE_SIZE)),
+      canPreviousPage: cursors.length > 1,
+      canNextPage: !!nextCursor && !query.isPlaceholderData,
+      onPreviousPage: () => setPages({ key: filtersKey, cursors: cursors.slice(0, -1) }),
+      onNextPage: () => {
+        if (nextCursor) setPages({ key: filtersKey, cursors: [...cursors, nextCursor] })
+      },
+    },
+  }
 }
@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query'
 import { useAdminStore, ProviderStatus } from '../stores/useAdminStore'
+import { adminFetch } from './adminFetch'
 
 export interface Provider {
   id: string
@@ -62,7 +63,7 @@ export function useProvidersQuery() {
   return useQuery({
     queryKey: ['providers', { searchQuery, providerStatus, sortBy }],
     queryFn: async (): Promise<Provider[]> => {
-      const response = await fetch('/api/admin/providers')
+      const response = await adminFetch('/api/admin/providers')
 
       if (!response.ok) {
         throw new Error('Failed to fetch providers')
@@ -1,5 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
 import { useSearchParams } from 'next/navigation'
+import { TEST_ORDERS_PARAM } from '@/lib/livemode'
+import { adminFetch } from './adminFetch'
 
 export interface RecentOrder {
   id: string
@@ -23,16 +25,18 @@ export function useRecentOrdersQuery() {
   const searchParams = useSearchParams()
   const from = searchParams.get('from')
   const to = searchParams.get('to')
+  const testOrders = searchParams.get(TEST_ORDERS_PARAM)
 
   return useQuery({
-    queryKey: ['recent-orders', { from, to }],
+    queryKey: ['recent-orders', { from, to, testOrders }],
     queryFn: async (): Promise<RecentOrder[]> => {
       // Build URL with date params
       const url = new URL('/api/admin/orders/recent', window.location.origin)
       if (from) url.searchParams.set('from', from)
       if (to) url.searchParams.set('to', to)
+      if (testOrders) url.searchParams.set(TEST_ORDERS_PARAM, testOrders)
 
-      const response = await fetch(url.toString())
+      const response = await adminFetch(url.toString())
 
       if (!response.ok) {
         throw new Error('Failed to fetch recent orders')
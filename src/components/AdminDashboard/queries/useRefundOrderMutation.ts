@@ -0,0 +1,47 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { adminFetch } from './adminFetch'
+
+export type RefundReason = 'requested_by_customer' | 'duplicate' | 'fraudulent'
+
+export interface RefundOrderInput {
+  docId: string
+  // Dollars; omit for a full refund of the remaining balance
+  amount?: number
+  reason: RefundReason
+  note?: string
+}
+
+export interface RefundOrderResult {
+  refundId: string
+  refundStatus: string
+  amount: number
+  orderStatus: string
+  amountRefunded: number
+}
+
+export function useRefundOrderMutation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ docId, ...body }: RefundOrderInput): Promise<RefundOrderResult> => {
+      const response = await adminFetch(`/api/admin/orders/${docId}/refund`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to refund order')
+      }
+
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      queryClient.invalidateQueries({ queryKey: ['recent-orders'] })
+      queryClient.invalidateQueries({ queryKey: ['section-cards'] })
+    },
+  })
+}
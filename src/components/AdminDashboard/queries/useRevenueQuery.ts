@@ -1,57 +1,71 @@
 import { useQuery } from '@tanstack/react-query'
 import { useSearchParams } from 'next/navigation'
+import { TEST_ORDERS_PARAM } from '@/lib/livemode'
+import type { ReportInterval, SeriesBucket } from '@/lib/order-reports'
+import { adminFetch } from './adminFetch'
 
 export interface RevenueData {
-  month: string
+  // Bucket label, e.g. "Jan" or "Jan 5"
+  label: string
   revenue: number
 }
 
+export interface RevenueSeries {
+  interval: ReportInterval
+  // Reporting time zone the buckets follow
+  timeZone: string
+  data: RevenueData[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Daily buckets for up to a month, weekly up to four months, monthly beyond that
+function getInterval(from: string | null, to: string | null): ReportInterval {
+  if (!from) return 'month'
+  const days = ((to ? new Date(to) : new Date()).getTime() - new Date(from).getTime()) / DAY_MS
+  if (days <= 31) return 'day'
+  if (days <= 120) return 'week'
+  return 'month'
+}
+
 export function useRevenueQuery() {
   const searchParams = useSearchParams()
   const from = searchParams.get('from')
   const to = searchParams.get('to')
+  const testOrders = searchParams.get(TEST_ORDERS_PARAM)
+  const interval = getInterval(from, to)
 
   return useQuery({
-    queryKey: ['revenue-chart', { from, to }],
-    queryFn: async (): Promise<RevenueData[]> => {
-      // Fetch revenue by provider data and aggregate by month
-      const url = new URL('/api/admin/revenue-by-provider', window.location.origin)
+    queryKey: ['revenue-chart', { from, to, testOrders, interval }],
+    queryFn: async (): Promise<RevenueSeries> => {
+      const url = new URL('/api/admin/revenue/series', window.location.origin)
+      url.searchParams.set('interval', interval)
       if (from) url.searchParams.set('from', from)
       if (to) url.searchParams.set('to', to)
+      if (testOrders) url.searchParams.set(TEST_ORDERS_PARAM, testOrders)
 
-      const response = await fetch(url.toString())
+      const response = await adminFetch(url.toString())
 
       if (!response.ok) {
-        // Fallback to main revenue API if provider API fails
-        const fallbackRes = await fetch('/api/admin/revenue')
-        if (!fallbackRes.ok) {
-          throw new Error('Failed to fetch revenue data')
-        }
-        const data = await fallbackRes.json()
-        // Return single data point based on total revenue
-        return [{ month: 'Current', revenue: data.totalRevenue || 0 }]
+        throw new Error('Failed to fetch revenue data')
       }
 
-      const providerData = await response.json()
-
-      // Aggregate revenue from all providers
-      const totalRevenue = providerData.reduce(
-        (sum: number, p: { revenue: number }) => sum + p.revenue,
-        0,
-      )
-
-      // Generate last 6 months labels
-      const months: RevenueData[] = []
-      const now = new Date()
-      for (let i = 5; i >= 0; i--) {
-        const d = new Date(now.getFullYear(), now.getMonth() - i, 1)
-        months.push({
-          month: d.toLocaleDateString('en-US', { month: 'short' }),
-          revenue: i === 0 ? totalRevenue : Math.round(totalRevenue * (0.5 + Math.random() * 0.5)),
-        })
-      }
+      const { series, timeZone }: { series: SeriesBucket[]; timeZone: string } =
+        await response.json()
 
-      return months
+      return {
+        interval,
+        timeZone,
+        data: series.map((bucket) => ({
+          // Buckets start at midnight in the reporting time zone
+          label: new Date(bucket.period).toLocaleDateString('en-US', {
+            month: 'short',
+            ...(interval !== 'month' && { day: 'numeric' }),
+            timeZone,
+          }),
+          revenue: bucket.grossAmount,
+        })),
+      }
     },
   })
 }
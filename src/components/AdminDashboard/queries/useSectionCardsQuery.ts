@@ -1,5 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
 import { useSearchParams } from 'next/navigation'
+import { TEST_ORDERS_PARAM } from '@/lib/livemode'
+import { adminFetch } from './adminFetch'
 
 export interface StatCard {
   id: string
@@ -33,16 +35,18 @@ export function useSectionCardsQuery() {
   const searchParams = useSearchParams()
   const from = searchParams.get('from')
   const to = searchParams.get('to')
+  const testOrders = searchParams.get(TEST_ORDERS_PARAM)
 
   return useQuery({
-    queryKey: ['section-cards', { from, to }],
+    queryKey: ['section-cards', { from, to, testOrders }],
     queryFn: async (): Promise<StatCard[]> => {
       // Build URL with date params
       const url = new URL('/api/admin/stats', window.location.origin)
       if (from) url.searchParams.set('from', from)
       if (to) url.searchParams.set('to', to)
+      if (testOrders) url.searchParams.set(TEST_ORDERS_PARAM, testOrders)
 
-      const response = await fetch(url.toString())
+      const response = await adminFetch(url.toString())
 
       if (!response.ok) {
         throw new Error('Failed to fetch order stats')
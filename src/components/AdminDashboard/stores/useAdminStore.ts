@@ -13,20 +13,28 @@ export interface AdminState {
   dateRange: DateRange | null
   searchQuery: string
   orderStatus: OrderStatus | null
+  // Provider and service slugs filtering the Orders tab
+  orderProviderFilter: string | null
+  orderServiceFilter: string | null
   providerStatus: ProviderStatus | null
   sortBy: string
   revenueProviderFilter: string | null
   revenueServiceFilter: string | null
   revenueStatusFilters: string[]
+  // An admin API answered 401; cleared by the next successful query
+  sessionExpired: boolean
   setSelectedTab: (tab: string) => void
   setDateRange: (range: DateRange | null) => void
   setSearchQuery: (query: string) => void
   setOrderStatus: (status: OrderStatus | null) => void
+  setOrderProviderFilter: (provider: string | null) => void
+  setOrderServiceFilter: (service: string | null) => void
   setProviderStatus: (status: ProviderStatus | null) => void
   setSortBy: (sort: string) => void
   setRevenueProviderFilter: (provider: string | null) => void
   setRevenueServiceFilter: (service: string | null) => void
   setRevenueStatusFilters: (statuses: string[]) => void
+  setSessionExpired: (expired: boolean) => void
   clearFilters: () => void
   clearRevenueFilters: () => void
 }
@@ -36,23 +44,31 @@ export const useAdminStore = create<AdminState>((set) => ({
   dateRange: null,
   searchQuery: '',
   orderStatus: null,
+  orderProviderFilter: null,
+  orderServiceFilter: null,
   providerStatus: null,
   sortBy: 'date-desc',
   revenueProviderFilter: null,
   revenueServiceFilter: null,
   revenueStatusFilters: ['paid'],
+  sessionExpired: false,
   setSelectedTab: (selectedTab) => set({ selectedTab }),
   setDateRange: (dateRange) => set({ dateRange }),
   setSearchQuery: (searchQuery) => set({ searchQuery }),
   setOrderStatus: (orderStatus) => set({ orderStatus }),
+  setOrderProviderFilter: (orderProviderFilter) => set({ orderProviderFilter }),
+  setOrderServiceFilter: (orderServiceFilter) => set({ orderServiceFilter }),
   setProviderStatus: (providerStatus) => set({ providerStatus }),
   setSortBy: (sortBy) => set({ sortBy }),
   setRevenueProviderFilter: (revenueProviderFilter) => set({ revenueProviderFilter }),
   setRevenueServiceFilter: (revenueServiceFilter) => set({ revenueServiceFilter }),
   setRevenueStatusFilters: (revenueStatusFilters) => set({ revenueStatusFilters }),
+  setSessionExpired: (sessionExpired) => set({ sessionExpired }),
   clearFilters: () =>
     set({
       orderStatus: null,
+      orderProviderFilter: null,
+      orderServiceFilter: null,
       providerStatus: null,
       searchQuery: '',
       sortBy: 'date-desc',
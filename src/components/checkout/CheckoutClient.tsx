@@ -6,7 +6,11 @@ import { Icon, Card } from '@/components/ui'
 import type { IconName } from '@/components/ui'
 import Link from 'next/link'
 import { StripeProvider } from '@/components/checkout/StripeProvider'
-import { CashAppPaymentForm } from '@/components/checkout/CashAppPaymentForm'
+import { StripePaymentForm } from '@/components/checkout/StripePaymentForm'
+import type { OrderStatus } from '@/lib/order-status'
+import { buildRedirectUrl } from '@/lib/redirect-url'
+import type { AmountRules } from '@/lib/amount-rules'
+import type { PaymentMethod } from '@/lib/payment-methods'
 
 interface ServiceData {
   id: string
@@ -16,6 +20,8 @@ interface ServiceData {
   priceUnit?: string
   icon?: IconName
   slug: string
+  amountRules?: AmountRules
+  quantity?: number
 }
 
 interface CheckoutState {
@@ -25,10 +31,12 @@ interface CheckoutState {
   service: ServiceData | null
   clientSecret: string | null
   paymentOrderId: string | null
+  externalId: string | null
   stripePublishableKey: string | null
   provider: string | null
   successRedirectUrl: string | null
   cancelRedirectUrl: string | null
+  paymentMethods: PaymentMethod[] | null
 }
 
 // Payment result status from Stripe redirect
@@ -37,7 +45,8 @@ type PaymentResultStatus = 'succeeded' | 'processing' | 'failed' | null
 interface PaymentData {
   clientSecret: string
   orderId: string
-  status?: 'paid' | 'failed' | 'disputed' | 'refunded' | 'pending'
+  externalId?: string
+  status?: OrderStatus
   checkoutUrl?: string
   amount: number
   quantity?: number
@@ -48,19 +57,15 @@ interface PaymentData {
   providerId?: string
   successRedirectUrl?: string
   cancelRedirectUrl?: string
-}
-
-/**
- * Replace {orderId} placeholder in URL with actual orderId
- */
-function buildRedirectUrl(templateUrl: string, orderId: string): string {
-  return templateUrl.replace(/{orderId}/g, orderId)
+  paymentMethods?: PaymentMethod[]
 }
 
 export function CheckoutClient() {
   const searchParams = useSearchParams()
   const orderId = searchParams.get('orderId')
   const serviceId = searchParams.get('serviceId')
+  // Optional amount to charge; validated against the service's amount rules
+  const amount = searchParams.get('amount')
   const status = searchParams.get('status')
 
   // Stripe redirect params (added after Cash App payment)
@@ -75,10 +80,12 @@ export function CheckoutClient() {
     service: null,
     clientSecret: null,
     paymentOrderId: null,
+    externalId: null,
     stripePublishableKey: null,
     provider: null,
     successRedirectUrl: null,
     cancelRedirectUrl: null,
+    paymentMethods: null,
   })
 
   const [copied, setCopied] = useState(false)
@@ -120,6 +127,7 @@ export function CheckoutClient() {
           body: JSON.stringify({
             serviceId,
             orderId,
+            ...(amount && { amount: Number(amount) }),
           }),
         })
 
@@ -139,7 +147,11 @@ export function CheckoutClient() {
           setPaymentStatus('succeeded')
         } else if (paymentData.status === 'failed') {
           setPaymentStatus('failed')
-        } else if (paymentData.status === 'disputed' || paymentData.status === 'refunded') {
+        } else if (
+          paymentData.status === 'disputed' ||
+          paymentData.status === 'refunded' ||
+          paymentData.status === 'partially_refunded'
+        ) {
           setPaymentStatus('disputed')
         }
 
@@ -147,6 +159,7 @@ export function CheckoutClient() {
         if (paymentData.amount) {
           currentService.price = paymentData.amount
         }
+        currentService.quantity = paymentData.quantity || 1
 
         setState((prev) => ({
           ...prev,
@@ -154,10 +167,12 @@ export function CheckoutClient() {
           service: currentService,
           clientSecret: paymentData.clientSecret,
           paymentOrderId: paymentData.orderId,
+          externalId: paymentData.externalId || null,
           stripePublishableKey: paymentData.stripePublishableKey || null,
           provider: paymentData.provider || null,
           successRedirectUrl: paymentData.successRedirectUrl || null,
           cancelRedirectUrl: paymentData.cancelRedirectUrl || null,
+          paymentMethods: paymentData.paymentMethods || null,
         }))
       } catch (error) {
         console.error('Checkout initialization error:', error)
@@ -172,7 +187,7 @@ export function CheckoutClient() {
     }
 
     initializeCheckout()
-  }, [serviceId, orderId])
+  }, [serviceId, orderId, amount])
 
   // Store order ID and provider info in localStorage
   useEffect(() => {
@@ -191,6 +206,7 @@ export function CheckoutClient() {
           status: 'pending',
           // Store provider info for redirect on success page
           provider: state.provider,
+          externalId: state.externalId,
           successRedirectUrl: state.successRedirectUrl,
           cancelRedirectUrl: state.cancelRedirectUrl,
         })
@@ -202,6 +218,7 @@ export function CheckoutClient() {
     serviceId,
     state.service,
     state.provider,
+    state.externalId,
     state.successRedirectUrl,
     state.cancelRedirectUrl,
   ])
@@ -300,6 +317,7 @@ export function CheckoutClient() {
           setState((prev) => ({
             ...prev,
             provider: order.provider,
+            externalId: order.externalId || null,
             successRedirectUrl: order.successRedirectUrl,
           }))
         }
@@ -315,7 +333,11 @@ export function CheckoutClient() {
       setRedirectCountdown((prev) => {
         if (prev <= 1) {
           clearInterval(countdownInterval)
-          const redirectUrl = buildRedirectUrl(state.successRedirectUrl!, orderId)
+          const redirectUrl = buildRedirectUrl(state.successRedirectUrl!, {
+            orderId,
+            externalId: state.externalId,
+            status: 'paid',
+          })
           window.location.href = redirectUrl
           return 0
         }
@@ -324,14 +346,18 @@ export function CheckoutClient() {
     }, 1000)
 
     return () => clearInterval(countdownInterval)
-  }, [redirecting, state.successRedirectUrl, orderId])
+  }, [redirecting, state.successRedirectUrl, state.externalId, orderId])
 
   const handleRedirectNow = useCallback(() => {
     if (state.successRedirectUrl && orderId) {
-      const redirectUrl = buildRedirectUrl(state.successRedirectUrl, orderId)
+      const redirectUrl = buildRedirectUrl(state.successRedirectUrl, {
+        orderId,
+        externalId: state.externalId,
+        status: 'paid',
+      })
       window.location.href = redirectUrl
     }
-  }, [state.successRedirectUrl, orderId])
+  }, [state.successRedirectUrl, state.externalId, orderId])
 
   const copyOrderId = useCallback(() => {
     const orderIdToCopy = state.paymentOrderId || orderId
@@ -587,24 +613,18 @@ export function CheckoutClient() {
     )
   }
 
-  // Error state - Cash App Unavailable (special UI)
-  if (state.errorCode === 'CASHAPP_UNAVAILABLE') {
+  // Error state - Payment method unavailable (special UI)
+  if (state.errorCode === 'PAYMENT_METHOD_UNAVAILABLE') {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
         <Card className="w-full max-w-md text-center p-8 border border-gray-200 shadow-lg">
-          {/* Cash App Logo/Icon */}
-          <div className="inline-flex h-20 w-20 items-center justify-center rounded-full bg-green-100 mb-6">
-            <svg viewBox="0 0 24 24" className="h-10 w-10 text-green-600" fill="currentColor">
-              <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1.41 16.09V20h-2.67v-1.93c-1.71-.36-3.16-1.46-3.27-3.4h1.96c.1 1.05.82 1.87 2.65 1.87 1.96 0 2.4-.98 2.4-1.59 0-.83-.44-1.61-2.67-2.14-2.48-.6-4.18-1.62-4.18-3.67 0-1.72 1.39-2.84 3.11-3.21V4h2.67v1.95c1.86.45 2.79 1.86 2.85 3.39H14.3c-.05-1.11-.64-1.87-2.22-1.87-1.5 0-2.4.68-2.4 1.64 0 .84.65 1.39 2.67 1.91s4.18 1.39 4.18 3.91c-.01 1.83-1.38 2.83-3.12 3.16z" />
-            </svg>
+          <div className="inline-flex h-20 w-20 items-center justify-center rounded-full bg-amber-100 mb-6">
+            <Icon name="alert-circle" className="h-10 w-10 text-amber-600" />
           </div>
 
-          <h1 className="text-xl font-bold text-gray-900 mb-3">Cash App Not Available</h1>
+          <h1 className="text-xl font-bold text-gray-900 mb-3">Payment Method Not Available</h1>
 
-          <p className="text-gray-600 mb-4 text-sm">
-            We only accept <span className="font-semibold text-green-600">Cash App</span> payments
-            for our services.
-          </p>
+          <p className="text-gray-600 mb-4 text-sm">{state.error}</p>
 
           <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
             <div className="flex items-start gap-3">
@@ -612,8 +632,8 @@ export function CheckoutClient() {
               <div className="text-left">
                 <p className="text-amber-800 text-sm font-medium">Configuration Required</p>
                 <p className="text-amber-700 text-xs mt-1">
-                  Cash App payments require a US-based Stripe account. Please contact our team to
-                  resolve this issue.
+                  The payment methods for this service are not enabled on our Stripe account. Please
+                  contact our team to resolve this issue.
                 </p>
               </div>
             </div>
@@ -675,6 +695,19 @@ export function CheckoutClient() {
               </div>
             </div>
 
+            {/* Quantity breakdown for per-unit services */}
+            {service.amountRules?.pricingMode === 'unit' && (service.quantity || 1) > 1 && (
+              <div className="flex justify-between items-center mt-3">
+                <span className="text-gray-500 text-sm">Quantity</span>
+                <span className="font-semibold text-gray-900 text-sm">
+                  {service.quantity} × USD{' '}
+                  {service.amountRules.unitPrice.toLocaleString(undefined, {
+                    minimumFractionDigits: 2,
+                  })}
+                </span>
+              </div>
+            )}
+
             {/* Total */}
             <div className="mt-4 pt-4 border-t border-gray-200">
               <div className="flex justify-between items-center">
@@ -693,9 +726,10 @@ export function CheckoutClient() {
                 clientSecret={state.clientSecret}
                 publishableKey={state.stripePublishableKey || undefined}
               >
-                <CashAppPaymentForm
+                <StripePaymentForm
                   orderId={state.paymentOrderId || displayOrderId || ''}
                   amount={service.price}
+                  paymentMethods={state.paymentMethods || undefined}
                 />
               </StripeProvider>
             ) : (
@@ -6,7 +6,11 @@ import { Icon, Card } from '@/components/ui'
 import type { IconName } from '@/components/ui'
 import Link from 'next/link'
 import { StripeProvider } from '@/components/checkout/StripeProvider'
-import { CashAppPaymentForm } from '@/components/checkout/CashAppPaymentForm'
+import { StripePaymentForm } from '@/components/checkout/StripePaymentForm'
+import type { OrderStatus } from '@/lib/order-status'
+import { buildRedirectUrl } from '@/lib/redirect-url'
+import type { AmountRules } from '@/lib/amount-rules'
+import { DELAYED_SETTLEMENT_METHODS, type PaymentMethod } from '@/lib/payment-methods'
 
 interface ServiceData {
   id: string
@@ -16,6 +20,8 @@ interface ServiceData {
   priceUnit?: string
   icon?: IconName
   slug: string
+  amountRules?: AmountRules
+  quantity?: number
 }
 
 interface CheckoutState {
@@ -25,10 +31,12 @@ interface CheckoutState {
   service: ServiceData | null
   clientSecret: string | null
   paymentOrderId: string | null
+  externalId: string | null
   stripePublishableKey: string | null
   provider: string | null
   successRedirectUrl: string | null
   cancelRedirectUrl: string | null
+  paymentMethods: PaymentMethod[] | null
 }
 
 // Payment result status from Stripe redirect
@@ -37,8 +45,11 @@ type PaymentResultStatus = 'succeeded' | 'processing' | 'failed' | null
 interface CheckoutSessionData {
   clientSecret: string
   orderId: string
+  externalId?: string | null
   checkoutToken: string
-  status?: 'paid' | 'failed' | 'disputed' | 'refunded' | 'pending'
+  status?: OrderStatus
+  paymentIntentStatus?: string | null
+  verificationUrl?: string
   amount: number
   quantity?: number
   serviceName?: string
@@ -48,19 +59,13 @@ interface CheckoutSessionData {
   provider?: string
   successRedirectUrl?: string
   cancelRedirectUrl?: string
+  paymentMethods?: PaymentMethod[]
 }
 
 interface CheckoutTokenClientProps {
   token: string
 }
 
-/**
- * Replace {orderId} placeholder in URL with actual orderId
- */
-function buildRedirectUrl(templateUrl: string, orderId: string): string {
-  return templateUrl.replace(/{orderId}/g, orderId)
-}
-
 export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
   const searchParams = useSearchParams()
 
@@ -76,19 +81,23 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
     service: null,
     clientSecret: null,
     paymentOrderId: null,
+    externalId: null,
     stripePublishableKey: null,
     provider: null,
     successRedirectUrl: null,
     cancelRedirectUrl: null,
+    paymentMethods: null,
   })
 
   const [copied, setCopied] = useState(false)
   const [redirecting, setRedirecting] = useState(false)
   const [redirectCountdown, setRedirectCountdown] = useState(5)
   // Actual payment status (verified from PaymentIntent, not just redirect_status)
+  // `requires_verification`: ACH debit waiting for the customer to verify microdeposits
   const [paymentStatus, setPaymentStatus] = useState<
-    'succeeded' | 'processing' | 'failed' | 'pending' | 'disputed' | null
+    'succeeded' | 'processing' | 'requires_verification' | 'failed' | 'pending' | 'disputed' | null
   >(null)
+  const [verificationUrl, setVerificationUrl] = useState<string | null>(null)
 
   // Fetch checkout session by token
   useEffect(() => {
@@ -107,6 +116,22 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
 
         if (!response.ok) {
           const errorData = await response.json()
+
+          // Expired links get their own screen, with a way back to the provider
+          if (errorData.errorCode === 'CHECKOUT_EXPIRED') {
+            setState((prev) => ({
+              ...prev,
+              loading: false,
+              error: errorData.error,
+              errorCode: errorData.errorCode,
+              paymentOrderId: errorData.orderId || null,
+              externalId: errorData.externalId || null,
+              provider: errorData.provider || null,
+              cancelRedirectUrl: errorData.cancelRedirectUrl || null,
+            }))
+            return
+          }
+
           throw new Error(errorData.error || 'Failed to load checkout session')
         }
 
@@ -117,20 +142,33 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
           setPaymentStatus('succeeded')
         } else if (data.status === 'failed') {
           setPaymentStatus('failed')
-        } else if (data.status === 'disputed' || data.status === 'refunded') {
+        } else if (
+          data.status === 'disputed' ||
+          data.status === 'refunded' ||
+          data.status === 'partially_refunded'
+        ) {
           setPaymentStatus('disputed')
+        } else if (data.verificationUrl) {
+          // Returning to the link before the bank account was verified
+          setVerificationUrl(data.verificationUrl)
+          setPaymentStatus('requires_verification')
+        } else if (data.paymentIntentStatus === 'processing') {
+          // Confirmed but not settled yet (e.g. ACH debit) - don't offer to pay again
+          setPaymentStatus('processing')
         }
 
         setState((prev) => ({
           ...prev,
           loading: false,
-          service: data.service,
+          service: { ...data.service, quantity: data.quantity || 1 },
           clientSecret: data.clientSecret,
           paymentOrderId: data.orderId,
+          externalId: data.externalId || null,
           stripePublishableKey: data.stripePublishableKey || null,
           provider: data.provider || null,
           successRedirectUrl: data.successRedirectUrl || null,
           cancelRedirectUrl: data.cancelRedirectUrl || null,
+          paymentMethods: data.paymentMethods || null,
         }))
       } catch (error) {
         console.error('Checkout initialization error:', error)
@@ -198,9 +236,20 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
             case 'processing':
               setPaymentStatus('processing')
               break
+            case 'requires_action':
+              // ACH debits without instant verification wait for microdeposits
+              if (paymentIntent.next_action?.type === 'verify_with_microdeposits') {
+                setVerificationUrl(
+                  paymentIntent.next_action.verify_with_microdeposits?.hosted_verification_url ||
+                    null,
+                )
+                setPaymentStatus('requires_verification')
+              } else {
+                setPaymentStatus('failed')
+              }
+              break
             case 'requires_payment_method':
             case 'requires_confirmation':
-            case 'requires_action':
             case 'canceled':
               setPaymentStatus('failed')
               break
@@ -234,7 +283,11 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
       setRedirectCountdown((prev) => {
         if (prev <= 1) {
           clearInterval(countdownInterval)
-          const redirectUrl = buildRedirectUrl(state.successRedirectUrl!, state.paymentOrderId!)
+          const redirectUrl = buildRedirectUrl(state.successRedirectUrl!, {
+            orderId: state.paymentOrderId!,
+            externalId: state.externalId,
+            status: 'paid',
+          })
           window.location.href = redirectUrl
           return 0
         }
@@ -243,14 +296,18 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
     }, 1000)
 
     return () => clearInterval(countdownInterval)
-  }, [redirecting, state.successRedirectUrl, state.paymentOrderId])
+  }, [redirecting, state.successRedirectUrl, state.paymentOrderId, state.externalId])
 
   const handleRedirectNow = useCallback(() => {
     if (state.successRedirectUrl && state.paymentOrderId) {
-      const redirectUrl = buildRedirectUrl(state.successRedirectUrl, state.paymentOrderId)
+      const redirectUrl = buildRedirectUrl(state.successRedirectUrl, {
+        orderId: state.paymentOrderId,
+        externalId: state.externalId,
+        status: 'paid',
+      })
       window.location.href = redirectUrl
     }
-  }, [state.successRedirectUrl, state.paymentOrderId])
+  }, [state.successRedirectUrl, state.paymentOrderId, state.externalId])
 
   const copyOrderId = useCallback(() => {
     if (state.paymentOrderId) {
@@ -261,6 +318,9 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
   }, [state.paymentOrderId])
 
   const displayOrderId = state.paymentOrderId
+  const hasDelayedSettlement = (state.paymentMethods || []).some((method) =>
+    DELAYED_SETTLEMENT_METHODS.includes(method),
+  )
 
   // Show verifying payment status (when we have redirect params but haven't verified yet)
   if (paymentIntentParam && paymentStatus === null) {
@@ -385,6 +445,8 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
           <h1 className="text-2xl font-bold text-gray-900 mb-3">Payment Processing</h1>
           <p className="text-gray-600 mb-6">
             Your payment is being processed. We&apos;ll notify you once it&apos;s complete.
+            {hasDelayedSettlement &&
+              ' Bank account (ACH) payments can take up to 4 business days to settle.'}
           </p>
 
           <div className="mb-6 p-3 bg-gray-50 rounded-lg">
@@ -406,6 +468,38 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
     )
   }
 
+  // Show bank account verification step (ACH microdeposits)
+  if (paymentStatus === 'requires_verification') {
+    return (
+      <div className="min-h-screen bg-linear-to-br from-blue-50 to-blue-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md text-center border border-blue-200 shadow-lg p-8">
+          <div className="inline-flex h-20 w-20 items-center justify-center rounded-full bg-blue-100 mb-6">
+            <Icon name="building" className="h-12 w-12 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-3">Verify Your Bank Account</h1>
+          <p className="text-gray-600 mb-6">
+            We sent a small deposit to your bank account. It arrives in 1-2 business days; enter the
+            code from your bank statement to complete the payment.
+          </p>
+
+          <div className="mb-6 p-3 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-500 mb-1">Order Reference</p>
+            <span className="font-mono font-bold text-gray-900 text-sm">{displayOrderId}</span>
+          </div>
+
+          {verificationUrl && (
+            <a
+              href={verificationUrl}
+              className="block w-full py-3 px-4 bg-blue-500 text-white font-semibold rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              Verify Bank Account
+            </a>
+          )}
+        </Card>
+      </div>
+    )
+  }
+
   // Show payment failed
   if (paymentStatus === 'failed') {
     return (
@@ -480,6 +574,46 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
     )
   }
 
+  // Checkout link expired
+  if (state.errorCode === 'CHECKOUT_EXPIRED') {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md text-center p-8 border border-gray-200 shadow-lg">
+          <div className="inline-flex h-16 w-16 items-center justify-center rounded-full bg-amber-100 mb-6">
+            <Icon name="clock" className="h-8 w-8 text-amber-600" />
+          </div>
+          <h1 className="text-xl font-bold text-gray-900 mb-3">Checkout Link Expired</h1>
+          <p className="text-gray-600 mb-6 text-sm">
+            This payment link is no longer valid and no payment was taken.
+            {state.provider
+              ? ` Please return to ${state.provider} to start a new checkout.`
+              : ' Please request a new checkout link.'}
+          </p>
+
+          {displayOrderId && (
+            <div className="mb-6 p-3 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-500 mb-1">Order Reference</p>
+              <span className="font-mono font-bold text-gray-900 text-sm">{displayOrderId}</span>
+            </div>
+          )}
+
+          {state.cancelRedirectUrl && displayOrderId && (
+            <a
+              href={buildRedirectUrl(state.cancelRedirectUrl, {
+                orderId: displayOrderId,
+                externalId: state.externalId,
+                status: 'expired',
+              })}
+              className="block w-full py-3 px-4 bg-blue-500 text-white font-semibold rounded-lg hover:bg-blue-600 transition-colors text-center"
+            >
+              Return to {state.provider || 'merchant'}
+            </a>
+          )}
+        </Card>
+      </div>
+    )
+  }
+
   // Generic error state
   if (state.error) {
     return (
@@ -532,6 +666,19 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
               </div>
             </div>
 
+            {/* Quantity breakdown for per-unit services */}
+            {service.amountRules?.pricingMode === 'unit' && (service.quantity || 1) > 1 && (
+              <div className="flex justify-between items-center mt-3">
+                <span className="text-gray-500 text-sm">Quantity</span>
+                <span className="font-semibold text-gray-900 text-sm">
+                  {service.quantity} × USD{' '}
+                  {service.amountRules.unitPrice.toLocaleString(undefined, {
+                    minimumFractionDigits: 2,
+                  })}
+                </span>
+              </div>
+            )}
+
             {/* Total */}
             <div className="mt-4 pt-4 border-t border-gray-200">
               <div className="flex justify-between items-center">
@@ -550,9 +697,10 @@ export function CheckoutTokenClient({ token }: CheckoutTokenClientProps) {
                 clientSecret={state.clientSecret}
                 publishableKey={state.stripePublishableKey || undefined}
               >
-                <CashAppPaymentForm
+                <StripePaymentForm
                   orderId={state.paymentOrderId || ''}
                   amount={service.price}
+                  paymentMethods={state.paymentMethods || undefined}
                   returnUrl={typeof window !== 'undefined' ? window.location.href : undefined}
                 />
               </StripeProvider>
@@ -3,27 +3,44 @@
 import { PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js'
 import { useState, FormEvent } from 'react'
 import { Icon } from '@/components/ui'
+import {
+  DEFAULT_PAYMENT_METHODS,
+  DELAYED_SETTLEMENT_METHODS,
+  describePaymentMethods,
+  toStripePaymentMethodTypes,
+  type PaymentMethod,
+} from '@/lib/payment-methods'
 
-interface CashAppPaymentFormProps {
+interface StripePaymentFormProps {
   orderId: string
   amount: number
+  paymentMethods?: readonly PaymentMethod[]
   returnUrl?: string // Optional return URL override
   onSuccess?: () => void
   onError?: (error: string) => void
 }
 
-export function CashAppPaymentForm({
+/**
+ * Stripe Payment Element limited to the order's allowed payment methods
+ */
+export function StripePaymentForm({
   orderId,
   amount,
+  paymentMethods = DEFAULT_PAYMENT_METHODS,
   returnUrl,
   onSuccess,
   onError,
-}: CashAppPaymentFormProps) {
+}: StripePaymentFormProps) {
   const stripe = useStripe()
   const elements = useElements()
   const [isProcessing, setIsProcessing] = useState(false)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
 
+  const walletsAllowed = paymentMethods.includes('wallets')
+  const hasDelayedSettlement = paymentMethods.some((method) =>
+    DELAYED_SETTLEMENT_METHODS.includes(method),
+  )
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
 
@@ -59,7 +76,7 @@ export function CashAppPaymentForm({
 
   return (
     <form onSubmit={handleSubmit} className="space-y-5">
-      {/* Cash App Only Payment Element */}
+      {/* Payment Element - only the order's allowed methods */}
       <div>
         <PaymentElement
           options={{
@@ -67,13 +84,13 @@ export function CashAppPaymentForm({
               type: 'tabs',
               defaultCollapsed: false,
             },
-            paymentMethodOrder: ['cashapp', 'card'],
+            paymentMethodOrder: toStripePaymentMethodTypes(paymentMethods),
             business: {
               name: 'DZTech',
             },
             wallets: {
-              applePay: 'never',
-              googlePay: 'never',
+              applePay: walletsAllowed ? 'auto' : 'never',
+              googlePay: walletsAllowed ? 'auto' : 'never',
             },
           }}
         />
@@ -103,10 +120,19 @@ export function CashAppPaymentForm({
         )}
       </button>
 
+      {/* Bank debits are confirmed now but settle later */}
+      {hasDelayedSettlement && (
+        <p className="text-xs text-gray-500 text-center">
+          Bank account (ACH) payments can take up to 4 business days to complete.
+        </p>
+      )}
+
       {/* Security Badge */}
       <div className="flex items-center justify-center gap-2 pt-2">
         <Icon name="lock" className="h-4 w-4 text-green-500" />
-        <span className="text-xs text-gray-500">Secure, fast checkout with Cash App</span>
+        <span className="text-xs text-gray-500">
+          Secure checkout with {describePaymentMethods(paymentMethods)}
+        </span>
       </div>
     </form>
   )
@@ -0,0 +1,140 @@
+import type { FieldAccess, GroupField, TextFieldSingleValidation } from 'payload'
+import { getActiveUser } from '@/access'
+import {
+  isValidPublishableKeyFormat,
+  isValidSecretKeyFormat,
+  isValidWebhookSecretFormat,
+} from '@/lib/encryption'
+
+const adminFieldAccess: FieldAccess = ({ req }) => getActiveUser(req.user)?.role === 'admin'
+
+const enabled = (_: unknown, siblingData: { useCustomStripeAccount?: boolean | null }) =>
+  Boolean(siblingData?.useCustomStripeAccount)
+
+const validatePublishableKey: TextFieldSingleValidation = (value, { siblingData }) => {
+  if (!(siblingData as { useCustomStripeAccount?: boolean }).useCustomStripeAccount) return true
+  if (!value) return 'A publishable key is required for a separate Stripe account'
+  return (
+    isValidPublishableKeyFormat(value) || 'Must be a Stripe publishable key (pk_test_… / pk_live_…)'
+  )
+}
+
+const validateSecretKey: TextFieldSingleValidation = (value) =>
+  !value || isValidSecretKeyFormat(value) || 'Must be a Stripe secret key (sk_test_… / sk_live_…)'
+
+const validateWebhookSecret: TextFieldSingleValidation = (value) =>
+  !value || isValidWebhookSecretFormat(value) || 'Must be a Stripe webhook signing secret (whsec_…)'
+
+/**
+ * Separate Stripe account for a service or provider
+ * Secrets are typed into write-only inputs and stored encrypted in hidden fields by the
+ * `encryptStripeConfig` hook; only masked hints are ever returned.
+ */
+export const stripeConfigField = (description: string): GroupField => ({
+  name: 'stripeConfig',
+  type: 'group',
+  label: 'Stripe Account',
+  access: {
+    read: adminFieldAccess,
+    update: adminFieldAccess,
+  },
+  admin: {
+    description,
+  },
+  fields: [
+    {
+      name: 'useCustomStripeAccount',
+      type: 'checkbox',
+      label: 'Use a separate Stripe account',
+      defaultValue: false,
+    },
+    {
+      name: 'stripePublishableKey',
+      type: 'text',
+      label: 'Publishable Key',
+      validate: validatePublishableKey,
+      admin: {
+        condition: enabled,
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'stripeSecretKey',
+          type: 'text',
+          label: 'Secret Key',
+          validate: validateSecretKey,
+          admin: {
+            condition: enabled,
+            width: '50%',
+            placeholder: 'sk_live_…',
+            description: 'Paste a key to set or replace it. Stored encrypted, never shown again.',
+          },
+        },
+        {
+          name: 'stripeSecretKeyHint',
+          type: 'text',
+          label: 'Current Secret Key',
+          admin: {
+            condition: enabled,
+            readOnly: true,
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'stripeWebhookSecret',
+          type: 'text',
+          label: 'Webhook Signing Secret',
+          validate: validateWebhookSecret,
+          admin: {
+            condition: enabled,
+            width: '50%',
+            placeholder: 'whsec_…',
+            description:
+              'From the webhook endpoint pointing at /api/v1/stripe/webhooks in this Stripe account',
+          },
+        },
+        {
+          name: 'stripeWebhookSecretHint',
+          type: 'text',
+          label: 'Current Webhook Secret',
+          admin: {
+            condition: enabled,
+            readOnly: true,
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'stripeKeyMode',
+      type: 'select',
+      label: 'Key Mode',
+      options: [
+        { label: 'Test', value: 'test' },
+        { label: 'Live', value: 'live' },
+        { label: 'Unknown', value: 'unknown' },
+      ],
+      admin: {
+        condition: enabled,
+        readOnly: true,
+      },
+    },
+    {
+      name: 'stripeSecretKeyEncrypted',
+      type: 'text',
+      hidden: true,
+    },
+    {
+      name: 'stripeWebhookSecretEncrypted',
+      type: 'text',
+      hidden: true,
+    },
+  ],
+})
@@ -1,11 +1,13 @@
 import type { GlobalConfig } from 'payload'
 import { revalidateGlobal } from '@/hooks/revalidate'
+import { can } from '@/access'
 
 export const Footer: GlobalConfig = {
   slug: 'footer',
   label: 'Footer',
   access: {
     read: () => true,
+    update: can('editContent'),
   },
   hooks: {
     afterChange: [revalidateGlobal],
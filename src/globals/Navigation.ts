@@ -1,11 +1,13 @@
 import type { GlobalConfig } from 'payload'
 import { revalidateGlobal } from '@/hooks/revalidate'
+import { can } from '@/access'
 
 export const Navigation: GlobalConfig = {
   slug: 'navigation',
   label: 'Navigation',
   access: {
     read: () => true,
+    update: can('editContent'),
   },
   hooks: {
     afterChange: [revalidateGlobal],
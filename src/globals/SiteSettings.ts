@@ -1,14 +1,23 @@
 import type { GlobalConfig } from 'payload'
 import { revalidateGlobal } from '@/hooks/revalidate'
+import { adminOnly } from '@/access'
+import { auditGlobalAfterChange } from '@/hooks/auditLog'
+import {
+  DEFAULT_CHECKOUT_EXPIRY_MINUTES,
+  MAX_CHECKOUT_EXPIRY_MINUTES,
+  MIN_CHECKOUT_EXPIRY_MINUTES,
+} from '@/lib/checkout-expiry'
+import { DEFAULT_REPORT_TIMEZONE, isValidTimeZone } from '@/lib/timezone'
 
 export const SiteSettings: GlobalConfig = {
   slug: 'site-settings',
   label: 'Site Settings',
   access: {
     read: () => true,
+    update: adminOnly,
   },
   hooks: {
-    afterChange: [revalidateGlobal],
+    afterChange: [revalidateGlobal, auditGlobalAfterChange],
   },
   fields: [
     {
@@ -121,6 +130,44 @@ export const SiteSettings: GlobalConfig = {
             },
           ],
         },
+        {
+          label: 'Checkout',
+          fields: [
+            {
+              name: 'checkoutExpiryMinutes',
+              type: 'number',
+              label: 'Checkout Expiry (minutes)',
+              required: true,
+              defaultValue: DEFAULT_CHECKOUT_EXPIRY_MINUTES,
+              min: MIN_CHECKOUT_EXPIRY_MINUTES,
+              max: MAX_CHECKOUT_EXPIRY_MINUTES,
+              admin: {
+                description:
+                  'How long a checkout link stays payable. Expired orders have their PaymentIntent canceled. Providers can override this.',
+              },
+            },
+          ],
+        },
+        {
+          label: 'Reports',
+          fields: [
+            {
+              name: 'reportingTimeZone',
+              type: 'text',
+              label: 'Reporting Time Zone',
+              required: true,
+              defaultValue: DEFAULT_REPORT_TIMEZONE,
+              validate: (value: string | null | undefined) =>
+                value && isValidTimeZone(value)
+                  ? true
+                  : 'Enter an IANA time zone, e.g. Europe/Berlin',
+              admin: {
+                description:
+                  'IANA time zone (e.g. America/New_York) for dashboard date ranges, daily/weekly/monthly charts and exports. Reports can override it with a tz parameter.',
+              },
+            },
+          ],
+        },
       ],
     },
   ],
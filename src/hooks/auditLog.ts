@@ -0,0 +1,107 @@
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  GlobalAfterChangeHook,
+  PayloadRequest,
+} from 'payload'
+import {
+  diffAuditFields,
+  getRequestIp,
+  recordAuditLog,
+  type AuditChange,
+  type AuditSource,
+} from '@/lib/audit-log'
+
+/**
+ * Who made the change: the route's `context.audit`, else the logged-in user of the request
+ */
+function getHookSource(req: PayloadRequest): AuditSource {
+  const source = req.context?.audit as AuditSource | undefined
+  if (source) return source
+
+  return {
+    user: req.user ? { id: req.user.id, email: req.user.email } : null,
+    ip: getRequestIp(req.headers),
+    userAgent: req.headers?.get('user-agent') || null,
+  }
+}
+
+const describeChanges = (changes: AuditChange[]) =>
+  changes.length > 0 ? `: ${changes.map((change) => change.field).join(', ')}` : ''
+
+/**
+ * Record creates and updates with the fields they changed; updates that change nothing are skipped
+ */
+export const auditAfterChange: CollectionAfterChangeHook = async ({
+  collection,
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  const changes = diffAuditFields(operation === 'create' ? null : previousDoc, doc)
+  if (operation === 'update' && changes.length === 0) return doc
+
+  const title = doc[collection.admin?.useAsTitle || 'id'] || doc.id
+  await recordAuditLog(
+    req.payload,
+    {
+      action: operation,
+      collectionSlug: collection.slug,
+      documentId: String(doc.id),
+      summary:
+        operation === 'create'
+          ? `Created ${collection.slug} ${title}`
+          : `Updated ${collection.slug} ${title}${describeChanges(changes)}`,
+      changes,
+      source: getHookSource(req),
+    },
+    req,
+  )
+
+  return doc
+}
+
+/**
+ * Record deletes with the values the document had
+ */
+export const auditAfterDelete: CollectionAfterDeleteHook = async ({ collection, doc, id, req }) => {
+  await recordAuditLog(
+    req.payload,
+    {
+      action: 'delete',
+      collectionSlug: collection.slug,
+      documentId: String(id),
+      summary: `Deleted ${collection.slug} ${doc[collection.admin?.useAsTitle || 'id'] || id}`,
+      changes: diffAuditFields(doc, null),
+      source: getHookSource(req),
+    },
+    req,
+  )
+
+  return doc
+}
+
+export const auditGlobalAfterChange: GlobalAfterChangeHook = async ({
+  global,
+  doc,
+  previousDoc,
+  req,
+}) => {
+  const changes = diffAuditFields(previousDoc, doc)
+  if (changes.length === 0) return doc
+
+  await recordAuditLog(
+    req.payload,
+    {
+      action: 'update',
+      collectionSlug: global.slug,
+      summary: `Updated ${global.slug}${describeChanges(changes)}`,
+      changes,
+      source: getHookSource(req),
+    },
+    req,
+  )
+
+  return doc
+}
@@ -0,0 +1,72 @@
+import {
+  AuthenticationError,
+  LockedAuth,
+  type CollectionAfterErrorHook,
+  type CollectionAfterLoginHook,
+  type PayloadRequest,
+} from 'payload'
+import type { User } from '@/payload-types'
+import { getRequestIp } from '@/lib/audit-log'
+import { getDeviceId, recordLoginEvent, sendNewDeviceAlert } from '@/lib/login-history'
+
+const getSource = (req: PayloadRequest) => ({
+  ip: getRequestIp(req.headers),
+  userAgent: req.headers?.get('user-agent') || null,
+})
+
+/**
+ * Record password sign-ins and email the user when one comes from a new device
+ */
+export const recordLogin: CollectionAfterLoginHook<User> = async ({ req, user }) => {
+  const source = getSource(req)
+  const previous = await req.payload.count({
+    collection: 'login-events',
+    where: { user: { equals: user.id }, outcome: { equals: 'success' } },
+    req,
+  })
+  const sameDevice = await req.payload.count({
+    collection: 'login-events',
+    where: {
+      user: { equals: user.id },
+      outcome: { equals: 'success' },
+      deviceId: { equals: getDeviceId(source.userAgent) },
+    },
+    req,
+  })
+  // An account's first sign-in has nothing to compare with
+  const newDevice = previous.totalDocs > 0 && sameDevice.totalDocs === 0
+
+  await recordLoginEvent(
+    req.payload,
+    { outcome: 'success', user, email: user.email, newDevice, ...source },
+    req,
+  )
+  if (newDevice) {
+    await sendNewDeviceAlert(req.payload, user, { ...source, time: new Date() })
+  }
+
+  return user
+}
+
+/**
+ * Record failed sign-ins: wrong passwords and attempts on a locked account
+ */
+export const recordFailedLogin: CollectionAfterErrorHook = async ({ error, req }) => {
+  const outcome =
+    error instanceof AuthenticationError ? 'failed' : error instanceof LockedAuth ? 'locked' : null
+  if (!outcome || !req.url || !new URL(req.url).pathname.endsWith('/login')) return
+
+  const email = typeof req.data?.email === 'string' ? req.data.email.toLowerCase() : null
+  const { docs } = email
+    ? await req.payload.find({
+        collection: 'users',
+        where: { email: { equals: email } },
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+      })
+    : { docs: [] }
+
+  // Without `req`: its transaction, if any, was rolled back with the failed login
+  await recordLoginEvent(req.payload, { outcome, user: docs[0], email, ...getSource(req) })
+}
@@ -0,0 +1,56 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+import { calculateOrderSettlement } from '@/lib/fee-schedule'
+import { AWAITING_PAYMENT_STATUSES, type OrderStatus } from '@/lib/order-status'
+import { getProviderPaidVolume } from '@/lib/order-reports'
+
+const relationId = (value: string | { id: string } | null | undefined) =>
+  typeof value === 'string' ? value : value?.id
+
+/**
+ * Records when an order was paid and splits its total into platform fee and provider net
+ * using the provider's fee schedule at that moment. Runs once, when the order first becomes paid.
+ * Test orders are split too, but do not count toward the provider's monthly volume.
+ * The month runs on UTC, not the reporting time zone: changing that setting mid-month would
+ * otherwise move orders between months and change the tier of orders already settled.
+ */
+export const applyOrderFees: CollectionBeforeChangeHook = async ({
+  data,
+  originalDoc,
+  operation,
+  req,
+}) => {
+  const previousStatus = originalDoc?.status as OrderStatus | undefined
+  const nextStatus = (data.status as OrderStatus | undefined) ?? previousStatus
+
+  const becomesPaid =
+    nextStatus === 'paid' &&
+    (operation === 'create' ||
+      (previousStatus && AWAITING_PAYMENT_STATUSES.includes(previousStatus)))
+  if (!becomesPaid) return data
+
+  const paidAt = new Date()
+  const total: number = data.total ?? originalDoc?.total
+  const providerId = relationId(data.provider ?? originalDoc?.provider)
+  data.paidAt = paidAt.toISOString()
+
+  if (!providerId) {
+    // Direct orders are the platform's own sales
+    Object.assign(data, { grossAmount: total, platformFee: total, netAmount: 0 })
+    return data
+  }
+
+  const provider = await req.payload.findByID({
+    collection: 'providers',
+    id: providerId,
+    depth: 0,
+    overrideAccess: true,
+    select: { feeSchedule: true },
+    req,
+  })
+
+  const monthStart = new Date(Date.UTC(paidAt.getUTCFullYear(), paidAt.getUTCMonth(), 1))
+  const monthlyVolume = await getProviderPaidVolume(req.payload, providerId, monthStart)
+
+  Object.assign(data, calculateOrderSettlement(total, provider.feeSchedule, monthlyVolume))
+  return data
+}
@@ -0,0 +1,53 @@
+import { APIError, type CollectionBeforeChangeHook } from 'payload'
+import {
+  canTransitionOrderStatus,
+  type OrderStatus,
+  type OrderStatusSource,
+} from '@/lib/order-status'
+
+/**
+ * Rejects illegal order status transitions and appends every status change to `statusHistory`
+ *
+ * Callers describe the change through the request context:
+ *   payload.update({ ..., context: { statusSource: 'webhook', statusNote: 'evt_123' } })
+ * Without a source, changes made by a logged-in user are recorded as `admin`, others as `system`.
+ */
+export const enforceOrderStatusTransition: CollectionBeforeChangeHook = ({
+  data,
+  originalDoc,
+  operation,
+  context,
+  req,
+}) => {
+  const previousStatus = (originalDoc?.status as OrderStatus | undefined) ?? null
+  const nextStatus = (data.status as OrderStatus | undefined) ?? previousStatus
+
+  // History is append-only: always rebuild it from the stored document
+  const history = [...(originalDoc?.statusHistory || [])]
+
+  if (nextStatus && (operation === 'create' || nextStatus !== previousStatus)) {
+    if (operation === 'update' && !canTransitionOrderStatus(previousStatus, nextStatus)) {
+      throw new APIError(
+        `Illegal order status transition: ${previousStatus} → ${nextStatus}`,
+        409,
+        undefined,
+        true,
+      )
+    }
+
+    const source =
+      (context?.statusSource as OrderStatusSource | undefined) || (req.user ? 'admin' : 'system')
+
+    history.push({
+      from: operation === 'create' ? null : previousStatus,
+      to: nextStatus,
+      source,
+      note: (context?.statusNote as string | undefined) || null,
+      changedBy: req.user?.id || null,
+      changedAt: new Date().toISOString(),
+    })
+  }
+
+  data.statusHistory = history
+  return data
+}
@@ -0,0 +1,23 @@
+import type { CollectionAfterChangeHook } from 'payload'
+import type { Order } from '@/payload-types'
+import { postOrderLedgerEntries } from '@/lib/provider-ledger'
+
+/**
+ * Post ledger entries for provider orders that were paid, refunded or lost a dispute
+ * Failures are logged rather than failing the order write; reconciliation flags the gap and
+ * `backfill-provider-ledger` posts it later.
+ */
+export const postProviderLedgerEntries: CollectionAfterChangeHook<Order> = async ({ doc, req }) => {
+  if (!doc.provider) return doc
+
+  try {
+    const posted = await postOrderLedgerEntries(req.payload, doc, req)
+    if (posted > 0) {
+      req.payload.logger.info(`[LEDGER] Posted ${posted} entries for order ${doc.id}`)
+    }
+  } catch (error) {
+    req.payload.logger.error(`[LEDGER] Failed to post entries for order ${doc.id}: ${error}`)
+  }
+
+  return doc
+}
@@ -0,0 +1,12 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+import { prepareStripeConfig } from '@/lib/stripe-accounts'
+
+/**
+ * Encrypt Stripe secrets entered on a service or provider before they are stored
+ */
+export const encryptStripeConfig: CollectionBeforeChangeHook = ({ data, originalDoc }) => {
+  if (data?.stripeConfig) {
+    data.stripeConfig = prepareStripeConfig(data.stripeConfig, originalDoc?.stripeConfig)
+  }
+  return data
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import type { Payload } from 'payload'
+import { getPayloadClient } from '@/lib/payload'
+import type { UserRole } from '@/lib/permissions'
+import { isTwoFactorPending, type SessionUser } from '@/lib/two-factor'
+
+/**
+ * Admin API Authentication
+ *
+ * Every `/api/admin/*` route starts with `requireAdminUser`, which resolves the Payload user from
+ * the session cookie (admin panel and dashboard) or a user API key sent as
+ * `Authorization: users API-Key <key>`, then checks the user's role against the roles the
+ * route allows (usually an entry of `PERMISSIONS` in @/lib/permissions). Callers without a valid
+ * session or key get 401, other roles get 403, and so do sessions that haven't passed two-factor
+ * authentication yet (@/lib/two-factor) except on the routes that ask for the code.
+ */
+
+export type AdminAuthResult = { payload: Payload; user: SessionUser } | { response: NextResponse }
+
+/**
+ * Status and message for a caller that may not use a route, or null if it may
+ */
+export function getAdminAccessError(
+  user: Pick<SessionUser, 'role' | 'twoFactor' | '_sid' | '_strategy'> | null | undefined,
+  roles: readonly UserRole[],
+  { allowTwoFactorPending = false } = {},
+): { status: 401 | 403; error: string } | null {
+  if (!user) return { status: 401, error: 'Unauthorized' }
+  if (!allowTwoFactorPending && isTwoFactorPending(user)) {
+    return { status: 403, error: 'Two-factor authentication required' }
+  }
+  if (!roles.includes(user.role)) return { status: 403, error: 'Forbidden' }
+  return null
+}
+
+/**
+ * Authenticate an admin API request; admins only unless other roles are passed
+ * Returns the Payload client and user, or the 401/403 response to send.
+ */
+export async function requireAdminUser(
+  req: Request,
+  roles: readonly UserRole[] = ['admin'],
+  options?: { allowTwoFactorPending?: boolean },
+): Promise<AdminAuthResult> {
+  const payload = await getPayloadClient()
+  const { user } = await payload.auth({ headers: req.headers })
+
+  const denied = getAdminAccessError(user as SessionUser | null, roles, options)
+  if (denied) {
+    return { response: NextResponse.json({ error: denied.error }, { status: denied.status }) }
+  }
+  return { payload, user: user as SessionUser }
+}
@@ -0,0 +1,236 @@
+import type { Where } from 'payload'
+import type { Order } from '@/payload-types'
+import { ORDER_STATUSES, type OrderStatus } from '@/lib/order-status'
+import { withReportLivemode } from '@/lib/livemode'
+import { DEFAULT_REPORT_TIMEZONE, parseReportDate } from '@/lib/timezone'
+
+/**
+ * Admin Orders Query
+ *
+ * `GET /api/admin/orders` backs the dashboard's Orders tab: every order (not just the latest
+ * few), sorted by date or amount on the server, filtered by status, provider and service, and
+ * searched by order id, external id, customer email or PaymentIntent id. Pages are cursors, so
+ * orders created while paging never shift the next page.
+ */
+
+export const ADMIN_ORDER_SORTS = ['date-desc', 'date-asc', 'amount-desc', 'amount-asc'] as const
+
+export type AdminOrderSort = (typeof ADMIN_ORDER_SORTS)[number]
+
+export const DEFAULT_ADMIN_ORDERS_PAGE_SIZE = 25
+export const MAX_ADMIN_ORDERS_PAGE_SIZE = 100
+
+// Fields matched (case-insensitively, anywhere in the value) by the search query
+export const ADMIN_ORDER_SEARCH_FIELDS = [
+  'orderId',
+  'externalId',
+  'customerEmail',
+  'stripePaymentIntentId',
+] as const
+
+// An order as listed by `GET /api/admin/orders`
+export interface AdminOrderResponse {
+  // Client order id (ORD-...), or the document id for orders without one
+  id: string
+  // Payload document id (used for admin actions like refunds)
+  docId: string
+  externalId: string | null
+  customer: string
+  email: string
+  product: string
+  provider: string | null
+  // Dollars
+  amount: number
+  status: Order['status']
+  livemode: boolean
+  stripePaymentIntentId: string | null
+  createdAt: string
+  // Amount still refundable in dollars, 0 if the order cannot be refunded
+  refundable: number
+}
+
+const SORT_FIELDS = { date: 'createdAt', amount: 'total' } as const
+
+type SortField = (typeof SORT_FIELDS)[keyof typeof SORT_FIELDS]
+
+export function isAdminOrderSort(value: string | null | undefined): value is AdminOrderSort {
+  return ADMIN_ORDER_SORTS.includes(value as AdminOrderSort)
+}
+
+// The cursor points just past the last order of a page: its sort value and createdAt plus the
+// ids that share both, so ties across page boundaries are neither skipped nor repeated
+export interface AdminOrderCursor {
+  value: string | number
+  createdAt: string
+  ids: string[]
+}
+
+function getSortValue(order: Pick<Order, 'createdAt' | 'total'>, field: SortField) {
+  return field === 'total' ? order.total : order.createdAt
+}
+
+export function encodeAdminOrderCursor(
+  orders: Pick<Order, 'id' | 'createdAt' | 'total'>[],
+  sort: AdminOrderSort,
+  previous?: AdminOrderCursor | null,
+): string | null {
+  const last = orders[orders.length - 1]
+  if (!last) return null
+
+  const field = SORT_FIELDS[sort.startsWith('amount') ? 'amount' : 'date']
+  const value = getSortValue(last, field)
+  const ids = orders
+    .filter((order) => getSortValue(order, field) === value && order.createdAt === last.createdAt)
+    .map((order) => order.id)
+  // A tie shared by more orders than fit on one page spans several cursors
+  if (previous?.value === value && previous.createdAt === last.createdAt) {
+    ids.unshift(...previous.ids)
+  }
+
+  const cursor: AdminOrderCursor = { value, createdAt: last.createdAt, ids }
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeAdminOrderCursor(
+  value: string,
+  sort: AdminOrderSort,
+): AdminOrderCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    const valueType = sort.startsWith('amount') ? 'number' : 'string'
+    if (
+      typeof cursor?.value !== valueType ||
+      typeof cursor.createdAt !== 'string' ||
+      isNaN(new Date(cursor.createdAt).getTime()) ||
+      !Array.isArray(cursor.ids) ||
+      !cursor.ids.every((id: unknown) => typeof id === 'string')
+    ) {
+      return null
+    }
+    return cursor
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Orders after the cursor in the given sort order
+ * Ties on the sort value are ordered by createdAt, then by the ids already seen.
+ */
+function getCursorWhere(cursor: AdminOrderCursor, field: SortField, descending: boolean): Where {
+  const [after, atOrAfter] = descending
+    ? (['less_than', 'less_than_equal'] as const)
+    : (['greater_than', 'greater_than_equal'] as const)
+
+  const sameValue: Where[] = [{ createdAt: { [atOrAfter]: cursor.createdAt } }]
+  if (cursor.ids.length > 0) {
+    sameValue.push({ id: { not_in: cursor.ids } })
+  }
+  if (field === 'createdAt') {
+    return { and: sameValue }
+  }
+
+  return {
+    or: [
+      { [field]: { [after]: cursor.value } },
+      { and: [{ [field]: { equals: cursor.value } }, ...sameValue] },
+    ],
+  }
+}
+
+/**
+ * Build the query for `GET /api/admin/orders` from its query string
+ * `filter` (without the cursor) counts the matching orders, `where` fetches the page.
+ * Returns an error message for invalid parameters.
+ */
+export function buildAdminOrdersQuery(
+  searchParams: URLSearchParams,
+  timeZone: string = DEFAULT_REPORT_TIMEZONE,
+):
+  | {
+      filter: Where | undefined
+      where: Where | undefined
+      sort: string[]
+      orderSort: AdminOrderSort
+      limit: number
+      cursor: AdminOrderCursor | null
+    }
+  | { error: string } {
+  const conditions: Where[] = []
+
+  const status = searchParams.get('status')
+  if (status) {
+    const statuses = status.split(',').map((s) => s.trim())
+    const invalid = statuses.filter((s) => !ORDER_STATUSES.includes(s as OrderStatus))
+    if (invalid.length > 0) {
+      return { error: `Invalid status: ${invalid.join(', ')}` }
+    }
+    conditions.push({ status: { in: statuses } })
+  }
+
+  // Providers and services by slug, like the revenue filters
+  const provider = searchParams.get('provider')
+  if (provider) {
+    conditions.push({ 'provider.slug': { equals: provider } })
+  }
+  const service = searchParams.get('service')
+  if (service) {
+    conditions.push({ 'service.slug': { equals: service } })
+  }
+
+  const search = searchParams.get('q')?.trim()
+  if (search) {
+    conditions.push({
+      or: ADMIN_ORDER_SEARCH_FIELDS.map((field) => ({ [field]: { contains: search } })),
+    })
+  }
+
+  // Calendar dates are days in the reporting time zone; `to` includes the whole end day
+  const from = searchParams.get('from')
+  if (from) {
+    const date = parseReportDate(from, timeZone)
+    if (!date) {
+      return { error: 'Invalid from date' }
+    }
+    conditions.push({ createdAt: { greater_than_equal: date.toISOString() } })
+  }
+  const to = searchParams.get('to')
+  if (to) {
+    const date = parseReportDate(to, timeZone, true)
+    if (!date) {
+      return { error: 'Invalid to date' }
+    }
+    conditions.push({ createdAt: { less_than_equal: date.toISOString() } })
+  }
+
+  const sortParam = searchParams.get('sort') || 'date-desc'
+  if (!isAdminOrderSort(sortParam)) {
+    return { error: `sort must be one of: ${ADMIN_ORDER_SORTS.join(', ')}` }
+  }
+  const field = SORT_FIELDS[sortParam.startsWith('amount') ? 'amount' : 'date']
+  const descending = sortParam.endsWith('-desc')
+  const prefix = descending ? '-' : ''
+  const sort =
+    field === 'createdAt' ? [`${prefix}createdAt`] : [`${prefix}${field}`, `${prefix}createdAt`]
+
+  const limitParam = searchParams.get('limit')
+  const limit = limitParam ? Number(limitParam) : DEFAULT_ADMIN_ORDERS_PAGE_SIZE
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ADMIN_ORDERS_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_ADMIN_ORDERS_PAGE_SIZE}` }
+  }
+
+  const filter = withReportLivemode(
+    conditions.length > 0 ? { and: conditions } : undefined,
+    searchParams,
+  )
+
+  const cursorParam = searchParams.get('cursor')
+  const cursor = cursorParam ? decodeAdminOrderCursor(cursorParam, sortParam) : null
+  if (cursorParam && !cursor) {
+    return { error: 'Invalid cursor' }
+  }
+  const cursorWhere = cursor ? getCursorWhere(cursor, field, descending) : undefined
+  const where = filter && cursorWhere ? { and: [filter, cursorWhere] } : filter || cursorWhere
+
+  return { filter, where, sort, orderSort: sortParam, limit, cursor }
+}
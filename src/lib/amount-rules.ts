@@ -0,0 +1,115 @@
+/**
+ * Service Amount Rules
+ *
+ * Each service decides which amounts can be charged:
+ * - `unit` mode: the amount buys a whole number of units, so it must be a multiple of the
+ *   service price; `quantity = amount / price`, bounded by min/max quantity
+ * - `open` mode: any amount (a multiple of the step, if set) with `quantity = 1`
+ * Both modes honour min/max amount. A provider's service link may override any rule.
+ */
+
+export type PricingMode = 'unit' | 'open'
+
+export interface AmountRules {
+  pricingMode: PricingMode
+  unitPrice: number
+  minAmount: number | null
+  maxAmount: number | null
+  amountStep: number | null
+  minQuantity: number | null
+  maxQuantity: number | null
+}
+
+// Partial rules as stored on a service (`amountRules` group) or a provider's service link
+export interface AmountRuleFields {
+  pricingMode?: PricingMode | null
+  minAmount?: number | null
+  maxAmount?: number | null
+  amountStep?: number | null
+  minQuantity?: number | null
+  maxQuantity?: number | null
+}
+
+// Stripe's minimum charge for USD
+export const MIN_CHARGE_AMOUNT = 0.5
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+const formatAmount = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`
+
+/**
+ * Combine a service's rules with a provider's overrides (set values win)
+ */
+export function resolveAmountRules(
+  service: { price: number; amountRules?: AmountRuleFields | null },
+  override?: AmountRuleFields | null,
+): AmountRules {
+  const pick = <K extends keyof AmountRuleFields>(key: K) =>
+    override?.[key] ?? service.amountRules?.[key] ?? null
+
+  return {
+    pricingMode: pick('pricingMode') || 'unit',
+    unitPrice: service.price,
+    minAmount: pick('minAmount'),
+    maxAmount: pick('maxAmount'),
+    amountStep: pick('amountStep'),
+    minQuantity: pick('minQuantity'),
+    maxQuantity: pick('maxQuantity'),
+  }
+}
+
+/**
+ * Resolve the amount and quantity to charge for a request
+ * Without a requested amount, the smallest valid purchase in unit mode (or the service price) is used
+ */
+export function evaluateAmount(
+  rules: AmountRules,
+  requestedAmount?: number | null,
+): { amount: number; quantity: number } | { error: string } {
+  const amount =
+    requestedAmount ??
+    (rules.pricingMode === 'unit' ? rules.unitPrice * (rules.minQuantity || 1) : rules.unitPrice)
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: 'Invalid amount provided' }
+  }
+
+  const cents = toCents(amount)
+  if (Math.abs(cents - amount * 100) > 1e-6) {
+    return { error: 'Amount cannot have more than 2 decimal places' }
+  }
+  if (cents < toCents(MIN_CHARGE_AMOUNT)) {
+    return { error: `Amount must be at least ${formatAmount(MIN_CHARGE_AMOUNT)}` }
+  }
+  if (rules.minAmount != null && cents < toCents(rules.minAmount)) {
+    return { error: `Amount must be at least ${formatAmount(rules.minAmount)}` }
+  }
+  if (rules.maxAmount != null && cents > toCents(rules.maxAmount)) {
+    return { error: `Amount cannot exceed ${formatAmount(rules.maxAmount)}` }
+  }
+  if (rules.amountStep && cents % toCents(rules.amountStep) !== 0) {
+    return { error: `Amount must be a multiple of ${formatAmount(rules.amountStep)}` }
+  }
+
+  if (rules.pricingMode === 'open') {
+    return { amount: cents / 100, quantity: 1 }
+  }
+
+  const unitCents = toCents(rules.unitPrice)
+  if (unitCents <= 0 || cents % unitCents !== 0) {
+    return {
+      error: `Amount must be a multiple of the unit price (${formatAmount(rules.unitPrice)})`,
+    }
+  }
+
+  const quantity = cents / unitCents
+  if (rules.minQuantity != null && quantity < rules.minQuantity) {
+    return { error: `Quantity must be at least ${rules.minQuantity}` }
+  }
+  if (rules.maxQuantity != null && quantity > rules.maxQuantity) {
+    return { error: `Quantity cannot exceed ${rules.maxQuantity}` }
+  }
+
+  return { amount: cents / 100, quantity }
+}
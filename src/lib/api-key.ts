@@ -1,13 +1,16 @@
 import crypto from 'crypto'
+import type { ApiKeyMode } from '@/lib/livemode'
+
+const TEST_KEY_PREFIX = 'provider_test_'
 
 /**
  * Generate a secure API key for external providers
- * Format: provider_[random_32_chars]
+ * Format: provider_[random_32_chars], or provider_test_[random_32_chars] for test keys
  */
-export function generateApiKey(): string {
+export function generateApiKey(mode: ApiKeyMode = 'live'): string {
   const randomBytes = crypto.randomBytes(24) // 24 bytes = 32 base64 chars
   const key = randomBytes.toString('base64url')
-  return `provider_${key}`
+  return mode === 'test' ? `${TEST_KEY_PREFIX}${key}` : `provider_${key}`
 }
 
 /**
@@ -18,9 +21,27 @@ export function isValidApiKeyFormat(apiKey: string): boolean {
 }
 
 /**
- * Hash an API key for secure comparison (if needed for lookup optimization)
- * Note: Currently we do direct comparison since API keys are unique in DB
+ * Hash an API key for storage and lookup
+ * Keys are high-entropy random strings, so a plain SHA-256 is sufficient (no salt/KDF needed)
  */
 export function hashApiKey(apiKey: string): string {
   return crypto.createHash('sha256').update(apiKey).digest('hex')
 }
+
+/**
+ * Non-secret display prefix, e.g. "provider_AbC1" or "provider_test_AbC1" — enough to tell keys apart
+ */
+export function getApiKeyPrefix(apiKey: string): string {
+  const scheme = apiKey.startsWith(TEST_KEY_PREFIX) ? TEST_KEY_PREFIX : 'provider_'
+  return apiKey.slice(0, scheme.length + 4)
+}
+
+/**
+ * Read the API key from an `Authorization: Bearer provider_...` header
+ */
+export function getBearerApiKey(req: Request): string | null {
+  const authorization = req.headers.get('authorization') || ''
+  const [scheme, apiKey] = authorization.trim().split(/\s+/)
+  if (scheme?.toLowerCase() !== 'bearer' || !apiKey) return null
+  return apiKey
+}
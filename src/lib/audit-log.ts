@@ -0,0 +1,307 @@
+import type { Payload, PayloadRequest, Where } from 'payload'
+import type { AuditLog, User } from '@/payload-types'
+import { parseReportDate } from '@/lib/timezone'
+
+/**
+ * Audit Log
+ *
+ * Every change to providers, API keys, orders, services, users and site settings is appended to
+ * the `audit-logs` collection by collection hooks (see @/hooks/auditLog), with a field-level
+ * before/after diff. Custom admin routes that write through the local API pass who made the
+ * change as `context: { audit: getAuditSource(req, user) }`; routes whose action changes no
+ * audited document (payouts, webhook replays) call `recordAuditLog` themselves.
+ * Secrets are recorded as changed but never with their values.
+ */
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'payout', 'replay'] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+// Collections and globals whose changes are recorded
+export const AUDITED_COLLECTIONS = [
+  'orders',
+  'providers',
+  'provider-api-keys',
+  'services',
+  'users',
+  'site-settings',
+] as const
+
+export const DEFAULT_AUDIT_LOGS_PAGE_SIZE = 50
+export const MAX_AUDIT_LOGS_PAGE_SIZE = 200
+// Most entries a CSV export contains
+export const MAX_AUDIT_LOG_EXPORT_ROWS = 10000
+
+export const REDACTED_VALUE = '[redacted]'
+
+export interface AuditChange {
+  // Dotted path for fields inside groups, e.g. `stripeConfig.publishableKey`
+  field: string
+  before: unknown
+  after: unknown
+}
+
+// Who made a change and from where
+export interface AuditSource {
+  user?: Pick<User, 'id' | 'email'> | null
+  ip: string | null
+  userAgent: string | null
+}
+
+// Bookkeeping fields that change without anyone changing the document
+const IGNORED_FIELDS = new Set([
+  'id',
+  '_id',
+  'createdAt',
+  'updatedAt',
+  'lastUsedAt',
+  'loginAttempts',
+  'lockUntil',
+  'sessions',
+  // Orders keep their own append-only status history; the `status` change is diffed instead
+  'statusHistory',
+  // Two-factor bookkeeping and the users' login history join
+  'lastUsedStep',
+  'failedAttempts',
+  'verifiedSessions',
+  'loginHistory',
+  // Checkout expiry sweep backoff
+  'checkoutNextCheckAt',
+])
+
+const SECRET_FIELD = /secret|password|hash|salt|token|^apiKey|recoveryCodes/i
+
+export function getRequestIp(headers: Headers | undefined): string | null {
+  const forwarded = headers?.get('x-forwarded-for')
+  if (forwarded) return forwarded.split(',')[0].trim()
+  return headers?.get('x-real-ip') || null
+}
+
+/**
+ * Audit source of an admin API request made by `user`
+ */
+export function getAuditSource(
+  req: { headers: Headers },
+  user?: Pick<User, 'id' | 'email'> | null,
+): AuditSource {
+  return {
+    user: user ? { id: user.id, email: user.email } : null,
+    ip: getRequestIp(req.headers),
+    userAgent: req.headers.get('user-agent'),
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+
+// Populated relationships become ids, so a populated and an unpopulated copy compare equal
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.map(normalizeValue)
+  if (isPlainObject(value)) {
+    if (typeof value.id === 'string' && 'createdAt' in value) return value.id
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, normalizeValue(entry)]),
+    )
+  }
+  return value
+}
+
+/**
+ * Field-level differences between two versions of a document (null for none, e.g. on create)
+ * Groups are compared field by field; arrays and relationships as whole values.
+ */
+export function diffAuditFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  prefix = '',
+): AuditChange[] {
+  const changes: AuditChange[] = []
+  const keys = new Set([...Object.keys(after || {}), ...Object.keys(before || {})])
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue
+
+    const field = `${prefix}${key}`
+    const previous = normalizeValue(before?.[key])
+    const next = normalizeValue(after?.[key])
+
+    if (isPlainObject(previous) || isPlainObject(next)) {
+      changes.push(
+        ...diffAuditFields(
+          isPlainObject(previous) ? previous : null,
+          isPlainObject(next) ? next : null,
+          `${field}.`,
+        ),
+      )
+      continue
+    }
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue
+
+    const redact = (value: unknown) =>
+      SECRET_FIELD.test(key) && value !== null ? REDACTED_VALUE : value
+    changes.push({ field, before: redact(previous), after: redact(next) })
+  }
+
+  return changes
+}
+
+/**
+ * Append an entry to the audit log
+ * Failures are logged rather than failing the change being recorded.
+ */
+export async function recordAuditLog(
+  payload: Payload,
+  entry: {
+    action: AuditAction
+    collectionSlug: string
+    documentId?: string | null
+    summary: string
+    changes?: AuditChange[]
+    source: AuditSource
+  },
+  req?: PayloadRequest,
+): Promise<void> {
+  try {
+    await payload.create({
+      collection: 'audit-logs',
+      data: {
+        action: entry.action,
+        collectionSlug: entry.collectionSlug,
+        documentId: entry.documentId || null,
+        summary: entry.summary,
+        changes: entry.changes || [],
+        actor: entry.source.user?.id || null,
+        actorEmail: entry.source.user?.email || null,
+        ip: entry.source.ip,
+        userAgent: entry.source.userAgent,
+      },
+      overrideAccess: true,
+      req,
+    })
+  } catch (error) {
+    payload.logger.error(
+      `[AUDIT] Failed to record ${entry.action} of ${entry.collectionSlug} ${entry.documentId || ''}: ${error}`,
+    )
+  }
+}
+
+/**
+ * Where clause for `GET /api/admin/audit-logs` from its query string
+ * Query: action (comma-separated), collection, actor (user id), documentId,
+ * q (searches summary, actor email, document id and IP), from / to (days in `timeZone`)
+ */
+export function buildAuditLogsWhere(
+  searchParams: URLSearchParams,
+  timeZone: string,
+): { where: Where | undefined } | { error: string } {
+  const conditions: Where[] = []
+
+  const action = searchParams.get('action')
+  if (action) {
+    const actions = action.split(',').map((a) => a.trim())
+    const invalid = actions.filter((a) => !AUDIT_ACTIONS.includes(a as AuditAction))
+    if (invalid.length > 0) {
+      return { error: `Invalid action: ${invalid.join(', ')}` }
+    }
+    conditions.push({ action: { in: actions } })
+  }
+
+  const collection = searchParams.get('collection')
+  if (collection) {
+    conditions.push({ collectionSlug: { equals: collection } })
+  }
+  const actor = searchParams.get('actor')
+  if (actor) {
+    conditions.push({ actor: { equals: actor } })
+  }
+  const documentId = searchParams.get('documentId')
+  if (documentId) {
+    conditions.push({ documentId: { equals: documentId } })
+  }
+
+  const search = searchParams.get('q')?.trim()
+  if (search) {
+    conditions.push({
+      or: ['summary', 'actorEmail', 'documentId', 'ip'].map((field) => ({
+        [field]: { contains: search },
+      })),
+    })
+  }
+
+  const from = searchParams.get('from')
+  if (from) {
+    const date = parseReportDate(from, timeZone)
+    if (!date) return { error: 'Invalid from date' }
+    conditions.push({ createdAt: { greater_than_equal: date.toISOString() } })
+  }
+  const to = searchParams.get('to')
+  if (to) {
+    const date = parseReportDate(to, timeZone, true)
+    if (!date) return { error: 'Invalid to date' }
+    conditions.push({ createdAt: { less_than_equal: date.toISOString() } })
+  }
+
+  return { where: conditions.length > 0 ? { and: conditions } : undefined }
+}
+
+const csvValue = (value: string | number | null) => {
+  const text = value == null ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const csvRow = (values: (string | number | null)[]) => values.map(csvValue).join(',')
+
+export const formatAuditValue = (value: unknown) =>
+  value === null || value === undefined
+    ? '—'
+    : typeof value === 'string'
+      ? value
+      : JSON.stringify(value)
+
+/**
+ * One line per change, e.g. `status: pending → paid`
+ */
+export function formatAuditChanges(changes: AuditLog['changes']): string {
+  if (!Array.isArray(changes)) return ''
+  return (changes as AuditChange[])
+    .map(
+      (change) =>
+        `${change.field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`,
+    )
+    .join('\n')
+}
+
+/**
+ * CSV export of audit log entries, dates in `timeZone`
+ */
+export function auditLogsToCsv(logs: AuditLog[], timeZone: string): string {
+  const rows = [
+    csvRow([
+      `Date (${timeZone})`,
+      'Actor',
+      'Action',
+      'Collection',
+      'Document',
+      'Summary',
+      'Changes',
+      'IP',
+      'User Agent',
+    ]),
+    ...logs.map((log) =>
+      csvRow([
+        new Date(log.createdAt).toLocaleString('en-US', { timeZone }),
+        log.actorEmail || 'System',
+        log.action,
+        log.collectionSlug,
+        log.documentId || null,
+        log.summary,
+        formatAuditChanges(log.changes),
+        log.ip || null,
+        log.userAgent || null,
+      ]),
+    ),
+  ]
+  return rows.join('\n')
+}
@@ -0,0 +1,222 @@
+import type { Payload, Where } from 'payload'
+import type Stripe from 'stripe'
+import type { Order, Provider } from '@/payload-types'
+import { getStripeAccountForOrder } from '@/lib/stripe-accounts'
+import { enqueueWebhookDelivery } from '@/lib/webhook-delivery'
+import type { OrderStatus } from '@/lib/order-status'
+
+/**
+ * Checkout Expiry
+ *
+ * Every order gets a `checkoutExpiresAt` deadline when it is created, from the provider's
+ * `checkoutExpiryMinutes` or the global value in Site Settings → Checkout. Past the deadline
+ * the checkout link stops working: the PaymentIntent is canceled, the order becomes `expired`
+ * and the provider receives a `payment_expired` webhook. This happens lazily when the link is
+ * opened and in the background via the `expireCheckoutSessions` task.
+ */
+
+export const DEFAULT_CHECKOUT_EXPIRY_MINUTES = 60
+export const MIN_CHECKOUT_EXPIRY_MINUTES = 5
+export const MAX_CHECKOUT_EXPIRY_MINUTES = 7 * 24 * 60
+
+// Orders in these statuses still have a payable checkout link
+export const EXPIRABLE_STATUSES: readonly OrderStatus[] = ['pending', 'failed']
+
+// PaymentIntents in these states may still complete, so the order is left alone
+const IN_FLIGHT_PAYMENT_STATUSES: readonly Stripe.PaymentIntent.Status[] = [
+  'processing',
+  'requires_capture',
+]
+
+const SWEEP_BATCH_SIZE = 50
+
+// Orders the sweep skips or fails on are left out of later batches for this long
+export const SWEEP_RETRY_MINUTES = 15
+
+/**
+ * Checkout link lifetime, in minutes: the provider override, else the global setting
+ */
+export async function getCheckoutExpiryMinutes(
+  payload: Payload,
+  provider?: Pick<Provider, 'checkoutExpiryMinutes'> | null,
+): Promise<number> {
+  if (provider?.checkoutExpiryMinutes) {
+    return provider.checkoutExpiryMinutes
+  }
+  return getDefaultCheckoutExpiryMinutes(payload)
+}
+
+/**
+ * Global checkout link lifetime from Site Settings, in minutes
+ */
+export async function getDefaultCheckoutExpiryMinutes(payload: Payload): Promise<number> {
+  try {
+    const settings = await payload.findGlobal({ slug: 'site-settings', depth: 0 })
+    return settings.checkoutExpiryMinutes || DEFAULT_CHECKOUT_EXPIRY_MINUTES
+  } catch (err) {
+    console.error('[CHECKOUT-EXPIRY] Failed to read site settings:', err)
+    return DEFAULT_CHECKOUT_EXPIRY_MINUTES
+  }
+}
+
+/**
+ * When an order's checkout link stops working
+ * Orders created before expiry was introduced fall back to `createdAt` + the global lifetime
+ */
+export function getCheckoutDeadline(
+  order: Pick<Order, 'checkoutExpiresAt' | 'createdAt'>,
+  defaultMinutes: number,
+): Date {
+  if (order.checkoutExpiresAt) {
+    return new Date(order.checkoutExpiresAt)
+  }
+  return new Date(new Date(order.createdAt).getTime() + defaultMinutes * 60 * 1000)
+}
+
+/**
+ * Whether an order is still awaiting payment but its checkout link has passed its deadline
+ */
+export function isCheckoutExpired(
+  order: Pick<Order, 'status' | 'checkoutExpiresAt' | 'createdAt'>,
+  defaultMinutes: number,
+  now: Date = new Date(),
+): boolean {
+  if (!EXPIRABLE_STATUSES.includes(order.status)) return false
+  return getCheckoutDeadline(order, defaultMinutes).getTime() <= now.getTime()
+}
+
+/**
+ * Cancel an order's PaymentIntent and mark the order expired
+ * If Stripe shows the payment already succeeded the order is synced to paid instead, and
+ * payments still in flight are skipped so the Stripe webhook can settle them.
+ */
+export async function expireCheckout(
+  payload: Payload,
+  order: Order,
+  { note, paymentIntent }: { note: string; paymentIntent?: Stripe.PaymentIntent },
+): Promise<{ order: Order; outcome: 'expired' | 'paid' | 'skipped' }> {
+  if (order.stripePaymentIntentId) {
+    const { stripe } = await getStripeAccountForOrder(payload, order)
+    const intent =
+      paymentIntent || (await stripe.paymentIntents.retrieve(order.stripePaymentIntentId))
+
+    if (intent.status === 'succeeded') {
+      const updated = await payload.update({
+        collection: 'orders',
+        id: order.id,
+        data: { status: 'paid' },
+        overrideAccess: true,
+        context: { statusSource: 'sync', statusNote: note },
+      })
+      console.log(`[CHECKOUT-EXPIRY] Order ${order.id} was paid in Stripe — synced to paid`)
+      return { order: updated, outcome: 'paid' }
+    }
+
+    // ACH debits awaiting microdeposit verification can still be paid days later
+    if (
+      IN_FLIGHT_PAYMENT_STATUSES.includes(intent.status) ||
+      intent.next_action?.type === 'verify_with_microdeposits'
+    ) {
+      console.log(`[CHECKOUT-EXPIRY] Order ${order.id} payment is ${intent.status} — not expiring`)
+      return { order, outcome: 'skipped' }
+    }
+
+    if (intent.status !== 'canceled') {
+      await stripe.paymentIntents.cancel(intent.id, { cancellation_reason: 'abandoned' })
+    }
+  }
+
+  const updated = await payload.update({
+    collection: 'orders',
+    id: order.id,
+    data: { status: 'expired' },
+    depth: 1, // Populate provider and service for the webhook payload
+    overrideAccess: true,
+    context: { statusSource: 'system', statusNote: note },
+  })
+
+  const provider = updated.provider as Provider | null | undefined
+  if (provider && typeof provider !== 'string' && provider.webhookUrl) {
+    await enqueueWebhookDelivery(payload, provider, updated, 'payment_expired')
+  }
+
+  console.log(`[CHECKOUT-EXPIRY] Order ${order.id} expired (${note})`)
+  return { order: updated, outcome: 'expired' }
+}
+
+/**
+ * Expire a batch of orders whose checkout deadline has passed
+ * Orders that are skipped or fail are logged and get `checkoutNextCheckAt`, so they are retried
+ * after `SWEEP_RETRY_MINUTES` instead of filling every following batch.
+ */
+export async function expireStaleCheckouts(
+  payload: Payload,
+  now: Date = new Date(),
+): Promise<{ processed: number; expired: number; skipped: number }> {
+  const defaultMinutes = await getDefaultCheckoutExpiryMinutes(payload)
+  const legacyCutoff = new Date(now.getTime() - defaultMinutes * 60 * 1000)
+
+  const where: Where = {
+    and: [
+      { status: { in: [...EXPIRABLE_STATUSES] } },
+      {
+        or: [
+          { checkoutExpiresAt: { less_than_equal: now.toISOString() } },
+          {
+            and: [
+              { checkoutExpiresAt: { exists: false } },
+              { createdAt: { less_than_equal: legacyCutoff.toISOString() } },
+            ],
+          },
+        ],
+      },
+      {
+        or: [
+          { checkoutNextCheckAt: { exists: false } },
+          { checkoutNextCheckAt: { less_than_equal: now.toISOString() } },
+        ],
+      },
+    ],
+  }
+
+  const stale = await payload.find({
+    collection: 'orders',
+    where,
+    sort: 'createdAt',
+    limit: SWEEP_BATCH_SIZE,
+    pagination: false,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  let expired = 0
+  let skipped = 0
+  const retryAt = new Date(now.getTime() + SWEEP_RETRY_MINUTES * 60 * 1000).toISOString()
+
+  for (const order of stale.docs) {
+    let retry = false
+    try {
+      const result = await expireCheckout(payload, order, { note: 'checkout expiry sweep' })
+      if (result.outcome === 'expired') expired++
+      else if (result.outcome === 'skipped') retry = true
+    } catch (err) {
+      retry = true
+      console.error(`[CHECKOUT-EXPIRY] Failed to expire order ${order.id}:`, err)
+    }
+
+    if (retry) {
+      skipped++
+      await payload
+        .update({
+          collection: 'orders',
+          id: order.id,
+          data: { checkoutNextCheckAt: retryAt },
+          depth: 0,
+          overrideAccess: true,
+        })
+        .catch((err) => console.error(`[CHECKOUT-EXPIRY] Failed to defer order ${order.id}:`, err))
+    }
+  }
+
+  return { processed: stale.docs.length, expired, skipped }
+}
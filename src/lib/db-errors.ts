@@ -0,0 +1,10 @@
+import { ValidationError } from 'payload'
+
+/**
+ * Whether a create or update failed on the unique index of `path`
+ * The MongoDB adapter turns duplicate key errors (E11000) into a ValidationError on the field,
+ * so the raw `code === 11000` never reaches callers of the local API.
+ */
+export function isUniqueViolation(error: unknown, path: string): boolean {
+  return error instanceof ValidationError && error.data.errors.some((item) => item.path === path)
+}
@@ -0,0 +1,110 @@
+/**
+ * Platform Fee Schedules
+ *
+ * Each provider's fee schedule decides what the platform keeps from a paid order:
+ * `fee = gross × percentage + fixed fee`, capped at the gross amount. Volume tiers replace the
+ * percentage once the provider's paid volume in the current calendar month (UTC, before the
+ * order) reaches a threshold. Orders without a provider are the platform's own, so the whole
+ * amount is the fee.
+ */
+
+export interface FeeTier {
+  minMonthlyVolume: number
+  percentage: number
+}
+
+export interface FeeSchedule {
+  percentage?: number | null
+  fixedFee?: number | null
+  tiers?: FeeTier[] | null
+}
+
+export interface OrderSettlement {
+  grossAmount: number
+  platformFee: number
+  netAmount: number
+}
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+/**
+ * Percentage charged at a monthly volume: the highest tier reached, else the base percentage
+ */
+export function resolveFeePercentage(
+  schedule: FeeSchedule | null | undefined,
+  monthlyVolume: number,
+): number {
+  const tier = [...(schedule?.tiers || [])]
+    .sort((a, b) => b.minMonthlyVolume - a.minMonthlyVolume)
+    .find((item) => toCents(monthlyVolume) >= toCents(item.minMonthlyVolume))
+  return tier?.percentage ?? schedule?.percentage ?? 0
+}
+
+/**
+ * Split a provider order's gross amount into the platform fee and the provider's net
+ */
+export function calculateOrderSettlement(
+  grossAmount: number,
+  schedule: FeeSchedule | null | undefined,
+  monthlyVolume = 0,
+): OrderSettlement {
+  const grossCents = toCents(grossAmount)
+  const percentage = resolveFeePercentage(schedule, monthlyVolume)
+  const feeCents = Math.min(
+    grossCents,
+    Math.round((grossCents * percentage) / 100) + toCents(schedule?.fixedFee || 0),
+  )
+
+  return {
+    grossAmount: grossCents / 100,
+    platformFee: feeCents / 100,
+    netAmount: (grossCents - feeCents) / 100,
+  }
+}
+
+/**
+ * Gross, fee and net of an order, falling back for orders paid before fee schedules existed
+ * (no fee on provider orders, everything is platform revenue on direct orders)
+ */
+export function getOrderSettlement(order: {
+  total: number
+  provider?: unknown
+  grossAmount?: number | null
+  platformFee?: number | null
+  netAmount?: number | null
+}): OrderSettlement {
+  if (order.grossAmount != null && order.platformFee != null && order.netAmount != null) {
+    return {
+      grossAmount: order.grossAmount,
+      platformFee: order.platformFee,
+      netAmount: order.netAmount,
+    }
+  }
+  return order.provider
+    ? { grossAmount: order.total, platformFee: 0, netAmount: order.total }
+    : { grossAmount: order.total, platformFee: order.total, netAmount: 0 }
+}
+
+/**
+ * Human-readable schedule, e.g. "2.9% + $0.30 (1.9% from $10,000/mo)"
+ */
+export function describeFeeSchedule(schedule: FeeSchedule | null | undefined): string {
+  const formatMoney = (amount: number) =>
+    `$${amount.toLocaleString('en-US', {
+      minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+      maximumFractionDigits: 2,
+    })}`
+
+  const parts: string[] = []
+  if (schedule?.percentage) parts.push(`${schedule.percentage}%`)
+  if (schedule?.fixedFee) parts.push(formatMoney(schedule.fixedFee))
+  let description = parts.join(' + ') || 'No fee'
+
+  const tiers = [...(schedule?.tiers || [])].sort((a, b) => a.minMonthlyVolume - b.minMonthlyVolume)
+  if (tiers.length) {
+    description += ` (${tiers
+      .map((tier) => `${tier.percentage}% from ${formatMoney(tier.minMonthlyVolume)}/mo`)
+      .join(', ')})`
+  }
+  return description
+}
@@ -0,0 +1,219 @@
+import crypto from 'crypto'
+import type { Payload } from 'payload'
+import type { IdempotencyKey } from '@/payload-types'
+import { isUniqueViolation } from '@/lib/db-errors'
+
+/**
+ * Idempotency Keys
+ *
+ * Providers may send an `Idempotency-Key` header with create-payment-intent. The first request
+ * with a key is recorded with a fingerprint of its body; a successful response is stored and
+ * replayed to every retry with the same key and body for 24 hours. Reusing a key with a different
+ * body, or while the first request is still running, is rejected with 409. Error responses release
+ * the key so the request can be corrected and retried. Keys are scoped per provider and
+ * key mode, so a test key never replays a live response.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key'
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255
+
+// A "processing" record older than this is assumed to belong to a crashed request
+const PROCESSING_LEASE_MS = 2 * 60 * 1000
+
+export type IdempotencyClaim =
+  | { action: 'process'; record: IdempotencyKey }
+  | { action: 'replay'; record: IdempotencyKey }
+  | { action: 'conflict'; reason: 'mismatch' | 'in_progress' }
+
+/**
+ * Check a client-supplied key: 1–255 printable ASCII characters
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.length > 0 && key.length <= MAX_IDEMPOTENCY_KEY_LENGTH && /^[\x21-\x7e]+$/.test(key)
+}
+
+/**
+ * Serialize a JSON value with sorted object keys, so key order does not change the fingerprint
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+      )
+      .join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * SHA-256 fingerprint of a request body; the API key (also accepted in the body) is left out
+ */
+export function fingerprintRequest(body: Record<string, unknown>): string {
+  const { apiKey: _apiKey, ...rest } = body
+  return crypto.createHash('sha256').update(stableStringify(rest)).digest('hex')
+}
+
+/**
+ * Stripe idempotency key for a request made with a client key
+ * Includes the fingerprint so a key reused after expiry never collides in Stripe
+ */
+export function getStripeIdempotencyKey(providerId: string, key: string, fingerprint: string) {
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${providerId}:${key}:${fingerprint}`)
+    .digest('hex')
+  return `pi_idem_${hash}`
+}
+
+const isExpired = (record: IdempotencyKey) => new Date(record.expiresAt).getTime() <= Date.now()
+
+const newExpiry = () =>
+  new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000).toISOString()
+
+/**
+ * Decide what to do with an existing record for the same key
+ */
+function resolveExisting(
+  record: IdempotencyKey,
+  fingerprint: string,
+): IdempotencyClaim | { action: 'take_over' } {
+  if (isExpired(record)) return { action: 'take_over' }
+  if (record.fingerprint !== fingerprint) return { action: 'conflict', reason: 'mismatch' }
+  if (record.status === 'completed') return { action: 'replay', record }
+  const leaseActive = Date.now() - new Date(record.updatedAt).getTime() < PROCESSING_LEASE_MS
+  return leaseActive ? { action: 'conflict', reason: 'in_progress' } : { action: 'take_over' }
+}
+
+async function findByScopedKey(payload: Payload, scopedKey: string) {
+  const result = await payload.find({
+    collection: 'idempotency-keys',
+    where: { scopedKey: { equals: scopedKey } },
+    limit: 1,
+    depth: 0,
+    overrideAccess: true,
+  })
+  return result.docs[0] || null
+}
+
+/**
+ * Record a request's key, or return the stored response / conflict for a key already used
+ */
+export async function claimIdempotencyKey(
+  payload: Payload,
+  {
+    providerId,
+    key,
+    fingerprint,
+    livemode = true,
+  }: { providerId: string; key: string; fingerprint: string; livemode?: boolean },
+): Promise<IdempotencyClaim> {
+  const scopedKey = livemode ? `${providerId}:${key}` : `test:${providerId}:${key}`
+  const existing = await findByScopedKey(payload, scopedKey)
+
+  if (existing) {
+    const resolved = resolveExisting(existing, fingerprint)
+    if (resolved.action !== 'take_over') return resolved
+
+    // Expired, or the first request crashed: start over with this request. The update only
+    // matches the record as read, so of two retries taking it over at once only one proceeds.
+    const taken = await payload.db.updateOne({
+      collection: 'idempotency-keys',
+      where: {
+        and: [{ id: { equals: existing.id } }, { updatedAt: { equals: existing.updatedAt } }],
+      },
+      data: {
+        fingerprint,
+        status: 'processing',
+        responseStatus: null,
+        responseBody: null,
+        order: null,
+        expiresAt: newExpiry(),
+      },
+    })
+    if (!taken) return { action: 'conflict', reason: 'in_progress' }
+
+    const record = await payload.findByID({
+      collection: 'idempotency-keys',
+      id: existing.id,
+      depth: 0,
+      overrideAccess: true,
+    })
+    return { action: 'process', record }
+  }
+
+  try {
+    const record = await payload.create({
+      collection: 'idempotency-keys',
+      data: {
+        scopedKey,
+        key,
+        provider: providerId,
+        fingerprint,
+        status: 'processing',
+        expiresAt: newExpiry(),
+      },
+      overrideAccess: true,
+    })
+    return { action: 'process', record }
+  } catch (error: unknown) {
+    // Unique index on scopedKey: a concurrent request with the same key got there first
+    if (isUniqueViolation(error, 'scopedKey')) {
+      const concurrent = await findByScopedKey(payload, scopedKey)
+      if (concurrent) {
+        const resolved = resolveExisting(concurrent, fingerprint)
+        return resolved.action === 'take_over'
+          ? { action: 'conflict', reason: 'in_progress' }
+          : resolved
+      }
+    }
+    throw error
+  }
+}
+
+/**
+ * Store a successful response for replay; error responses release the key
+ */
+export async function finishIdempotencyKey(
+  payload: Payload,
+  id: string,
+  response: { status: number; body: unknown },
+): Promise<void> {
+  if (response.status >= 400) {
+    await payload.delete({ collection: 'idempotency-keys', id, overrideAccess: true })
+    return
+  }
+
+  const orderId = (response.body as { orderId?: unknown } | null)?.orderId
+  await payload.update({
+    collection: 'idempotency-keys',
+    id,
+    data: {
+      status: 'completed',
+      responseStatus: response.status,
+      responseBody: response.body as IdempotencyKey['responseBody'],
+      // Orders that could not be saved have a temp_ id
+      order: typeof orderId === 'string' && /^[a-f\d]{24}$/i.test(orderId) ? orderId : null,
+    },
+    overrideAccess: true,
+  })
+}
+
+/**
+ * Delete keys past their 24-hour lifetime
+ */
+export async function purgeExpiredIdempotencyKeys(payload: Payload): Promise<number> {
+  const result = await payload.delete({
+    collection: 'idempotency-keys',
+    where: { expiresAt: { less_than_equal: new Date().toISOString() } },
+    overrideAccess: true,
+  })
+  return result.docs.length
+}
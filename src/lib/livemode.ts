@@ -0,0 +1,49 @@
+import type { Where } from 'payload'
+
+/**
+ * Live and Test Mode
+ *
+ * Providers get separate live and test API keys. Orders created with a test key are charged to
+ * a Stripe test account and flagged `livemode: false`; orders without the flag (created before
+ * test mode existed) are live. Admin reports leave test orders out unless `?testOrders=include`.
+ */
+
+export type ApiKeyMode = 'live' | 'test'
+
+export const API_KEY_MODES: readonly ApiKeyMode[] = ['live', 'test']
+
+// Query parameter (and dashboard URL parameter) that adds test orders to admin reports
+export const TEST_ORDERS_PARAM = 'testOrders'
+
+/**
+ * Orders of one mode; live matches orders without the flag too
+ */
+export function getLivemodeWhere(livemode: boolean): Where {
+  return livemode ? { livemode: { not_equals: false } } : { livemode: { equals: false } }
+}
+
+/**
+ * Whether an admin report request asked for test orders to be included
+ */
+export function includesTestOrders(searchParams: URLSearchParams): boolean {
+  return searchParams.get(TEST_ORDERS_PARAM) === 'include'
+}
+
+/**
+ * Filter for admin reports: live orders only, unless test orders were requested (null)
+ */
+export function getReportLivemodeWhere(searchParams: URLSearchParams): Where | null {
+  return includesTestOrders(searchParams) ? null : getLivemodeWhere(true)
+}
+
+/**
+ * Add the admin report filter to a query's conditions
+ */
+export function withReportLivemode(
+  where: Where | undefined,
+  searchParams: URLSearchParams,
+): Where | undefined {
+  const livemode = getReportLivemodeWhere(searchParams)
+  if (!livemode) return where
+  return where ? { and: [where, livemode] } : livemode
+}
@@ -0,0 +1,107 @@
+import crypto from 'crypto'
+import type { Payload, PayloadRequest } from 'payload'
+import type { User } from '@/payload-types'
+
+/**
+ * Login History
+ *
+ * Every admin sign-in attempt is appended to the `login-events` collection: password logins
+ * and failures from the Users auth hooks (see @/hooks/loginHistory), two-factor checks from
+ * `POST /api/admin/two-factor/verify`. A successful sign-in from a browser the account hasn't
+ * used before emails the user through the configured email adapter (Resend).
+ *
+ * Lockout is per account: Payload locks a user for `LOGIN_LOCK_TIME_MS` after
+ * `MAX_LOGIN_ATTEMPTS` wrong passwords in a row, and two-factor failures lock it the same way.
+ */
+
+export const MAX_LOGIN_ATTEMPTS = 5
+export const LOGIN_LOCK_TIME_MS = 15 * 60 * 1000
+
+export const LOGIN_OUTCOMES = [
+  'success',
+  'failed',
+  'locked',
+  'two_factor_verified',
+  'two_factor_failed',
+] as const
+
+export type LoginOutcome = (typeof LOGIN_OUTCOMES)[number]
+
+/**
+ * Stable identifier of the browser a sign-in came from
+ * The user agent, not the IP address, so a laptop changing networks isn't a new device.
+ */
+export function getDeviceId(userAgent: string | null | undefined): string {
+  return crypto
+    .createHash('sha256')
+    .update((userAgent || '').trim())
+    .digest('hex')
+    .slice(0, 16)
+}
+
+/**
+ * Append a sign-in attempt to the login history
+ * Failures are logged rather than failing the sign-in.
+ */
+export async function recordLoginEvent(
+  payload: Payload,
+  entry: {
+    outcome: LoginOutcome
+    user?: Pick<User, 'id'> | null
+    email?: string | null
+    ip: string | null
+    userAgent: string | null
+    newDevice?: boolean
+  },
+  req?: PayloadRequest,
+): Promise<void> {
+  try {
+    await payload.create({
+      collection: 'login-events',
+      data: {
+        outcome: entry.outcome,
+        user: entry.user?.id || null,
+        email: entry.email || null,
+        ip: entry.ip,
+        userAgent: entry.userAgent,
+        deviceId: getDeviceId(entry.userAgent),
+        newDevice: entry.newDevice || false,
+      },
+      overrideAccess: true,
+      req,
+    })
+  } catch (error) {
+    payload.logger.error(`[LOGIN] Failed to record ${entry.outcome} for ${entry.email}: ${error}`)
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+/**
+ * Email the user about a sign-in from a new device
+ */
+export async function sendNewDeviceAlert(
+  payload: Payload,
+  user: Pick<User, 'email' | 'name'>,
+  source: { ip: string | null; userAgent: string | null; time: Date },
+): Promise<void> {
+  try {
+    await payload.sendEmail({
+      to: user.email,
+      subject: 'New sign-in to your DZ Tech Panel account',
+      html: [
+        `<p>Hi ${escapeHtml(user.name)},</p>`,
+        '<p>Your DZ Tech Panel account was just signed in to from a new device:</p>',
+        '<ul>',
+        `<li>Time: ${source.time.toUTCString()}</li>`,
+        `<li>IP address: ${escapeHtml(source.ip || 'unknown')}</li>`,
+        `<li>Browser: ${escapeHtml(source.userAgent || 'unknown')}</li>`,
+        '</ul>',
+        '<p>If this was you, there is nothing to do. If not, change your password right away and ask an admin to review your login history.</p>',
+      ].join('\n'),
+    })
+  } catch (error) {
+    payload.logger.error(`[LOGIN] Failed to send new device alert to ${user.email}: ${error}`)
+  }
+}
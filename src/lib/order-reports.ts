@@ -0,0 +1,301 @@
+import type { Payload, Where } from 'payload'
+import type { MongooseAdapter } from '@payloadcms/db-mongodb'
+import {
+  DEFAULT_REPORT_TIMEZONE,
+  isValidTimeZone,
+  nextZonedPeriod,
+  parseReportDate,
+  startOfZonedPeriod,
+  TIMEZONE_PARAM,
+} from '@/lib/timezone'
+import { getLivemodeWhere } from '@/lib/livemode'
+
+/**
+ * Order Reports
+ *
+ * Admin revenue and stats endpoints aggregate orders in MongoDB instead of loading them, so
+ * totals stay exact however many orders match. Filters are ordinary Payload `where` clauses,
+ * converted by the adapter (relationship paths like `service.slug` included). Settlement amounts
+ * follow `getOrderSettlement`: the stored gross / fee / net, or for orders paid before fee
+ * schedules existed, fee-free provider orders and direct orders kept by the platform.
+ * Dates and series buckets follow the reporting time zone (see `src/lib/timezone.ts`); buckets
+ * use `$dateTrunc` (MongoDB 5.0+) and weeks start on Monday.
+ */
+
+export const REPORT_INTERVALS = ['day', 'week', 'month'] as const
+
+export type ReportInterval = (typeof REPORT_INTERVALS)[number]
+
+// Longest series a report returns, e.g. a year and a day of daily buckets
+export const MAX_SERIES_BUCKETS = 366
+
+export interface OrderTotals {
+  orderCount: number
+  // Sum of order totals
+  total: number
+  grossAmount: number
+  platformFee: number
+  netAmount: number
+}
+
+export interface SeriesBucket extends OrderTotals {
+  // Start of the bucket (ISO date)
+  period: string
+}
+
+const hasValue = (path: string) => ({ $ne: [{ $ifNull: [path, null] }, null] })
+
+const hasSettlement = {
+  $and: [hasValue('$grossAmount'), hasValue('$platformFee'), hasValue('$netAmount')],
+}
+const hasProvider = hasValue('$provider')
+
+// `$group` accumulators for OrderTotals
+export const ORDER_TOTALS_GROUP = {
+  orderCount: { $sum: 1 },
+  total: { $sum: '$total' },
+  grossAmount: { $sum: { $cond: [hasSettlement, '$grossAmount', '$total'] } },
+  platformFee: {
+    $sum: { $cond: [hasSettlement, '$platformFee', { $cond: [hasProvider, 0, '$total'] }] },
+  },
+  netAmount: {
+    $sum: { $cond: [hasSettlement, '$netAmount', { $cond: [hasProvider, '$total', 0] }] },
+  },
+}
+
+export const EMPTY_ORDER_TOTALS: OrderTotals = {
+  orderCount: 0,
+  total: 0,
+  grossAmount: 0,
+  platformFee: 0,
+  netAmount: 0,
+}
+
+function toTotals(row: Partial<OrderTotals>): OrderTotals {
+  return {
+    orderCount: row.orderCount || 0,
+    total: row.total || 0,
+    grossAmount: row.grossAmount || 0,
+    platformFee: row.platformFee || 0,
+    netAmount: row.netAmount || 0,
+  }
+}
+
+/**
+ * Time zone of a report: the `tz` parameter, else the reporting time zone in Site Settings
+ */
+export async function getReportTimeZone(
+  payload: Payload,
+  searchParams: URLSearchParams,
+): Promise<{ timeZone: string } | { error: string }> {
+  const param = searchParams.get(TIMEZONE_PARAM)
+  if (param) {
+    return isValidTimeZone(param) ? { timeZone: param } : { error: `Unknown time zone: ${param}` }
+  }
+
+  try {
+    const settings = await payload.findGlobal({ slug: 'site-settings', depth: 0 })
+    const timeZone = settings.reportingTimeZone
+    return { timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_REPORT_TIMEZONE }
+  } catch (err) {
+    console.error('[ORDER-REPORTS] Failed to read site settings:', err)
+    return { timeZone: DEFAULT_REPORT_TIMEZONE }
+  }
+}
+
+/**
+ * Parse the `from` / `to` report parameters in the report's time zone; `to` includes the whole
+ * end day
+ */
+export function getReportDateRange(
+  searchParams: URLSearchParams,
+  timeZone: string,
+): { from?: Date; to?: Date } | { error: string } {
+  const range: { from?: Date; to?: Date } = {}
+
+  const from = searchParams.get('from')
+  if (from) {
+    const date = parseReportDate(from, timeZone)
+    if (!date) return { error: 'Invalid from date' }
+    range.from = date
+  }
+  const to = searchParams.get('to')
+  if (to) {
+    const date = parseReportDate(to, timeZone, true)
+    if (!date) return { error: 'Invalid to date' }
+    range.to = date
+  }
+
+  return range
+}
+
+/**
+ * Orders created within a report date range, or undefined for all time
+ */
+export function getDateRangeWhere(range: { from?: Date; to?: Date }): Where | undefined {
+  if (!range.from && !range.to) return undefined
+
+  const createdAt: Record<string, string> = {}
+  if (range.from) createdAt.greater_than_equal = range.from.toISOString()
+  if (range.to) createdAt.less_than_equal = range.to.toISOString()
+  return { createdAt }
+}
+
+/**
+ * Bucket starts from `from` to `to`, or null if there would be more than MAX_SERIES_BUCKETS
+ */
+export function getSeriesBuckets(
+  from: Date,
+  to: Date,
+  interval: ReportInterval,
+  timeZone: string,
+): Date[] | null {
+  const buckets: Date[] = []
+  for (
+    let bucket = startOfZonedPeriod(from, interval, timeZone);
+    bucket <= to;
+    bucket = nextZonedPeriod(bucket, interval, timeZone)
+  ) {
+    if (buckets.length === MAX_SERIES_BUCKETS) return null
+    buckets.push(bucket)
+  }
+  return buckets
+}
+
+/**
+ * One entry per bucket, zero where no orders matched
+ */
+export function fillSeries(
+  buckets: Date[],
+  rows: (Partial<OrderTotals> & { _id: Date | string })[],
+): SeriesBucket[] {
+  const totalsByPeriod = new Map(
+    rows.map((row) => [new Date(row._id).toISOString(), toTotals(row)]),
+  )
+  return buckets.map((bucket) => {
+    const period = bucket.toISOString()
+    return { period, ...(totalsByPeriod.get(period) || EMPTY_ORDER_TOTALS) }
+  })
+}
+
+type PipelineStages = NonNullable<
+  Parameters<MongooseAdapter['collections'][string]['aggregate']>[0]
+>
+
+// Runs `stages` on the orders matching `where`
+async function aggregateOrders<R>(
+  payload: Payload,
+  where: Where | undefined,
+  stages: PipelineStages,
+): Promise<R[]> {
+  const Orders = (payload.db as MongooseAdapter).collections.orders
+  const match = where ? await Orders.buildQuery({ payload, where }) : {}
+  return Orders.aggregate<R>([{ $match: match }, ...stages])
+}
+
+/**
+ * Gross volume of a provider's live orders paid since `since`, for fee volume tiers
+ * Orders paid before fee schedules existed count their total.
+ */
+export async function getProviderPaidVolume(
+  payload: Payload,
+  providerId: string,
+  since: Date,
+): Promise<number> {
+  const rows = await aggregateOrders<{ volume: number }>(
+    payload,
+    {
+      and: [
+        { provider: { equals: providerId } },
+        { paidAt: { greater_than_equal: since.toISOString() } },
+        getLivemodeWhere(true),
+      ],
+    },
+    [{ $group: { _id: null, volume: { $sum: { $ifNull: ['$grossAmount', '$total'] } } } }],
+  )
+  return rows[0]?.volume || 0
+}
+
+/**
+ * Totals of the matching orders per status
+ */
+export async function getOrderTotalsByStatus(
+  payload: Payload,
+  where: Where | undefined,
+): Promise<Map<string, OrderTotals>> {
+  const rows = await aggregateOrders<Partial<OrderTotals> & { _id: string }>(payload, where, [
+    { $group: { _id: '$status', ...ORDER_TOTALS_GROUP } },
+  ])
+  return new Map(rows.map((row) => [row._id, toTotals(row)]))
+}
+
+/**
+ * Order counts per status, with how many were created since `recentSince`
+ */
+export async function countOrdersByStatus(
+  payload: Payload,
+  where: Where | undefined,
+  recentSince: Date,
+): Promise<Map<string, { count: number; recent: number }>> {
+  const rows = await aggregateOrders<{ _id: string; count: number; recent: number }>(
+    payload,
+    where,
+    [
+      {
+        $group: {
+          _id: '$status',
+          count: { $sum: 1 },
+          recent: { $sum: { $cond: [{ $gt: ['$createdAt', recentSince] }, 1, 0] } },
+        },
+      },
+    ],
+  )
+  return new Map(rows.map((row) => [row._id, { count: row.count, recent: row.recent }]))
+}
+
+/**
+ * Totals of the matching orders per provider and service (ids, null for none)
+ */
+export async function getOrderTotalsByProviderAndService(
+  payload: Payload,
+  where: Where | undefined,
+): Promise<(OrderTotals & { provider: string | null; service: string | null })[]> {
+  const rows = await aggregateOrders<
+    Partial<OrderTotals> & { _id: { provider?: unknown; service?: unknown } }
+  >(payload, where, [
+    { $group: { _id: { provider: '$provider', service: '$service' }, ...ORDER_TOTALS_GROUP } },
+  ])
+  return rows.map((row) => ({
+    provider: row._id.provider ? String(row._id.provider) : null,
+    service: row._id.service ? String(row._id.service) : null,
+    ...toTotals(row),
+  }))
+}
+
+/**
+ * Totals of the matching orders per bucket, for every bucket from `getSeriesBuckets`
+ */
+export async function getOrderSeries(
+  payload: Payload,
+  where: Where | undefined,
+  interval: ReportInterval,
+  timeZone: string,
+  buckets: Date[],
+): Promise<SeriesBucket[]> {
+  const rows = await aggregateOrders<Partial<OrderTotals> & { _id: Date }>(payload, where, [
+    {
+      $group: {
+        _id: {
+          $dateTrunc: {
+            date: '$createdAt',
+            unit: interval,
+            timezone: timeZone,
+            ...(interval === 'week' && { startOfWeek: 'monday' }),
+          },
+        },
+        ...ORDER_TOTALS_GROUP,
+      },
+    },
+  ])
+  return fillSeries(buckets, rows)
+}
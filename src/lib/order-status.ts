@@ -0,0 +1,61 @@
+/**
+ * Order Status State Machine
+ *
+ * Single source of truth for which order status changes are legal. Enforced on every write by
+ * the `enforceOrderStatusTransition` hook on the Orders collection; write paths (webhooks,
+ * Stripe sync, admin) should also check `canTransitionOrderStatus` to skip illegal changes
+ * gracefully instead of failing.
+ */
+
+export const ORDER_STATUSES = [
+  'pending',
+  'paid',
+  'failed',
+  'expired',
+  'disputed',
+  'partially_refunded',
+  'refunded',
+] as const
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number]
+
+// Who/what caused a status change
+export type OrderStatusSource = 'webhook' | 'sync' | 'admin' | 'api' | 'system'
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['paid', 'failed', 'expired'],
+  // A failed attempt can still be paid with the same PaymentIntent
+  failed: ['paid', 'expired'],
+  // Stripe is the source of truth: a payment that succeeded after expiry is still paid
+  expired: ['paid'],
+  paid: ['disputed', 'partially_refunded', 'refunded'],
+  partially_refunded: ['disputed', 'refunded'],
+  // Won disputes return to paid, lost disputes end refunded
+  disputed: ['paid', 'partially_refunded', 'refunded'],
+  refunded: [],
+}
+
+// Statuses in which a succeeded PaymentIntent means the order should become paid
+export const AWAITING_PAYMENT_STATUSES: readonly OrderStatus[] = ['pending', 'failed', 'expired']
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  failed: 'Failed',
+  expired: 'Expired',
+  disputed: 'Disputed',
+  partially_refunded: 'Partially Refunded',
+  refunded: 'Refunded',
+}
+
+/**
+ * Check whether an order may move from one status to another
+ * Re-writing the current status is always allowed (no-op)
+ */
+export function canTransitionOrderStatus(
+  from: OrderStatus | null | undefined,
+  to: OrderStatus,
+): boolean {
+  if (!from || from === to) return true
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false
+}
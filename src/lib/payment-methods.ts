@@ -0,0 +1,80 @@
+/**
+ * Payment Methods
+ *
+ * Services choose which payment methods checkout offers; a provider can narrow that list
+ * further. The resolved list is stored on the order, drives the PaymentIntent's
+ * `payment_method_types` and tells the checkout page which options to show.
+ */
+
+export const PAYMENT_METHODS = ['cashapp', 'card', 'us_bank_account', 'wallets'] as const
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number]
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cashapp: 'Cash App',
+  card: 'Card',
+  us_bank_account: 'ACH Direct Debit',
+  wallets: 'Apple Pay / Google Pay',
+}
+
+export const PAYMENT_METHOD_OPTIONS = PAYMENT_METHODS.map((value) => ({
+  label: PAYMENT_METHOD_LABELS[value],
+  value,
+}))
+
+// Services created before payment method selection accepted Cash App only
+export const DEFAULT_PAYMENT_METHODS: readonly PaymentMethod[] = ['cashapp']
+
+// Methods that settle days after confirmation: the PaymentIntent stays `processing` meanwhile
+export const DELAYED_SETTLEMENT_METHODS: readonly PaymentMethod[] = ['us_bank_account']
+
+const isPaymentMethod = (value: unknown): value is PaymentMethod =>
+  PAYMENT_METHODS.includes(value as PaymentMethod)
+
+/**
+ * Methods a checkout may offer: the service's list, narrowed by the provider's list if set
+ * May be empty when the two lists do not overlap
+ */
+export function resolvePaymentMethods(
+  serviceMethods?: readonly string[] | null,
+  providerMethods?: readonly string[] | null,
+): PaymentMethod[] {
+  const allowed = serviceMethods?.length ? serviceMethods : DEFAULT_PAYMENT_METHODS
+  return PAYMENT_METHODS.filter(
+    (method) =>
+      allowed.includes(method) && (!providerMethods?.length || providerMethods.includes(method)),
+  )
+}
+
+/**
+ * Stripe `payment_method_types` for a list of methods
+ * Apple Pay and Google Pay are card payments in Stripe, so wallets map to `card`
+ */
+export function toStripePaymentMethodTypes(methods: readonly PaymentMethod[]): string[] {
+  const types = methods.map((method) => (method === 'wallets' ? 'card' : method))
+  return [...new Set(types)]
+}
+
+/**
+ * Human-readable list, e.g. "Cash App or Card"
+ */
+export function describePaymentMethods(methods: readonly PaymentMethod[]): string {
+  const labels = methods.map((method) => PAYMENT_METHOD_LABELS[method])
+  if (labels.length <= 1) return labels[0] || 'No payment methods'
+  return `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}`
+}
+
+/**
+ * Validate a payment method selection on a service or provider
+ * Wallets run on Stripe's card rails, so they can only be offered together with cards
+ */
+export function validatePaymentMethodSelection(
+  value: readonly string[] | null | undefined,
+): true | string {
+  if (!value?.length) return true
+  if (!value.every(isPaymentMethod)) return 'Unknown payment method'
+  if (value.includes('wallets') && !value.includes('card')) {
+    return 'Apple Pay / Google Pay require Card to be allowed too'
+  }
+  return true
+}
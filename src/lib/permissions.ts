@@ -0,0 +1,57 @@
+import type { User } from '@/payload-types'
+
+/**
+ * Roles and Permissions
+ *
+ * Besides admins, staff get one of four narrower roles: finance (revenue, refunds, payouts and
+ * reconciliation), support (orders, disputes, webhook deliveries), content editors (site
+ * content) and read-only analysts (reports). `PERMISSIONS` lists the roles allowed each action;
+ * collection access (`can` in @/access), `/api/admin/*` routes (`requireAdminUser`) and the
+ * dashboard all read it.
+ */
+
+export type UserRole = User['role']
+
+export const USER_ROLE_OPTIONS: { label: string; value: UserRole }[] = [
+  { label: 'Admin', value: 'admin' },
+  { label: 'Finance', value: 'finance' },
+  { label: 'Support', value: 'support' },
+  { label: 'Content Editor', value: 'editor' },
+  { label: 'Analyst (read-only)', value: 'analyst' },
+]
+
+export const USER_ROLES = USER_ROLE_OPTIONS.map((option) => option.value)
+
+export const PERMISSIONS = {
+  // Dashboard overview and revenue, stats and exports
+  viewReports: ['admin', 'finance', 'analyst'],
+  viewOrders: ['admin', 'finance', 'support', 'analyst'],
+  refundOrders: ['admin', 'finance'],
+  viewDisputes: ['admin', 'finance', 'support', 'analyst'],
+  viewProviders: ['admin', 'finance', 'support', 'analyst'],
+  manageProviders: ['admin'],
+  viewApiKeys: ['admin', 'support'],
+  // Create, rotate and revoke provider API keys
+  manageApiKeys: ['admin'],
+  viewWebhookDeliveries: ['admin', 'support'],
+  replayWebhooks: ['admin', 'support'],
+  viewStripeEvents: ['admin', 'finance', 'support'],
+  // Wallets, statements and the settlement ledger
+  viewLedger: ['admin', 'finance', 'analyst'],
+  recordPayouts: ['admin', 'finance'],
+  viewReconciliation: ['admin', 'finance', 'analyst'],
+  runReconciliation: ['admin', 'finance'],
+  // Pages, services, categories, jobs, projects, media, navigation and footer
+  editContent: ['admin', 'editor'],
+  viewContactRequests: ['admin', 'support'],
+  viewAuditLogs: ['admin'],
+} as const satisfies Record<string, readonly UserRole[]>
+
+export type Permission = keyof typeof PERMISSIONS
+
+export function hasPermission(
+  user: Pick<User, 'role'> | null | undefined,
+  permission: Permission,
+): boolean {
+  return Boolean(user && (PERMISSIONS[permission] as readonly UserRole[]).includes(user.role))
+}
@@ -0,0 +1,208 @@
+import { APIError, type Payload } from 'payload'
+import type { Provider, ProviderApiKey, User } from '@/payload-types'
+import { generateApiKey, getApiKeyPrefix, hashApiKey, isValidApiKeyFormat } from '@/lib/api-key'
+import type { ApiKeyMode } from '@/lib/livemode'
+import type { AuditSource } from '@/lib/audit-log'
+
+/**
+ * Provider API Key Store
+ *
+ * Keys live in the `provider-api-keys` collection as SHA-256 hashes. The plaintext is only
+ * returned by `createProviderApiKey` / `rotateProviderApiKey`, once, to the admin who issued it.
+ * Rotation issues a new key and keeps the old one valid until the chosen expiry.
+ * Each key is live or test; test keys create test orders (see @/lib/livemode).
+ */
+
+export const DEFAULT_ROTATION_GRACE_HOURS = 24
+export const MAX_ROTATION_GRACE_HOURS = 24 * 30
+
+export interface ProviderApiKeyResponse {
+  id: string
+  name: string
+  prefix: string
+  mode: ApiKeyMode
+  status: ProviderApiKey['status']
+  expiresAt?: string | null
+  lastUsedAt?: string | null
+  createdAt: string
+}
+
+/**
+ * Admin-facing view of a key: metadata and prefix only
+ */
+export function toProviderApiKeyResponse(apiKey: ProviderApiKey): ProviderApiKeyResponse {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    mode: apiKey.mode || 'live',
+    status: apiKey.status,
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    createdAt: apiKey.createdAt,
+  }
+}
+
+/**
+ * Issue a new key for a provider. The returned `key` is the only copy of the plaintext.
+ */
+export async function createProviderApiKey(
+  payload: Payload,
+  {
+    providerId,
+    name,
+    mode = 'live',
+    user,
+    audit,
+  }: {
+    providerId: string
+    name: string
+    mode?: ApiKeyMode
+    user?: User | null
+    // Who issued the key, for the audit log
+    audit?: AuditSource
+  },
+): Promise<{ key: string; apiKey: ProviderApiKey }> {
+  const key = generateApiKey(mode)
+
+  const apiKey = await payload.create({
+    collection: 'provider-api-keys',
+    data: {
+      name,
+      provider: providerId,
+      keyHash: hashApiKey(key),
+      prefix: getApiKeyPrefix(key),
+      mode,
+      status: 'active',
+      createdBy: user?.id || null,
+    },
+    overrideAccess: true,
+    context: { audit },
+  })
+
+  return { key, apiKey }
+}
+
+/**
+ * Replace a key with a new one; the old key keeps working for `graceHours` (0 = revoke now)
+ */
+export async function rotateProviderApiKey(
+  payload: Payload,
+  {
+    id,
+    graceHours = DEFAULT_ROTATION_GRACE_HOURS,
+    user,
+    audit,
+  }: {
+    id: string
+    graceHours?: number
+    user?: User | null
+    audit?: AuditSource
+  },
+): Promise<{ key: string; apiKey: ProviderApiKey; previous: ProviderApiKey }> {
+  if (!Number.isFinite(graceHours) || graceHours < 0 || graceHours > MAX_ROTATION_GRACE_HOURS) {
+    throw new APIError(
+      `Grace period must be between 0 and ${MAX_ROTATION_GRACE_HOURS} hours`,
+      400,
+      undefined,
+      true,
+    )
+  }
+
+  const current = await payload.findByID({
+    collection: 'provider-api-keys',
+    id,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  if (current.status !== 'active' || isExpired(current)) {
+    throw new APIError('Only active keys can be rotated', 409, undefined, true)
+  }
+
+  if (current.replacedBy) {
+    throw new APIError('This key was already rotated', 409, undefined, true)
+  }
+
+  const providerId = typeof current.provider === 'string' ? current.provider : current.provider.id
+  const { key, apiKey } = await createProviderApiKey(payload, {
+    providerId,
+    name: current.name,
+    mode: current.mode || 'live',
+    user,
+    audit,
+  })
+
+  const previous = await payload.update({
+    collection: 'provider-api-keys',
+    id: current.id,
+    data: {
+      replacedBy: apiKey.id,
+      ...(graceHours === 0
+        ? { status: 'revoked' as const }
+        : { expiresAt: new Date(Date.now() + graceHours * 60 * 60 * 1000).toISOString() }),
+    },
+    overrideAccess: true,
+    context: { audit },
+  })
+
+  return { key, apiKey, previous }
+}
+
+function isExpired(apiKey: Pick<ProviderApiKey, 'expiresAt'>, now: Date = new Date()): boolean {
+  return Boolean(apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= now.getTime())
+}
+
+/**
+ * Resolve an active provider (with its linked services populated) from a plaintext API key
+ * Records last-used time on both the key and the provider. `livemode` is false for test keys.
+ */
+export async function authenticateProviderApiKey(
+  payload: Payload,
+  key: string,
+): Promise<{ provider: Provider; apiKey: ProviderApiKey; livemode: boolean } | null> {
+  // Quick format check before database query
+  if (!isValidApiKeyFormat(key)) {
+    return null
+  }
+
+  const result = await payload.find({
+    collection: 'provider-api-keys',
+    where: {
+      keyHash: { equals: hashApiKey(key) },
+      status: { equals: 'active' },
+    },
+    limit: 1,
+    depth: 2, // Populate the provider and its linked services
+    overrideAccess: true,
+  })
+
+  const apiKey = result.docs[0]
+  if (!apiKey || isExpired(apiKey)) {
+    return null
+  }
+
+  const provider = apiKey.provider as Provider
+  if (!provider || typeof provider === 'string' || provider.status !== 'active') {
+    return null
+  }
+
+  // Update last used timestamps (fire and forget)
+  const lastUsedAt = new Date().toISOString()
+  Promise.all([
+    payload.update({
+      collection: 'provider-api-keys',
+      id: apiKey.id,
+      data: { lastUsedAt },
+      overrideAccess: true,
+    }),
+    payload.update({
+      collection: 'providers',
+      id: provider.id,
+      data: { lastUsedAt },
+      overrideAccess: true,
+    }),
+  ]).catch((err) => console.error('Failed to update lastUsedAt:', err))
+
+  return { provider, apiKey, livemode: apiKey.mode !== 'test' }
+}
@@ -0,0 +1,187 @@
+import type { Payload, Where } from 'payload'
+import type { Order, Provider, Service } from '@/payload-types'
+import { getBearerApiKey } from '@/lib/api-key'
+import { authenticateProviderApiKey } from '@/lib/provider-api-keys'
+import { ORDER_STATUSES, type OrderStatus } from '@/lib/order-status'
+import { getLivemodeWhere } from '@/lib/livemode'
+
+/**
+ * Provider REST API helpers
+ *
+ * The `/api/v1/provider/*` routes let providers query their own orders, e.g. to reconcile
+ * after a missed webhook. Every query is scoped to the provider that owns the API key, and to
+ * the key's mode: test keys only see test orders and live keys only live orders.
+ */
+
+export const DEFAULT_PAGE_SIZE = 25
+export const MAX_PAGE_SIZE = 100
+
+/**
+ * Resolve the active provider, and the key's mode, from an `Authorization: Bearer provider_...`
+ * header
+ */
+export async function authenticateProviderRequest(
+  payload: Payload,
+  req: Request,
+): Promise<{ provider: Provider; livemode: boolean } | null> {
+  const key = getBearerApiKey(req)
+  if (!key) return null
+
+  const result = await authenticateProviderApiKey(payload, key)
+  return result ? { provider: result.provider, livemode: result.livemode } : null
+}
+
+/**
+ * Find one of the provider's orders by document id or client order id (ORD-...)
+ * Orders of other providers, or of the other mode, are reported as not found
+ */
+export async function findProviderOrder(
+  payload: Payload,
+  provider: Provider,
+  id: string,
+  livemode = true,
+): Promise<Order | null> {
+  const isObjectId = /^[a-f\d]{24}$/i.test(id)
+
+  const result = await payload.find({
+    collection: 'orders',
+    where: {
+      and: [
+        { provider: { equals: provider.id } },
+        getLivemodeWhere(livemode),
+        isObjectId ? { id: { equals: id } } : { orderId: { equals: id } },
+      ],
+    },
+    limit: 1,
+    depth: 1, // Populate service
+    overrideAccess: true,
+  })
+
+  return result.docs[0] || null
+}
+
+/**
+ * Public representation of an order, using the same field names as provider webhooks
+ */
+export function serializeProviderOrder(order: Order) {
+  const service = order.service as Service | string
+
+  return {
+    orderId: order.id,
+    clientOrderId: order.orderId || null,
+    externalId: order.externalId || null,
+    serviceId: typeof service === 'string' ? service : service?.id,
+    serviceName: typeof service === 'string' ? null : service?.title || null,
+    amount: order.total,
+    amountRefunded: order.amountRefunded || 0,
+    quantity: order.quantity || 1,
+    status: order.status,
+    livemode: order.livemode !== false,
+    disputeStatus: order.disputeStatus || null,
+    stripePaymentIntentId: order.stripePaymentIntentId || null,
+    metadata: order.metadata || null,
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+  }
+}
+
+// The cursor points just past the last order of a page: its createdAt plus the ids that share
+// that exact timestamp, so ties across page boundaries are neither skipped nor repeated
+export interface OrderCursor {
+  createdAt: string
+  ids: string[]
+}
+
+export function encodeOrderCursor(
+  orders: Pick<Order, 'id' | 'createdAt'>[],
+  previous?: OrderCursor | null,
+): string | null {
+  const last = orders[orders.length - 1]
+  if (!last) return null
+
+  const ids = orders.filter((order) => order.createdAt === last.createdAt).map((order) => order.id)
+  // A timestamp shared by more orders than fit on one page spans several cursors
+  if (previous?.createdAt === last.createdAt) {
+    ids.unshift(...previous.ids)
+  }
+
+  const cursor: OrderCursor = { createdAt: last.createdAt, ids }
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeOrderCursor(value: string): OrderCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    if (
+      typeof cursor?.createdAt !== 'string' ||
+      isNaN(new Date(cursor.createdAt).getTime()) ||
+      !Array.isArray(cursor.ids) ||
+      !cursor.ids.every((id: unknown) => typeof id === 'string')
+    ) {
+      return null
+    }
+    return cursor
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build the filter for `GET /api/v1/provider/orders` from its query string
+ * Returns an error message for invalid parameters
+ */
+export function buildProviderOrdersQuery(
+  provider: Provider,
+  searchParams: URLSearchParams,
+  livemode = true,
+): { where: Where; limit: number; cursor: OrderCursor | null } | { error: string } {
+  const conditions: Where[] = [{ provider: { equals: provider.id } }, getLivemodeWhere(livemode)]
+
+  const status = searchParams.get('status')
+  if (status) {
+    const statuses = status.split(',').map((s) => s.trim())
+    const invalid = statuses.filter((s) => !ORDER_STATUSES.includes(s as OrderStatus))
+    if (invalid.length > 0) {
+      return { error: `Invalid status: ${invalid.join(', ')}` }
+    }
+    conditions.push({ status: { in: statuses } })
+  }
+
+  const externalId = searchParams.get('externalId')
+  if (externalId) {
+    conditions.push({ externalId: { equals: externalId } })
+  }
+
+  for (const [param, operator] of [
+    ['from', 'greater_than_equal'],
+    ['to', 'less_than_equal'],
+  ] as const) {
+    const value = searchParams.get(param)
+    if (!value) continue
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      return { error: `Invalid ${param} date` }
+    }
+    conditions.push({ createdAt: { [operator]: date.toISOString() } })
+  }
+
+  const cursorParam = searchParams.get('cursor')
+  const cursor = cursorParam ? decodeOrderCursor(cursorParam) : null
+  if (cursorParam) {
+    if (!cursor) {
+      return { error: 'Invalid cursor' }
+    }
+    conditions.push({ createdAt: { less_than_equal: cursor.createdAt } })
+    if (cursor.ids.length > 0) {
+      conditions.push({ id: { not_in: cursor.ids } })
+    }
+  }
+
+  const limitParam = searchParams.get('limit')
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` }
+  }
+
+  return { where: { and: conditions }, limit, cursor }
+}
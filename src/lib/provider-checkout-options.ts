@@ -0,0 +1,126 @@
+import type { Provider } from '@/payload-types'
+
+/**
+ * Per-Order Checkout Options
+ *
+ * Providers may pass their own `successUrl` / `cancelUrl` and a small `metadata` object when
+ * creating a payment session. Redirect URLs must point at one of the provider's allowed
+ * redirect domains; metadata is stored on the order and echoed back in webhooks.
+ */
+
+export const MAX_METADATA_KEYS = 20
+export const MAX_METADATA_KEY_LENGTH = 40
+export const MAX_METADATA_VALUE_LENGTH = 500
+
+export type OrderMetadata = Record<string, string | number | boolean | null>
+
+export interface ProviderCheckoutOptions {
+  successUrl?: string
+  cancelUrl?: string
+  metadata?: OrderMetadata
+}
+
+/**
+ * Normalize an allowlist entry, e.g. "https://Shop.Example.com/" -> "shop.example.com"
+ */
+export function normalizeRedirectDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^\*\./, '')
+    .replace(/[/:].*$/, '')
+}
+
+/**
+ * Check a redirect URL against a list of allowed domains (subdomains included)
+ * Only https is accepted, except for localhost during development
+ */
+export function isAllowedRedirectUrl(url: string, allowedDomains: string[]): boolean {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return false
+  }
+
+  const hostname = parsed.hostname.toLowerCase()
+  const isLocalhost = hostname === 'localhost' || hostname === '127.0.0.1'
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && isLocalhost)) {
+    return false
+  }
+
+  return allowedDomains
+    .map(normalizeRedirectDomain)
+    .filter(Boolean)
+    .some((domain) => hostname === domain || hostname.endsWith(`.${domain}`))
+}
+
+/**
+ * Validate a metadata object: flat, at most MAX_METADATA_KEYS keys, short keys and values
+ */
+export function validateOrderMetadata(
+  value: unknown,
+): { metadata: OrderMetadata } | { error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'metadata must be an object' }
+  }
+
+  const entries = Object.entries(value)
+  if (entries.length > MAX_METADATA_KEYS) {
+    return { error: `metadata can have at most ${MAX_METADATA_KEYS} keys` }
+  }
+
+  for (const [key, item] of entries) {
+    if (!key || key.length > MAX_METADATA_KEY_LENGTH) {
+      return { error: `metadata keys must be 1-${MAX_METADATA_KEY_LENGTH} characters` }
+    }
+    if (item !== null && !['string', 'number', 'boolean'].includes(typeof item)) {
+      return { error: `metadata.${key} must be a string, number, boolean or null` }
+    }
+    if (typeof item === 'string' && item.length > MAX_METADATA_VALUE_LENGTH) {
+      return {
+        error: `metadata.${key} must be at most ${MAX_METADATA_VALUE_LENGTH} characters`,
+      }
+    }
+  }
+
+  return { metadata: value as OrderMetadata }
+}
+
+/**
+ * Validate the optional `successUrl`, `cancelUrl` and `metadata` of a create-payment-intent request
+ */
+export function validateProviderCheckoutOptions(
+  provider: Pick<Provider, 'allowedRedirectDomains'>,
+  body: { successUrl?: unknown; cancelUrl?: unknown; metadata?: unknown },
+): ProviderCheckoutOptions | { error: string } {
+  const options: ProviderCheckoutOptions = {}
+  const allowedDomains = (provider.allowedRedirectDomains || []).map((entry) => entry.domain)
+
+  for (const field of ['successUrl', 'cancelUrl'] as const) {
+    const url = body[field]
+    if (url === undefined || url === null || url === '') continue
+
+    if (typeof url !== 'string') {
+      return { error: `${field} must be a string` }
+    }
+    if (allowedDomains.length === 0) {
+      return {
+        error: `${field} is not allowed: no redirect domains are configured for this provider`,
+      }
+    }
+    if (!isAllowedRedirectUrl(url, allowedDomains)) {
+      return { error: `${field} must be an https URL on an allowed redirect domain` }
+    }
+    options[field] = url
+  }
+
+  if (body.metadata !== undefined && body.metadata !== null) {
+    const result = validateOrderMetadata(body.metadata)
+    if ('error' in result) return result
+    options.metadata = result.metadata
+  }
+
+  return options
+}
@@ -0,0 +1,657 @@
+import { APIError, type Payload, type PayloadRequest } from 'payload'
+import type { LedgerEntry, Order, User } from '@/payload-types'
+import type { OrderStatus } from '@/lib/order-status'
+import { getLivemodeWhere } from '@/lib/livemode'
+import { isUniqueViolation } from '@/lib/db-errors'
+
+/**
+ * Provider Ledger
+ *
+ * Double-entry record of what the platform owes each provider. Every business event is one
+ * balanced transaction between two accounts:
+ *
+ * | Event        | Debit              | Credit             |
+ * |--------------|--------------------|--------------------|
+ * | payment      | `stripe_balance`   | `provider_payable` |
+ * | platform_fee | `provider_payable` | `platform_revenue` |
+ * | refund       | `provider_payable` | `stripe_balance`   |
+ * | dispute_loss | `provider_payable` | `stripe_balance`   |
+ * | payout       | `provider_payable` | `stripe_balance`   |
+ *
+ * A provider's balance is the credit balance of its `provider_payable` account. Order entries
+ * are derived from the order itself (`getOrderLedgerPostings`) and keyed by the event, so
+ * posting is idempotent and statements can be reconciled against the `orders` collection.
+ */
+
+export type LedgerEntryType = LedgerEntry['type']
+export type LedgerAccount = LedgerEntry['debitAccount']
+
+export interface LedgerPosting {
+  key: string
+  type: LedgerEntryType
+  amount: number
+  description: string
+  reference?: string | null
+  occurredAt: string
+}
+
+export interface LedgerSummary {
+  balance: number
+  payments: number
+  fees: number
+  refunds: number
+  disputeLosses: number
+  payouts: number
+}
+
+export interface LedgerDiscrepancy {
+  orderId: string
+  key: string
+  issue: 'missing' | 'amount_mismatch' | 'unexpected'
+  expected: number | null
+  recorded: number | null
+}
+
+export interface StatementLine {
+  date: string
+  type: LedgerEntryType
+  orderId: string | null
+  reference: string | null
+  description: string
+  debit: number
+  credit: number
+  balance: number
+}
+
+export interface ProviderStatement {
+  providerId: string
+  from: string
+  to: string
+  openingBalance: number
+  closingBalance: number
+  totals: Omit<LedgerSummary, 'balance'>
+  lines: StatementLine[]
+  discrepancies: LedgerDiscrepancy[]
+}
+
+export const LEDGER_POSTINGS: Record<
+  LedgerEntryType,
+  { debitAccount: LedgerAccount; creditAccount: LedgerAccount }
+> = {
+  payment: { debitAccount: 'stripe_balance', creditAccount: 'provider_payable' },
+  platform_fee: { debitAccount: 'provider_payable', creditAccount: 'platform_revenue' },
+  refund: { debitAccount: 'provider_payable', creditAccount: 'stripe_balance' },
+  dispute_loss: { debitAccount: 'provider_payable', creditAccount: 'stripe_balance' },
+  payout: { debitAccount: 'provider_payable', creditAccount: 'stripe_balance' },
+}
+
+// Statuses reached only after the order's payment went through
+export const SETTLED_STATUSES: readonly OrderStatus[] = [
+  'paid',
+  'disputed',
+  'partially_refunded',
+  'refunded',
+]
+
+type LedgerOrder = Pick<
+  Order,
+  | 'id'
+  | 'orderId'
+  | 'status'
+  | 'total'
+  | 'statusHistory'
+  | 'refunds'
+  | 'disputeId'
+  | 'disputeStatus'
+  | 'disputeAmount'
+  | 'updatedAt'
+  | 'paidAt'
+  | 'platformFee'
+  | 'livemode'
+>
+
+type LedgerEntryLike = Pick<
+  LedgerEntry,
+  'key' | 'type' | 'amount' | 'debitAccount' | 'creditAccount' | 'occurredAt'
+> &
+  Partial<Pick<LedgerEntry, 'order' | 'reference' | 'description'>>
+
+// A payout lock older than this is assumed to belong to a crashed request
+const PAYOUT_LOCK_MS = 30 * 1000
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+const relationId = (value: string | { id: string } | null | undefined) =>
+  typeof value === 'string' ? value : value?.id
+
+/**
+ * Effect of an entry on the provider's balance, in cents (credits increase what we owe)
+ */
+function payableCents(entry: Pick<LedgerEntry, 'amount' | 'debitAccount' | 'creditAccount'>) {
+  if (entry.creditAccount === 'provider_payable') return toCents(entry.amount)
+  if (entry.debitAccount === 'provider_payable') return -toCents(entry.amount)
+  return 0
+}
+
+/**
+ * The ledger postings an order should have, given its current state
+ * The platform fee is the one recorded on the order when it was paid (see `applyOrderFees`).
+ * Test orders owe the provider nothing and have no postings.
+ */
+export function getOrderLedgerPostings(order: LedgerOrder): LedgerPosting[] {
+  if (!SETTLED_STATUSES.includes(order.status) || order.livemode === false) return []
+
+  const history = order.statusHistory || []
+  const label = order.orderId || order.id
+  const paidAt =
+    order.paidAt || history.find((entry) => entry.to === 'paid')?.changedAt || order.updatedAt
+  const postings: LedgerPosting[] = [
+    {
+      key: `payment:${order.id}`,
+      type: 'payment',
+      amount: order.total,
+      description: `Payment for order ${label}`,
+      occurredAt: paidAt,
+    },
+  ]
+
+  if (order.platformFee && order.platformFee > 0) {
+    postings.push({
+      key: `platform_fee:${order.id}`,
+      type: 'platform_fee',
+      amount: order.platformFee,
+      description: `Platform fee on order ${label}`,
+      occurredAt: paidAt,
+    })
+  }
+
+  for (const refund of order.refunds || []) {
+    if (refund.status !== 'succeeded' || !refund.stripeRefundId) continue
+    postings.push({
+      key: `refund:${refund.stripeRefundId}`,
+      type: 'refund',
+      amount: refund.amount,
+      description: `Refund on order ${label}`,
+      reference: refund.stripeRefundId,
+      occurredAt: refund.createdAt || order.updatedAt,
+    })
+  }
+
+  if (order.disputeStatus === 'lost' && order.disputeId) {
+    const lostAt = [...history]
+      .reverse()
+      .find((entry) => entry.from === 'disputed' && entry.to === 'refunded')?.changedAt
+    postings.push({
+      key: `dispute_loss:${order.disputeId}`,
+      type: 'dispute_loss',
+      amount: order.disputeAmount ?? order.total,
+      description: `Dispute lost on order ${label}`,
+      reference: order.disputeId,
+      occurredAt: lostAt || order.updatedAt,
+    })
+  }
+
+  return postings
+}
+
+/**
+ * Balance and per-type totals of a provider's entries, in dollars
+ */
+export function summarizeLedger(
+  entries: Pick<LedgerEntry, 'type' | 'amount' | 'debitAccount' | 'creditAccount'>[],
+): LedgerSummary {
+  const cents: Record<LedgerEntryType, number> = {
+    payment: 0,
+    platform_fee: 0,
+    refund: 0,
+    dispute_loss: 0,
+    payout: 0,
+  }
+  let balance = 0
+
+  for (const entry of entries) {
+    cents[entry.type] += toCents(entry.amount)
+    balance += payableCents(entry)
+  }
+
+  return {
+    balance: balance / 100,
+    payments: cents.payment / 100,
+    fees: cents.platform_fee / 100,
+    refunds: cents.refund / 100,
+    disputeLosses: cents.dispute_loss / 100,
+    payouts: cents.payout / 100,
+  }
+}
+
+/**
+ * Compare recorded order entries with the postings derived from the orders themselves
+ * With `asOf`, postings dated at or after it are not expected yet.
+ */
+export function reconcileLedger(
+  orders: LedgerOrder[],
+  entries: LedgerEntryLike[],
+  asOf?: Date,
+): LedgerDiscrepancy[] {
+  const recorded = new Map(entries.map((entry) => [entry.key, entry]))
+  const discrepancies: LedgerDiscrepancy[] = []
+
+  for (const order of orders) {
+    const expectedKeys = new Set<string>()
+
+    for (const posting of getOrderLedgerPostings(order)) {
+      if (asOf && new Date(posting.occurredAt) >= asOf) continue
+      expectedKeys.add(posting.key)
+      const entry = recorded.get(posting.key)
+      if (!entry) {
+        discrepancies.push({
+          orderId: order.id,
+          key: posting.key,
+          issue: 'missing',
+          expected: posting.amount,
+          recorded: null,
+        })
+      } else if (toCents(entry.amount) !== toCents(posting.amount)) {
+        discrepancies.push({
+          orderId: order.id,
+          key: posting.key,
+          issue: 'amount_mismatch',
+          expected: posting.amount,
+          recorded: entry.amount,
+        })
+      }
+    }
+
+    for (const entry of recorded.values()) {
+      if (relationId(entry.order) === order.id && !expectedKeys.has(entry.key)) {
+        discrepancies.push({
+          orderId: order.id,
+          key: entry.key,
+          issue: 'unexpected',
+          expected: null,
+          recorded: entry.amount,
+        })
+      }
+    }
+  }
+
+  return discrepancies
+}
+
+/**
+ * Period statement from a provider's entries before `to`
+ * Entries before `from` make up the opening balance; the rest are listed with a running balance.
+ */
+export function buildStatement(
+  providerId: string,
+  period: { from: Date; to: Date },
+  entries: LedgerEntryLike[],
+  discrepancies: LedgerDiscrepancy[] = [],
+): ProviderStatement {
+  const sorted = [...entries].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt))
+  const opening = sorted.filter((entry) => new Date(entry.occurredAt) < period.from)
+  const inPeriod = sorted.filter((entry) => {
+    const date = new Date(entry.occurredAt)
+    return date >= period.from && date < period.to
+  })
+
+  let balance = opening.reduce((sum, entry) => sum + payableCents(entry), 0)
+  const openingBalance = balance / 100
+
+  const lines = inPeriod.map((entry): StatementLine => {
+    const cents = payableCents(entry)
+    balance += cents
+    return {
+      date: entry.occurredAt,
+      type: entry.type,
+      orderId: relationId(entry.order) || null,
+      reference: entry.reference || null,
+      description: entry.description || '',
+      debit: cents < 0 ? -cents / 100 : 0,
+      credit: cents > 0 ? cents / 100 : 0,
+      balance: balance / 100,
+    }
+  })
+
+  const { balance: _net, ...totals } = summarizeLedger(inPeriod)
+
+  return {
+    providerId,
+    from: period.from.toISOString(),
+    to: period.to.toISOString(),
+    openingBalance,
+    closingBalance: balance / 100,
+    totals,
+    lines,
+    discrepancies,
+  }
+}
+
+const csvValue = (value: string | number | null) => {
+  const text = value == null ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const csvRow = (values: (string | number | null)[]) => values.map(csvValue).join(',')
+
+/**
+ * CSV rendering of a statement: summary, entries, then any reconciliation discrepancies
+ */
+export function statementToCsv(statement: ProviderStatement, providerName: string): string {
+  const money = (amount: number) => amount.toFixed(2)
+  const rows = [
+    csvRow(['Provider', providerName]),
+    csvRow(['Period', `${statement.from} – ${statement.to}`]),
+    csvRow(['Opening balance', money(statement.openingBalance)]),
+    csvRow(['Payments', money(statement.totals.payments)]),
+    csvRow(['Platform fees', money(statement.totals.fees)]),
+    csvRow(['Refunds', money(statement.totals.refunds)]),
+    csvRow(['Dispute losses', money(statement.totals.disputeLosses)]),
+    csvRow(['Payouts', money(statement.totals.payouts)]),
+    csvRow(['Closing balance', money(statement.closingBalance)]),
+    '',
+    csvRow(['Date', 'Type', 'Order', 'Reference', 'Description', 'Debit', 'Credit', 'Balance']),
+    ...statement.lines.map((line) =>
+      csvRow([
+        line.date,
+        line.type,
+        line.orderId,
+        line.reference,
+        line.description,
+        money(line.debit),
+        money(line.credit),
+        money(line.balance),
+      ]),
+    ),
+    '',
+    csvRow([
+      'Reconciliation',
+      statement.discrepancies.length
+        ? `${statement.discrepancies.length} discrepancies with the orders collection`
+        : 'Ledger matches the orders collection',
+    ]),
+  ]
+
+  if (statement.discrepancies.length) {
+    rows.push(csvRow(['Order', 'Entry', 'Issue', 'Expected', 'Recorded']))
+    for (const item of statement.discrepancies) {
+      rows.push(
+        csvRow([
+          item.orderId,
+          item.key,
+          item.issue,
+          item.expected == null ? null : money(item.expected),
+          item.recorded == null ? null : money(item.recorded),
+        ]),
+      )
+    }
+  }
+
+  return rows.join('\n') + '\n'
+}
+
+/**
+ * Post any of an order's ledger entries that are not recorded yet
+ * Returns the number of entries created.
+ */
+export async function postOrderLedgerEntries(
+  payload: Payload,
+  order: LedgerOrder & Pick<Order, 'provider'>,
+  req?: PayloadRequest,
+): Promise<number> {
+  const providerId = relationId(order.provider)
+  if (!providerId || !SETTLED_STATUSES.includes(order.status)) return 0
+
+  const existing = await payload.find({
+    collection: 'ledger-entries',
+    where: { order: { equals: order.id } },
+    depth: 0,
+    pagination: false,
+    overrideAccess: true,
+    select: { key: true },
+    req,
+  })
+  const existingKeys = new Set(existing.docs.map((entry) => entry.key))
+
+  const postings = getOrderLedgerPostings(order).filter((posting) => !existingKeys.has(posting.key))
+
+  for (const posting of postings) {
+    await payload.create({
+      collection: 'ledger-entries',
+      data: {
+        ...posting,
+        ...LEDGER_POSTINGS[posting.type],
+        provider: providerId,
+        order: order.id,
+      },
+      overrideAccess: true,
+      req,
+    })
+  }
+
+  return postings.length
+}
+
+/**
+ * All of a provider's entries, optionally only those before a date
+ */
+export async function getProviderLedgerEntries(
+  payload: Payload,
+  providerId: string,
+  before?: Date,
+): Promise<LedgerEntry[]> {
+  const result = await payload.find({
+    collection: 'ledger-entries',
+    where: {
+      and: [
+        { provider: { equals: providerId } },
+        ...(before ? [{ occurredAt: { less_than: before.toISOString() } }] : []),
+      ],
+    },
+    sort: 'occurredAt',
+    depth: 0,
+    pagination: false,
+    overrideAccess: true,
+  })
+  return result.docs
+}
+
+/**
+ * Run `record` holding the provider's payout lock (`payoutLockedUntil`), taken with a
+ * conditional update so payouts to one provider never overlap
+ * Throws APIError (409) while another payout to the provider is being recorded.
+ */
+async function withPayoutLock<T>(
+  payload: Payload,
+  providerId: string,
+  record: () => Promise<T>,
+): Promise<T> {
+  const now = new Date()
+  const lockedUntil = new Date(now.getTime() + PAYOUT_LOCK_MS).toISOString()
+
+  const locked = await payload.db.updateOne({
+    collection: 'providers',
+    where: {
+      and: [
+        { id: { equals: providerId } },
+        {
+          or: [
+            { payoutLockedUntil: { exists: false } },
+            { payoutLockedUntil: { equals: null } },
+            { payoutLockedUntil: { less_than: now.toISOString() } },
+          ],
+        },
+      ],
+    },
+    // `updatedAt: null` leaves the provider's updatedAt alone
+    data: { payoutLockedUntil: lockedUntil, updatedAt: null },
+  })
+  if (!locked) {
+    throw new APIError(
+      'Another payout to this provider is being recorded; try again in a moment',
+      409,
+      undefined,
+      true,
+    )
+  }
+
+  try {
+    return await record()
+  } finally {
+    await payload.db
+      .updateOne({
+        collection: 'providers',
+        where: {
+          and: [{ id: { equals: providerId } }, { payoutLockedUntil: { equals: lockedUntil } }],
+        },
+        data: { payoutLockedUntil: null, updatedAt: null },
+      })
+      .catch((err) =>
+        console.error(`[LEDGER] Failed to release the payout lock of ${providerId}:`, err),
+      )
+  }
+}
+
+/**
+ * Record a payout sent to a provider outside the platform (e.g. a bank transfer)
+ * Payouts to a provider are recorded one at a time, each against the balance the previous one
+ * left. The reference is part of the entry's unique key, so a retried request never posts twice.
+ * Throws APIError (400) for invalid amounts or amounts above the balance, (409) for a reused
+ * reference or while another payout to the provider is being recorded.
+ */
+export async function recordPayout(
+  payload: Payload,
+  {
+    providerId,
+    amount,
+    reference,
+    note,
+    user,
+  }: { providerId: string; amount: number; reference: string; note?: string; user: User },
+): Promise<LedgerEntry> {
+  if (!Number.isFinite(amount) || amount <= 0 || Math.abs(toCents(amount) - amount * 100) > 1e-6) {
+    throw new APIError('Payout amount must be a positive dollar amount', 400, undefined, true)
+  }
+
+  const provider = await payload.findByID({
+    collection: 'providers',
+    id: providerId,
+    depth: 0,
+    overrideAccess: true,
+    select: { name: true },
+  })
+
+  const key = `payout:${providerId}:${reference}`
+  const duplicateError = new APIError(
+    `A payout with reference "${reference}" already exists`,
+    409,
+    undefined,
+    true,
+  )
+
+  return withPayoutLock(payload, providerId, async () => {
+    const duplicate = await payload.find({
+      collection: 'ledger-entries',
+      where: { key: { equals: key } },
+      depth: 0,
+      limit: 1,
+      overrideAccess: true,
+    })
+    if (duplicate.docs.length) throw duplicateError
+
+    const { balance } = summarizeLedger(await getProviderLedgerEntries(payload, providerId))
+    if (toCents(amount) > toCents(balance)) {
+      throw new APIError(
+        `Payout exceeds the provider's balance of $${balance.toFixed(2)}`,
+        400,
+        undefined,
+        true,
+      )
+    }
+
+    try {
+      return await payload.create({
+        collection: 'ledger-entries',
+        data: {
+          key,
+          type: 'payout',
+          ...LEDGER_POSTINGS.payout,
+          provider: providerId,
+          amount: toCents(amount) / 100,
+          description: note || `Payout to ${provider.name}`,
+          reference,
+          occurredAt: new Date().toISOString(),
+          createdBy: user.id,
+        },
+        overrideAccess: true,
+      })
+    } catch (error: unknown) {
+      // Unique index on key: the same reference was recorded since the check above
+      if (isUniqueViolation(error, 'key')) throw duplicateError
+      throw error
+    }
+  })
+}
+
+/**
+ * Statement for a provider and period, reconciled against the provider's orders that have
+ * ledger activity (recorded or expected) in the period
+ */
+export async function getProviderStatement(
+  payload: Payload,
+  providerId: string,
+  period: { from: Date; to: Date },
+): Promise<ProviderStatement> {
+  const entries = await getProviderLedgerEntries(payload, providerId, period.to)
+
+  const orders = await payload.find({
+    collection: 'orders',
+    where: {
+      and: [
+        { provider: { equals: providerId } },
+        { status: { in: [...SETTLED_STATUSES] } },
+        getLivemodeWhere(true),
+      ],
+    },
+    depth: 0,
+    pagination: false,
+    overrideAccess: true,
+    select: {
+      orderId: true,
+      status: true,
+      total: true,
+      statusHistory: true,
+      refunds: true,
+      disputeId: true,
+      disputeStatus: true,
+      disputeAmount: true,
+      updatedAt: true,
+      paidAt: true,
+      platformFee: true,
+    },
+  })
+
+  const inPeriod = (date: string) => {
+    const value = new Date(date)
+    return value >= period.from && value < period.to
+  }
+  const activeOrderIds = new Set(
+    entries
+      .filter((entry) => inPeriod(entry.occurredAt))
+      .map((entry) => relationId(entry.order))
+      .filter(Boolean),
+  )
+  const periodOrders = orders.docs.filter(
+    (order) =>
+      activeOrderIds.has(order.id) ||
+      getOrderLedgerPostings(order).some((posting) => inPeriod(posting.occurredAt)),
+  )
+
+  const discrepancies = reconcileLedger(
+    periodOrders,
+    entries.filter((entry) => entry.order),
+    period.to,
+  )
+
+  return buildStatement(providerId, period, entries, discrepancies)
+}
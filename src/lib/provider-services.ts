@@ -0,0 +1,53 @@
+import type { Provider, Service } from '@/payload-types'
+
+/**
+ * Provider Services
+ *
+ * A provider is linked to one or more services. Requests to
+ * `create-payment-intent` choose a service with `serviceSlug`, or get the provider's primary
+ * service. A link may override the service's amount rules (see `@/lib/amount-rules`).
+ * Expects the provider to be loaded with its services populated (depth >= 1).
+ */
+
+export type ProviderServiceLink = NonNullable<Provider['services']>[number]
+
+const relationId = (value: string | { id: string } | null | undefined) =>
+  typeof value === 'string' ? value : value?.id
+
+/**
+ * Find a provider's link to a service by id
+ */
+export function findProviderServiceLink(
+  provider: Pick<Provider, 'services'>,
+  serviceId: string,
+): ProviderServiceLink | null {
+  return (provider.services || []).find((link) => relationId(link.service) === serviceId) || null
+}
+
+/**
+ * Resolve the service a provider request charges: the linked service matching `serviceSlug`,
+ * or the primary service when no slug is given
+ */
+export function resolveProviderService(
+  provider: Pick<Provider, 'services' | 'primaryService'>,
+  serviceSlug?: string | null,
+): { service: Service; link: ProviderServiceLink } | { error: string } {
+  const links = (provider.services || []).filter(
+    (link): link is ProviderServiceLink & { service: Service } =>
+      Boolean(link.service) && typeof link.service !== 'string',
+  )
+
+  const link = serviceSlug
+    ? links.find((item) => item.service.slug === serviceSlug)
+    : links.find((item) => item.service.id === relationId(provider.primaryService))
+
+  if (!link) {
+    return {
+      error: serviceSlug
+        ? `Service "${serviceSlug}" is not available for this provider`
+        : 'Provider has no primary service configured',
+    }
+  }
+
+  return { service: link.service, link }
+}
@@ -0,0 +1,305 @@
+import type { Payload } from 'payload'
+import type Stripe from 'stripe'
+import type { Order, ReconciliationReport, User } from '@/payload-types'
+import { AWAITING_PAYMENT_STATUSES, canTransitionOrderStatus } from '@/lib/order-status'
+import { SETTLED_STATUSES } from '@/lib/provider-ledger'
+import { syncOrderRefunds } from '@/lib/refunds'
+import {
+  getStripeAccountForOrder,
+  listStripeAccounts,
+  type StripeAccount,
+} from '@/lib/stripe-accounts'
+
+/**
+ * Stripe Reconciliation
+ *
+ * Pages through every Stripe account's PaymentIntents and refunds created in a window and
+ * matches them to orders by `stripePaymentIntentId`. Safe drifts are fixed on the spot:
+ * - refunds missing from the order, or with a stale status, are synced from Stripe
+ * - pending orders whose PaymentIntent was canceled become `failed`
+ * Everything else — PaymentIntents without an order, orders awaiting payment that Stripe
+ * collected, paid orders Stripe did not collect, amount mismatches, orders whose PaymentIntent
+ * is gone — is written to a `reconciliation-reports` document for an admin to review.
+ */
+
+export type ReconciliationDiscrepancy = NonNullable<ReconciliationReport['discrepancies']>[number]
+export type ReconciliationFix = NonNullable<ReconciliationReport['fixes']>[number]
+
+// The nightly run re-checks two days so nothing falls between runs
+export const RECONCILIATION_LOOKBACK_HOURS = 48
+export const MAX_RECONCILIATION_WINDOW_DAYS = 31
+
+// PaymentIntents in these states have collected (or are collecting) money
+const COLLECTED_PAYMENT_STATUSES: readonly Stripe.PaymentIntent.Status[] = [
+  'succeeded',
+  'processing',
+  'requires_capture',
+]
+
+type ReconciledOrder = Pick<Order, 'id' | 'status' | 'total'>
+type ReconciledPaymentIntent = Pick<Stripe.PaymentIntent, 'id' | 'status' | 'amount' | 'metadata'>
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+const formatAmount = (cents: number) => `$${(cents / 100).toFixed(2)}`
+
+/**
+ * Window reconciled by the scheduled run: the last `RECONCILIATION_LOOKBACK_HOURS` hours
+ */
+export function getDefaultReconciliationWindow(now: Date = new Date()): { from: Date; to: Date } {
+  return { from: new Date(now.getTime() - RECONCILIATION_LOOKBACK_HOURS * 60 * 60 * 1000), to: now }
+}
+
+/**
+ * Compare a PaymentIntent with its order (or the lack of one)
+ * Returns the safe fix to apply, if any, and the discrepancies that need review
+ */
+export function comparePaymentIntent(
+  paymentIntent: ReconciledPaymentIntent,
+  order: ReconciledOrder | null,
+): { fix: 'mark_failed' | null; discrepancies: ReconciliationDiscrepancy[] } {
+  const discrepancies: ReconciliationDiscrepancy[] = []
+
+  if (!order) {
+    // Only PaymentIntents created by checkout (they carry a serviceId) that took money matter
+    if (
+      paymentIntent.metadata?.serviceId &&
+      COLLECTED_PAYMENT_STATUSES.includes(paymentIntent.status)
+    ) {
+      discrepancies.push({
+        type: 'missing_order',
+        stripeObjectId: paymentIntent.id,
+        message: `PaymentIntent is ${paymentIntent.status} for ${formatAmount(paymentIntent.amount)} but no order references it`,
+      })
+    }
+    return { fix: null, discrepancies }
+  }
+
+  if (paymentIntent.amount !== toCents(order.total)) {
+    discrepancies.push({
+      type: 'amount_mismatch',
+      order: order.id,
+      stripeObjectId: paymentIntent.id,
+      message: `Stripe amount ${formatAmount(paymentIntent.amount)}, order total ${formatAmount(toCents(order.total))}`,
+    })
+  }
+
+  if (paymentIntent.status === 'succeeded' && AWAITING_PAYMENT_STATUSES.includes(order.status)) {
+    discrepancies.push({
+      type: 'paid_in_stripe',
+      order: order.id,
+      stripeObjectId: paymentIntent.id,
+      message: `PaymentIntent succeeded but the order is ${order.status}`,
+    })
+  }
+
+  if (paymentIntent.status !== 'succeeded' && SETTLED_STATUSES.includes(order.status)) {
+    discrepancies.push({
+      type: 'not_paid_in_stripe',
+      order: order.id,
+      stripeObjectId: paymentIntent.id,
+      message: `Order is ${order.status} but the PaymentIntent is ${paymentIntent.status}`,
+    })
+  }
+
+  const fix =
+    paymentIntent.status === 'canceled' &&
+    order.status === 'pending' &&
+    canTransitionOrderStatus(order.status, 'failed')
+      ? 'mark_failed'
+      : null
+
+  return { fix, discrepancies }
+}
+
+/**
+ * Whether Stripe knows refunds the order does not have, or with a different amount or status
+ */
+export function needsRefundSync(
+  order: Pick<Order, 'refunds'>,
+  stripeRefunds: Pick<Stripe.Refund, 'id' | 'amount' | 'status'>[],
+): boolean {
+  return stripeRefunds.some((refund) => {
+    const entry = (order.refunds || []).find((item) => item.stripeRefundId === refund.id)
+    return !entry || entry.status !== refund.status || toCents(entry.amount) !== refund.amount
+  })
+}
+
+const describeAccount = (account: StripeAccount) =>
+  account.source === 'platform' ? 'platform' : `${account.source} ${account.ownerId}`
+
+/**
+ * Reconcile one window and store the report
+ * Failures are recorded on the report (status `failed`) rather than thrown.
+ */
+export async function reconcileStripePayments(
+  payload: Payload,
+  {
+    from,
+    to,
+    trigger,
+    user,
+  }: { from: Date; to: Date; trigger: ReconciliationReport['trigger']; user?: User | null },
+): Promise<ReconciliationReport> {
+  const fixes: ReconciliationFix[] = []
+  const discrepancies: ReconciliationDiscrepancy[] = []
+  const summary = { accounts: 0, paymentIntents: 0, refunds: 0 }
+  const statusContext = { statusSource: 'sync' as const, statusNote: 'stripe reconciliation' }
+  let error: string | null = null
+
+  const findOrder = async (paymentIntentId: string) => {
+    const result = await payload.find({
+      collection: 'orders',
+      where: { stripePaymentIntentId: { equals: paymentIntentId } },
+      limit: 1,
+      depth: 0,
+      overrideAccess: true,
+    })
+    return result.docs[0] || null
+  }
+
+  const reconcilePaymentIntent = async (
+    paymentIntent: Stripe.PaymentIntent,
+    account: StripeAccount,
+    order: Order | null,
+  ) => {
+    const result = comparePaymentIntent(paymentIntent, order)
+    discrepancies.push(
+      ...result.discrepancies.map((item) => ({ ...item, stripeAccount: describeAccount(account) })),
+    )
+
+    if (order && result.fix === 'mark_failed') {
+      try {
+        await payload.update({
+          collection: 'orders',
+          id: order.id,
+          data: { status: 'failed' },
+          overrideAccess: true,
+          context: statusContext,
+        })
+        fixes.push({
+          order: order.id,
+          stripeObjectId: paymentIntent.id,
+          outcome: 'PaymentIntent was canceled: order marked failed',
+        })
+      } catch (err) {
+        console.error(`[RECONCILIATION] Failed to mark order ${order.id} failed:`, err)
+      }
+    }
+  }
+
+  try {
+    // Separate accounts can share keys with each other or the platform; list each account once
+    const accounts = (await listStripeAccounts(payload)).filter(
+      (account, index, all) =>
+        all.findIndex((item) => item.credentials.secretKey === account.credentials.secretKey) ===
+        index,
+    )
+    summary.accounts = accounts.length
+
+    const created = {
+      gte: Math.floor(from.getTime() / 1000),
+      lt: Math.floor(to.getTime() / 1000),
+    }
+    const seenPaymentIntents = new Set<string>()
+
+    for (const account of accounts) {
+      for await (const paymentIntent of account.stripe.paymentIntents.list({
+        created,
+        limit: 100,
+      })) {
+        summary.paymentIntents += 1
+        seenPaymentIntents.add(paymentIntent.id)
+        await reconcilePaymentIntent(paymentIntent, account, await findOrder(paymentIntent.id))
+      }
+
+      const refundsByPaymentIntent = new Map<string, Stripe.Refund[]>()
+      for await (const refund of account.stripe.refunds.list({ created, limit: 100 })) {
+        summary.refunds += 1
+        const paymentIntentId =
+          typeof refund.payment_intent === 'string'
+            ? refund.payment_intent
+            : refund.payment_intent?.id
+        if (paymentIntentId) {
+          refundsByPaymentIntent.set(paymentIntentId, [
+            ...(refundsByPaymentIntent.get(paymentIntentId) || []),
+            refund,
+          ])
+        }
+      }
+
+      for (const [paymentIntentId, refunds] of refundsByPaymentIntent) {
+        const order = await findOrder(paymentIntentId)
+        if (!order || !needsRefundSync(order, refunds)) continue
+        try {
+          const outcome = await syncOrderRefunds(payload, paymentIntentId, statusContext)
+          fixes.push({ order: order.id, stripeObjectId: paymentIntentId, outcome })
+        } catch (err) {
+          console.error(`[RECONCILIATION] Failed to sync refunds for order ${order.id}:`, err)
+        }
+      }
+    }
+
+    // Orders from the window whose PaymentIntent was not listed (created just outside the
+    // window, or missing from Stripe altogether)
+    const orders = await payload.find({
+      collection: 'orders',
+      where: {
+        and: [
+          { createdAt: { greater_than_equal: from.toISOString() } },
+          { createdAt: { less_than: to.toISOString() } },
+          { stripePaymentIntentId: { exists: true } },
+        ],
+      },
+      depth: 0,
+      pagination: false,
+      overrideAccess: true,
+    })
+
+    for (const order of orders.docs) {
+      if (!order.stripePaymentIntentId || seenPaymentIntents.has(order.stripePaymentIntentId)) {
+        continue
+      }
+      try {
+        const account = await getStripeAccountForOrder(payload, order)
+        const paymentIntent = await account.stripe.paymentIntents.retrieve(
+          order.stripePaymentIntentId,
+        )
+        await reconcilePaymentIntent(paymentIntent, account, order)
+      } catch (err) {
+        discrepancies.push({
+          type: 'payment_intent_not_found',
+          order: order.id,
+          stripeObjectId: order.stripePaymentIntentId,
+          stripeAccount: order.stripeAccount || 'platform',
+          message: err instanceof Error ? err.message : String(err),
+        })
+      }
+    }
+  } catch (err) {
+    console.error('[RECONCILIATION] ❌ Run failed:', err)
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const report = await payload.create({
+    collection: 'reconciliation-reports',
+    data: {
+      trigger,
+      status: error ? 'failed' : 'completed',
+      windowStart: from.toISOString(),
+      windowEnd: to.toISOString(),
+      summary: { ...summary, fixed: fixes.length, unresolved: discrepancies.length },
+      fixes,
+      discrepancies,
+      error,
+      requestedBy: user?.id || null,
+    },
+    overrideAccess: true,
+  })
+
+  console.log(
+    `[RECONCILIATION] ${report.status}: ${summary.paymentIntents} PaymentIntents, ${summary.refunds} refunds, ${fixes.length} fixed, ${discrepancies.length} unresolved`,
+  )
+
+  return report
+}
@@ -0,0 +1,22 @@
+/**
+ * Provider Redirect URLs
+ *
+ * Success/cancel URLs (on the provider or per order) may contain placeholders that are filled
+ * in when the customer is sent back: `{orderId}`, `{externalId}` and `{status}`.
+ */
+
+export interface RedirectUrlValues {
+  orderId: string
+  externalId?: string | null
+  status?: string | null
+}
+
+/**
+ * Replace the placeholders in a redirect URL template; values are URL-encoded
+ */
+export function buildRedirectUrl(templateUrl: string, values: RedirectUrlValues): string {
+  return templateUrl
+    .replace(/{orderId}/g, encodeURIComponent(values.orderId))
+    .replace(/{externalId}/g, encodeURIComponent(values.externalId || ''))
+    .replace(/{status}/g, encodeURIComponent(values.status || ''))
+}
@@ -0,0 +1,284 @@
+import { APIError, type Payload } from 'payload'
+import type Stripe from 'stripe'
+import type { Order, Provider, User } from '@/payload-types'
+import {
+  getStripeAccountForOrder,
+  isOrderStripeAccount,
+  type StripeAccount,
+} from '@/lib/stripe-accounts'
+import { enqueueWebhookDelivery } from '@/lib/webhook-delivery'
+import type { AuditSource } from '@/lib/audit-log'
+import {
+  canTransitionOrderStatus,
+  type OrderStatus,
+  type OrderStatusSource,
+} from '@/lib/order-status'
+
+/**
+ * Order Refunds
+ *
+ * Admins issue full or partial refunds from the dashboard or the order view. Stripe is the source
+ * of truth: every refund (ours or one created in the Stripe Dashboard) is merged into the order's
+ * `refunds` array by its Stripe id, and `amountRefunded` / `status` are recomputed from the
+ * refunds that succeeded. Providers receive a `payment_refunded` webhook when the amount grows.
+ */
+
+export type OrderRefund = NonNullable<Order['refunds']>[number]
+export type RefundReason = NonNullable<OrderRefund['reason']>
+
+export const REFUND_REASONS: readonly RefundReason[] = [
+  'requested_by_customer',
+  'duplicate',
+  'fraudulent',
+]
+
+// Only orders whose payment went through can be refunded
+export const REFUNDABLE_STATUSES: readonly OrderStatus[] = [
+  'paid',
+  'partially_refunded',
+  'disputed',
+]
+
+// Refunds Stripe has accepted but not finished; their amount is no longer refundable
+const PENDING_REFUND_STATUSES: readonly OrderRefund['status'][] = ['pending', 'requires_action']
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+/**
+ * Total of all succeeded refunds, in dollars
+ */
+export function getRefundedAmount(refunds: Pick<OrderRefund, 'amount' | 'status'>[]): number {
+  const cents = refunds
+    .filter((refund) => refund.status === 'succeeded')
+    .reduce((sum, refund) => sum + toCents(refund.amount), 0)
+  return cents / 100
+}
+
+/**
+ * Amount that can still be refunded on an order, in dollars
+ * Pending refunds count against it, so a second refund can't be issued while the first settles.
+ */
+export function getRefundableAmount(
+  order: Pick<Order, 'total' | 'amountRefunded' | 'refunds'>,
+): number {
+  const pendingCents = (order.refunds || [])
+    .filter((refund) => PENDING_REFUND_STATUSES.includes(refund.status))
+    .reduce((sum, refund) => sum + toCents(refund.amount), 0)
+  return Math.max(0, toCents(order.total) - toCents(order.amountRefunded || 0) - pendingCents) / 100
+}
+
+/**
+ * Status an order should have after refunds, or null if refunds do not affect it
+ */
+export function getRefundedStatus(total: number, amountRefunded: number): OrderStatus | null {
+  if (amountRefunded <= 0) return null
+  return toCents(amountRefunded) >= toCents(total) ? 'refunded' : 'partially_refunded'
+}
+
+/**
+ * Merge Stripe refunds into the order's refund entries, keyed by Stripe refund id
+ * Local details (note, createdBy) are kept; amount and status always come from Stripe
+ */
+function mergeRefunds(existing: OrderRefund[], stripeRefunds: Stripe.Refund[]): OrderRefund[] {
+  const merged = existing.map((entry) => ({ ...entry }))
+
+  for (const refund of stripeRefunds) {
+    const entry = merged.find((item) => item.stripeRefundId === refund.id)
+    const fields = {
+      amount: refund.amount / 100,
+      status: refund.status as OrderRefund['status'],
+      failureReason: refund.failure_reason || null,
+    }
+
+    if (entry) {
+      Object.assign(entry, fields)
+    } else {
+      merged.push({
+        stripeRefundId: refund.id,
+        reason: (refund.reason as RefundReason | null) || null,
+        createdAt: new Date(refund.created * 1000).toISOString(),
+        ...fields,
+      })
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Bring an order's refunds in line with Stripe and notify the provider if more was refunded
+ */
+async function applyRefunds(
+  payload: Payload,
+  order: Order,
+  stripeRefunds: Stripe.Refund[],
+  context: { statusSource: OrderStatusSource; statusNote: string; audit?: AuditSource },
+): Promise<{ order: Order; outcome: string }> {
+  const refunds = mergeRefunds(order.refunds || [], stripeRefunds)
+  const previousAmount = order.amountRefunded || 0
+  const amountRefunded = getRefundedAmount(refunds)
+  const refundedStatus = getRefundedStatus(order.total, amountRefunded)
+
+  // Refund details are always recorded, but the status only moves along legal transitions
+  let status = order.status
+  if (refundedStatus && canTransitionOrderStatus(order.status, refundedStatus)) {
+    status = refundedStatus
+  } else if (refundedStatus && refundedStatus !== order.status) {
+    console.warn(
+      `[REFUNDS] ⚠️ Order ${order.id} is ${order.status} — keeping status instead of ${refundedStatus}`,
+    )
+  }
+
+  const updated = await payload.update({
+    collection: 'orders',
+    id: order.id,
+    data: { refunds, amountRefunded, status },
+    depth: 1, // Populate provider and service for the webhook payload
+    overrideAccess: true,
+    context,
+  })
+
+  if (toCents(amountRefunded) > toCents(previousAmount)) {
+    const provider = updated.provider as Provider | null | undefined
+    if (provider && typeof provider !== 'string' && provider.webhookUrl) {
+      await enqueueWebhookDelivery(payload, provider, updated, 'payment_refunded')
+    }
+  }
+
+  return {
+    order: updated,
+    outcome: `Order ${order.id} refunded $${amountRefunded.toFixed(2)} of $${order.total.toFixed(2)} (${status})`,
+  }
+}
+
+/**
+ * Re-read every refund for a PaymentIntent from Stripe and apply it to the matching order
+ * Used by the `charge.refunded` and `refund.updated` webhook handlers, which pass the account
+ * that sent the event so another account's events are ignored
+ */
+export async function syncOrderRefunds(
+  payload: Payload,
+  paymentIntentId: string,
+  context: { statusSource: OrderStatusSource; statusNote: string },
+  verifiedAccount?: StripeAccount,
+): Promise<string> {
+  const orders = await payload.find({
+    collection: 'orders',
+    where: { stripePaymentIntentId: { equals: paymentIntentId } },
+    limit: 1,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  if (orders.docs.length === 0) {
+    return `No matching order for payment intent ${paymentIntentId}`
+  }
+
+  if (verifiedAccount && !isOrderStripeAccount(verifiedAccount, orders.docs[0])) {
+    return `Order ${orders.docs[0].id} belongs to another Stripe account; ignored`
+  }
+
+  const { stripe } = await getStripeAccountForOrder(payload, orders.docs[0])
+  const stripeRefunds = await stripe.refunds
+    .list({ payment_intent: paymentIntentId, limit: 100 })
+    .autoPagingToArray({ limit: 1000 })
+
+  const { outcome } = await applyRefunds(payload, orders.docs[0], stripeRefunds, context)
+  return outcome
+}
+
+/**
+ * Issue a full (no amount) or partial refund for an order on behalf of an admin
+ * Throws APIError with a 4xx status when the refund is not allowed
+ */
+export async function issueOrderRefund(
+  payload: Payload,
+  {
+    orderId,
+    amount,
+    reason = 'requested_by_customer',
+    note,
+    user,
+    audit,
+  }: {
+    orderId: string
+    amount?: number | null
+    reason?: RefundReason
+    note?: string | null
+    user: User
+    // Who requested the refund, for the audit log
+    audit?: AuditSource
+  },
+): Promise<{ order: Order; refund: Stripe.Refund }> {
+  if (!REFUND_REASONS.includes(reason)) {
+    throw new APIError(`Invalid refund reason: ${reason}`, 400, undefined, true)
+  }
+
+  const order = await payload.findByID({
+    collection: 'orders',
+    id: orderId,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  if (!REFUNDABLE_STATUSES.includes(order.status)) {
+    throw new APIError(`Orders that are ${order.status} cannot be refunded`, 409, undefined, true)
+  }
+
+  if (!order.stripePaymentIntentId) {
+    throw new APIError('Order has no Stripe payment to refund', 409, undefined, true)
+  }
+
+  const refundable = getRefundableAmount(order)
+  const refundAmount = amount ?? refundable
+
+  if (!Number.isFinite(refundAmount) || toCents(refundAmount) <= 0) {
+    throw new APIError('Refund amount must be greater than 0', 400, undefined, true)
+  }
+
+  if (toCents(refundAmount) > toCents(refundable)) {
+    throw new APIError(
+      `Refund amount exceeds the refundable balance of $${refundable.toFixed(2)}`,
+      400,
+      undefined,
+      true,
+    )
+  }
+
+  const { stripe } = await getStripeAccountForOrder(payload, order)
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: order.stripePaymentIntentId,
+      amount: toCents(refundAmount),
+      reason,
+      metadata: { orderId: order.id, requestedBy: user.email },
+    },
+    {
+      // Guards against double submits; a second refund of the same amount gets a new key
+      idempotencyKey: `refund-${order.id}-${toCents(refundAmount)}-${(order.refunds || []).length}`,
+    },
+  )
+
+  console.log(
+    `[REFUNDS] Refund ${refund.id} for order ${order.id}: $${refundAmount.toFixed(2)} (${refund.status})`,
+  )
+
+  const entry: OrderRefund = {
+    stripeRefundId: refund.id,
+    amount: refund.amount / 100,
+    reason,
+    status: refund.status as OrderRefund['status'],
+    note: note || null,
+    createdBy: user.id,
+    createdAt: new Date().toISOString(),
+  }
+
+  const { order: updated } = await applyRefunds(
+    payload,
+    { ...order, refunds: [...(order.refunds || []), entry] },
+    [refund],
+    { statusSource: 'admin', statusNote: `refund ${refund.id}`, audit },
+  )
+
+  return { order: updated, refund }
+}
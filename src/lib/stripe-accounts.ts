@@ -0,0 +1,357 @@
+import { APIError, type Payload } from 'payload'
+import type Stripe from 'stripe'
+import type { Order, Service } from '@/payload-types'
+import { decrypt, encrypt, getKeyMode, isTestModeKey, maskKey } from '@/lib/encryption'
+import {
+  getStripe,
+  getStripeCredentialsForService,
+  getStripeForService,
+  getStripeTestCredentials,
+  type ServiceStripeConfig,
+  type StripeCredentials,
+} from '@/lib/stripe'
+
+/**
+ * Stripe Accounts
+ *
+ * Payments run on the platform Stripe account (env keys) unless the order's provider or
+ * service has its own account under **Stripe Account** — the provider's account wins over the
+ * service's. The account is recorded on the order (`stripeAccount`) so later lookups, refunds
+ * and expiry use the same account as the PaymentIntent.
+ *
+ * Test orders (provider test API keys) run on the provider's or service's account only if it
+ * holds test keys, otherwise on the platform test account: STRIPE_SECRET_KEY when it is itself
+ * a test key, else the STRIPE_TEST_* keys.
+ */
+
+export type StoredStripeConfig = NonNullable<Service['stripeConfig']>
+
+export type StripeAccountSource = NonNullable<Order['stripeAccount']>
+
+export interface StripeAccount {
+  source: StripeAccountSource
+  stripe: Stripe
+  credentials: StripeCredentials
+  // Provider or service that owns a separate account
+  ownerId?: string
+  // Platform test account from the STRIPE_TEST_* keys (not the default platform keys)
+  sandbox?: boolean
+}
+
+type StripeAccountOwner = 'services' | 'providers'
+
+const relationId = (value: string | { id: string } | null | undefined) =>
+  typeof value === 'string' ? value : value?.id
+
+/**
+ * Encrypt newly entered secrets and keep the stored ones otherwise
+ * Plaintext inputs are always cleared; throws APIError (400) for incomplete accounts.
+ */
+export function prepareStripeConfig(
+  config: StoredStripeConfig,
+  previous?: StoredStripeConfig | null,
+): StoredStripeConfig {
+  const next: StoredStripeConfig = {
+    ...config,
+    stripeSecretKeyEncrypted:
+      config.stripeSecretKeyEncrypted ?? previous?.stripeSecretKeyEncrypted ?? null,
+    stripeSecretKeyHint: config.stripeSecretKeyHint ?? previous?.stripeSecretKeyHint ?? null,
+    stripeKeyMode: config.stripeKeyMode ?? previous?.stripeKeyMode ?? null,
+    stripeWebhookSecretEncrypted:
+      config.stripeWebhookSecretEncrypted ?? previous?.stripeWebhookSecretEncrypted ?? null,
+    stripeWebhookSecretHint:
+      config.stripeWebhookSecretHint ?? previous?.stripeWebhookSecretHint ?? null,
+    stripeSecretKey: null,
+    stripeWebhookSecret: null,
+  }
+
+  if (config.stripeSecretKey) {
+    next.stripeSecretKeyEncrypted = encrypt(config.stripeSecretKey)
+    next.stripeSecretKeyHint = maskKey(config.stripeSecretKey)
+    next.stripeKeyMode = getKeyMode(config.stripeSecretKey)
+  }
+
+  if (config.stripeWebhookSecret) {
+    next.stripeWebhookSecretEncrypted = encrypt(config.stripeWebhookSecret)
+    next.stripeWebhookSecretHint = maskKey(config.stripeWebhookSecret)
+  }
+
+  if (next.useCustomStripeAccount) {
+    if (!next.stripeSecretKeyEncrypted) {
+      throw new APIError(
+        'A secret key is required for a separate Stripe account',
+        400,
+        undefined,
+        true,
+      )
+    }
+    if (
+      next.stripePublishableKey &&
+      next.stripeKeyMode &&
+      getKeyMode(next.stripePublishableKey) !== next.stripeKeyMode
+    ) {
+      throw new APIError(
+        'The publishable and secret keys must both be test keys or both be live keys',
+        400,
+        undefined,
+        true,
+      )
+    }
+  }
+
+  return next
+}
+
+/**
+ * Decrypted configuration for `getStripeCredentialsForService`, or null when the owner uses
+ * the platform account
+ */
+export function toServiceStripeConfig(
+  config: StoredStripeConfig | null | undefined,
+): ServiceStripeConfig | null {
+  if (!config?.useCustomStripeAccount || !config.stripeSecretKeyEncrypted) return null
+
+  return {
+    useCustomStripeAccount: true,
+    stripePublishableKey: config.stripePublishableKey || undefined,
+    stripeKeyMode: config.stripeKeyMode || undefined,
+    _decryptedSecretKey: decrypt(config.stripeSecretKeyEncrypted),
+    _decryptedWebhookSecret: config.stripeWebhookSecretEncrypted
+      ? decrypt(config.stripeWebhookSecretEncrypted)
+      : undefined,
+  }
+}
+
+async function loadStripeConfig(
+  payload: Payload,
+  collection: StripeAccountOwner,
+  id: string,
+): Promise<ServiceStripeConfig | null> {
+  const doc = await payload.findByID({
+    collection,
+    id,
+    depth: 0,
+    overrideAccess: true,
+    showHiddenFields: true,
+    select: { stripeConfig: true },
+  })
+  return toServiceStripeConfig(doc.stripeConfig)
+}
+
+function toStripeAccount(
+  source: StripeAccountSource,
+  config: ServiceStripeConfig | null,
+): StripeAccount {
+  const credentials = getStripeCredentialsForService(config)
+  if (!config) {
+    return { source, stripe: getStripe(), credentials }
+  }
+  if (!credentials.secretKey) {
+    // Decryption fails when STRIPE_ENCRYPTION_KEY / PAYLOAD_SECRET changed since the key was saved
+    throw new Error(`The ${source} Stripe secret key could not be decrypted`)
+  }
+  return { source, stripe: getStripeForService(credentials.secretKey), credentials }
+}
+
+/**
+ * The platform account for test orders
+ * Throws APIError (400) when neither STRIPE_SECRET_KEY nor STRIPE_TEST_SECRET_KEY is a test key.
+ */
+function toPlatformTestAccount(): StripeAccount {
+  if (isTestModeKey(process.env.STRIPE_SECRET_KEY || '')) {
+    return toStripeAccount('platform', null)
+  }
+
+  const credentials = getStripeTestCredentials()
+  if (!credentials || !isTestModeKey(credentials.secretKey)) {
+    throw new APIError(
+      'Test mode is not available: no Stripe test account is configured',
+      400,
+      undefined,
+      true,
+    )
+  }
+  return {
+    source: 'platform',
+    stripe: getStripeForService(credentials.secretKey),
+    credentials,
+    sandbox: true,
+  }
+}
+
+/**
+ * Publishable key the client must use for an account, or undefined for the default platform key
+ */
+export function getClientPublishableKey(account: StripeAccount): string | undefined {
+  return account.source !== 'platform' || account.sandbox
+    ? account.credentials.publishableKey
+    : undefined
+}
+
+/**
+ * Pick the Stripe account for a new payment: provider account, service account, else platform
+ * Test payments skip separate accounts that hold live keys.
+ */
+export async function resolveStripeAccount(
+  payload: Payload,
+  {
+    serviceId,
+    providerId,
+    livemode = true,
+  }: { serviceId: string; providerId?: string | null; livemode?: boolean },
+): Promise<StripeAccount> {
+  const usable = (config: ServiceStripeConfig | null): config is ServiceStripeConfig =>
+    !!config && (livemode || config.stripeKeyMode === 'test')
+
+  if (providerId) {
+    const providerConfig = await loadStripeConfig(payload, 'providers', providerId)
+    if (usable(providerConfig)) return toStripeAccount('provider', providerConfig)
+  }
+
+  const serviceConfig = await loadStripeConfig(payload, 'services', serviceId)
+  if (usable(serviceConfig)) return toStripeAccount('service', serviceConfig)
+
+  return livemode ? toStripeAccount('platform', null) : toPlatformTestAccount()
+}
+
+/**
+ * The Stripe account an existing order's PaymentIntent lives in
+ * Throws if that account has since been removed, rather than querying the wrong account.
+ */
+export async function getStripeAccountForOrder(
+  payload: Payload,
+  order: Pick<Order, 'id' | 'stripeAccount' | 'service' | 'provider' | 'livemode'>,
+): Promise<StripeAccount> {
+  const source = order.stripeAccount || 'platform'
+  if (source === 'platform') {
+    return order.livemode === false ? toPlatformTestAccount() : toStripeAccount('platform', null)
+  }
+
+  const ownerId = relationId(source === 'provider' ? order.provider : order.service)
+  const config = ownerId
+    ? await loadStripeConfig(payload, source === 'provider' ? 'providers' : 'services', ownerId)
+    : null
+
+  if (!config) {
+    throw new Error(`The ${source} Stripe account for order ${order.id} is no longer configured`)
+  }
+  return toStripeAccount(source, config)
+}
+
+/**
+ * Whether a verified webhook came from the Stripe account an existing order's PaymentIntent
+ * lives in, so one account's events can never change another account's orders
+ */
+export function isOrderStripeAccount(
+  account: StripeAccount,
+  order: Pick<Order, 'stripeAccount' | 'service' | 'provider' | 'livemode'>,
+): boolean {
+  const source = order.stripeAccount || 'platform'
+  if (account.source !== source) return false
+  if (source === 'platform') {
+    // Like `getStripeAccountForOrder`: test orders use the platform test account, unless the
+    // default platform keys are test keys themselves
+    const sandbox = order.livemode === false && !isTestModeKey(process.env.STRIPE_SECRET_KEY || '')
+    return !!account.sandbox === sandbox
+  }
+  return account.ownerId === relationId(source === 'provider' ? order.provider : order.service)
+}
+
+/**
+ * Whether a verified webhook came from the account `resolveStripeAccount` picks for a new order
+ * of this service and provider. Used before creating an order from PaymentIntent metadata.
+ */
+export async function isResolvedStripeAccount(
+  payload: Payload,
+  account: StripeAccount,
+  target: { serviceId: string; providerId?: string | null; livemode?: boolean },
+): Promise<boolean> {
+  let expected: StripeAccount
+  try {
+    expected = await resolveStripeAccount(payload, target)
+  } catch (err) {
+    console.error('[STRIPE-ACCOUNTS] Could not resolve the account for webhook metadata:', err)
+    return false
+  }
+
+  if (expected.source !== account.source) return false
+  if (account.source === 'platform') return !!expected.sandbox === !!account.sandbox
+  return account.ownerId === (account.source === 'provider' ? target.providerId : target.serviceId)
+}
+
+/**
+ * Every Stripe account in use: the platform account and platform test account (if configured)
+ * and each separate account. Accounts whose keys cannot be decrypted are logged and skipped.
+ */
+export async function listStripeAccounts(payload: Payload): Promise<StripeAccount[]> {
+  const accounts: StripeAccount[] = []
+
+  if (process.env.STRIPE_SECRET_KEY) {
+    accounts.push(toStripeAccount('platform', null))
+  }
+  if (
+    process.env.STRIPE_TEST_SECRET_KEY &&
+    process.env.STRIPE_TEST_SECRET_KEY !== process.env.STRIPE_SECRET_KEY
+  ) {
+    try {
+      accounts.push(toPlatformTestAccount())
+    } catch (err) {
+      console.error('[STRIPE-ACCOUNTS] Skipping the platform test account:', err)
+    }
+  }
+
+  for (const collection of ['providers', 'services'] as const) {
+    const source = collection === 'providers' ? 'provider' : 'service'
+    const owners = await payload.find({
+      collection,
+      where: { 'stripeConfig.useCustomStripeAccount': { equals: true } },
+      depth: 0,
+      pagination: false,
+      overrideAccess: true,
+      showHiddenFields: true,
+      select: { stripeConfig: true },
+    })
+
+    for (const owner of owners.docs) {
+      try {
+        const config = toServiceStripeConfig(owner.stripeConfig)
+        if (config) {
+          accounts.push({ ...toStripeAccount(source, config), ownerId: owner.id })
+        }
+      } catch (err) {
+        console.error(`[STRIPE-ACCOUNTS] Skipping the ${source} account of ${owner.id}:`, err)
+      }
+    }
+  }
+
+  return accounts
+}
+
+/**
+ * Verify a Stripe webhook against the platform secret and every separate account's secret
+ * Returns the event and the account whose secret matched, or null if none did.
+ */
+export async function constructStripeWebhookEvent(
+  payload: Payload,
+  body: string,
+  signature: string,
+): Promise<{ event: Stripe.Event; account: StripeAccount } | null> {
+  const candidates = (await listStripeAccounts(payload)).filter(
+    (account) => account.credentials.webhookSecret,
+  )
+
+  for (const account of candidates) {
+    try {
+      const event = account.stripe.webhooks.constructEvent(
+        body,
+        signature,
+        account.credentials.webhookSecret,
+      )
+      return { event, account }
+    } catch {
+      // Signed by another account (or forged) - try the next secret
+    }
+  }
+
+  return null
+}
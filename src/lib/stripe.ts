@@ -1,4 +1,5 @@
 import Stripe from 'stripe'
+import { PAYMENT_METHODS } from '@/lib/payment-methods'
 
 // ============================================
 // Stripe Instance Management
@@ -114,6 +115,21 @@ export function getStripeCredentialsForService(
   }
 }
 
+/**
+ * Platform test-mode credentials from STRIPE_TEST_* env vars, used by provider test API keys
+ * when STRIPE_SECRET_KEY is a live key. Returns null if no test secret key is set.
+ */
+export function getStripeTestCredentials(): StripeCredentials | null {
+  const secretKey = process.env.STRIPE_TEST_SECRET_KEY
+  if (!secretKey) return null
+
+  return {
+    secretKey,
+    publishableKey: process.env.NEXT_PUBLIC_STRIPE_TEST_PUBLISHABLE_KEY || '',
+    webhookSecret: process.env.STRIPE_TEST_WEBHOOKS_ENDPOINT_SECRET || '',
+  }
+}
+
 // ============================================
 // Re-export Stripe types for convenience
 // ============================================
@@ -183,8 +199,8 @@ export async function cancelPaymentIntent(
 // ============================================
 
 export const STRIPE_CONFIG = {
-  // Supported payment methods - Cash App only (requires US Stripe account)
-  paymentMethods: ['cashapp'] as const,
+  // Supported payment methods (allowed per service/provider, see @/lib/payment-methods)
+  paymentMethods: PAYMENT_METHODS,
   // Webhook event types we handle
   webhookEvents: [
     'payment_intent.succeeded',
@@ -192,5 +208,7 @@ export const STRIPE_CONFIG = {
     'charge.dispute.created',
     'charge.dispute.updated',
     'charge.dispute.closed',
+    'charge.refunded',
+    'refund.updated',
   ] as const,
 } as const
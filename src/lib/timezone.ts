@@ -0,0 +1,132 @@
+/**
+ * Reporting Time Zone
+ *
+ * Admin reports read calendar dates (`from=2026-01-31`) and bucket series by day, week and month
+ * in the reporting time zone from Site Settings, or in the request's `tz` parameter (an IANA
+ * name such as `Europe/Berlin`), never in the server's own zone.
+ */
+
+export const DEFAULT_REPORT_TIMEZONE = 'UTC'
+
+// Query parameter overriding the reporting time zone of an admin report
+export const TIMEZONE_PARAM = 'tz'
+
+export type CalendarInterval = 'day' | 'week' | 'month'
+
+export function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone (month is 1-12)
+ */
+export function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds (e.g. +3600000 for CET)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone)
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  )
+  return wallClock - (date.getTime() - date.getUTCMilliseconds())
+}
+
+/**
+ * The instant a calendar day starts in a time zone
+ * Months and days out of range roll over, so `day + 1` is the next day.
+ */
+export function startOfZonedDay(
+  year: number,
+  monthIndex: number,
+  day: number,
+  timeZone: string,
+): Date {
+  const wallClock = Date.UTC(year, monthIndex, day)
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone)
+  // The offset at the actual instant differs when a DST change falls in between
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone))
+}
+
+const CALENDAR_DATE = /^(\d{4})-(\d{2})-(\d{2})$/
+
+/**
+ * Parse a report date: a calendar date (YYYY-MM-DD) is the start of that day in the time zone,
+ * or its last millisecond with `endOfDay`; other values are read as timestamps.
+ * Returns null for invalid dates.
+ */
+export function parseReportDate(value: string, timeZone: string, endOfDay = false): Date | null {
+  const match = CALENDAR_DATE.exec(value)
+  if (!match) {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : date
+  }
+
+  const [year, month, day] = match.slice(1).map(Number)
+  const calendarDay = new Date(Date.UTC(year, month - 1, day))
+  if (calendarDay.getUTCMonth() !== month - 1 || calendarDay.getUTCDate() !== day) return null
+
+  if (endOfDay) {
+    return new Date(startOfZonedDay(year, month - 1, day + 1, timeZone).getTime() - 1)
+  }
+  return startOfZonedDay(year, month - 1, day, timeZone)
+}
+
+/**
+ * Start of the day, Monday-based week or month containing an instant, in a time zone
+ */
+export function startOfZonedPeriod(date: Date, interval: CalendarInterval, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  if (interval === 'month') {
+    return startOfZonedDay(year, month - 1, 1, timeZone)
+  }
+  if (interval === 'week') {
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+    return startOfZonedDay(year, month - 1, day - ((weekday + 6) % 7), timeZone)
+  }
+  return startOfZonedDay(year, month - 1, day, timeZone)
+}
+
+/**
+ * Start of the following period, given the start of a period
+ */
+export function nextZonedPeriod(start: Date, interval: CalendarInterval, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(start, timeZone)
+  if (interval === 'month') {
+    return startOfZonedDay(year, month, 1, timeZone)
+  }
+  return startOfZonedDay(year, month - 1, day + (interval === 'week' ? 7 : 1), timeZone)
+}
@@ -0,0 +1,399 @@
+import crypto from 'crypto'
+import { APIError, type Payload } from 'payload'
+import type { User } from '@/payload-types'
+import type { UserRole } from '@/lib/permissions'
+import type { AuditSource } from '@/lib/audit-log'
+import { decrypt, encrypt } from '@/lib/encryption'
+import { LOGIN_LOCK_TIME_MS, recordLoginEvent } from '@/lib/login-history'
+
+/**
+ * Two-Factor Authentication
+ *
+ * Admin users can add a TOTP authenticator app (RFC 6238: SHA-1, 6 digits, 30-second steps)
+ * with ten single-use recovery codes. Two-factor is verified per login session: after the
+ * password, the session's id (`sid` in the Payload JWT) must be added to
+ * `twoFactor.verifiedSessions` through `POST /api/admin/two-factor/verify` before access
+ * control (@/access) or `requireAdminUser` grant the user anything. Roles in
+ * `TWO_FACTOR_ROLES` must enroll before they can do anything else. User API keys are a
+ * separate credential and are not asked for a code.
+ */
+
+export const TWO_FACTOR_ROLES: readonly UserRole[] = ['admin', 'finance']
+
+export const TOTP_ISSUER = 'DZ Tech Panel'
+export const TOTP_PERIOD_SECONDS = 30
+export const TOTP_DIGITS = 6
+// Steps accepted either side of the current one, for clock drift
+export const TOTP_WINDOW = 1
+
+export const RECOVERY_CODE_COUNT = 10
+
+// Wrong codes in a row before the account is locked like repeated wrong passwords
+export const MAX_TWO_FACTOR_ATTEMPTS = 5
+
+// The logged-in user as Payload's auth strategies return it
+export type SessionUser = User & { _sid?: string; _strategy?: string }
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return output
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error('Invalid base32 character')
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+/**
+ * New TOTP secret: 160 random bits, base32 as authenticator apps expect
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+const getTimeStep = (time: number) => Math.floor(time / 1000 / TOTP_PERIOD_SECONDS)
+
+function generateHotp(secret: string, counter: number): string {
+  const message = Buffer.alloc(8)
+  message.writeBigUInt64BE(BigInt(counter))
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(message).digest()
+  const offset = hmac[hmac.length - 1] & 15
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * The code an authenticator app shows at `time`
+ */
+export function generateTotp(secret: string, time = Date.now()): string {
+  return generateHotp(secret, getTimeStep(time))
+}
+
+/**
+ * Time step a code matches, or null if it doesn't
+ * Steps up to `lastUsedStep` are rejected, so a code can't be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null,
+  time = Date.now(),
+): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null
+
+  const current = getTimeStep(time)
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep != null && step <= lastUsedStep) continue
+    const expected = Buffer.from(generateHotp(secret, step))
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) return step
+  }
+  return null
+}
+
+/**
+ * `otpauth://` URI for adding the secret to an authenticator app
+ */
+export function getTotpUri(secret: string, email: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${email}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params}`
+}
+
+/**
+ * Single-use recovery codes, e.g. `7KQ2M-XH4TD`
+ */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10)
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+/**
+ * Hash a recovery code for storage; case, spaces and dashes don't matter
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, '')
+  return crypto.createHash('sha256').update(normalized).digest('hex')
+}
+
+export function requiresTwoFactor(user: Pick<User, 'role'> | null | undefined): boolean {
+  return Boolean(user && TWO_FACTOR_ROLES.includes(user.role))
+}
+
+/**
+ * Whether the user signed in with a password but hasn't passed two-factor in this session yet
+ * (or, for roles that require it, hasn't enrolled)
+ */
+export function isTwoFactorPending(
+  user: Pick<SessionUser, 'role' | 'twoFactor' | '_sid' | '_strategy'> | null | undefined,
+): boolean {
+  if (!user || user._strategy !== 'local-jwt') return false
+  if (!user.twoFactor?.enabled) return requiresTwoFactor(user)
+  return !user._sid || !(user.twoFactor.verifiedSessions || []).includes(user._sid)
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  // The user's role must use two-factor
+  required: boolean
+  // This session has passed two-factor, or doesn't need to
+  verified: boolean
+  recoveryCodesRemaining: number
+}
+
+export function getTwoFactorStatus(user: SessionUser): TwoFactorStatus {
+  return {
+    enabled: Boolean(user.twoFactor?.enabled),
+    required: requiresTwoFactor(user),
+    verified: !isTwoFactorPending(user),
+    recoveryCodesRemaining: user.twoFactor?.recoveryCodes?.length || 0,
+  }
+}
+
+/**
+ * Verified sessions after this session passes: the current one plus those not logged out since
+ */
+export function addVerifiedSession(user: Pick<SessionUser, 'sessions' | 'twoFactor' | '_sid'>) {
+  const active = new Set((user.sessions || []).map((session) => session.id))
+  const verified = (user.twoFactor?.verifiedSessions || []).filter((sid) => active.has(sid))
+  if (user._sid && !verified.includes(user._sid)) verified.push(user._sid)
+  return verified
+}
+
+const updateTwoFactor = (
+  payload: Payload,
+  user: Pick<User, 'id'>,
+  twoFactor: NonNullable<User['twoFactor']>,
+  audit?: AuditSource,
+) =>
+  payload.update({
+    collection: 'users',
+    id: user.id,
+    data: { twoFactor },
+    overrideAccess: true,
+    context: audit ? { audit } : undefined,
+  })
+
+const DISABLED_TWO_FACTOR: NonNullable<User['twoFactor']> = {
+  enabled: false,
+  enabledAt: null,
+  secret: null,
+  pendingSecret: null,
+  recoveryCodes: [],
+  lastUsedStep: null,
+  failedAttempts: 0,
+  verifiedSessions: [],
+}
+
+/**
+ * Start enrollment: a new secret for the user's authenticator app, active once a code confirms it
+ */
+export async function startTwoFactorSetup(
+  payload: Payload,
+  user: SessionUser,
+): Promise<{ secret: string; uri: string }> {
+  if (user.twoFactor?.enabled) {
+    throw new APIError('Two-factor authentication is already enabled', 409, undefined, true)
+  }
+
+  const secret = generateTotpSecret()
+  await updateTwoFactor(payload, user, { pendingSecret: encrypt(secret) })
+  return { secret, uri: getTotpUri(secret, user.email) }
+}
+
+/**
+ * Finish enrollment with a code from the app; returns the recovery codes, shown only once
+ */
+export async function enableTwoFactor(
+  payload: Payload,
+  user: SessionUser,
+  { code, audit }: { code: string; audit: AuditSource },
+): Promise<{ recoveryCodes: string[] }> {
+  if (user.twoFactor?.enabled) {
+    throw new APIError('Two-factor authentication is already enabled', 409, undefined, true)
+  }
+  const pendingSecret = user.twoFactor?.pendingSecret
+  if (!pendingSecret) {
+    throw new APIError('Start two-factor setup first', 400, undefined, true)
+  }
+  const step = verifyTotp(decrypt(pendingSecret), code)
+  if (step === null) {
+    throw new APIError('Invalid code', 400, undefined, true)
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+  await updateTwoFactor(
+    payload,
+    user,
+    {
+      enabled: true,
+      enabledAt: new Date().toISOString(),
+      secret: pendingSecret,
+      pendingSecret: null,
+      recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      lastUsedStep: step,
+      failedAttempts: 0,
+      verifiedSessions: addVerifiedSession(user),
+    },
+    audit,
+  )
+  return { recoveryCodes }
+}
+
+/**
+ * Pass two-factor for the current session with an app code or an unused recovery code
+ * After `MAX_TWO_FACTOR_ATTEMPTS` wrong codes in a row the account is locked and signed out.
+ */
+export async function verifyTwoFactor(
+  payload: Payload,
+  user: SessionUser,
+  { code, recoveryCode, audit }: { code?: string; recoveryCode?: string; audit: AuditSource },
+): Promise<void> {
+  const twoFactor = user.twoFactor
+  if (!twoFactor?.enabled || !twoFactor.secret) {
+    throw new APIError('Two-factor authentication is not enabled', 400, undefined, true)
+  }
+
+  const recoveryHash = recoveryCode ? hashRecoveryCode(recoveryCode) : null
+  const step = code ? verifyTotp(decrypt(twoFactor.secret), code, twoFactor.lastUsedStep) : null
+  const recoveryCodes = twoFactor.recoveryCodes || []
+  const passed = step !== null || (recoveryHash !== null && recoveryCodes.includes(recoveryHash))
+
+  const event = { user, email: user.email, ip: audit.ip, userAgent: audit.userAgent }
+  if (!passed) {
+    await recordLoginEvent(payload, { outcome: 'two_factor_failed', ...event })
+
+    // Counted in the database, so wrong codes sent in parallel can't share a stale count
+    const counted = await payload.db.updateOne({
+      collection: 'users',
+      id: user.id,
+      data: { twoFactor: { failedAttempts: { $inc: 1 } } },
+    })
+    const failedAttempts =
+      (counted as Pick<User, 'twoFactor'> | null)?.twoFactor?.failedAttempts || 0
+    if (failedAttempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+      await updateTwoFactor(payload, user, { failedAttempts: 0 })
+      // The same lock Payload sets after repeated wrong passwords; dropping sessions signs out
+      await payload.db.updateOne({
+        collection: 'users',
+        id: user.id,
+        data: {
+          lockUntil: new Date(Date.now() + LOGIN_LOCK_TIME_MS).toISOString(),
+          sessions: [],
+        },
+      })
+      throw new APIError(
+        `Too many invalid codes. The account is locked for ${LOGIN_LOCK_TIME_MS / 60000} minutes.`,
+        401,
+        undefined,
+        true,
+      )
+    }
+    throw new APIError('Invalid code', 400, undefined, true)
+  }
+
+  await updateTwoFactor(
+    payload,
+    user,
+    {
+      failedAttempts: 0,
+      verifiedSessions: addVerifiedSession(user),
+      ...(step !== null
+        ? { lastUsedStep: step }
+        : { recoveryCodes: recoveryCodes.filter((hash) => hash !== recoveryHash) }),
+    },
+    audit,
+  )
+  await recordLoginEvent(payload, { outcome: 'two_factor_verified', ...event })
+}
+
+/**
+ * Replace the recovery codes, confirmed with a code from the app
+ */
+export async function regenerateRecoveryCodes(
+  payload: Payload,
+  user: SessionUser,
+  { code, audit }: { code: string; audit: AuditSource },
+): Promise<{ recoveryCodes: string[] }> {
+  const twoFactor = user.twoFactor
+  if (!twoFactor?.enabled || !twoFactor.secret) {
+    throw new APIError('Two-factor authentication is not enabled', 400, undefined, true)
+  }
+  const step = verifyTotp(decrypt(twoFactor.secret), code, twoFactor.lastUsedStep)
+  if (step === null) {
+    throw new APIError('Invalid code', 400, undefined, true)
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+  await updateTwoFactor(
+    payload,
+    user,
+    { lastUsedStep: step, recoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+    audit,
+  )
+  return { recoveryCodes }
+}
+
+/**
+ * Turn two-factor off: for yourself with a code from the app (roles that require it can't),
+ * or, for admins, for another user who lost their device and recovery codes
+ */
+export async function disableTwoFactor(
+  payload: Payload,
+  user: SessionUser,
+  { userId, code, audit }: { userId?: string; code?: string; audit: AuditSource },
+): Promise<void> {
+  if (userId && userId !== user.id) {
+    if (user.role !== 'admin') {
+      throw new APIError("Only admins can reset another user's two-factor", 403, undefined, true)
+    }
+    await updateTwoFactor(payload, { id: userId }, DISABLED_TWO_FACTOR, audit)
+    return
+  }
+
+  if (requiresTwoFactor(user)) {
+    throw new APIError('Two-factor authentication is required for your role', 403, undefined, true)
+  }
+  const twoFactor = user.twoFactor
+  if (!twoFactor?.enabled || !twoFactor.secret) {
+    throw new APIError('Two-factor authentication is not enabled', 400, undefined, true)
+  }
+  if (verifyTotp(decrypt(twoFactor.secret), code || '', twoFactor.lastUsedStep) === null) {
+    throw new APIError('Invalid code', 400, undefined, true)
+  }
+  await updateTwoFactor(payload, user, DISABLED_TWO_FACTOR, audit)
+}
@@ -0,0 +1,290 @@
+import { APIError, type Payload } from 'payload'
+import type { Order, Provider, Service, WebhookDelivery } from '@/payload-types'
+import { buildWebhookSignatureHeaders, getActiveWebhookSecrets } from '@/lib/webhook-signature'
+
+/**
+ * Provider Webhook Delivery Queue
+ *
+ * Every provider notification is persisted to the `webhook-deliveries` collection before it is
+ * sent. The first attempt runs immediately in the background; failures are retried by the
+ * `processWebhookDeliveries` task on the schedule below and dead-lettered after the last attempt.
+ */
+
+export type ProviderWebhookEvent = WebhookDelivery['event']
+
+// Delay before each retry, in minutes (~16 hours in total)
+export const WEBHOOK_RETRY_SCHEDULE_MINUTES = [1, 5, 15, 30, 60, 120, 240, 480]
+
+// Initial attempt + one per retry step
+export const MAX_WEBHOOK_ATTEMPTS = WEBHOOK_RETRY_SCHEDULE_MINUTES.length + 1
+
+// An in-flight attempt "leases" the delivery so the worker does not pick it up concurrently
+const ATTEMPT_LEASE_MS = 2 * 60 * 1000
+
+const REQUEST_TIMEOUT_MS = 10_000
+
+/**
+ * Build the JSON body sent to the provider for an order event
+ */
+export function buildProviderWebhookPayload(
+  provider: Provider,
+  order: Order,
+  event: ProviderWebhookEvent,
+) {
+  const service = order.service as Service
+
+  return {
+    event,
+    // Use Payload's auto-generated id
+    orderId: order.id,
+    // Include provider's external ID for their own tracking
+    externalId: order.externalId || null,
+    providerId: provider.id,
+    providerName: provider.name,
+    serviceId: service?.id || order.service,
+    serviceName: service?.title || 'Unknown Service',
+    amount: order.total,
+    amountRefunded: order.amountRefunded || 0,
+    status: order.status,
+    // false for test orders created with a test API key
+    livemode: order.livemode !== false,
+    stripePaymentIntentId: order.stripePaymentIntentId,
+    // Echo of the metadata the provider sent when creating the order
+    metadata: order.metadata || null,
+    timestamp: new Date().toISOString(),
+  }
+}
+
+/**
+ * Compute when the next retry should run, or null if the delivery is out of attempts
+ */
+export function getNextAttemptAt(attemptCount: number, from: Date = new Date()): Date | null {
+  if (attemptCount >= MAX_WEBHOOK_ATTEMPTS) return null
+  const delayMinutes = WEBHOOK_RETRY_SCHEDULE_MINUTES[attemptCount - 1] ?? 0
+  return new Date(from.getTime() + delayMinutes * 60 * 1000)
+}
+
+/**
+ * Persist a delivery for a provider and kick off the first attempt without awaiting it,
+ * so callers (e.g. the Stripe webhook route) are never delayed by slow providers
+ */
+export async function enqueueWebhookDelivery(
+  payload: Payload,
+  provider: Provider,
+  order: Order,
+  event: ProviderWebhookEvent,
+): Promise<WebhookDelivery | null> {
+  if (!provider.webhookUrl) {
+    return null // Provider has no webhook URL configured
+  }
+
+  const delivery = await payload.create({
+    collection: 'webhook-deliveries',
+    data: {
+      provider: provider.id,
+      order: order.id,
+      event,
+      status: 'pending',
+      attemptCount: 0,
+      payload: buildProviderWebhookPayload(provider, order, event),
+      nextAttemptAt: new Date(Date.now() + ATTEMPT_LEASE_MS).toISOString(),
+    },
+    overrideAccess: true,
+  })
+
+  console.log(`[WEBHOOK-DELIVERY] Queued ${event} delivery ${delivery.id} for ${provider.name}`)
+
+  attemptWebhookDelivery(payload, delivery.id).catch((err) =>
+    console.error(`[WEBHOOK-DELIVERY] Initial attempt for ${delivery.id} crashed:`, err),
+  )
+
+  return delivery
+}
+
+/**
+ * Make a single delivery attempt and record its outcome
+ * Signatures use the provider's current secrets, so rotations apply to pending retries too.
+ * Returns null without sending when another worker claimed the delivery first.
+ */
+export async function attemptWebhookDelivery(
+  payload: Payload,
+  deliveryId: string,
+): Promise<WebhookDelivery | null> {
+  const delivery = await payload.findByID({
+    collection: 'webhook-deliveries',
+    id: deliveryId,
+    depth: 1, // Populate provider
+    overrideAccess: true,
+  })
+
+  const provider = delivery.provider as Provider
+  const attemptCount = (delivery.attemptCount || 0) + 1
+  const attemptedAt = new Date()
+
+  // Claim the delivery before sending: only one worker can move the `nextAttemptAt` it read
+  const claimed = await payload.db.updateOne({
+    collection: 'webhook-deliveries',
+    where: {
+      and: [
+        { id: { equals: delivery.id } },
+        { status: { in: ['pending', 'retrying'] } },
+        { nextAttemptAt: { equals: delivery.nextAttemptAt ?? null } },
+      ],
+    },
+    data: {
+      nextAttemptAt: new Date(attemptedAt.getTime() + ATTEMPT_LEASE_MS).toISOString(),
+    },
+  })
+
+  if (!claimed) {
+    console.log(`[WEBHOOK-DELIVERY] Delivery ${delivery.id} is already being attempted, skipping`)
+    return null
+  }
+
+  let responseCode: number | undefined
+  let error: string | undefined
+  const url = typeof provider === 'object' ? provider.webhookUrl : undefined
+  const startedAt = Date.now()
+
+  if (!url) {
+    error = 'Provider has no webhook URL configured'
+  } else {
+    try {
+      const body = JSON.stringify(delivery.payload)
+      const signingSecrets = getActiveWebhookSecrets(provider)
+
+      if (signingSecrets.length === 0) {
+        console.warn(`Provider ${provider.name} has no webhook signing secret, sending unsigned`)
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-DZTech-Webhook': 'payment-notification',
+          'X-DZTech-Delivery': delivery.id,
+          ...(signingSecrets.length > 0 && buildWebhookSignatureHeaders(signingSecrets, body)),
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      })
+
+      responseCode = response.status
+      if (!response.ok) {
+        error = `${response.status} ${response.statusText}`
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Unknown error'
+    }
+  }
+
+  const latencyMs = Date.now() - startedAt
+  const delivered = !error
+  const nextAttemptAt = delivered ? null : getNextAttemptAt(attemptCount, attemptedAt)
+  const status: WebhookDelivery['status'] = delivered
+    ? 'delivered'
+    : nextAttemptAt
+      ? 'retrying'
+      : 'dead_letter'
+
+  if (delivered) {
+    console.log(`[WEBHOOK-DELIVERY] ✅ Delivery ${delivery.id} accepted (${latencyMs}ms)`)
+  } else if (status === 'dead_letter') {
+    console.error(
+      `[WEBHOOK-DELIVERY] ☠️ Delivery ${delivery.id} dead-lettered after ${attemptCount} attempts: ${error}`,
+    )
+  } else {
+    console.warn(
+      `[WEBHOOK-DELIVERY] Delivery ${delivery.id} failed (attempt ${attemptCount}/${MAX_WEBHOOK_ATTEMPTS}): ${error}`,
+    )
+  }
+
+  return payload.update({
+    collection: 'webhook-deliveries',
+    id: delivery.id,
+    data: {
+      status,
+      attemptCount,
+      nextAttemptAt: nextAttemptAt ? nextAttemptAt.toISOString() : null,
+      lastResponseCode: responseCode ?? null,
+      lastError: error ?? null,
+      ...(delivered && { deliveredAt: attemptedAt.toISOString() }),
+      attempts: [
+        ...(delivery.attempts || []),
+        {
+          attemptedAt: attemptedAt.toISOString(),
+          url: url || null,
+          responseCode: responseCode ?? null,
+          latencyMs,
+          error: error ?? null,
+        },
+      ],
+    },
+    overrideAccess: true,
+  })
+}
+
+/**
+ * Attempt every delivery whose retry time has come (called by the background task)
+ */
+export async function processDueWebhookDeliveries(
+  payload: Payload,
+  limit: number = 25,
+): Promise<{ processed: number; delivered: number; deadLettered: number }> {
+  const due = await payload.find({
+    collection: 'webhook-deliveries',
+    where: {
+      and: [
+        { status: { in: ['pending', 'retrying'] } },
+        { nextAttemptAt: { less_than_equal: new Date().toISOString() } },
+      ],
+    },
+    sort: 'nextAttemptAt',
+    limit,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  const result = { processed: 0, delivered: 0, deadLettered: 0 }
+
+  // Sequential on purpose: keeps outbound concurrency (and load on providers) predictable
+  for (const delivery of due.docs) {
+    try {
+      const updated = await attemptWebhookDelivery(payload, delivery.id)
+      if (!updated) continue
+      result.processed++
+      if (updated.status === 'delivered') result.delivered++
+      if (updated.status === 'dead_letter') result.deadLettered++
+    } catch (err) {
+      console.error(`[WEBHOOK-DELIVERY] Error processing delivery ${delivery.id}:`, err)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Manually replay a delivery (any status) with a fresh attempt budget
+ * The first attempt runs immediately so the admin sees the outcome
+ */
+export async function replayWebhookDelivery(
+  payload: Payload,
+  deliveryId: string,
+): Promise<WebhookDelivery> {
+  await payload.update({
+    collection: 'webhook-deliveries',
+    id: deliveryId,
+    data: {
+      status: 'pending',
+      attemptCount: 0,
+    },
+    overrideAccess: true,
+  })
+
+  console.log(`[WEBHOOK-DELIVERY] Replaying delivery ${deliveryId}`)
+  const delivery = await attemptWebhookDelivery(payload, deliveryId)
+  if (!delivery) {
+    throw new APIError('Delivery is already being attempted', 409, undefined, true)
+  }
+  return delivery
+}
@@ -0,0 +1,129 @@
+import crypto from 'crypto'
+
+/**
+ * Provider Webhook Signatures
+ *
+ * Every outbound provider webhook is signed with HMAC-SHA256 over `${timestamp}.${body}`
+ * using the provider's signing secret. Two headers are sent with each delivery:
+ *
+ *   X-DZTech-Timestamp: 1738231200
+ *   X-DZTech-Signature: v1=5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd
+ *
+ * During a secret rotation grace window the signature header carries one `v1=` entry per
+ * active secret (comma-separated), so providers can verify with either the old or new secret.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-DZTech-Signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-DZTech-Timestamp'
+export const WEBHOOK_SIGNATURE_VERSION = 'v1'
+
+// Reject deliveries whose timestamp is more than 5 minutes away from the receiver's clock
+export const DEFAULT_TIMESTAMP_TOLERANCE_SECONDS = 5 * 60
+
+/**
+ * Generate a new webhook signing secret
+ * Format: whsec_dz_[random_43_chars]
+ */
+export function generateWebhookSecret(): string {
+  const randomBytes = crypto.randomBytes(32)
+  return `whsec_dz_${randomBytes.toString('base64url')}`
+}
+
+/**
+ * Compute the hex HMAC-SHA256 signature for a timestamp + raw body pair
+ */
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Build the signature/timestamp headers for a delivery
+ * Pass every currently valid secret (current first, then the previous one during rotation)
+ */
+export function buildWebhookSignatureHeaders(
+  secrets: string[],
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): Record<string, string> {
+  const signatures = secrets
+    .filter(Boolean)
+    .map(
+      (secret) =>
+        `${WEBHOOK_SIGNATURE_VERSION}=${computeWebhookSignature(secret, timestamp, body)}`,
+    )
+
+  return {
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [WEBHOOK_SIGNATURE_HEADER]: signatures.join(','),
+  }
+}
+
+/**
+ * Verify a signed webhook delivery (reference implementation of the provider-side check)
+ * Accepts one or more secrets so a receiver can trust both secrets while rotating
+ */
+export function verifyWebhookSignature({
+  body,
+  signatureHeader,
+  timestampHeader,
+  secrets,
+  toleranceSeconds = DEFAULT_TIMESTAMP_TOLERANCE_SECONDS,
+  now = Math.floor(Date.now() / 1000),
+}: {
+  body: string
+  signatureHeader: string | null | undefined
+  timestampHeader: string | null | undefined
+  secrets: string | string[]
+  toleranceSeconds?: number
+  now?: number
+}): boolean {
+  if (!signatureHeader || !timestampHeader) return false
+
+  const timestamp = Number(timestampHeader)
+  if (!Number.isInteger(timestamp)) return false
+
+  // Replay protection: stale or future-dated deliveries are rejected
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false
+
+  const received = signatureHeader
+    .split(',')
+    .map((part) => part.trim().split('='))
+    .filter(([version, value]) => version === WEBHOOK_SIGNATURE_VERSION && Boolean(value))
+    .map(([, value]) => Buffer.from(value, 'hex'))
+
+  const candidates = (Array.isArray(secrets) ? secrets : [secrets]).filter(Boolean)
+
+  return candidates.some((secret) => {
+    const expected = Buffer.from(computeWebhookSignature(secret, timestamp, body), 'hex')
+    return received.some(
+      (signature) =>
+        signature.length === expected.length && crypto.timingSafeEqual(signature, expected),
+    )
+  })
+}
+
+/**
+ * Resolve the secrets that should sign a delivery right now
+ * The previous secret is only included until its grace window expires
+ */
+export function getActiveWebhookSecrets(provider: {
+  webhookSigningSecret?: string | null
+  previousWebhookSigningSecret?: string | null
+  previousWebhookSigningSecretExpiresAt?: string | null
+}): string[] {
+  const secrets: string[] = []
+
+  if (provider.webhookSigningSecret) {
+    secrets.push(provider.webhookSigningSecret)
+  }
+
+  if (
+    provider.previousWebhookSigningSecret &&
+    provider.previousWebhookSigningSecretExpiresAt &&
+    new Date(provider.previousWebhookSigningSecretExpiresAt).getTime() > Date.now()
+  ) {
+    secrets.push(provider.previousWebhookSigningSecret)
+  }
+
+  return secrets
+}
@@ -21,7 +21,8 @@ export function middleware(request: NextRequest) {
 
     // Apply rate limiting based on route type
     let rateLimitCheck
-    if (url.pathname.includes('/api/users/')) {
+    // Two-factor code checks count as sign-in attempts; the status GET does not
+    if (url.pathname.includes('/api/users/') || url.pathname.startsWith('/api/admin/two-factor/')) {
       rateLimitCheck = checkAuthRateLimit(request)
     } else if (url.pathname.includes('/api/orders') || url.pathname.includes('/checkout')) {
       rateLimitCheck = checkPaymentRateLimit(request)
@@ -77,12 +77,25 @@ export interface Config {
     projects: Project;
     'contact-requests': ContactRequest;
     providers: Provider;
+    'webhook-deliveries': WebhookDelivery;
+    'stripe-events': StripeEvent;
+    'provider-api-keys': ProviderApiKey;
+    'ledger-entries': LedgerEntry;
+    'reconciliation-reports': ReconciliationReport;
+    'idempotency-keys': IdempotencyKey;
+    'audit-logs': AuditLog;
+    'login-events': LoginEvent;
     'payload-kv': PayloadKv;
+    'payload-jobs': PayloadJob;
     'payload-locked-documents': PayloadLockedDocument;
     'payload-preferences': PayloadPreference;
     'payload-migrations': PayloadMigration;
   };
-  collectionsJoins: {};
+  collectionsJoins: {
+    users: {
+      loginHistory: 'login-events';
+    };
+  };
   collectionsSelect: {
     users: UsersSelect<false> | UsersSelect<true>;
     media: MediaSelect<false> | MediaSelect<true>;
@@ -94,7 +107,16 @@ export interface Config {
     projects: ProjectsSelect<false> | ProjectsSelect<true>;
     'contact-requests': ContactRequestsSelect<false> | ContactRequestsSelect<true>;
     providers: ProvidersSelect<false> | ProvidersSelect<true>;
+    'webhook-deliveries': WebhookDeliveriesSelect<false> | WebhookDeliveriesSelect<true>;
+    'stripe-events': StripeEventsSelect<false> | StripeEventsSelect<true>;
+    'provider-api-keys': ProviderApiKeysSelect<false> | ProviderApiKeysSelect<true>;
+    'ledger-entries': LedgerEntriesSelect<false> | LedgerEntriesSelect<true>;
+    'reconciliation-reports': ReconciliationReportsSelect<false> | ReconciliationReportsSelect<true>;
+    'idempotency-keys': IdempotencyKeysSelect<false> | IdempotencyKeysSelect<true>;
+    'audit-logs': AuditLogsSelect<false> | AuditLogsSelect<true>;
+    'login-events': LoginEventsSelect<false> | LoginEventsSelect<true>;
     'payload-kv': PayloadKvSelect<false> | PayloadKvSelect<true>;
+    'payload-jobs': PayloadJobsSelect<false> | PayloadJobsSelect<true>;
     'payload-locked-documents': PayloadLockedDocumentsSelect<false> | PayloadLockedDocumentsSelect<true>;
     'payload-preferences': PayloadPreferencesSelect<false> | PayloadPreferencesSelect<true>;
     'payload-migrations': PayloadMigrationsSelect<false> | PayloadMigrationsSelect<true>;
@@ -107,18 +129,29 @@ export interface Config {
     'site-settings': SiteSetting;
     navigation: Navigation;
     footer: Footer;
+    'payload-jobs-stats': PayloadJobsStat;
   };
   globalsSelect: {
     'site-settings': SiteSettingsSelect<false> | SiteSettingsSelect<true>;
     navigation: NavigationSelect<false> | NavigationSelect<true>;
     footer: FooterSelect<false> | FooterSelect<true>;
+    'payload-jobs-stats': PayloadJobsStatsSelect<false> | PayloadJobsStatsSelect<true>;
   };
   locale: null;
   user: User & {
     collection: 'users';
   };
   jobs: {
-    tasks: unknown;
+    tasks: {
+      processWebhookDeliveries: TaskProcessWebhookDeliveries;
+      expireCheckoutSessions: TaskExpireCheckoutSessions;
+      reconcileStripePayments: TaskReconcileStripePayments;
+      purgeIdempotencyKeys: TaskPurgeIdempotencyKeys;
+      inline: {
+        input: unknown;
+        output: unknown;
+      };
+    };
     workflows: unknown;
   };
 }
@@ -147,9 +180,27 @@ export interface UserAuthOperations {
 export interface User {
   id: string;
   name: string;
-  role: 'admin' | 'editor';
+  role: 'admin' | 'finance' | 'support' | 'editor' | 'analyst';
+  twoFactor?: {
+    enabled?: boolean | null;
+    enabledAt?: string | null;
+    secret?: string | null;
+    pendingSecret?: string | null;
+    recoveryCodes?: string[] | null;
+    lastUsedStep?: number | null;
+    failedAttempts?: number | null;
+    verifiedSessions?: string[] | null;
+  };
+  loginHistory?: {
+    docs?: (string | LoginEvent)[];
+    hasNextPage?: boolean;
+    totalDocs?: number;
+  };
   updatedAt: string;
   createdAt: string;
+  enableAPIKey?: boolean | null;
+  apiKey?: string | null;
+  apiKeyIndex?: string | null;
   email: string;
   resetPasswordToken?: string | null;
   resetPasswordExpiration?: string | null;
@@ -166,6 +217,33 @@ export interface User {
     | null;
   password?: string | null;
 }
+/**
+ * Sign-in attempts to the admin panel, with the IP address and browser they came from.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "login-events".
+ */
+export interface LoginEvent {
+  id: string;
+  outcome: 'success' | 'failed' | 'locked' | 'two_factor_verified' | 'two_factor_failed';
+  /**
+   * Empty when the email matches no user
+   */
+  user?: (string | null) | User;
+  email?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  /**
+   * Hash of the user agent, used to spot new devices
+   */
+  deviceId?: string | null;
+  /**
+   * First sign-in from this browser; the user was emailed an alert
+   */
+  newDevice?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "media".
@@ -564,6 +642,44 @@ export interface Service {
    */
   originalPrice?: number | null;
   priceUnit?: ('hour' | 'day' | 'month' | 'project' | 'one-time') | null;
+  /**
+   * Which amounts can be charged for this service. Providers can override these per linked service.
+   */
+  amountRules: {
+    pricingMode: 'unit' | 'open';
+    minAmount?: number | null;
+    maxAmount?: number | null;
+    /**
+     * Amounts must be a multiple of this
+     */
+    amountStep?: number | null;
+    minQuantity?: number | null;
+    maxQuantity?: number | null;
+  };
+  /**
+   * Payment methods offered at checkout. ACH debits settle after a few business days. Leave empty for Cash App only.
+   */
+  paymentMethods?: ('cashapp' | 'card' | 'us_bank_account' | 'wallets')[] | null;
+  /**
+   * Charge this service's payments to its own Stripe account instead of the platform account. A provider's own account takes precedence.
+   */
+  stripeConfig?: {
+    useCustomStripeAccount?: boolean | null;
+    stripePublishableKey?: string | null;
+    /**
+     * Paste a key to set or replace it. Stored encrypted, never shown again.
+     */
+    stripeSecretKey?: string | null;
+    stripeSecretKeyHint?: string | null;
+    /**
+     * From the webhook endpoint pointing at /api/v1/stripe/webhooks in this Stripe account
+     */
+    stripeWebhookSecret?: string | null;
+    stripeWebhookSecretHint?: string | null;
+    stripeKeyMode?: ('test' | 'live' | 'unknown') | null;
+    stripeSecretKeyEncrypted?: string | null;
+    stripeWebhookSecretEncrypted?: string | null;
+  };
   features?:
     | {
         feature: string;
@@ -631,6 +747,14 @@ export interface Order {
    * Unique token for secure checkout URL (auto-generated)
    */
   checkoutToken?: string | null;
+  /**
+   * The checkout link stops working and the order expires after this time
+   */
+  checkoutExpiresAt?: string | null;
+  /**
+   * The expiry sweep skipped this order (payment in flight, or an error) and checks it again after this time
+   */
+  checkoutNextCheckAt?: string | null;
   /**
    * Provider's internal order/transaction ID for tracking
    */
@@ -639,14 +763,76 @@ export interface Order {
    * External provider that initiated this order (if applicable)
    */
   provider?: (string | null) | Provider;
+  /**
+   * Per-order override of the provider's success URL
+   */
+  successRedirectUrl?: string | null;
+  /**
+   * Per-order override of the provider's cancel URL
+   */
+  cancelRedirectUrl?: string | null;
+  /**
+   * Sent by the provider when the order was created; echoed in webhooks
+   */
+  metadata?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
   service: string | Service;
-  status: 'pending' | 'paid' | 'failed' | 'refunded' | 'disputed';
+  /**
+   * Only legal transitions are accepted (see src/lib/order-status.ts)
+   */
+  status: 'pending' | 'paid' | 'failed' | 'expired' | 'disputed' | 'partially_refunded' | 'refunded';
+  /**
+   * Append-only log of status changes
+   */
+  statusHistory?:
+    | {
+        from?: ('pending' | 'paid' | 'failed' | 'expired' | 'disputed' | 'partially_refunded' | 'refunded') | null;
+        to: 'pending' | 'paid' | 'failed' | 'expired' | 'disputed' | 'partially_refunded' | 'refunded';
+        source: 'webhook' | 'sync' | 'admin' | 'api' | 'system';
+        changedAt: string;
+        note?: string | null;
+        changedBy?: (string | null) | User;
+        id?: string | null;
+      }[]
+    | null;
   total: number;
   /**
    * Number of units purchased (Total / Service Price)
    */
   quantity?: number | null;
+  paidAt?: string | null;
+  /**
+   * Amount charged
+   */
+  grossAmount?: number | null;
+  /**
+   * Kept by the platform
+   */
+  platformFee?: number | null;
+  /**
+   * Owed to the provider
+   */
+  netAmount?: number | null;
+  /**
+   * Payment methods offered at checkout for this order
+   */
+  paymentMethods?: ('cashapp' | 'card' | 'us_bank_account' | 'wallets')[] | null;
   stripeSessionId?: string | null;
+  /**
+   * Stripe account holding the PaymentIntent
+   */
+  stripeAccount?: ('platform' | 'service' | 'provider') | null;
+  /**
+   * Unchecked for test orders created with a provider test API key
+   */
+  livemode?: boolean | null;
   stripePaymentIntentId?: string | null;
   customerEmail?: string | null;
   disputeId?: string | null;
@@ -666,6 +852,29 @@ export interface Order {
    */
   disputeAmount?: number | null;
   disputeReason?: string | null;
+  /**
+   * Total of succeeded refunds in dollars
+   */
+  amountRefunded?: number | null;
+  /**
+   * Refunds issued from the dashboard or synced from Stripe
+   */
+  refunds?:
+    | {
+        stripeRefundId: string;
+        /**
+         * Amount in dollars
+         */
+        amount: number;
+        status?: ('pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled') | null;
+        reason?: ('requested_by_customer' | 'duplicate' | 'fraudulent') | null;
+        note?: string | null;
+        failureReason?: string | null;
+        createdBy?: (string | null) | User;
+        createdAt?: string | null;
+        id?: string | null;
+      }[]
+    | null;
   updatedAt: string;
   createdAt: string;
 }
@@ -686,13 +895,63 @@ export interface Provider {
    */
   slug: string;
   /**
-   * The API key this provider will use to authenticate requests. Will be auto-generated if not provided.
+   * Services this provider can sell. Requests pick one with `serviceSlug`; amount rules can be overridden per service.
    */
-  apiKey: string;
+  services: {
+    service: string | Service;
+    pricingMode?: ('unit' | 'open') | null;
+    minAmount?: number | null;
+    maxAmount?: number | null;
+    amountStep?: number | null;
+    minQuantity?: number | null;
+    maxQuantity?: number | null;
+    id?: string | null;
+  }[];
   /**
-   * The service whose Stripe configuration will be used for payments
+   * Charged when a request does not send a `serviceSlug`
    */
-  service: string | Service;
+  primaryService: string | Service;
+  /**
+   * Limits checkout to these methods, within each service's allowed methods. Leave empty to offer everything the service allows.
+   */
+  paymentMethods?: ('cashapp' | 'card' | 'us_bank_account' | 'wallets')[] | null;
+  /**
+   * What the platform keeps from each paid order. Applied when the order becomes paid; the rest is owed to the provider.
+   */
+  feeSchedule?: {
+    percentage?: number | null;
+    fixedFee?: number | null;
+    /**
+     * Replace the percentage once the provider's paid volume this calendar month (UTC) reaches a threshold. The highest reached tier applies.
+     */
+    tiers?:
+      | {
+          minMonthlyVolume: number;
+          percentage: number;
+          id?: string | null;
+        }[]
+      | null;
+  };
+  /**
+   * Charge this provider's payments to its own Stripe account. Overrides the services' accounts and the platform account.
+   */
+  stripeConfig?: {
+    useCustomStripeAccount?: boolean | null;
+    stripePublishableKey?: string | null;
+    /**
+     * Paste a key to set or replace it. Stored encrypted, never shown again.
+     */
+    stripeSecretKey?: string | null;
+    stripeSecretKeyHint?: string | null;
+    /**
+     * From the webhook endpoint pointing at /api/v1/stripe/webhooks in this Stripe account
+     */
+    stripeWebhookSecret?: string | null;
+    stripeWebhookSecretHint?: string | null;
+    stripeKeyMode?: ('test' | 'live' | 'unknown') | null;
+    stripeSecretKeyEncrypted?: string | null;
+    stripeWebhookSecretEncrypted?: string | null;
+  };
   /**
    * Only active providers can process payments
    */
@@ -702,13 +961,43 @@ export interface Provider {
    */
   webhookUrl?: string | null;
   /**
-   * URL to redirect users after successful payment. Use {orderId} as placeholder. Example: https://bitloader.com/payment/success?orderId={orderId}
+   * Used to sign webhook deliveries (HMAC-SHA256, sent in X-DZTech-Signature). Share it with the provider so they can verify requests. Auto-generated.
+   */
+  webhookSigningSecret?: string | null;
+  /**
+   * Check and save to issue a new signing secret. The current secret keeps signing deliveries until the grace period ends.
+   */
+  rotateWebhookSecret?: boolean | null;
+  /**
+   * How long the previous secret stays valid after a rotation
+   */
+  webhookSecretGraceHours?: number | null;
+  /**
+   * Still included in webhook signatures until the expiry below
+   */
+  previousWebhookSigningSecret?: string | null;
+  previousWebhookSigningSecretExpiresAt?: string | null;
+  /**
+   * URL to redirect users after successful payment. Placeholders: {orderId}, {externalId}, {status}. Example: https://bitloader.com/payment/success?orderId={orderId}
    */
   successRedirectUrl?: string | null;
   /**
-   * URL to redirect users if they cancel payment. Use {orderId} as placeholder. Example: https://bitloader.com/payment/cancelled?orderId={orderId}
+   * URL to redirect users if they cancel payment. Placeholders: {orderId}, {externalId}, {status}. Example: https://bitloader.com/payment/cancelled?orderId={orderId}
    */
   cancelRedirectUrl?: string | null;
+  /**
+   * Domains the provider may send as per-order successUrl / cancelUrl (subdomains included). Leave empty to disallow per-order URLs.
+   */
+  allowedRedirectDomains?:
+    | {
+        domain: string;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * How long checkout links for this provider stay payable. Leave empty to use Site Settings → Checkout.
+   */
+  checkoutExpiryMinutes?: number | null;
   /**
    * Internal notes about this provider
    */
@@ -717,6 +1006,10 @@ export interface Provider {
    * Last time this provider made an API request
    */
   lastUsedAt?: string | null;
+  /**
+   * Held while a payout is recorded, so payouts to a provider run one at a time
+   */
+  payoutLockedUntil?: string | null;
   updatedAt: string;
   createdAt: string;
 }
@@ -769,6 +1062,279 @@ export interface ContactRequest {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Outbound provider webhook deliveries. Failed deliveries are retried in the background and dead-lettered after the final attempt.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "webhook-deliveries".
+ */
+export interface WebhookDelivery {
+  id: string;
+  provider: string | Provider;
+  order?: (string | null) | Order;
+  event: 'payment_succeeded' | 'payment_failed' | 'payment_refunded' | 'payment_expired';
+  status: 'pending' | 'retrying' | 'delivered' | 'dead_letter';
+  /**
+   * Attempts made since the delivery was created or last replayed
+   */
+  attemptCount?: number | null;
+  nextAttemptAt?: string | null;
+  deliveredAt?: string | null;
+  lastResponseCode?: number | null;
+  lastError?: string | null;
+  /**
+   * Body sent to the provider (signed fresh on every attempt)
+   */
+  payload:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  attempts?:
+    | {
+        attemptedAt: string;
+        responseCode?: number | null;
+        latencyMs?: number | null;
+        url?: string | null;
+        error?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Stripe webhook events and how they were processed. Written by the webhook route.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stripe-events".
+ */
+export interface StripeEvent {
+  id: string;
+  eventId: string;
+  type: string;
+  status: 'processing' | 'processed' | 'skipped' | 'failed';
+  /**
+   * ID of the Stripe object the event is about (PaymentIntent, dispute, ...)
+   */
+  objectId?: string | null;
+  paymentIntentId?: string | null;
+  /**
+   * Event creation time in Stripe, used to order events for the same object
+   */
+  stripeCreatedAt: string;
+  /**
+   * What processing did, or why the event was skipped
+   */
+  outcome?: string | null;
+  error?: string | null;
+  /**
+   * Times Stripe delivered this event to us
+   */
+  deliveryCount?: number | null;
+  processedAt?: string | null;
+  livemode?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Provider API keys. Create and rotate keys from the provider page — the full key is only shown once.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "provider-api-keys".
+ */
+export interface ProviderApiKey {
+  id: string;
+  /**
+   * What this key is used for, e.g. "Production backend"
+   */
+  name: string;
+  provider: string | Provider;
+  keyHash: string;
+  /**
+   * First characters of the key, to tell keys apart
+   */
+  prefix: string;
+  /**
+   * Test keys charge a Stripe test account and create test orders
+   */
+  mode: 'live' | 'test';
+  /**
+   * Revoked keys are rejected immediately
+   */
+  status: 'active' | 'revoked';
+  /**
+   * Set when the key is rotated out; the key is rejected after this time
+   */
+  expiresAt?: string | null;
+  lastUsedAt?: string | null;
+  /**
+   * Key issued when this one was rotated
+   */
+  replacedBy?: (string | null) | ProviderApiKey;
+  createdBy?: (string | null) | User;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Settlement ledger per provider. Written when orders are paid, refunded or lose a dispute, and when payouts are recorded from Wallets.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "ledger-entries".
+ */
+export interface LedgerEntry {
+  id: string;
+  /**
+   * Identifies the business event, so an event is never posted twice
+   */
+  key: string;
+  type: 'payment' | 'platform_fee' | 'refund' | 'dispute_loss' | 'payout';
+  provider: string | Provider;
+  order?: (string | null) | Order;
+  debitAccount: 'stripe_balance' | 'provider_payable' | 'platform_revenue';
+  creditAccount: 'stripe_balance' | 'provider_payable' | 'platform_revenue';
+  /**
+   * Amount in dollars
+   */
+  amount: number;
+  description: string;
+  /**
+   * Stripe refund/dispute id, or the bank reference of a payout
+   */
+  reference?: string | null;
+  occurredAt: string;
+  /**
+   * Admin who recorded the payout
+   */
+  createdBy?: (string | null) | User;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Stripe PaymentIntents and refunds matched against orders. Safe drifts are fixed automatically; the rest are listed as discrepancies.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "reconciliation-reports".
+ */
+export interface ReconciliationReport {
+  id: string;
+  trigger: 'schedule' | 'admin';
+  status: 'completed' | 'failed';
+  windowStart: string;
+  windowEnd: string;
+  summary?: {
+    accounts?: number | null;
+    paymentIntents?: number | null;
+    refunds?: number | null;
+    fixed?: number | null;
+    unresolved?: number | null;
+  };
+  fixes?:
+    | {
+        order?: (string | null) | Order;
+        stripeObjectId?: string | null;
+        outcome?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  discrepancies?:
+    | {
+        type:
+          | 'missing_order'
+          | 'paid_in_stripe'
+          | 'not_paid_in_stripe'
+          | 'amount_mismatch'
+          | 'payment_intent_not_found';
+        order?: (string | null) | Order;
+        stripeObjectId?: string | null;
+        stripeAccount?: string | null;
+        message?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  error?: string | null;
+  requestedBy?: (string | null) | User;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Provider Idempotency-Key headers with the request fingerprint and cached response. Expired keys are purged hourly.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "idempotency-keys".
+ */
+export interface IdempotencyKey {
+  id: string;
+  scopedKey: string;
+  key: string;
+  provider: string | Provider;
+  /**
+   * SHA-256 of the request body; reusing the key with another body is a 409
+   */
+  fingerprint: string;
+  status: 'processing' | 'completed';
+  responseStatus?: number | null;
+  /**
+   * Response replayed to retries with the same key and body
+   */
+  responseBody?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  order?: (string | null) | Order;
+  expiresAt: string;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Who changed what and from where. Written automatically when orders, providers, API keys, services, users or site settings change; entries can never be edited.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "audit-logs".
+ */
+export interface AuditLog {
+  id: string;
+  action: 'create' | 'update' | 'delete' | 'payout' | 'replay';
+  /**
+   * Collection or global that changed
+   */
+  collectionSlug: string;
+  documentId?: string | null;
+  summary: string;
+  /**
+   * Changed fields with their values before and after; secrets are redacted
+   */
+  changes?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * Empty for changes made by the system, e.g. Stripe webhooks
+   */
+  actor?: (string | null) | User;
+  /**
+   * Email of the actor at the time, kept if the user is deleted
+   */
+  actorEmail?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-kv".
@@ -786,6 +1352,120 @@ export interface PayloadKv {
     | boolean
     | null;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs".
+ */
+export interface PayloadJob {
+  id: string;
+  /**
+   * Input data provided to the job
+   */
+  input?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  taskStatus?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  completedAt?: string | null;
+  totalTried?: number | null;
+  /**
+   * If hasError is true this job will not be retried
+   */
+  hasError?: boolean | null;
+  /**
+   * If hasError is true, this is the error that caused it
+   */
+  error?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * Task execution log
+   */
+  log?:
+    | {
+        executedAt: string;
+        completedAt: string;
+        taskSlug:
+          | 'inline'
+          | 'processWebhookDeliveries'
+          | 'expireCheckoutSessions'
+          | 'reconcileStripePayments'
+          | 'purgeIdempotencyKeys';
+        taskID: string;
+        input?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        output?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        state: 'failed' | 'succeeded';
+        error?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        id?: string | null;
+      }[]
+    | null;
+  taskSlug?:
+    | (
+        | 'inline'
+        | 'processWebhookDeliveries'
+        | 'expireCheckoutSessions'
+        | 'reconcileStripePayments'
+        | 'purgeIdempotencyKeys'
+      )
+    | null;
+  queue?: string | null;
+  waitUntil?: string | null;
+  processing?: boolean | null;
+  meta?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents".
@@ -832,6 +1512,38 @@ export interface PayloadLockedDocument {
     | ({
         relationTo: 'providers';
         value: string | Provider;
+      } | null)
+    | ({
+        relationTo: 'webhook-deliveries';
+        value: string | WebhookDelivery;
+      } | null)
+    | ({
+        relationTo: 'stripe-events';
+        value: string | StripeEvent;
+      } | null)
+    | ({
+        relationTo: 'provider-api-keys';
+        value: string | ProviderApiKey;
+      } | null)
+    | ({
+        relationTo: 'ledger-entries';
+        value: string | LedgerEntry;
+      } | null)
+    | ({
+        relationTo: 'reconciliation-reports';
+        value: string | ReconciliationReport;
+      } | null)
+    | ({
+        relationTo: 'idempotency-keys';
+        value: string | IdempotencyKey;
+      } | null)
+    | ({
+        relationTo: 'audit-logs';
+        value: string | AuditLog;
+      } | null)
+    | ({
+        relationTo: 'login-events';
+        value: string | LoginEvent;
       } | null);
   globalSlug?: string | null;
   user: {
@@ -882,8 +1594,24 @@ export interface PayloadMigration {
 export interface UsersSelect<T extends boolean = true> {
   name?: T;
   role?: T;
+  twoFactor?:
+    | T
+    | {
+        enabled?: T;
+        enabledAt?: T;
+        secret?: T;
+        pendingSecret?: T;
+        recoveryCodes?: T;
+        lastUsedStep?: T;
+        failedAttempts?: T;
+        verifiedSessions?: T;
+      };
+  loginHistory?: T;
   updatedAt?: T;
   createdAt?: T;
+  enableAPIKey?: T;
+  apiKey?: T;
+  apiKeyIndex?: T;
   email?: T;
   resetPasswordToken?: T;
   resetPasswordExpiration?: T;
@@ -1231,6 +1959,30 @@ export interface ServicesSelect<T extends boolean = true> {
   price?: T;
   originalPrice?: T;
   priceUnit?: T;
+  amountRules?:
+    | T
+    | {
+        pricingMode?: T;
+        minAmount?: T;
+        maxAmount?: T;
+        amountStep?: T;
+        minQuantity?: T;
+        maxQuantity?: T;
+      };
+  paymentMethods?: T;
+  stripeConfig?:
+    | T
+    | {
+        useCustomStripeAccount?: T;
+        stripePublishableKey?: T;
+        stripeSecretKey?: T;
+        stripeSecretKeyHint?: T;
+        stripeWebhookSecret?: T;
+        stripeWebhookSecretHint?: T;
+        stripeKeyMode?: T;
+        stripeSecretKeyEncrypted?: T;
+        stripeWebhookSecretEncrypted?: T;
+      };
   features?:
     | T
     | {
@@ -1289,19 +2041,56 @@ export interface JobsSelect<T extends boolean = true> {
 export interface OrdersSelect<T extends boolean = true> {
   orderId?: T;
   checkoutToken?: T;
+  checkoutExpiresAt?: T;
+  checkoutNextCheckAt?: T;
   externalId?: T;
   provider?: T;
+  successRedirectUrl?: T;
+  cancelRedirectUrl?: T;
+  metadata?: T;
   service?: T;
   status?: T;
+  statusHistory?:
+    | T
+    | {
+        from?: T;
+        to?: T;
+        source?: T;
+        changedAt?: T;
+        note?: T;
+        changedBy?: T;
+        id?: T;
+      };
   total?: T;
   quantity?: T;
+  paidAt?: T;
+  grossAmount?: T;
+  platformFee?: T;
+  netAmount?: T;
+  paymentMethods?: T;
   stripeSessionId?: T;
+  stripeAccount?: T;
+  livemode?: T;
   stripePaymentIntentId?: T;
   customerEmail?: T;
   disputeId?: T;
   disputeStatus?: T;
   disputeAmount?: T;
   disputeReason?: T;
+  amountRefunded?: T;
+  refunds?:
+    | T
+    | {
+        stripeRefundId?: T;
+        amount?: T;
+        status?: T;
+        reason?: T;
+        note?: T;
+        failureReason?: T;
+        createdBy?: T;
+        createdAt?: T;
+        id?: T;
+      };
   updatedAt?: T;
   createdAt?: T;
 }
@@ -1345,14 +2134,239 @@ export interface ContactRequestsSelect<T extends boolean = true> {
 export interface ProvidersSelect<T extends boolean = true> {
   name?: T;
   slug?: T;
-  apiKey?: T;
-  service?: T;
+  services?:
+    | T
+    | {
+        service?: T;
+        pricingMode?: T;
+        minAmount?: T;
+        maxAmount?: T;
+        amountStep?: T;
+        minQuantity?: T;
+        maxQuantity?: T;
+        id?: T;
+      };
+  primaryService?: T;
+  paymentMethods?: T;
+  feeSchedule?:
+    | T
+    | {
+        percentage?: T;
+        fixedFee?: T;
+        tiers?:
+          | T
+          | {
+              minMonthlyVolume?: T;
+              percentage?: T;
+              id?: T;
+            };
+      };
+  stripeConfig?:
+    | T
+    | {
+        useCustomStripeAccount?: T;
+        stripePublishableKey?: T;
+        stripeSecretKey?: T;
+        stripeSecretKeyHint?: T;
+        stripeWebhookSecret?: T;
+        stripeWebhookSecretHint?: T;
+        stripeKeyMode?: T;
+        stripeSecretKeyEncrypted?: T;
+        stripeWebhookSecretEncrypted?: T;
+      };
   status?: T;
   webhookUrl?: T;
+  webhookSigningSecret?: T;
+  rotateWebhookSecret?: T;
+  webhookSecretGraceHours?: T;
+  previousWebhookSigningSecret?: T;
+  previousWebhookSigningSecretExpiresAt?: T;
   successRedirectUrl?: T;
   cancelRedirectUrl?: T;
+  allowedRedirectDomains?:
+    | T
+    | {
+        domain?: T;
+        id?: T;
+      };
+  checkoutExpiryMinutes?: T;
   description?: T;
   lastUsedAt?: T;
+  payoutLockedUntil?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "webhook-deliveries_select".
+ */
+export interface WebhookDeliveriesSelect<T extends boolean = true> {
+  provider?: T;
+  order?: T;
+  event?: T;
+  status?: T;
+  attemptCount?: T;
+  nextAttemptAt?: T;
+  deliveredAt?: T;
+  lastResponseCode?: T;
+  lastError?: T;
+  payload?: T;
+  attempts?:
+    | T
+    | {
+        attemptedAt?: T;
+        responseCode?: T;
+        latencyMs?: T;
+        url?: T;
+        error?: T;
+        id?: T;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stripe-events_select".
+ */
+export interface StripeEventsSelect<T extends boolean = true> {
+  eventId?: T;
+  type?: T;
+  status?: T;
+  objectId?: T;
+  paymentIntentId?: T;
+  stripeCreatedAt?: T;
+  outcome?: T;
+  error?: T;
+  deliveryCount?: T;
+  processedAt?: T;
+  livemode?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "provider-api-keys_select".
+ */
+export interface ProviderApiKeysSelect<T extends boolean = true> {
+  name?: T;
+  provider?: T;
+  keyHash?: T;
+  prefix?: T;
+  mode?: T;
+  status?: T;
+  expiresAt?: T;
+  lastUsedAt?: T;
+  replacedBy?: T;
+  createdBy?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "ledger-entries_select".
+ */
+export interface LedgerEntriesSelect<T extends boolean = true> {
+  key?: T;
+  type?: T;
+  provider?: T;
+  order?: T;
+  debitAccount?: T;
+  creditAccount?: T;
+  amount?: T;
+  description?: T;
+  reference?: T;
+  occurredAt?: T;
+  createdBy?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "reconciliation-reports_select".
+ */
+export interface ReconciliationReportsSelect<T extends boolean = true> {
+  trigger?: T;
+  status?: T;
+  windowStart?: T;
+  windowEnd?: T;
+  summary?:
+    | T
+    | {
+        accounts?: T;
+        paymentIntents?: T;
+        refunds?: T;
+        fixed?: T;
+        unresolved?: T;
+      };
+  fixes?:
+    | T
+    | {
+        order?: T;
+        stripeObjectId?: T;
+        outcome?: T;
+        id?: T;
+      };
+  discrepancies?:
+    | T
+    | {
+        type?: T;
+        order?: T;
+        stripeObjectId?: T;
+        stripeAccount?: T;
+        message?: T;
+        id?: T;
+      };
+  error?: T;
+  requestedBy?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "idempotency-keys_select".
+ */
+export interface IdempotencyKeysSelect<T extends boolean = true> {
+  scopedKey?: T;
+  key?: T;
+  provider?: T;
+  fingerprint?: T;
+  status?: T;
+  responseStatus?: T;
+  responseBody?: T;
+  order?: T;
+  expiresAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "audit-logs_select".
+ */
+export interface AuditLogsSelect<T extends boolean = true> {
+  action?: T;
+  collectionSlug?: T;
+  documentId?: T;
+  summary?: T;
+  changes?: T;
+  actor?: T;
+  actorEmail?: T;
+  ip?: T;
+  userAgent?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "login-events_select".
+ */
+export interface LoginEventsSelect<T extends boolean = true> {
+  outcome?: T;
+  user?: T;
+  email?: T;
+  ip?: T;
+  userAgent?: T;
+  deviceId?: T;
+  newDevice?: T;
   updatedAt?: T;
   createdAt?: T;
 }
@@ -1364,6 +2378,38 @@ export interface PayloadKvSelect<T extends boolean = true> {
   key?: T;
   data?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs_select".
+ */
+export interface PayloadJobsSelect<T extends boolean = true> {
+  input?: T;
+  taskStatus?: T;
+  completedAt?: T;
+  totalTried?: T;
+  hasError?: T;
+  error?: T;
+  log?:
+    | T
+    | {
+        executedAt?: T;
+        completedAt?: T;
+        taskSlug?: T;
+        taskID?: T;
+        input?: T;
+        output?: T;
+        state?: T;
+        error?: T;
+        id?: T;
+      };
+  taskSlug?: T;
+  queue?: T;
+  waitUntil?: T;
+  processing?: T;
+  meta?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents_select".
@@ -1430,6 +2476,14 @@ export interface SiteSetting {
   defaultMetaTitle?: string | null;
   defaultMetaDescription?: string | null;
   defaultOgImage?: (string | null) | Media;
+  /**
+   * How long a checkout link stays payable. Expired orders have their PaymentIntent canceled. Providers can override this.
+   */
+  checkoutExpiryMinutes: number;
+  /**
+   * IANA time zone (e.g. America/New_York) for dashboard date ranges, daily/weekly/monthly charts and exports. Reports can override it with a tz parameter.
+   */
+  reportingTimeZone: string;
   updatedAt?: string | null;
   createdAt?: string | null;
 }
@@ -1505,6 +2559,24 @@ export interface Footer {
   updatedAt?: string | null;
   createdAt?: string | null;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats".
+ */
+export interface PayloadJobsStat {
+  id: string;
+  stats?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "site-settings_select".
@@ -1529,6 +2601,8 @@ export interface SiteSettingsSelect<T extends boolean = true> {
   defaultMetaTitle?: T;
   defaultMetaDescription?: T;
   defaultOgImage?: T;
+  checkoutExpiryMinutes?: T;
+  reportingTimeZone?: T;
   updatedAt?: T;
   createdAt?: T;
   globalType?: T;
@@ -1607,6 +2681,62 @@ export interface FooterSelect<T extends boolean = true> {
   createdAt?: T;
   globalType?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats_select".
+ */
+export interface PayloadJobsStatsSelect<T extends boolean = true> {
+  stats?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskProcessWebhookDeliveries".
+ */
+export interface TaskProcessWebhookDeliveries {
+  input?: unknown;
+  output: {
+    processed: number;
+    delivered: number;
+    deadLettered: number;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskExpireCheckoutSessions".
+ */
+export interface TaskExpireCheckoutSessions {
+  input?: unknown;
+  output: {
+    processed: number;
+    expired: number;
+    skipped: number;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskReconcileStripePayments".
+ */
+export interface TaskReconcileStripePayments {
+  input?: unknown;
+  output: {
+    reportId: string;
+    fixed: number;
+    unresolved: number;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPurgeIdempotencyKeys".
+ */
+export interface TaskPurgeIdempotencyKeys {
+  input?: unknown;
+  output: {
+    deleted: number;
+  };
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "auth".
@@ -19,11 +19,26 @@ import { Orders } from './collections/Orders'
 import { ContactRequests } from './collections/ContactRequests'
 import { Projects } from './collections/Projects'
 import { Providers } from './collections/Providers'
+import { WebhookDeliveries } from './collections/WebhookDeliveries'
+import { StripeEvents } from './collections/StripeEvents'
+import { ProviderApiKeys } from './collections/ProviderApiKeys'
+import { LedgerEntries } from './collections/LedgerEntries'
+import { ReconciliationReports } from './collections/ReconciliationReports'
+import { IdempotencyKeys } from './collections/IdempotencyKeys'
+import { AuditLogs } from './collections/AuditLogs'
+import { LoginEvents } from './collections/LoginEvents'
+
+// Tasks
+import { processWebhookDeliveries } from './tasks/processWebhookDeliveries'
+import { expireCheckoutSessions } from './tasks/expireCheckoutSessions'
+import { reconcileStripePayments } from './tasks/reconcileStripePayments'
+import { purgeIdempotencyKeys } from './tasks/purgeIdempotencyKeys'
 
 // Globals
 import { SiteSettings } from './globals/SiteSettings'
 import { Navigation } from './globals/Navigation'
 import { Footer } from './globals/Footer'
+import { getActiveUser } from './access'
 // import { SeedButton } from './components/Admin/SeedButton'
 
 const filename = fileURLToPath(import.meta.url)
@@ -52,6 +67,8 @@ export default buildConfig({
       },
       beforeDashboard: ['@/components/Admin/BeforeDashboard#BeforeDashboard'],
       afterDashboard: ['@/components/Admin/AfterDashboard#AfterDashboard'],
+      // Sends users who still owe a two-factor code to /admin/two-factor
+      providers: ['@/components/Admin/TwoFactorGate#TwoFactorGate'],
       views: {
         dashboard: {
           Component: '@/components/AdminDashboard#AdminDashboardLayout',
@@ -116,6 +133,10 @@ export default buildConfig({
           Component: '@/components/Admin/WalletsView#WalletsView',
           path: '/wallets',
         },
+        'two-factor': {
+          Component: '@/components/Admin/TwoFactorView#TwoFactorView',
+          path: '/two-factor',
+        },
       },
     },
     avatar: {
@@ -133,7 +154,32 @@ export default buildConfig({
     Projects,
     ContactRequests,
     Providers,
+    WebhookDeliveries,
+    StripeEvents,
+    ProviderApiKeys,
+    LedgerEntries,
+    ReconciliationReports,
+    IdempotencyKeys,
+    AuditLogs,
+    LoginEvents,
   ],
+  jobs: {
+    tasks: [
+      processWebhookDeliveries,
+      expireCheckoutSessions,
+      reconcileStripePayments,
+      purgeIdempotencyKeys,
+    ],
+    // Runs in-process on the long-lived Node server (see Dockerfile)
+    autoRun: [
+      { cron: '* * * * *', queue: 'webhooks' },
+      { cron: '* * * * *', queue: 'maintenance' },
+    ],
+    // Only admins may trigger job runs through the REST API
+    access: {
+      run: ({ req }) => getActiveUser(req.user)?.role === 'admin',
+    },
+  },
 
   globals: [SiteSettings, Navigation, Footer],
   editor: lexicalEditor(),
@@ -180,6 +226,14 @@ export default buildConfig({
         contactrequests: 'mail',
         projects: 'folder',
         providers: 'building',
+        'webhook-deliveries': 'send',
+        'stripe-events': 'zap',
+        'provider-api-keys': 'key',
+        'ledger-entries': 'book-open',
+        'reconciliation-reports': 'scale',
+        'idempotency-keys': 'key-round',
+        'audit-logs': 'scroll-text',
+        'login-events': 'log-in',
       },
       enablePinning: true,
       pinnedStorage: 'localStorage',
@@ -0,0 +1,53 @@
+import { getPayload } from 'payload'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import dotenv from 'dotenv'
+import { postOrderLedgerEntries, SETTLED_STATUSES } from '../lib/provider-ledger'
+
+const filename = fileURLToPath(import.meta.url)
+const dirname = path.dirname(filename)
+
+dotenv.config({
+  path: path.resolve(dirname, '../../.env'),
+})
+
+/**
+ * Post ledger entries for provider orders paid before the ledger existed, or whose entries
+ * failed to post. Safe to re-run: entries that already exist are skipped.
+ */
+async function backfill() {
+  try {
+    const { default: configPromise } = await import('@payload-config')
+    const payload = await getPayload({ config: configPromise })
+
+    const orders = await payload.find({
+      collection: 'orders',
+      where: {
+        and: [{ provider: { exists: true } }, { status: { in: [...SETTLED_STATUSES] } }],
+      },
+      sort: 'createdAt',
+      depth: 0,
+      pagination: false,
+      overrideAccess: true,
+    })
+
+    console.log(`Checking ledger entries for ${orders.docs.length} provider orders...`)
+
+    let posted = 0
+    for (const order of orders.docs) {
+      const count = await postOrderLedgerEntries(payload, order)
+      if (count > 0) {
+        posted += count
+        console.log(`  ✓ ${order.orderId || order.id}: ${count} entries`)
+      }
+    }
+
+    console.log(`Provider ledger backfilled: ${posted} entries posted`)
+    process.exit(0)
+  } catch (error) {
+    console.error('Error backfilling provider ledger:', error)
+    process.exit(1)
+  }
+}
+
+backfill()
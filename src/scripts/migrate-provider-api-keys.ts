@@ -0,0 +1,78 @@
+import { getPayload } from 'payload'
+import type { MongooseAdapter } from '@payloadcms/db-mongodb'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import dotenv from 'dotenv'
+import { getApiKeyPrefix, hashApiKey } from '../lib/api-key'
+
+const filename = fileURLToPath(import.meta.url)
+const dirname = path.dirname(filename)
+
+dotenv.config({
+  path: path.resolve(dirname, '../../.env'),
+})
+
+/**
+ * One-off migration: providers used to store a single plaintext `apiKey`.
+ * Each existing key becomes a hashed entry in `provider-api-keys` (so providers keep working
+ * without changes), then the plaintext field and its unique index are removed.
+ */
+async function migrate() {
+  try {
+    const { default: configPromise } = await import('@payload-config')
+    const payload = await getPayload({ config: configPromise })
+    const ProvidersModel = (payload.db as MongooseAdapter).collections.providers
+
+    const legacy = await ProvidersModel.find(
+      { apiKey: { $exists: true, $ne: null } },
+      { apiKey: 1, name: 1 },
+    ).lean<{ _id: unknown; apiKey: string; name: string }[]>()
+
+    console.log(`Migrating ${legacy.length} plaintext provider API keys...`)
+
+    for (const provider of legacy) {
+      const providerId = String(provider._id)
+      const keyHash = hashApiKey(provider.apiKey)
+
+      const existing = await payload.find({
+        collection: 'provider-api-keys',
+        where: { keyHash: { equals: keyHash } },
+        limit: 1,
+        overrideAccess: true,
+      })
+
+      if (existing.docs.length === 0) {
+        await payload.create({
+          collection: 'provider-api-keys',
+          data: {
+            name: 'Migrated key',
+            provider: providerId,
+            keyHash,
+            prefix: getApiKeyPrefix(provider.apiKey),
+            status: 'active',
+            mode: 'live',
+          },
+          overrideAccess: true,
+        })
+      }
+
+      await ProvidersModel.updateOne({ _id: provider._id }, { $unset: { apiKey: 1 } })
+      console.log(`  ✓ ${provider.name}`)
+    }
+
+    // The old unique index would reject a second provider without an apiKey
+    const indexes = await ProvidersModel.collection.indexes()
+    if (indexes.some((index) => index.name === 'apiKey_1')) {
+      await ProvidersModel.collection.dropIndex('apiKey_1')
+      console.log('Dropped apiKey_1 index')
+    }
+
+    console.log('Provider API keys migrated successfully!')
+    process.exit(0)
+  } catch (error) {
+    console.error('Error migrating provider API keys:', error)
+    process.exit(1)
+  }
+}
+
+migrate()
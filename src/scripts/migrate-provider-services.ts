@@ -0,0 +1,58 @@
+import { getPayload } from 'payload'
+import type { MongooseAdapter } from '@payloadcms/db-mongodb'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import dotenv from 'dotenv'
+
+const filename = fileURLToPath(import.meta.url)
+const dirname = path.dirname(filename)
+
+dotenv.config({
+  path: path.resolve(dirname, '../../.env'),
+})
+
+/**
+ * One-off migration: providers used to have a single `service` relationship.
+ * Each provider gets that service as its only linked service and primary service,
+ * then the old field is removed.
+ */
+async function migrate() {
+  try {
+    const { default: configPromise } = await import('@payload-config')
+    const payload = await getPayload({ config: configPromise })
+    const ProvidersModel = (payload.db as MongooseAdapter).collections.providers
+
+    const legacy = await ProvidersModel.find(
+      { service: { $exists: true, $ne: null } },
+      { service: 1, name: 1 },
+    ).lean<{ _id: unknown; service: unknown; name: string }[]>()
+
+    console.log(`Migrating ${legacy.length} providers to linked services...`)
+
+    for (const provider of legacy) {
+      const providerId = String(provider._id)
+      const serviceId = String(provider.service)
+
+      await payload.update({
+        collection: 'providers',
+        id: providerId,
+        data: {
+          services: [{ service: serviceId }],
+          primaryService: serviceId,
+        },
+        overrideAccess: true,
+      })
+
+      await ProvidersModel.updateOne({ _id: provider._id }, { $unset: { service: 1 } })
+      console.log(`  ✓ ${provider.name}`)
+    }
+
+    console.log('Provider services migrated successfully!')
+    process.exit(0)
+  } catch (error) {
+    console.error('Error migrating provider services:', error)
+    process.exit(1)
+  }
+}
+
+migrate()
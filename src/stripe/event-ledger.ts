@@ -0,0 +1,190 @@
+import type { Payload } from 'payload'
+import type Stripe from 'stripe'
+import type { StripeEvent } from '@/payload-types'
+import { isUniqueViolation } from '@/lib/db-errors'
+
+/**
+ * Stripe Event Ledger
+ *
+ * Every verified Stripe event is recorded in the `stripe-events` collection before its handler
+ * runs. This lets the webhook route:
+ * - skip redeliveries of events that were already processed
+ * - skip events that are older than an event already processed for the same object
+ *   (e.g. `payment_intent.payment_failed` arriving after `payment_intent.succeeded`)
+ * - retry events whose previous processing failed or was interrupted
+ */
+
+// A "processing" record older than this is assumed to belong to a crashed request
+const PROCESSING_LEASE_MS = 5 * 60 * 1000
+
+export type ClaimResult =
+  | { action: 'process'; record: StripeEvent }
+  | { action: 'duplicate'; record: StripeEvent }
+  | { action: 'stale'; record: StripeEvent; supersededBy: string }
+
+/**
+ * Extract the object and PaymentIntent ids an event refers to
+ */
+function getEventObjectIds(event: Stripe.Event): {
+  objectId: string | null
+  paymentIntentId: string | null
+} {
+  const object = event.data.object as { id?: string; object?: string; payment_intent?: unknown }
+  const objectId = object?.id || null
+
+  if (object?.object === 'payment_intent') {
+    return { objectId, paymentIntentId: objectId }
+  }
+
+  const paymentIntent = object?.payment_intent
+  const paymentIntentId =
+    typeof paymentIntent === 'string'
+      ? paymentIntent
+      : (paymentIntent as { id?: string } | null)?.id || null
+
+  return { objectId, paymentIntentId }
+}
+
+/**
+ * Record an incoming event and decide whether it should be processed
+ */
+export async function claimStripeEvent(
+  payload: Payload,
+  event: Stripe.Event,
+): Promise<ClaimResult> {
+  const { objectId, paymentIntentId } = getEventObjectIds(event)
+  const stripeCreatedAt = new Date(event.created * 1000).toISOString()
+
+  const existing = await payload.find({
+    collection: 'stripe-events',
+    where: { eventId: { equals: event.id } },
+    limit: 1,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  let record: StripeEvent
+
+  if (existing.docs.length > 0) {
+    const previous = existing.docs[0]
+    const deliveryCount = (previous.deliveryCount || 1) + 1
+    const leaseActive =
+      previous.status === 'processing' &&
+      Date.now() - new Date(previous.updatedAt).getTime() < PROCESSING_LEASE_MS
+
+    if (previous.status === 'processed' || previous.status === 'skipped' || leaseActive) {
+      const updated = await payload.update({
+        collection: 'stripe-events',
+        id: previous.id,
+        data: { deliveryCount },
+        overrideAccess: true,
+      })
+      return { action: 'duplicate', record: updated }
+    }
+
+    // Previous attempt failed or was interrupted: take it over. The update only matches the
+    // record as read, so of two redeliveries arriving together only one processes the event.
+    const taken = await payload.db.updateOne({
+      collection: 'stripe-events',
+      where: {
+        and: [{ id: { equals: previous.id } }, { updatedAt: { equals: previous.updatedAt } }],
+      },
+      data: { status: 'processing', deliveryCount, error: null },
+    })
+    if (!taken) {
+      return { action: 'duplicate', record: previous }
+    }
+    record = await payload.findByID({
+      collection: 'stripe-events',
+      id: previous.id,
+      depth: 0,
+      overrideAccess: true,
+    })
+  } else {
+    try {
+      record = await payload.create({
+        collection: 'stripe-events',
+        data: {
+          eventId: event.id,
+          type: event.type,
+          status: 'processing',
+          objectId,
+          paymentIntentId,
+          stripeCreatedAt,
+          livemode: event.livemode,
+          deliveryCount: 1,
+        },
+        overrideAccess: true,
+      })
+    } catch (error: unknown) {
+      // Unique index on eventId: a concurrent delivery created the record first
+      if (isUniqueViolation(error, 'eventId')) {
+        const concurrent = await payload.find({
+          collection: 'stripe-events',
+          where: { eventId: { equals: event.id } },
+          limit: 1,
+          depth: 0,
+          overrideAccess: true,
+        })
+        if (concurrent.docs.length > 0) {
+          return { action: 'duplicate', record: concurrent.docs[0] }
+        }
+      }
+      throw error
+    }
+  }
+
+  // Out-of-order protection: has a newer event for the same object already been applied?
+  if (objectId) {
+    const newer = await payload.find({
+      collection: 'stripe-events',
+      where: {
+        and: [
+          { objectId: { equals: objectId } },
+          { status: { equals: 'processed' } },
+          { stripeCreatedAt: { greater_than: stripeCreatedAt } },
+        ],
+      },
+      sort: '-stripeCreatedAt',
+      limit: 1,
+      depth: 0,
+      overrideAccess: true,
+    })
+
+    if (newer.docs.length > 0) {
+      const supersededBy = newer.docs[0].eventId
+      const skipped = await finishStripeEvent(payload, record.id, {
+        status: 'skipped',
+        outcome: `Superseded by newer event ${supersededBy} (${newer.docs[0].type})`,
+      })
+      return { action: 'stale', record: skipped, supersededBy }
+    }
+  }
+
+  return { action: 'process', record }
+}
+
+/**
+ * Store the final outcome of an event
+ */
+export async function finishStripeEvent(
+  payload: Payload,
+  id: string,
+  result: {
+    status: 'processed' | 'skipped' | 'failed'
+    outcome?: string
+    error?: string
+  },
+): Promise<StripeEvent> {
+  return payload.update({
+    collection: 'stripe-events',
+    id,
+    data: {
+      status: result.status,
+      outcome: result.outcome ?? null,
+      error: result.error ?? null,
+      processedAt: new Date().toISOString(),
+    },
+    overrideAccess: true,
+  })
+}
@@ -1,95 +1,30 @@
+import type Stripe from 'stripe'
 import { getPayloadClient } from '@/lib/payload'
-import type { Order, Provider, Service } from '@/payload-types'
+import type { Order, Provider } from '@/payload-types'
+import { enqueueWebhookDelivery, type ProviderWebhookEvent } from '@/lib/webhook-delivery'
+import { AWAITING_PAYMENT_STATUSES, canTransitionOrderStatus } from '@/lib/order-status'
+import { syncOrderRefunds } from '@/lib/refunds'
+import {
+  isOrderStripeAccount,
+  isResolvedStripeAccount,
+  type StripeAccount,
+} from '@/lib/stripe-accounts'
 
 /**
  * Notify a provider about a payment status change via their webhook URL
- * Implements exponential backoff retry mechanism
- * Max retries: 5 (approx 30s total wait time)
+ * The delivery is persisted and sent in the background (see `@/lib/webhook-delivery`),
+ * so slow or failing providers never delay our response to Stripe
  */
-async function notifyProvider(
-  provider: Provider,
-  order: Order,
-  event: 'payment_succeeded' | 'payment_failed',
-) {
-  if (!provider.webhookUrl) {
-    return // Provider has no webhook URL configured
-  }
-
-  const maxRetries = 5
-  let attempt = 0
-  let success = false
-
-  const service = order.service as Service
-  const webhookPayload = {
-    event,
-    // Use Payload's auto-generated id
-    orderId: order.id,
-    // Include provider's external ID for their own tracking
-    externalId: order.externalId || null,
-    providerId: provider.id,
-    providerName: provider.name,
-    serviceId: service?.id || order.service,
-    serviceName: service?.title || 'Unknown Service',
-    amount: order.total,
-    status: order.status,
-    stripePaymentIntentId: order.stripePaymentIntentId,
-    timestamp: new Date().toISOString(),
-  }
-
-  while (attempt < maxRetries && !success) {
-    try {
-      attempt++
-
-      // Calculate delay with exponential backoff if this is a retry
-      // Attempt 1: 0ms (immediate)
-      // Attempt 2: 1000ms
-      // Attempt 3: 2000ms
-      // Attempt 4: 4000ms
-      // Attempt 5: 8000ms
-      if (attempt > 1) {
-        const delay = Math.pow(2, attempt - 2) * 1000
-        console.log(
-          `Retry attempt ${attempt}/${maxRetries} for provider ${provider.name} in ${delay}ms...`,
-        )
-        await new Promise((resolve) => setTimeout(resolve, delay))
-      }
-
-      const response = await fetch(provider.webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-DZTech-Webhook': 'payment-notification',
-        },
-        body: JSON.stringify(webhookPayload),
-      })
-
-      if (response.ok) {
-        console.log(`Provider ${provider.name} notified successfully for order ${order.id}`)
-        success = true
-      } else {
-        console.warn(
-          `Failed to notify provider ${provider.name} (Attempt ${attempt}/${maxRetries}): ${response.status} ${response.statusText}`,
-        )
-      }
-    } catch (error) {
-      console.error(
-        `Error notifying provider ${provider.name} (Attempt ${attempt}/${maxRetries}):`,
-        error,
-      )
-    }
-  }
-
-  if (!success) {
-    console.error(
-      `Failed to notify provider ${provider.name} after ${maxRetries} attempts for order ${order.id}`,
-    )
-    // TODO: Ideally we should log this to a failed_webhooks collection for manual replay
-  }
+async function notifyProvider(provider: Provider, order: Order, event: ProviderWebhookEvent) {
+  const payload = await getPayloadClient()
+  await enqueueWebhookDelivery(payload, provider, order, event)
 }
 
 // Handle successful PaymentIntent (for Cash App and other direct payment methods)
+// Returns a short outcome for the Stripe event ledger; throws so Stripe redelivers on failure
+// `account` is the Stripe account whose webhook secret verified the event
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export const paymentIntentSucceeded = async ({ event }: any) => {
+export const paymentIntentSucceeded = async ({ event, account }: any): Promise<string> => {
   const paymentIntent = event.data.object
   const { serviceId, providerId, externalId } = paymentIntent.metadata || {}
 
@@ -125,6 +60,7 @@ export const paymentIntentSucceeded = async ({ event }: any) => {
     console.log('[WEBHOOK:SUCCESS] Found', existingOrders.docs.length, 'matching orders')
 
     let order: Order | null = null
+    let outcome: string
 
     if (existingOrders.docs.length > 0) {
       const existingOrder = existingOrders.docs[0]
@@ -135,6 +71,24 @@ export const paymentIntentSucceeded = async ({ event }: any) => {
         existingOrder.status,
       )
 
+      if (!isOrderStripeAccount(account, existingOrder)) {
+        console.warn(
+          `[WEBHOOK:SUCCESS] ⚠️ Order ${existingOrder.id} is not on the ${account.source} Stripe account that sent this event — ignoring`,
+        )
+        return `Order ${existingOrder.id} belongs to another Stripe account; ignored`
+      }
+
+      // Only orders still awaiting payment move to paid; never e.g. refunded/disputed -> paid
+      if (
+        existingOrder.status !== 'paid' &&
+        !AWAITING_PAYMENT_STATUSES.includes(existingOrder.status)
+      ) {
+        console.warn(
+          `[WEBHOOK:SUCCESS] ⚠️ Order ${existingOrder.id} is ${existingOrder.status} — not moving it to paid`,
+        )
+        return `Order ${existingOrder.id} is ${existingOrder.status}; transition to paid not allowed`
+      }
+
       // Update existing order to paid
       const updatedOrder = await payload.update({
         collection: 'orders',
@@ -143,6 +97,7 @@ export const paymentIntentSucceeded = async ({ event }: any) => {
           status: 'paid',
         },
         overrideAccess: true,
+        context: { statusSource: 'webhook', statusNote: `${event.type} ${event.id}` },
       })
       console.log(
         '[WEBHOOK:SUCCESS] ✅ Order',
@@ -152,7 +107,22 @@ export const paymentIntentSucceeded = async ({ event }: any) => {
       )
 
       order = { ...existingOrder, status: 'paid' }
+      outcome = `Order ${existingOrder.id} updated from ${existingOrder.status} to paid`
     } else if (serviceId) {
+      // Only the account new payments for this service/provider would use may create its orders
+      if (
+        !(await isResolvedStripeAccount(payload, account, {
+          serviceId,
+          providerId,
+          livemode: event.livemode,
+        }))
+      ) {
+        console.warn(
+          `[WEBHOOK:SUCCESS] ⚠️ The ${account.source} Stripe account that sent this event is not the account for service ${serviceId} — not creating an order`,
+        )
+        return `Stripe account does not match service ${serviceId}; order not created`
+      }
+
       console.log(
         '[WEBHOOK:SUCCESS] No existing order found, creating new order for serviceId:',
         serviceId,
@@ -165,18 +135,24 @@ export const paymentIntentSucceeded = async ({ event }: any) => {
           status: 'paid',
           total: paymentIntent.amount / 100,
           stripePaymentIntentId: paymentIntent.id,
+          stripeAccount: account.source,
+          // Test orders stay out of the ledger, fee volume and reports
+          livemode: event.livemode,
           ...(providerId && { provider: providerId }),
           ...(externalId && { externalId }),
         },
         overrideAccess: true,
+        context: { statusSource: 'webhook', statusNote: `${event.type} ${event.id}` },
       })
       console.log('[WEBHOOK:SUCCESS] ✅ New order created:', newOrder.id)
 
       order = newOrder
+      outcome = `Order ${newOrder.id} created as paid`
     } else {
       console.warn(
         '[WEBHOOK:SUCCESS] ⚠️ No order found AND no serviceId in metadata - cannot process this event',
       )
+      outcome = 'No matching order and no serviceId in metadata'
     }
 
     // Notify provider if applicable
@@ -196,14 +172,17 @@ export const paymentIntentSucceeded = async ({ event }: any) => {
         console.error('[WEBHOOK:SUCCESS] Error fetching provider for notification:', err)
       }
     }
+
+    return outcome
   } catch (error) {
     console.error('[WEBHOOK:SUCCESS] ❌ Error updating order from PaymentIntent:', error)
+    throw error
   }
 }
 
 // Handle payment failed events
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export const paymentIntentFailed = async ({ event }: any) => {
+export const paymentIntentFailed = async ({ event, account }: any): Promise<string> => {
   const paymentIntent = event.data.object
   const { providerId } = paymentIntent.metadata || {}
 
@@ -238,6 +217,20 @@ export const paymentIntentFailed = async ({ event }: any) => {
         'to: failed',
       )
 
+      if (!isOrderStripeAccount(account, existingOrder)) {
+        console.warn(
+          `[WEBHOOK:FAILED] ⚠️ Order ${existingOrder.id} is not on the ${account.source} Stripe account that sent this event — ignoring`,
+        )
+        return `Order ${existingOrder.id} belongs to another Stripe account; ignored`
+      }
+
+      if (!canTransitionOrderStatus(existingOrder.status, 'failed')) {
+        console.warn(
+          `[WEBHOOK:FAILED] ⚠️ Order ${existingOrder.id} is ${existingOrder.status} — not moving it to failed`,
+        )
+        return `Order ${existingOrder.id} is ${existingOrder.status}; transition to failed not allowed`
+      }
+
       await payload.update({
         collection: 'orders',
         id: existingOrder.id,
@@ -245,6 +238,7 @@ export const paymentIntentFailed = async ({ event }: any) => {
           status: 'failed',
         },
         overrideAccess: true,
+        context: { statusSource: 'webhook', statusNote: `${event.type} ${event.id}` },
       })
       console.log('[WEBHOOK:FAILED] ✅ Order', existingOrder.id, 'marked as failed')
 
@@ -262,17 +256,25 @@ export const paymentIntentFailed = async ({ event }: any) => {
           console.error('[WEBHOOK:FAILED] Error fetching provider for notification:', err)
         }
       }
-    } else {
-      console.warn('[WEBHOOK:FAILED] ⚠️ No order found for PaymentIntent:', paymentIntent.id)
+
+      return `Order ${existingOrder.id} updated from ${existingOrder.status} to failed`
     }
+
+    console.warn('[WEBHOOK:FAILED] ⚠️ No order found for PaymentIntent:', paymentIntent.id)
+    return 'No matching order'
   } catch (error) {
     console.error('[WEBHOOK:FAILED] ❌ Error updating failed order:', error)
+    throw error
   }
 }
 
 // Helper function to update order dispute status
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function updateOrderDisputeStatus(dispute: any) {
+async function updateOrderDisputeStatus(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  dispute: any,
+  eventId: string,
+  account: StripeAccount,
+): Promise<string> {
   const payload = await getPayloadClient()
   const paymentIntentId = dispute.payment_intent as string
 
@@ -295,6 +297,13 @@ async function updateOrderDisputeStatus(dispute: any) {
     if (existingOrders.docs.length > 0) {
       const order = existingOrders.docs[0]
 
+      if (!isOrderStripeAccount(account, order)) {
+        console.warn(
+          `[WEBHOOK:DISPUTE] ⚠️ Order ${order.id} is not on the ${account.source} Stripe account that sent this event — ignoring`,
+        )
+        return `Order ${order.id} belongs to another Stripe account; ignored`
+      }
+
       // Map Stripe dispute status to our status options
       const statusMap: Record<string, string> = {
         warning_needs_response: 'warning_needs_response',
@@ -309,7 +318,7 @@ async function updateOrderDisputeStatus(dispute: any) {
       const disputeStatus = statusMap[dispute.status] || dispute.status
 
       // Determine the correct order status based on dispute outcome
-      let orderStatus: 'disputed' | 'paid' | 'refunded' = 'disputed'
+      let orderStatus: Order['status'] = 'disputed'
       if (dispute.status === 'won') {
         // Merchant won the dispute — money stays, order goes back to paid
         orderStatus = 'paid'
@@ -318,6 +327,14 @@ async function updateOrderDisputeStatus(dispute: any) {
         orderStatus = 'refunded'
       }
 
+      // Dispute details are always recorded, but the order status only moves along legal transitions
+      if (!canTransitionOrderStatus(order.status, orderStatus)) {
+        console.warn(
+          `[WEBHOOK:DISPUTE] ⚠️ Order ${order.id} is ${order.status} — keeping status instead of ${orderStatus}`,
+        )
+        orderStatus = order.status
+      }
+
       await payload.update({
         collection: 'orders',
         id: order.id,
@@ -329,6 +346,7 @@ async function updateOrderDisputeStatus(dispute: any) {
           disputeReason: dispute.reason,
         },
         overrideAccess: true,
+        context: { statusSource: 'webhook', statusNote: `dispute ${dispute.id} ${eventId}` },
       })
 
       console.log(
@@ -349,34 +367,96 @@ async function updateOrderDisputeStatus(dispute: any) {
           console.error('[WEBHOOK:DISPUTE] Error notifying provider:', err)
         }
       }
-    } else {
-      console.warn(`[WEBHOOK:DISPUTE] ⚠️ No order found for payment intent: ${paymentIntentId}`)
+
+      return `Order ${order.id} set to ${orderStatus} (dispute ${disputeStatus})`
     }
+
+    console.warn(`[WEBHOOK:DISPUTE] ⚠️ No order found for payment intent: ${paymentIntentId}`)
+    return `No matching order for payment intent ${paymentIntentId}`
   } catch (error) {
     console.error('[WEBHOOK:DISPUTE] ❌ Error updating order dispute status:', error)
+    throw error
   }
 }
 
 // Handle dispute created
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export const handleDisputeCreated = async ({ event }: any) => {
+export const handleDisputeCreated = async ({ event, account }: any): Promise<string> => {
   const dispute = event.data.object
   console.log(`Dispute created: ${dispute.id}`)
-  await updateOrderDisputeStatus(dispute)
+  return updateOrderDisputeStatus(dispute, event.id, account)
 }
 
 // Handle dispute updated
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export const handleDisputeUpdated = async ({ event }: any) => {
+export const handleDisputeUpdated = async ({ event, account }: any): Promise<string> => {
   const dispute = event.data.object
   console.log(`Dispute updated: ${dispute.id} for status: ${dispute.status}`)
-  await updateOrderDisputeStatus(dispute)
+  return updateOrderDisputeStatus(dispute, event.id, account)
 }
 
 // Handle dispute closed
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export const handleDisputeClosed = async ({ event }: any) => {
+export const handleDisputeClosed = async ({ event, account }: any): Promise<string> => {
   const dispute = event.data.object
   console.log(`Dispute closed: ${dispute.id} with status: ${dispute.status}`)
-  await updateOrderDisputeStatus(dispute)
+  return updateOrderDisputeStatus(dispute, event.id, account)
+}
+
+// Handle charge refunded (full or partial, from our dashboard or the Stripe Dashboard)
+export const handleChargeRefunded = async ({
+  event,
+  account,
+}: {
+  event: Stripe.ChargeRefundedEvent
+  account: StripeAccount
+}): Promise<string> => {
+  const charge = event.data.object
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id
+
+  console.log(
+    `[WEBHOOK:REFUND] Charge refunded: ${charge.id}, amount_refunded: ${charge.amount_refunded} cents`,
+  )
+
+  if (!paymentIntentId) {
+    console.warn(`[WEBHOOK:REFUND] ⚠️ Charge ${charge.id} has no payment intent`)
+    return `Charge ${charge.id} has no payment intent`
+  }
+
+  const payload = await getPayloadClient()
+  return syncOrderRefunds(
+    payload,
+    paymentIntentId,
+    { statusSource: 'webhook', statusNote: `${event.type} ${event.id}` },
+    account,
+  )
+}
+
+// Handle refund updated (e.g. a pending refund succeeded or failed)
+export const handleRefundUpdated = async ({
+  event,
+  account,
+}: {
+  event: Stripe.RefundUpdatedEvent
+  account: StripeAccount
+}): Promise<string> => {
+  const refund = event.data.object
+  const paymentIntentId =
+    typeof refund.payment_intent === 'string' ? refund.payment_intent : refund.payment_intent?.id
+
+  console.log(`[WEBHOOK:REFUND] Refund updated: ${refund.id} with status: ${refund.status}`)
+
+  if (!paymentIntentId) {
+    console.warn(`[WEBHOOK:REFUND] ⚠️ Refund ${refund.id} has no payment intent`)
+    return `Refund ${refund.id} has no payment intent`
+  }
+
+  const payload = await getPayloadClient()
+  return syncOrderRefunds(
+    payload,
+    paymentIntentId,
+    { statusSource: 'webhook', statusNote: `${event.type} ${event.id}` },
+    account,
+  )
 }
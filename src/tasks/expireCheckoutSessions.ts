@@ -0,0 +1,21 @@
+import type { TaskConfig } from 'payload'
+import { expireStaleCheckouts } from '@/lib/checkout-expiry'
+
+/**
+ * Background sweeper that cancels abandoned checkouts and marks their orders expired
+ * Scheduled every five minutes on the `maintenance` queue (see `jobs.autoRun` in payload.config.ts)
+ */
+export const expireCheckoutSessions: TaskConfig<'expireCheckoutSessions'> = {
+  slug: 'expireCheckoutSessions',
+  label: 'Expire Checkout Sessions',
+  schedule: [{ cron: '*/5 * * * *', queue: 'maintenance' }],
+  outputSchema: [
+    { name: 'processed', type: 'number', required: true },
+    { name: 'expired', type: 'number', required: true },
+    { name: 'skipped', type: 'number', required: true },
+  ],
+  handler: async ({ req }) => {
+    const output = await expireStaleCheckouts(req.payload)
+    return { output }
+  },
+}
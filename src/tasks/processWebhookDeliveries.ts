@@ -0,0 +1,21 @@
+import type { TaskConfig } from 'payload'
+import { processDueWebhookDeliveries } from '@/lib/webhook-delivery'
+
+/**
+ * Background worker that retries provider webhook deliveries whose backoff has elapsed
+ * Scheduled every minute on the `webhooks` queue (see `jobs.autoRun` in payload.config.ts)
+ */
+export const processWebhookDeliveries: TaskConfig<'processWebhookDeliveries'> = {
+  slug: 'processWebhookDeliveries',
+  label: 'Process Webhook Deliveries',
+  schedule: [{ cron: '* * * * *', queue: 'webhooks' }],
+  outputSchema: [
+    { name: 'processed', type: 'number', required: true },
+    { name: 'delivered', type: 'number', required: true },
+    { name: 'deadLettered', type: 'number', required: true },
+  ],
+  handler: async ({ req }) => {
+    const output = await processDueWebhookDeliveries(req.payload)
+    return { output }
+  },
+}
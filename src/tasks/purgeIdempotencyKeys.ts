@@ -0,0 +1,17 @@
+import type { TaskConfig } from 'payload'
+import { purgeExpiredIdempotencyKeys } from '@/lib/idempotency'
+
+/**
+ * Hourly cleanup of create-payment-intent Idempotency-Keys past their 24-hour lifetime
+ * Scheduled on the `maintenance` queue (see `jobs.autoRun` in payload.config.ts)
+ */
+export const purgeIdempotencyKeys: TaskConfig<'purgeIdempotencyKeys'> = {
+  slug: 'purgeIdempotencyKeys',
+  label: 'Purge Idempotency Keys',
+  schedule: [{ cron: '0 * * * *', queue: 'maintenance' }],
+  outputSchema: [{ name: 'deleted', type: 'number', required: true }],
+  handler: async ({ req }) => {
+    const deleted = await purgeExpiredIdempotencyKeys(req.payload)
+    return { output: { deleted } }
+  },
+}
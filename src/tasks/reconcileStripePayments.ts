@@ -0,0 +1,36 @@
+import type { TaskConfig } from 'payload'
+import {
+  getDefaultReconciliationWindow,
+  reconcileStripePayments as reconcile,
+} from '@/lib/reconciliation'
+
+/**
+ * Nightly reconciliation of Stripe PaymentIntents and refunds against orders
+ * Scheduled at 03:00 on the `maintenance` queue (see `jobs.autoRun` in payload.config.ts)
+ */
+export const reconcileStripePayments: TaskConfig<'reconcileStripePayments'> = {
+  slug: 'reconcileStripePayments',
+  label: 'Reconcile Stripe Payments',
+  schedule: [{ cron: '0 3 * * *', queue: 'maintenance' }],
+  outputSchema: [
+    { name: 'reportId', type: 'text', required: true },
+    { name: 'fixed', type: 'number', required: true },
+    { name: 'unresolved', type: 'number', required: true },
+  ],
+  handler: async ({ req }) => {
+    const report = await reconcile(req.payload, {
+      ...getDefaultReconciliationWindow(),
+      trigger: 'schedule',
+    })
+    if (report.status === 'failed') {
+      throw new Error(`Reconciliation failed: ${report.error}`)
+    }
+    return {
+      output: {
+        reportId: report.id,
+        fixed: report.summary?.fixed || 0,
+        unresolved: report.summary?.unresolved || 0,
+      },
+    }
+  },
+}
@@ -9,7 +9,7 @@ export interface User {
   id: string
   name: string
   email: string
-  role: 'admin' | 'editor'
+  role: 'admin' | 'finance' | 'support' | 'editor' | 'analyst'
   createdAt: string
   updatedAt: string
 }
@@ -0,0 +1,47 @@
+import { getAdminAccessError } from '@/lib/admin-auth'
+import fs from 'fs'
+import path from 'path'
+
+import { describe, it, expect } from 'vitest'
+
+const adminApiDir = path.resolve(__dirname, '../../src/app/api/admin')
+
+const findRoutes = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) return findRoutes(fullPath)
+    return entry.name === 'route.ts' ? [fullPath] : []
+  })
+
+describe('Admin API authentication', () => {
+  it('rejects anonymous callers with 401 and other roles with 403', () => {
+    expect(getAdminAccessError(null, ['admin'])).toEqual({ status: 401, error: 'Unauthorized' })
+    expect(getAdminAccessError({ role: 'editor' }, ['admin'])).toEqual({
+      status: 403,
+      error: 'Forbidden',
+    })
+    expect(getAdminAccessError({ role: 'admin' }, ['admin'])).toBeNull()
+    expect(getAdminAccessError({ role: 'editor' }, ['admin', 'editor'])).toBeNull()
+  })
+
+  it('rejects sessions that have not passed two-factor unless the route asks for the code', () => {
+    const pending = { role: 'admin' as const, _strategy: 'local-jwt', _sid: 's1' }
+    expect(getAdminAccessError(pending, ['admin'])).toEqual({
+      status: 403,
+      error: 'Two-factor authentication required',
+    })
+    expect(getAdminAccessError(pending, ['admin'], { allowTwoFactorPending: true })).toBeNull()
+  })
+
+  it('guards every /api/admin route handler', () => {
+    const routes = findRoutes(adminApiDir)
+    expect(routes.length).toBeGreaterThan(0)
+
+    for (const route of routes) {
+      const source = fs.readFileSync(route, 'utf8')
+      const handlers = source.match(/export async function (GET|POST|PUT|PATCH|DELETE)\b/g) || []
+      const guards = source.match(/await requireAdminUser\(/g) || []
+      expect(guards.length, path.relative(adminApiDir, route)).toBe(handlers.length)
+    }
+  })
+})
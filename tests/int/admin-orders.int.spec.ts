@@ -0,0 +1,98 @@
+import {
+  buildAdminOrdersQuery,
+  decodeAdminOrderCursor,
+  encodeAdminOrderCursor,
+  MAX_ADMIN_ORDERS_PAGE_SIZE,
+} from '@/lib/admin-orders'
+
+import { describe, it, expect } from 'vitest'
+
+describe('Admin orders API', () => {
+  it('keeps ids sharing the last amount and timestamp in the cursor', () => {
+    const cursor = encodeAdminOrderCursor(
+      [
+        { id: 'a', total: 50, createdAt: '2026-01-30T10:00:02.000Z' },
+        { id: 'b', total: 20, createdAt: '2026-01-30T10:00:01.000Z' },
+        { id: 'c', total: 20, createdAt: '2026-01-30T10:00:01.000Z' },
+      ],
+      'amount-desc',
+    )
+
+    expect(decodeAdminOrderCursor(cursor!, 'amount-desc')).toEqual({
+      value: 20,
+      createdAt: '2026-01-30T10:00:01.000Z',
+      ids: ['b', 'c'],
+    })
+    // A cursor only fits the sort it was made for
+    expect(decodeAdminOrderCursor(cursor!, 'date-desc')).toBeNull()
+  })
+
+  it('searches, filters and leaves out test orders', () => {
+    const query = buildAdminOrdersQuery(
+      new URLSearchParams('q= pi_123 &status=paid,disputed&provider=acme&sort=amount-asc'),
+    )
+
+    expect(query).toMatchObject({
+      filter: {
+        and: [
+          {
+            and: [
+              { status: { in: ['paid', 'disputed'] } },
+              { 'provider.slug': { equals: 'acme' } },
+              {
+                or: [
+                  { orderId: { contains: 'pi_123' } },
+                  { externalId: { contains: 'pi_123' } },
+                  { customerEmail: { contains: 'pi_123' } },
+                  { stripePaymentIntentId: { contains: 'pi_123' } },
+                ],
+              },
+            ],
+          },
+          { livemode: { not_equals: false } },
+        ],
+      },
+      sort: ['total', 'createdAt'],
+      limit: 25,
+    })
+  })
+
+  it('continues after the cursor in sort order', () => {
+    const cursor = encodeAdminOrderCursor(
+      [{ id: 'b', total: 20, createdAt: '2026-01-30T10:00:01.000Z' }],
+      'amount-desc',
+    )
+    const query = buildAdminOrdersQuery(
+      new URLSearchParams({ sort: 'amount-desc', cursor: cursor!, testOrders: 'include' }),
+    )
+
+    expect(query).toMatchObject({
+      filter: undefined,
+      where: {
+        or: [
+          { total: { less_than: 20 } },
+          {
+            and: [
+              { total: { equals: 20 } },
+              { createdAt: { less_than_equal: '2026-01-30T10:00:01.000Z' } },
+              { id: { not_in: ['b'] } },
+            ],
+          },
+        ],
+      },
+      sort: ['-total', '-createdAt'],
+    })
+  })
+
+  it('rejects invalid parameters', () => {
+    for (const params of [
+      'status=shipped',
+      'to=tomorrow',
+      'sort=name-asc',
+      'cursor=bogus',
+      `limit=${MAX_ADMIN_ORDERS_PAGE_SIZE + 1}`,
+    ]) {
+      expect(buildAdminOrdersQuery(new URLSearchParams(params))).toHaveProperty('error')
+    }
+  })
+})
@@ -0,0 +1,42 @@
+import { evaluateAmount, resolveAmountRules } from '@/lib/amount-rules'
+
+import { describe, it, expect } from 'vitest'
+
+const service = {
+  price: 5,
+  amountRules: { pricingMode: 'unit' as const, maxAmount: 500, minQuantity: 2 },
+}
+
+describe('Amount rules', () => {
+  it('charges whole units of the service price', () => {
+    const rules = resolveAmountRules(service)
+    expect(evaluateAmount(rules)).toEqual({ amount: 10, quantity: 2 })
+    expect(evaluateAmount(rules, 25)).toEqual({ amount: 25, quantity: 5 })
+    expect(evaluateAmount(rules, 12)).toEqual({
+      error: 'Amount must be a multiple of the unit price ($5)',
+    })
+    expect(evaluateAmount(rules, 5)).toEqual({ error: 'Quantity must be at least 2' })
+    expect(evaluateAmount(rules, 505)).toEqual({ error: 'Amount cannot exceed $500' })
+  })
+
+  it('accepts any amount within the limits in open mode', () => {
+    const rules = resolveAmountRules({
+      price: 10,
+      amountRules: { pricingMode: 'open', minAmount: 1, amountStep: 0.25 },
+    })
+    expect(evaluateAmount(rules)).toEqual({ amount: 10, quantity: 1 })
+    expect(evaluateAmount(rules, 12.75)).toEqual({ amount: 12.75, quantity: 1 })
+    expect(evaluateAmount(rules, 12.7)).toEqual({ error: 'Amount must be a multiple of $0.25' })
+    expect(evaluateAmount(rules, 0.75)).toEqual({ error: 'Amount must be at least $1' })
+    expect(evaluateAmount(rules, 1.005)).toEqual({
+      error: 'Amount cannot have more than 2 decimal places',
+    })
+  })
+
+  it('lets provider overrides win over the service rules', () => {
+    const rules = resolveAmountRules(service, { maxAmount: 100, minQuantity: null })
+    expect(rules).toMatchObject({ pricingMode: 'unit', maxAmount: 100, minQuantity: 2 })
+    expect(evaluateAmount(rules, 105)).toEqual({ error: 'Amount cannot exceed $100' })
+    expect(resolveAmountRules(service, { pricingMode: 'open' }).pricingMode).toBe('open')
+  })
+})
@@ -0,0 +1,47 @@
+import {
+  generateApiKey,
+  getApiKeyPrefix,
+  getBearerApiKey,
+  hashApiKey,
+  isValidApiKeyFormat,
+} from '@/lib/api-key'
+
+import { describe, it, expect } from 'vitest'
+
+describe('Provider API keys', () => {
+  it('generates keys that pass the format check and hash deterministically', () => {
+    const key = generateApiKey()
+
+    expect(isValidApiKeyFormat(key)).toBe(true)
+    expect(hashApiKey(key)).toMatch(/^[a-f0-9]{64}$/)
+    expect(hashApiKey(key)).toBe(hashApiKey(key))
+    expect(hashApiKey(key)).not.toBe(hashApiKey(generateApiKey()))
+  })
+
+  it('exposes only a short display prefix', () => {
+    const key = generateApiKey()
+    const prefix = getApiKeyPrefix(key)
+
+    expect(prefix.startsWith('provider_')).toBe(true)
+    expect(key.startsWith(prefix)).toBe(true)
+    expect(prefix.length).toBe('provider_'.length + 4)
+  })
+
+  it('marks test keys in the key and its prefix', () => {
+    const key = generateApiKey('test')
+
+    expect(isValidApiKeyFormat(key)).toBe(true)
+    expect(key.startsWith('provider_test_')).toBe(true)
+    expect(getApiKeyPrefix(key)).toBe(key.slice(0, 'provider_test_'.length + 4))
+  })
+
+  it('reads keys from the Authorization header', () => {
+    const withHeader = (value: string) =>
+      new Request('https://dztech.shop', { headers: { Authorization: value } })
+
+    expect(getBearerApiKey(withHeader('Bearer provider_abc'))).toBe('provider_abc')
+    expect(getBearerApiKey(withHeader('bearer  provider_abc'))).toBe('provider_abc')
+    expect(getBearerApiKey(withHeader('Basic provider_abc'))).toBeNull()
+    expect(getBearerApiKey(new Request('https://dztech.shop'))).toBeNull()
+  })
+})
@@ -0,0 +1,98 @@
+import {
+  auditLogsToCsv,
+  buildAuditLogsWhere,
+  diffAuditFields,
+  REDACTED_VALUE,
+} from '@/lib/audit-log'
+import type { AuditLog } from '@/payload-types'
+
+import { describe, it, expect } from 'vitest'
+
+describe('Audit log', () => {
+  it('diffs changed fields, including fields inside groups', () => {
+    const changes = diffAuditFields(
+      {
+        webhookUrl: 'https://old.example.com/hook',
+        status: 'active',
+        stripeConfig: { mode: 'platform', publishableKey: 'pk_old' },
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      },
+      {
+        webhookUrl: 'https://new.example.com/hook',
+        status: 'active',
+        stripeConfig: { mode: 'platform', publishableKey: 'pk_new' },
+        updatedAt: '2026-01-02T00:00:00.000Z',
+      },
+    )
+
+    expect(changes).toEqual([
+      {
+        field: 'webhookUrl',
+        before: 'https://old.example.com/hook',
+        after: 'https://new.example.com/hook',
+      },
+      { field: 'stripeConfig.publishableKey', before: 'pk_old', after: 'pk_new' },
+    ])
+  })
+
+  it('treats a populated relationship like its id', () => {
+    const provider = { id: 'p1', name: 'Acme', createdAt: '2026-01-01T00:00:00.000Z' }
+    expect(diffAuditFields({ provider: 'p1' }, { provider })).toEqual([])
+  })
+
+  it('redacts secrets but records that they changed', () => {
+    expect(
+      diffAuditFields(
+        { webhookSigningSecret: 'whsec_a', previousWebhookSigningSecret: null },
+        { webhookSigningSecret: 'whsec_b', previousWebhookSigningSecret: 'whsec_a' },
+      ),
+    ).toEqual([
+      { field: 'webhookSigningSecret', before: REDACTED_VALUE, after: REDACTED_VALUE },
+      { field: 'previousWebhookSigningSecret', before: null, after: REDACTED_VALUE },
+    ])
+  })
+
+  it('filters by action, collection and day in the reporting time zone', () => {
+    expect(
+      buildAuditLogsWhere(
+        new URLSearchParams('action=update,delete&collection=providers&from=2026-01-31'),
+        'Asia/Tokyo',
+      ),
+    ).toEqual({
+      where: {
+        and: [
+          { action: { in: ['update', 'delete'] } },
+          { collectionSlug: { equals: 'providers' } },
+          { createdAt: { greater_than_equal: '2026-01-30T15:00:00.000Z' } },
+        ],
+      },
+    })
+    expect(buildAuditLogsWhere(new URLSearchParams('action=edit'), 'UTC')).toHaveProperty('error')
+  })
+
+  it('exports entries as CSV', () => {
+    const csv = auditLogsToCsv(
+      [
+        {
+          id: 'a1',
+          action: 'update',
+          collectionSlug: 'orders',
+          documentId: 'o1',
+          summary: 'Updated orders ORD-1: status',
+          changes: [{ field: 'status', before: 'pending', after: 'paid' }],
+          actorEmail: null,
+          ip: null,
+          userAgent: null,
+          createdAt: '2026-01-31T12:00:00.000Z',
+          updatedAt: '2026-01-31T12:00:00.000Z',
+        } as AuditLog,
+      ],
+      'UTC',
+    )
+
+    expect(csv.split('\n')).toEqual([
+      'Date (UTC),Actor,Action,Collection,Document,Summary,Changes,IP,User Agent',
+      '"1/31/2026, 12:00:00 PM",System,update,orders,o1,Updated orders ORD-1: status,status: pending → paid,,',
+    ])
+  })
+})
@@ -0,0 +1,31 @@
+import { getCheckoutDeadline, isCheckoutExpired } from '@/lib/checkout-expiry'
+
+import { describe, it, expect } from 'vitest'
+
+const now = new Date('2026-01-01T12:00:00.000Z')
+
+describe('Checkout expiry', () => {
+  it('uses the stored deadline when the order has one', () => {
+    const order = {
+      createdAt: '2026-01-01T11:00:00.000Z',
+      checkoutExpiresAt: '2026-01-01T13:00:00.000Z',
+    }
+    expect(getCheckoutDeadline(order, 30).toISOString()).toBe('2026-01-01T13:00:00.000Z')
+  })
+
+  it('falls back to createdAt plus the global lifetime for older orders', () => {
+    const order = { createdAt: '2026-01-01T11:00:00.000Z', checkoutExpiresAt: null }
+    expect(getCheckoutDeadline(order, 30).toISOString()).toBe('2026-01-01T11:30:00.000Z')
+  })
+
+  it('only expires orders still awaiting payment once the deadline has passed', () => {
+    const expiredAt = { createdAt: now.toISOString(), checkoutExpiresAt: now.toISOString() }
+    const later = { createdAt: now.toISOString(), checkoutExpiresAt: '2026-01-01T12:00:01.000Z' }
+
+    expect(isCheckoutExpired({ ...expiredAt, status: 'pending' }, 60, now)).toBe(true)
+    expect(isCheckoutExpired({ ...expiredAt, status: 'failed' }, 60, now)).toBe(true)
+    expect(isCheckoutExpired({ ...later, status: 'pending' }, 60, now)).toBe(false)
+    expect(isCheckoutExpired({ ...expiredAt, status: 'paid' }, 60, now)).toBe(false)
+    expect(isCheckoutExpired({ ...expiredAt, status: 'expired' }, 60, now)).toBe(false)
+  })
+})
@@ -0,0 +1,95 @@
+import { claimStripeEvent, finishStripeEvent } from '@/stripe/event-ledger'
+import type Stripe from 'stripe'
+import { MemoryPayload } from './helpers/memory-payload'
+
+import { describe, it, expect, vi } from 'vitest'
+
+const event = (id: string, type: string, created: number, object: Record<string, unknown>) =>
+  ({ id, type, created, livemode: true, data: { object } }) as unknown as Stripe.Event
+
+const succeeded = event('evt_succeeded', 'payment_intent.succeeded', 1_700_000_100, {
+  id: 'pi_1',
+  object: 'payment_intent',
+})
+const failed = event('evt_failed', 'payment_intent.payment_failed', 1_700_000_000, {
+  id: 'pi_1',
+  object: 'payment_intent',
+})
+
+const ledger = () => new MemoryPayload({ 'stripe-events': ['eventId'] })
+
+describe('Stripe event ledger', () => {
+  it('processes a new event and reports redeliveries of processed events as duplicates', async () => {
+    const memory = ledger()
+
+    const first = await claimStripeEvent(memory.payload, succeeded)
+    expect(first).toMatchObject({
+      action: 'process',
+      record: { eventId: 'evt_succeeded', paymentIntentId: 'pi_1', deliveryCount: 1 },
+    })
+    await finishStripeEvent(memory.payload, first.record.id, { status: 'processed' })
+
+    await expect(claimStripeEvent(memory.payload, succeeded)).resolves.toMatchObject({
+      action: 'duplicate',
+      record: { status: 'processed', deliveryCount: 2 },
+    })
+  })
+
+  it('treats an event still processing under its lease as a duplicate', async () => {
+    const memory = ledger()
+    await claimStripeEvent(memory.payload, succeeded)
+
+    await expect(claimStripeEvent(memory.payload, succeeded)).resolves.toMatchObject({
+      action: 'duplicate',
+    })
+  })
+
+  it('retakes a failed event, once when two retries arrive together', async () => {
+    const memory = ledger()
+    const { record } = await claimStripeEvent(memory.payload, succeeded)
+    await finishStripeEvent(memory.payload, record.id, { status: 'failed', error: 'timeout' })
+
+    const claims = await Promise.all([
+      claimStripeEvent(memory.payload, succeeded),
+      claimStripeEvent(memory.payload, succeeded),
+    ])
+
+    expect(claims.map((claim) => claim.action).sort()).toEqual(['duplicate', 'process'])
+    expect(memory.docs('stripe-events')[0]).toMatchObject({
+      status: 'processing',
+      error: null,
+      deliveryCount: 2,
+    })
+  })
+
+  it('reports a delivery that lost the insert race as a duplicate', async () => {
+    const memory = ledger()
+    await claimStripeEvent(memory.payload, succeeded)
+    // The lookup ran before the concurrent delivery inserted its record
+    const find = memory.find.bind(memory)
+    vi.spyOn(memory, 'find').mockImplementationOnce(async (args) => ({
+      ...(await find(args)),
+      docs: [],
+    }))
+
+    await expect(claimStripeEvent(memory.payload, succeeded)).resolves.toMatchObject({
+      action: 'duplicate',
+      record: { eventId: 'evt_succeeded' },
+    })
+    expect(memory.docs('stripe-events')).toHaveLength(1)
+  })
+
+  it('skips an older event arriving after a newer one for the same object', async () => {
+    const memory = ledger()
+    const newer = await claimStripeEvent(memory.payload, succeeded)
+    await finishStripeEvent(memory.payload, newer.record.id, { status: 'processed' })
+
+    const stale = await claimStripeEvent(memory.payload, failed)
+
+    expect(stale).toMatchObject({
+      action: 'stale',
+      supersededBy: 'evt_succeeded',
+      record: { eventId: 'evt_failed', status: 'skipped' },
+    })
+  })
+})
@@ -0,0 +1,58 @@
+import {
+  calculateOrderSettlement,
+  describeFeeSchedule,
+  getOrderSettlement,
+  resolveFeePercentage,
+} from '@/lib/fee-schedule'
+
+import { describe, it, expect } from 'vitest'
+
+const schedule = {
+  percentage: 2.9,
+  fixedFee: 0.3,
+  tiers: [
+    { minMonthlyVolume: 10000, percentage: 1.9 },
+    { minMonthlyVolume: 50000, percentage: 1.5 },
+  ],
+}
+
+describe('Fee schedules', () => {
+  it('applies the highest volume tier reached this month', () => {
+    expect(resolveFeePercentage(schedule, 0)).toBe(2.9)
+    expect(resolveFeePercentage(schedule, 9999.99)).toBe(2.9)
+    expect(resolveFeePercentage(schedule, 10000)).toBe(1.9)
+    expect(resolveFeePercentage(schedule, 75000)).toBe(1.5)
+    expect(resolveFeePercentage(null, 75000)).toBe(0)
+  })
+
+  it('splits an order into gross, platform fee and net', () => {
+    expect(calculateOrderSettlement(50, schedule, 4000)).toEqual({
+      grossAmount: 50,
+      platformFee: 1.75,
+      netAmount: 48.25,
+    })
+    expect(calculateOrderSettlement(50, schedule, 12000).platformFee).toBe(1.25)
+    // The fee never exceeds the amount charged
+    expect(calculateOrderSettlement(0.5, { fixedFee: 1 })).toEqual({
+      grossAmount: 0.5,
+      platformFee: 0.5,
+      netAmount: 0,
+    })
+    expect(describeFeeSchedule(schedule)).toBe(
+      '2.9% + $0.30 (1.9% from $10,000/mo, 1.5% from $50,000/mo)',
+    )
+  })
+
+  it('falls back for orders paid before fee schedules', () => {
+    expect(getOrderSettlement({ total: 20, provider: 'p1' })).toEqual({
+      grossAmount: 20,
+      platformFee: 0,
+      netAmount: 20,
+    })
+    expect(getOrderSettlement({ total: 20 })).toEqual({
+      grossAmount: 20,
+      platformFee: 20,
+      netAmount: 0,
+    })
+  })
+})
@@ -0,0 +1,214 @@
+import { NotFound, ValidationError, type Payload, type Where } from 'payload'
+
+type Doc = Record<string, unknown> & { id: string }
+
+/**
+ * In-memory stand-in for the parts of the Payload local API the ledgers and claims use
+ * Supports `where` with and/or and the common operators, unique fields (raising the same
+ * ValidationError as the MongoDB adapter) and `db.updateOne` with `where` and `$inc`.
+ * Hooks and access control are not run; `auth` resolves to whatever `user` is set to.
+ */
+export class MemoryPayload {
+  readonly collections: Record<string, Doc[]> = {}
+  user: object | null = null
+  private nextId = 1
+  private lastTime = 0
+
+  constructor(private readonly unique: Record<string, string[]> = {}) {}
+
+  get payload(): Payload {
+    return this as unknown as Payload
+  }
+
+  // Strictly increasing timestamps, so `updatedAt` tells writes apart
+  now(): string {
+    this.lastTime = Math.max(Date.now(), this.lastTime + 1)
+    return new Date(this.lastTime).toISOString()
+  }
+
+  docs(collection: string): Doc[] {
+    return (this.collections[collection] ||= [])
+  }
+
+  seed(collection: string, data: Record<string, unknown>): Doc {
+    const time = this.now()
+    const doc = { createdAt: time, updatedAt: time, ...data, id: String(data.id ?? this.nextId++) }
+    this.docs(collection).push(doc)
+    return clone(doc)
+  }
+
+  async auth() {
+    return { user: this.user }
+  }
+
+  async find({
+    collection,
+    where,
+    sort,
+    limit,
+  }: {
+    collection: string
+    where?: Where
+    sort?: string
+    limit?: number
+  }) {
+    let docs = this.docs(collection).filter((doc) => matches(doc, where))
+    if (sort) {
+      const field = sort.replace(/^-/, '')
+      const direction = sort.startsWith('-') ? -1 : 1
+      docs = [...docs].sort((a, b) => compare(get(a, field), get(b, field)) * direction)
+    }
+    const page = limit ? docs.slice(0, limit) : docs
+    return { docs: page.map(clone), totalDocs: docs.length, hasNextPage: page.length < docs.length }
+  }
+
+  async findByID({ collection, id }: { collection: string; id: string }) {
+    const doc = this.docs(collection).find((item) => item.id === id)
+    if (!doc) throw new NotFound()
+    return clone(doc)
+  }
+
+  async count({ collection, where }: { collection: string; where?: Where }) {
+    return { totalDocs: this.docs(collection).filter((doc) => matches(doc, where)).length }
+  }
+
+  async create({ collection, data }: { collection: string; data: Record<string, unknown> }) {
+    this.checkUnique(collection, data)
+    return this.seed(collection, data)
+  }
+
+  async update({
+    collection,
+    id,
+    data,
+  }: {
+    collection: string
+    id: string
+    data: Record<string, unknown>
+  }) {
+    const doc = this.docs(collection).find((item) => item.id === id)
+    if (!doc) throw new NotFound()
+    this.checkUnique(collection, data, id)
+    merge(doc, clone(data))
+    doc.updatedAt = this.now()
+    return clone(doc)
+  }
+
+  async delete({ collection, id }: { collection: string; id: string }) {
+    const docs = this.docs(collection)
+    const index = docs.findIndex((item) => item.id === id)
+    if (index === -1) throw new NotFound()
+    return clone(docs.splice(index, 1)[0])
+  }
+
+  db = {
+    // Atomic like findOneAndUpdate: the first match is updated, or null when nothing matches
+    updateOne: async ({
+      collection,
+      id,
+      where,
+      data,
+    }: {
+      collection: string
+      id?: string
+      where?: Where
+      data: Record<string, unknown>
+    }) => {
+      const doc = this.docs(collection).find((item) => (id ? item.id === id : matches(item, where)))
+      if (!doc) return null
+      const { updatedAt } = doc
+      applyIncrements(doc, clone(data))
+      // Like the adapter: `updatedAt: null` keeps the current value
+      doc.updatedAt = data.updatedAt === null ? updatedAt : (data.updatedAt ?? this.now())
+      return clone(doc)
+    },
+  }
+
+  private checkUnique(collection: string, data: Record<string, unknown>, id?: string) {
+    for (const path of this.unique[collection] || []) {
+      const value = get(data, path)
+      if (value === undefined || value === null) continue
+      if (this.docs(collection).some((doc) => doc.id !== id && get(doc, path) === value)) {
+        throw new ValidationError({
+          collection,
+          errors: [{ message: 'Value must be unique', path }],
+        })
+      }
+    }
+  }
+}
+
+const clone = <T>(value: T): T => (value === undefined ? value : structuredClone(value))
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+function get(doc: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), doc)
+}
+
+function merge(target: Record<string, unknown>, data: Record<string, unknown>) {
+  for (const [key, value] of Object.entries(data)) {
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      merge(target[key] as Record<string, unknown>, value)
+    } else {
+      target[key] = value
+    }
+  }
+}
+
+function applyIncrements(target: Record<string, unknown>, data: Record<string, unknown>) {
+  for (const [key, value] of Object.entries(data)) {
+    if (isPlainObject(value) && typeof value.$inc === 'number') {
+      target[key] = ((target[key] as number) || 0) + value.$inc
+    } else if (isPlainObject(value) && isPlainObject(target[key])) {
+      applyIncrements(target[key] as Record<string, unknown>, value)
+    } else {
+      target[key] = value
+    }
+  }
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === undefined || a === null) return -1
+  if (b === undefined || b === null) return 1
+  return (a as number | string) < (b as number | string) ? -1 : 1
+}
+
+function matches(doc: Doc, where?: Where): boolean {
+  if (!where) return true
+
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'and') return (condition as Where[]).every((item) => matches(doc, item))
+    if (key === 'or') return (condition as Where[]).some((item) => matches(doc, item))
+
+    const value = get(doc, key)
+    return Object.entries(condition as Record<string, unknown>).every(([operator, operand]) => {
+      switch (operator) {
+        case 'equals':
+          return operand === null ? value === null || value === undefined : value === operand
+        case 'not_equals':
+          return value !== operand
+        case 'in':
+          return (operand as unknown[]).includes(value)
+        case 'not_in':
+          return !(operand as unknown[]).includes(value)
+        case 'exists':
+          return (value !== undefined && value !== null) === operand
+        case 'greater_than':
+          return value !== undefined && value !== null && compare(value, operand) > 0
+        case 'greater_than_equal':
+          return value !== undefined && value !== null && compare(value, operand) >= 0
+        case 'less_than':
+          return value !== undefined && value !== null && compare(value, operand) < 0
+        case 'less_than_equal':
+          return value !== undefined && value !== null && compare(value, operand) <= 0
+        default:
+          throw new Error(`MemoryPayload does not support the ${operator} operator`)
+      }
+    })
+  })
+}
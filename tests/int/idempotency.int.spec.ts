@@ -0,0 +1,203 @@
+import {
+  claimIdempotencyKey,
+  fingerprintRequest,
+  getStripeIdempotencyKey,
+  isValidIdempotencyKey,
+} from '@/lib/idempotency'
+import { getPayloadClient } from '@/lib/payload'
+import { authenticateProviderApiKey } from '@/lib/provider-api-keys'
+import { POST } from '@/app/api/v1/create-payment-intent/route'
+import type { Provider } from '@/payload-types'
+import { MemoryPayload } from './helpers/memory-payload'
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/payload', () => ({ getPayloadClient: vi.fn() }))
+vi.mock('@/lib/provider-api-keys', () => ({ authenticateProviderApiKey: vi.fn() }))
+
+const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+
+const keyStore = () => new MemoryPayload({ 'idempotency-keys': ['scopedKey'] })
+
+const seedKey = (memory: MemoryPayload, overrides: Record<string, unknown> = {}) =>
+  memory.seed('idempotency-keys', {
+    scopedKey: 'p1:key-1',
+    key: 'key-1',
+    provider: 'p1',
+    fingerprint: 'f1',
+    status: 'processing',
+    expiresAt: inHours(24),
+    ...overrides,
+  })
+
+describe('Idempotency keys', () => {
+  it('accepts 1-255 printable ASCII characters', () => {
+    expect(isValidIdempotencyKey('5f1c9a8e-2b4d-4c61-9e0a-7d3b2f6a1c44')).toBe(true)
+    expect(isValidIdempotencyKey('a'.repeat(255))).toBe(true)
+    expect(isValidIdempotencyKey('a'.repeat(256))).toBe(false)
+    expect(isValidIdempotencyKey('')).toBe(false)
+    expect(isValidIdempotencyKey('has space')).toBe(false)
+    expect(isValidIdempotencyKey('clé')).toBe(false)
+  })
+
+  it('fingerprints the body regardless of key order or the body API key', () => {
+    const fingerprint = fingerprintRequest({
+      externalId: 'ORDER-1',
+      amount: 100,
+      metadata: { a: 1, b: 'x' },
+    })
+    expect(
+      fingerprintRequest({
+        metadata: { b: 'x', a: 1 },
+        amount: 100,
+        apiKey: 'provider_secret',
+        externalId: 'ORDER-1',
+      }),
+    ).toBe(fingerprint)
+    expect(
+      fingerprintRequest({ externalId: 'ORDER-1', amount: 101, metadata: { a: 1, b: 'x' } }),
+    ).not.toBe(fingerprint)
+  })
+
+  it('derives a Stripe key per provider, key and body', () => {
+    const stripeKey = getStripeIdempotencyKey('p1', 'key-1', 'f1')
+    expect(stripeKey).toMatch(/^pi_idem_[a-f0-9]{64}$/)
+    expect(getStripeIdempotencyKey('p1', 'key-1', 'f1')).toBe(stripeKey)
+    expect(getStripeIdempotencyKey('p2', 'key-1', 'f1')).not.toBe(stripeKey)
+    expect(getStripeIdempotencyKey('p1', 'key-1', 'f2')).not.toBe(stripeKey)
+  })
+})
+
+describe('Idempotency key claims', () => {
+  const claim = (memory: MemoryPayload, fingerprint = 'f1') =>
+    claimIdempotencyKey(memory.payload, { providerId: 'p1', key: 'key-1', fingerprint })
+
+  it('records a new key and scopes test keys apart from live ones', async () => {
+    const memory = keyStore()
+
+    await expect(claim(memory)).resolves.toMatchObject({
+      action: 'process',
+      record: { scopedKey: 'p1:key-1', status: 'processing' },
+    })
+    await expect(
+      claimIdempotencyKey(memory.payload, {
+        providerId: 'p1',
+        key: 'key-1',
+        fingerprint: 'f1',
+        livemode: false,
+      }),
+    ).resolves.toMatchObject({ action: 'process', record: { scopedKey: 'test:p1:key-1' } })
+  })
+
+  it('replays completed keys and rejects a different body or a running request', async () => {
+    const completed = keyStore()
+    seedKey(completed, { status: 'completed', responseStatus: 200, responseBody: { ok: 1 } })
+    await expect(claim(completed)).resolves.toMatchObject({
+      action: 'replay',
+      record: { responseBody: { ok: 1 } },
+    })
+    await expect(claim(completed, 'f2')).resolves.toEqual({
+      action: 'conflict',
+      reason: 'mismatch',
+    })
+
+    const running = keyStore()
+    seedKey(running)
+    await expect(claim(running)).resolves.toEqual({ action: 'conflict', reason: 'in_progress' })
+  })
+
+  it('lets exactly one of two concurrent retries take over an expired key', async () => {
+    const memory = keyStore()
+    seedKey(memory, { status: 'completed', fingerprint: 'old', expiresAt: inHours(-1) })
+
+    const claims = await Promise.all([claim(memory), claim(memory)])
+
+    expect(claims.map((result) => result.action).sort()).toEqual(['conflict', 'process'])
+    expect(memory.docs('idempotency-keys')[0]).toMatchObject({
+      fingerprint: 'f1',
+      status: 'processing',
+      responseBody: null,
+    })
+  })
+
+  it('reports a key inserted concurrently as in progress', async () => {
+    const memory = keyStore()
+    seedKey(memory)
+    // The lookup ran before the concurrent insert
+    const find = memory.find.bind(memory)
+    vi.spyOn(memory, 'find').mockImplementationOnce(async (args) => ({
+      ...(await find(args)),
+      docs: [],
+    }))
+
+    await expect(claim(memory)).resolves.toEqual({ action: 'conflict', reason: 'in_progress' })
+  })
+})
+
+describe('create-payment-intent with an Idempotency-Key', () => {
+  const provider = { id: 'p1', name: 'Bitloader', services: [] } as unknown as Provider
+  const body = { externalId: 'ORDER-1', amount: 25 }
+  let memory: MemoryPayload
+
+  const post = (payload: Record<string, unknown>) =>
+    POST(
+      new Request('http://localhost/api/v1/create-payment-intent', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': 'key-1' },
+        body: JSON.stringify(payload),
+      }),
+    )
+
+  beforeEach(() => {
+    memory = keyStore()
+    vi.mocked(getPayloadClient).mockResolvedValue(memory.payload)
+    vi.mocked(authenticateProviderApiKey).mockReset()
+    vi.mocked(authenticateProviderApiKey).mockResolvedValue({
+      provider,
+      apiKey: {} as never,
+      livemode: true,
+    })
+  })
+
+  it('honours the key when the API key is sent in the body', async () => {
+    seedKey(memory, {
+      fingerprint: fingerprintRequest(body),
+      status: 'completed',
+      responseStatus: 200,
+      responseBody: { orderId: 'order1' },
+    })
+
+    const response = await post({ ...body, apiKey: 'provider_body_key_0123456789abcdef' })
+
+    expect(response.headers.get('Idempotent-Replayed')).toBe('true')
+    await expect(response.json()).resolves.toEqual({ orderId: 'order1' })
+  })
+
+  it('authenticates once and releases the key when the request fails', async () => {
+    const response = await post({ ...body, apiKey: 'provider_body_key_0123456789abcdef' })
+
+    expect(response.status).toBe(400)
+    expect(authenticateProviderApiKey).toHaveBeenCalledTimes(1)
+    expect(memory.docs('idempotency-keys')).toHaveLength(0)
+  })
+
+  it('answers a concurrent request with 409 instead of throwing', async () => {
+    seedKey(memory, { fingerprint: fingerprintRequest(body) })
+
+    const response = await post({ ...body, apiKey: 'provider_body_key_0123456789abcdef' })
+
+    expect(response.status).toBe(409)
+    await expect(response.json()).resolves.toMatchObject({
+      errorCode: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+    })
+  })
+
+  it('turns a failing idempotency lookup into a JSON error', async () => {
+    vi.spyOn(memory, 'find').mockRejectedValue(new Error('connection lost'))
+
+    const response = await post({ ...body, apiKey: 'provider_body_key_0123456789abcdef' })
+
+    expect(response.status).toBe(500)
+    await expect(response.json()).resolves.toEqual({ error: 'Failed to create payment intent' })
+  })
+})
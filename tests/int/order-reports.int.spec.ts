@@ -0,0 +1,97 @@
+import {
+  fillSeries,
+  getDateRangeWhere,
+  getReportDateRange,
+  getSeriesBuckets,
+  MAX_SERIES_BUCKETS,
+} from '@/lib/order-reports'
+
+import { describe, it, expect } from 'vitest'
+
+describe('Order reports', () => {
+  it('parses report date ranges', () => {
+    const range = getReportDateRange(
+      new URLSearchParams('from=2026-01-01&to=2026-01-31'),
+      'America/New_York',
+    )
+    expect(getDateRangeWhere(range as { from: Date; to: Date })).toEqual({
+      createdAt: {
+        greater_than_equal: '2026-01-01T05:00:00.000Z',
+        less_than_equal: '2026-02-01T04:59:59.999Z',
+      },
+    })
+    expect(getDateRangeWhere({})).toBeUndefined()
+    expect(getReportDateRange(new URLSearchParams('to=someday'), 'UTC')).toHaveProperty('error')
+  })
+
+  it('lists every bucket in the range and caps long series', () => {
+    const buckets = getSeriesBuckets(
+      new Date('2025-11-15T00:00:00.000Z'),
+      new Date('2026-01-10T00:00:00.000Z'),
+      'month',
+      'UTC',
+    )
+    expect(buckets?.map((bucket) => bucket.toISOString())).toEqual([
+      '2025-11-01T00:00:00.000Z',
+      '2025-12-01T00:00:00.000Z',
+      '2026-01-01T00:00:00.000Z',
+    ])
+
+    const from = new Date('2020-01-01T00:00:00.000Z')
+    const to = new Date(from.getTime() + MAX_SERIES_BUCKETS * 24 * 60 * 60 * 1000)
+    expect(getSeriesBuckets(from, to, 'day', 'UTC')).toBeNull()
+  })
+
+  it('starts buckets at midnight in the reporting time zone', () => {
+    const buckets = getSeriesBuckets(
+      new Date('2026-03-07T12:00:00.000Z'),
+      new Date('2026-03-09T12:00:00.000Z'),
+      'day',
+      'America/New_York',
+    )
+    // Daylight saving time starts on March 8
+    expect(buckets?.map((bucket) => bucket.toISOString())).toEqual([
+      '2026-03-07T05:00:00.000Z',
+      '2026-03-08T05:00:00.000Z',
+      '2026-03-09T04:00:00.000Z',
+    ])
+  })
+
+  it('fills buckets without orders with zeros', () => {
+    const buckets = getSeriesBuckets(
+      new Date('2026-01-01T00:00:00.000Z'),
+      new Date('2026-01-02T12:00:00.000Z'),
+      'day',
+      'UTC',
+    )!
+    const series = fillSeries(buckets, [
+      {
+        _id: new Date('2026-01-02T00:00:00.000Z'),
+        orderCount: 2,
+        total: 30,
+        grossAmount: 30,
+        platformFee: 3,
+        netAmount: 27,
+      },
+    ])
+
+    expect(series).toEqual([
+      {
+        period: '2026-01-01T00:00:00.000Z',
+        orderCount: 0,
+        total: 0,
+        grossAmount: 0,
+        platformFee: 0,
+        netAmount: 0,
+      },
+      {
+        period: '2026-01-02T00:00:00.000Z',
+        orderCount: 2,
+        total: 30,
+        grossAmount: 30,
+        platformFee: 3,
+        netAmount: 27,
+      },
+    ])
+  })
+})
@@ -0,0 +1,112 @@
+import { canTransitionOrderStatus, ORDER_STATUSES } from '@/lib/order-status'
+import { enforceOrderStatusTransition } from '@/hooks/orderStatus'
+
+import { describe, it, expect } from 'vitest'
+
+describe('Order status transitions', () => {
+  it('allows the normal payment lifecycle', () => {
+    expect(canTransitionOrderStatus('pending', 'paid')).toBe(true)
+    expect(canTransitionOrderStatus('failed', 'paid')).toBe(true)
+    expect(canTransitionOrderStatus('paid', 'partially_refunded')).toBe(true)
+    expect(canTransitionOrderStatus('partially_refunded', 'refunded')).toBe(true)
+    expect(canTransitionOrderStatus('disputed', 'paid')).toBe(true)
+  })
+
+  it('never reopens a refunded order', () => {
+    for (const status of ORDER_STATUSES) {
+      expect(canTransitionOrderStatus('refunded', status)).toBe(status === 'refunded')
+    }
+  })
+
+  it('rejects moving a paid order back to unpaid states', () => {
+    expect(canTransitionOrderStatus('paid', 'pending')).toBe(false)
+    expect(canTransitionOrderStatus('paid', 'failed')).toBe(false)
+    expect(canTransitionOrderStatus('paid', 'expired')).toBe(false)
+  })
+
+  it('treats same-status writes and new orders as no-ops', () => {
+    expect(canTransitionOrderStatus('paid', 'paid')).toBe(true)
+    expect(canTransitionOrderStatus(null, 'paid')).toBe(true)
+  })
+})
+
+describe('Order status history', () => {
+  const paidEntry = {
+    from: 'pending',
+    to: 'paid',
+    source: 'webhook',
+    note: 'evt_1',
+    changedBy: null,
+    changedAt: '2026-01-01T00:00:00.000Z',
+  }
+  const paidOrder = { id: 'o1', status: 'paid', statusHistory: [paidEntry] }
+
+  const runHook = ({
+    operation = 'update',
+    data,
+    originalDoc,
+    context = {},
+    user = null,
+  }: {
+    operation?: 'create' | 'update'
+    data: Record<string, unknown>
+    originalDoc?: Record<string, unknown>
+    context?: Record<string, unknown>
+    user?: { id: string } | null
+  }) =>
+    enforceOrderStatusTransition({
+      data,
+      originalDoc,
+      operation,
+      context,
+      req: { user },
+    } as unknown as Parameters<typeof enforceOrderStatusTransition>[0])
+
+  it('rejects an illegal status change with 409', () => {
+    expect(() => runHook({ data: { status: 'pending' }, originalDoc: paidOrder })).toThrow(
+      expect.objectContaining({
+        status: 409,
+        message: 'Illegal order status transition: paid → pending',
+      }),
+    )
+  })
+
+  it('appends the change with its source and who made it', () => {
+    const data = runHook({
+      data: { status: 'refunded', statusHistory: [] },
+      originalDoc: paidOrder,
+      context: { statusSource: 'webhook', statusNote: 'evt_2' },
+      user: { id: 'u1' },
+    })
+
+    expect(data.statusHistory).toEqual([
+      paidEntry,
+      expect.objectContaining({
+        from: 'paid',
+        to: 'refunded',
+        source: 'webhook',
+        note: 'evt_2',
+        changedBy: 'u1',
+      }),
+    ])
+  })
+
+  it('records the first status of a new order and defaults the source', () => {
+    expect(runHook({ operation: 'create', data: { status: 'pending' } }).statusHistory).toEqual([
+      expect.objectContaining({ from: null, to: 'pending', source: 'system', changedBy: null }),
+    ])
+    expect(
+      runHook({ data: { status: 'refunded' }, originalDoc: paidOrder, user: { id: 'u1' } })
+        .statusHistory[1],
+    ).toMatchObject({ source: 'admin', changedBy: 'u1' })
+  })
+
+  it('leaves the history alone when the status is re-written or not sent', () => {
+    expect(runHook({ data: { status: 'paid' }, originalDoc: paidOrder }).statusHistory).toEqual([
+      paidEntry,
+    ])
+    expect(
+      runHook({ data: { metadata: {}, statusHistory: [] }, originalDoc: paidOrder }).statusHistory,
+    ).toEqual([paidEntry])
+  })
+})
@@ -0,0 +1,38 @@
+import {
+  describePaymentMethods,
+  resolvePaymentMethods,
+  toStripePaymentMethodTypes,
+  validatePaymentMethodSelection,
+} from '@/lib/payment-methods'
+
+import { describe, it, expect } from 'vitest'
+
+describe('Payment methods', () => {
+  it('narrows the service methods to the provider methods', () => {
+    expect(resolvePaymentMethods(null)).toEqual(['cashapp'])
+    expect(resolvePaymentMethods(['card', 'cashapp', 'wallets'])).toEqual([
+      'cashapp',
+      'card',
+      'wallets',
+    ])
+    expect(resolvePaymentMethods(['card', 'cashapp'], ['card', 'us_bank_account'])).toEqual([
+      'card',
+    ])
+    expect(resolvePaymentMethods(['cashapp'], ['card'])).toEqual([])
+  })
+
+  it('maps wallets onto card payments for Stripe', () => {
+    expect(toStripePaymentMethodTypes(['cashapp', 'card', 'wallets'])).toEqual(['cashapp', 'card'])
+    expect(toStripePaymentMethodTypes(['us_bank_account'])).toEqual(['us_bank_account'])
+    expect(describePaymentMethods(['cashapp', 'card', 'us_bank_account'])).toBe(
+      'Cash App, Card or ACH Direct Debit',
+    )
+  })
+
+  it('requires card when wallets are allowed', () => {
+    expect(validatePaymentMethodSelection(['wallets'])).toMatch(/require Card/)
+    expect(validatePaymentMethodSelection(['wallets', 'card'])).toBe(true)
+    expect(validatePaymentMethodSelection(['paypal'])).toBe('Unknown payment method')
+    expect(validatePaymentMethodSelection([])).toBe(true)
+  })
+})
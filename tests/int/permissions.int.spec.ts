@@ -0,0 +1,45 @@
+import { hasPermission, PERMISSIONS, USER_ROLES } from '@/lib/permissions'
+
+import { describe, it, expect } from 'vitest'
+
+describe('Permission matrix', () => {
+  it('grants admins every permission', () => {
+    for (const roles of Object.values(PERMISSIONS)) {
+      expect(roles).toContain('admin')
+    }
+  })
+
+  it('only lists known roles', () => {
+    for (const roles of Object.values(PERMISSIONS)) {
+      for (const role of roles) {
+        expect(USER_ROLES).toContain(role)
+      }
+    }
+  })
+
+  it('checks a user against a permission', () => {
+    expect(hasPermission(null, 'viewOrders')).toBe(false)
+    expect(hasPermission({ role: 'finance' }, 'refundOrders')).toBe(true)
+    expect(hasPermission({ role: 'support' }, 'refundOrders')).toBe(false)
+    expect(hasPermission({ role: 'support' }, 'replayWebhooks')).toBe(true)
+    expect(hasPermission({ role: 'support' }, 'manageApiKeys')).toBe(false)
+    expect(hasPermission({ role: 'editor' }, 'editContent')).toBe(true)
+    expect(hasPermission({ role: 'editor' }, 'viewOrders')).toBe(false)
+  })
+
+  it('keeps analysts read-only', () => {
+    const writes = [
+      'refundOrders',
+      'manageProviders',
+      'manageApiKeys',
+      'replayWebhooks',
+      'recordPayouts',
+      'runReconciliation',
+      'editContent',
+    ] as const
+    for (const permission of writes) {
+      expect(hasPermission({ role: 'analyst' }, permission), permission).toBe(false)
+    }
+    expect(hasPermission({ role: 'analyst' }, 'viewReports')).toBe(true)
+  })
+})
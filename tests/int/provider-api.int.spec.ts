@@ -0,0 +1,63 @@
+import {
+  buildProviderOrdersQuery,
+  decodeOrderCursor,
+  encodeOrderCursor,
+  MAX_PAGE_SIZE,
+} from '@/lib/provider-api'
+import type { Provider } from '@/payload-types'
+
+import { describe, it, expect } from 'vitest'
+
+const provider = { id: 'provider-1' } as Provider
+
+describe('Provider orders API', () => {
+  it('round-trips cursors and keeps ids sharing the last timestamp', () => {
+    const cursor = encodeOrderCursor([
+      { id: 'a', createdAt: '2026-01-30T10:00:02.000Z' },
+      { id: 'b', createdAt: '2026-01-30T10:00:01.000Z' },
+      { id: 'c', createdAt: '2026-01-30T10:00:01.000Z' },
+    ])
+
+    expect(decodeOrderCursor(cursor!)).toEqual({
+      createdAt: '2026-01-30T10:00:01.000Z',
+      ids: ['b', 'c'],
+    })
+    expect(decodeOrderCursor('not-a-cursor')).toBeNull()
+  })
+
+  it('always scopes the list to the calling provider', () => {
+    const query = buildProviderOrdersQuery(provider, new URLSearchParams('status=paid,refunded'))
+
+    expect(query).toMatchObject({
+      where: {
+        and: [
+          { provider: { equals: 'provider-1' } },
+          { livemode: { not_equals: false } },
+          { status: { in: ['paid', 'refunded'] } },
+        ],
+      },
+      limit: 25,
+    })
+  })
+
+  it('lists only test orders for test API keys', () => {
+    const query = buildProviderOrdersQuery(provider, new URLSearchParams(), false)
+
+    expect(query).toMatchObject({
+      where: { and: [{ provider: { equals: 'provider-1' } }, { livemode: { equals: false } }] },
+    })
+  })
+
+  it('rejects invalid filters', () => {
+    for (const params of [
+      'status=shipped',
+      'from=yesterday',
+      'cursor=bogus',
+      `limit=${MAX_PAGE_SIZE + 1}`,
+    ]) {
+      expect(buildProviderOrdersQuery(provider, new URLSearchParams(params))).toHaveProperty(
+        'error',
+      )
+    }
+  })
+})
@@ -0,0 +1,50 @@
+import {
+  isAllowedRedirectUrl,
+  validateOrderMetadata,
+  validateProviderCheckoutOptions,
+} from '@/lib/provider-checkout-options'
+import { buildRedirectUrl } from '@/lib/redirect-url'
+
+import { describe, it, expect } from 'vitest'
+
+describe('Per-order checkout options', () => {
+  it('only allows https redirect URLs on allowed domains and their subdomains', () => {
+    const domains = ['bitloader.com', 'https://Shop.Example.org/']
+
+    expect(isAllowedRedirectUrl('https://bitloader.com/done?o={orderId}', domains)).toBe(true)
+    expect(isAllowedRedirectUrl('https://pay.bitloader.com/done', domains)).toBe(true)
+    expect(isAllowedRedirectUrl('https://shop.example.org/done', domains)).toBe(true)
+    expect(isAllowedRedirectUrl('http://bitloader.com/done', domains)).toBe(false)
+    expect(isAllowedRedirectUrl('https://evilbitloader.com/done', domains)).toBe(false)
+    expect(isAllowedRedirectUrl('https://bitloader.com.evil.io/done', domains)).toBe(false)
+    expect(isAllowedRedirectUrl('javascript:alert(1)', domains)).toBe(false)
+    expect(
+      validateProviderCheckoutOptions(
+        { allowedRedirectDomains: [] },
+        { successUrl: 'https://bitloader.com/done' },
+      ),
+    ).toHaveProperty('error')
+  })
+
+  it('bounds metadata to a small flat object', () => {
+    expect(validateOrderMetadata({ userId: 'u_1', credits: 20, vip: true })).toEqual({
+      metadata: { userId: 'u_1', credits: 20, vip: true },
+    })
+    expect(validateOrderMetadata(['a'])).toHaveProperty('error')
+    expect(validateOrderMetadata({ nested: { a: 1 } })).toHaveProperty('error')
+    expect(validateOrderMetadata({ note: 'x'.repeat(501) })).toHaveProperty('error')
+    expect(
+      validateOrderMetadata(Object.fromEntries(Array.from({ length: 21 }, (_, i) => [`k${i}`, i]))),
+    ).toHaveProperty('error')
+  })
+
+  it('fills in redirect URL placeholders', () => {
+    expect(
+      buildRedirectUrl('https://bitloader.com/r?o={orderId}&ext={externalId}&s={status}', {
+        orderId: '65b1',
+        externalId: 'BL 42&x',
+        status: 'paid',
+      }),
+    ).toBe('https://bitloader.com/r?o=65b1&ext=BL%2042%26x&s=paid')
+  })
+})
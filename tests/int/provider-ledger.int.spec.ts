@@ -0,0 +1,200 @@
+import {
+  buildStatement,
+  getOrderLedgerPostings,
+  LEDGER_POSTINGS,
+  reconcileLedger,
+  recordPayout,
+  summarizeLedger,
+} from '@/lib/provider-ledger'
+import type { Order, User } from '@/payload-types'
+import { MemoryPayload } from './helpers/memory-payload'
+
+import { describe, it, expect, vi } from 'vitest'
+
+const order = (overrides: Partial<Order> = {}) =>
+  ({
+    id: 'order1',
+    orderId: 'ORD-1',
+    status: 'paid',
+    total: 100,
+    statusHistory: [
+      { from: null, to: 'pending', source: 'api', changedAt: '2025-01-01T10:00:00.000Z' },
+      { from: 'pending', to: 'paid', source: 'webhook', changedAt: '2025-01-01T10:05:00.000Z' },
+    ],
+    refunds: [],
+    updatedAt: '2025-01-02T00:00:00.000Z',
+    ...overrides,
+  }) as Order
+
+const toEntries = (postings: ReturnType<typeof getOrderLedgerPostings>, orderId = 'order1') =>
+  postings.map((posting) => ({ ...posting, ...LEDGER_POSTINGS[posting.type], order: orderId }))
+
+describe('Provider ledger', () => {
+  it('derives payment, fee, refund and dispute entries from an order', () => {
+    const postings = getOrderLedgerPostings(
+      order({
+        status: 'refunded',
+        refunds: [
+          { stripeRefundId: 're_1', amount: 20, status: 'succeeded', createdAt: '2025-01-05' },
+          { stripeRefundId: 're_2', amount: 5, status: 'failed' },
+        ],
+        disputeId: 'dp_1',
+        disputeStatus: 'lost',
+        disputeAmount: 80,
+        platformFee: 2.5,
+      }),
+    )
+
+    expect(postings.map((posting) => [posting.key, posting.amount])).toEqual([
+      ['payment:order1', 100],
+      ['platform_fee:order1', 2.5],
+      ['refund:re_1', 20],
+      ['dispute_loss:dp_1', 80],
+    ])
+    expect(postings[0].occurredAt).toBe('2025-01-01T10:05:00.000Z')
+    expect(summarizeLedger(toEntries(postings))).toEqual({
+      balance: -2.5,
+      payments: 100,
+      fees: 2.5,
+      refunds: 20,
+      disputeLosses: 80,
+      payouts: 0,
+    })
+    expect(getOrderLedgerPostings(order({ status: 'pending', platformFee: 2.5 }))).toEqual([])
+    expect(getOrderLedgerPostings(order({ livemode: false, platformFee: 2.5 }))).toEqual([])
+  })
+
+  it('reconciles recorded entries against orders', () => {
+    const paid = order({
+      status: 'partially_refunded',
+      refunds: [{ stripeRefundId: 're_1', amount: 20, status: 'succeeded' }],
+      platformFee: 10,
+    })
+    const entries = toEntries(getOrderLedgerPostings(paid))
+
+    expect(reconcileLedger([paid], entries)).toEqual([])
+    expect(reconcileLedger([paid], entries.slice(0, 2))).toEqual([
+      { orderId: 'order1', key: 'refund:re_1', issue: 'missing', expected: 20, recorded: null },
+    ])
+    expect(reconcileLedger([order({ status: 'expired' })], entries.slice(0, 1))).toEqual([
+      {
+        orderId: 'order1',
+        key: 'payment:order1',
+        issue: 'unexpected',
+        expected: null,
+        recorded: 100,
+      },
+    ])
+  })
+
+  it('builds a statement with opening balance and running balance', () => {
+    const entries = [
+      ...toEntries(getOrderLedgerPostings(order())),
+      {
+        key: 'payout:p1:wire-1',
+        type: 'payout' as const,
+        ...LEDGER_POSTINGS.payout,
+        amount: 60,
+        occurredAt: '2025-02-03T00:00:00.000Z',
+      },
+      ...toEntries(
+        getOrderLedgerPostings(
+          order({
+            id: 'order2',
+            total: 30,
+            statusHistory: [
+              { to: 'paid', source: 'webhook', changedAt: '2025-02-10T00:00:00.000Z' },
+            ],
+          }),
+        ),
+        'order2',
+      ),
+    ]
+
+    const statement = buildStatement(
+      'p1',
+      { from: new Date('2025-02-01'), to: new Date('2025-03-01') },
+      entries,
+    )
+
+    expect(statement.openingBalance).toBe(100)
+    expect(
+      statement.lines.map((line) => [line.type, line.debit, line.credit, line.balance]),
+    ).toEqual([
+      ['payout', 60, 0, 40],
+      ['payment', 0, 30, 70],
+    ])
+    expect(statement.closingBalance).toBe(70)
+    expect(statement.totals.payouts).toBe(60)
+  })
+})
+
+describe('Provider payouts', () => {
+  const user = { id: 'admin1' } as User
+
+  const setup = (lockedUntil?: string) => {
+    const memory = new MemoryPayload({ 'ledger-entries': ['key'] })
+    memory.seed('providers', { id: 'provider1', name: 'Bitloader', payoutLockedUntil: lockedUntil })
+    memory.seed('ledger-entries', {
+      key: 'payment:order1',
+      type: 'payment',
+      ...LEDGER_POSTINGS.payment,
+      provider: 'provider1',
+      amount: 100,
+      occurredAt: '2025-01-01T10:05:00.000Z',
+    })
+    return memory
+  }
+
+  const payout = (memory: MemoryPayload, amount: number, reference: string) =>
+    recordPayout(memory.payload, { providerId: 'provider1', amount, reference, user })
+
+  it('records payouts up to the balance and releases the lock', async () => {
+    const memory = setup()
+
+    const entry = await payout(memory, 60, 'WIRE-1')
+    expect(entry).toMatchObject({ key: 'payout:provider1:WIRE-1', amount: 60 })
+    await expect(payout(memory, 50, 'WIRE-2')).rejects.toMatchObject({ status: 400 })
+    expect(memory.docs('providers')[0].payoutLockedUntil).toBeNull()
+  })
+
+  it('rejects a reused reference with 409, also when it was saved after the check', async () => {
+    const memory = setup()
+    await payout(memory, 10, 'WIRE-1')
+    await expect(payout(memory, 10, 'WIRE-1')).rejects.toMatchObject({ status: 409 })
+
+    // A concurrent request inserted the same reference between the check and the insert
+    const find = memory.find.bind(memory)
+    vi.spyOn(memory, 'find').mockImplementation(async (args) =>
+      args.collection === 'ledger-entries' && args.where && 'key' in args.where
+        ? { docs: [], totalDocs: 0, hasNextPage: false }
+        : find(args),
+    )
+    await expect(payout(memory, 10, 'WIRE-1')).rejects.toMatchObject({
+      status: 409,
+      message: 'A payout with reference "WIRE-1" already exists',
+    })
+    expect(memory.docs('ledger-entries').filter((entry) => entry.type === 'payout')).toHaveLength(1)
+  })
+
+  it('records concurrent payouts one at a time', async () => {
+    const memory = setup()
+
+    const results = await Promise.allSettled([
+      payout(memory, 80, 'WIRE-1'),
+      payout(memory, 80, 'WIRE-2'),
+    ])
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected'])
+    expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ status: 409 })
+    expect(memory.docs('ledger-entries').filter((entry) => entry.type === 'payout')).toHaveLength(1)
+  })
+
+  it('takes over a lock left behind by a crashed request', async () => {
+    const held = setup(new Date(Date.now() + 60_000).toISOString())
+    await expect(payout(held, 10, 'WIRE-1')).rejects.toMatchObject({ status: 409 })
+
+    const stale = setup(new Date(Date.now() - 1000).toISOString())
+    await expect(payout(stale, 10, 'WIRE-1')).resolves.toMatchObject({ amount: 10 })
+  })
+})
@@ -0,0 +1,29 @@
+import { resolveProviderService } from '@/lib/provider-services'
+import type { Service } from '@/payload-types'
+
+import { describe, it, expect } from 'vitest'
+
+const service = (id: string, slug: string) => ({ id, slug, title: slug, price: 5 }) as Service
+
+const provider = {
+  services: [
+    { service: service('s1', 'credits'), minAmount: null, maxAmount: null },
+    { service: service('s2', 'premium'), minAmount: 20, maxAmount: 500 },
+  ],
+  primaryService: 's1',
+}
+
+describe('Provider services', () => {
+  it('defaults to the primary service', () => {
+    const result = resolveProviderService(provider)
+    expect('service' in result && result.service.slug).toBe('credits')
+  })
+
+  it('selects a linked service by slug and rejects unlinked ones', () => {
+    const result = resolveProviderService(provider, 'premium')
+    expect('service' in result && result.link.maxAmount).toBe(500)
+    expect(resolveProviderService(provider, 'other')).toEqual({
+      error: 'Service "other" is not available for this provider',
+    })
+  })
+})
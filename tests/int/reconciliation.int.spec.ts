@@ -0,0 +1,57 @@
+import { comparePaymentIntent, needsRefundSync } from '@/lib/reconciliation'
+
+import { describe, it, expect } from 'vitest'
+
+const paymentIntent = (
+  status: 'succeeded' | 'canceled' | 'requires_payment_method',
+  amount = 5000,
+  metadata: Record<string, string> = { serviceId: 'svc_1' },
+) => ({ id: 'pi_1', status, amount, metadata })
+
+describe('Stripe reconciliation', () => {
+  it('reports PaymentIntents without an order only when checkout collected money', () => {
+    expect(comparePaymentIntent(paymentIntent('succeeded'), null).discrepancies).toMatchObject([
+      { type: 'missing_order', stripeObjectId: 'pi_1' },
+    ])
+    expect(comparePaymentIntent(paymentIntent('canceled'), null).discrepancies).toEqual([])
+    expect(comparePaymentIntent(paymentIntent('succeeded', 5000, {}), null).discrepancies).toEqual(
+      [],
+    )
+  })
+
+  it('reports status and amount drifts and fixes canceled pending orders', () => {
+    expect(
+      comparePaymentIntent(paymentIntent('succeeded', 4500), {
+        id: 'o1',
+        status: 'pending',
+        total: 50,
+      }),
+    ).toMatchObject({
+      fix: null,
+      discrepancies: [{ type: 'amount_mismatch' }, { type: 'paid_in_stripe', order: 'o1' }],
+    })
+    expect(
+      comparePaymentIntent(paymentIntent('requires_payment_method'), {
+        id: 'o1',
+        status: 'paid',
+        total: 50,
+      }).discrepancies,
+    ).toMatchObject([{ type: 'not_paid_in_stripe' }])
+    expect(
+      comparePaymentIntent(paymentIntent('canceled'), { id: 'o1', status: 'pending', total: 50 }),
+    ).toEqual({ fix: 'mark_failed', discrepancies: [] })
+    expect(
+      comparePaymentIntent(paymentIntent('succeeded'), { id: 'o1', status: 'paid', total: 50 }),
+    ).toEqual({ fix: null, discrepancies: [] })
+  })
+
+  it('detects refunds missing from the order or out of date', () => {
+    const order = {
+      refunds: [{ stripeRefundId: 're_1', amount: 10, status: 'pending' as const }],
+    }
+    expect(needsRefundSync(order, [{ id: 're_1', amount: 1000, status: 'pending' }])).toBe(false)
+    expect(needsRefundSync(order, [{ id: 're_1', amount: 1000, status: 'succeeded' }])).toBe(true)
+    expect(needsRefundSync(order, [{ id: 're_2', amount: 500, status: 'succeeded' }])).toBe(true)
+    expect(needsRefundSync({ refunds: [] }, [])).toBe(false)
+  })
+})
@@ -0,0 +1,40 @@
+import { getRefundableAmount, getRefundedAmount, getRefundedStatus } from '@/lib/refunds'
+
+import { describe, it, expect } from 'vitest'
+
+describe('Order refunds', () => {
+  it('only counts succeeded refunds', () => {
+    expect(
+      getRefundedAmount([
+        { amount: 10.1, status: 'succeeded' },
+        { amount: 5.2, status: 'succeeded' },
+        { amount: 3, status: 'pending' },
+        { amount: 7, status: 'failed' },
+      ]),
+    ).toBe(15.3)
+  })
+
+  it('computes the remaining refundable balance without float drift', () => {
+    expect(getRefundableAmount({ total: 50.3, amountRefunded: 20.1 })).toBe(30.2)
+    expect(getRefundableAmount({ total: 25, amountRefunded: null })).toBe(25)
+    expect(getRefundableAmount({ total: 25, amountRefunded: 25 })).toBe(0)
+  })
+
+  it('holds back refunds that are still pending', () => {
+    const refunds = [
+      { stripeRefundId: 're_1', amount: 10, status: 'succeeded' as const },
+      { stripeRefundId: 're_2', amount: 15.5, status: 'pending' as const },
+      { stripeRefundId: 're_3', amount: 4, status: 'requires_action' as const },
+      { stripeRefundId: 're_4', amount: 30, status: 'failed' as const },
+    ]
+    expect(getRefundableAmount({ total: 50, amountRefunded: 10, refunds })).toBe(20.5)
+    expect(getRefundableAmount({ total: 25, amountRefunded: 10, refunds })).toBe(0)
+  })
+
+  it('derives partially_refunded and refunded statuses', () => {
+    expect(getRefundedStatus(100, 0)).toBeNull()
+    expect(getRefundedStatus(100, 40)).toBe('partially_refunded')
+    expect(getRefundedStatus(100, 100)).toBe('refunded')
+    expect(getRefundedStatus(0.3, 0.1 + 0.2)).toBe('refunded')
+  })
+})
@@ -0,0 +1,54 @@
+import {
+  isValidTimeZone,
+  nextZonedPeriod,
+  parseReportDate,
+  startOfZonedPeriod,
+} from '@/lib/timezone'
+
+import { describe, it, expect } from 'vitest'
+
+describe('Reporting time zone', () => {
+  it('reads calendar dates as days in the time zone', () => {
+    expect(parseReportDate('2026-01-31', 'Asia/Tokyo')?.toISOString()).toBe(
+      '2026-01-30T15:00:00.000Z',
+    )
+    expect(parseReportDate('2026-01-31', 'Asia/Tokyo', true)?.toISOString()).toBe(
+      '2026-01-31T14:59:59.999Z',
+    )
+    // Timestamps are left as they are
+    expect(parseReportDate('2026-01-31T12:00:00.000Z', 'Asia/Tokyo')?.toISOString()).toBe(
+      '2026-01-31T12:00:00.000Z',
+    )
+    expect(parseReportDate('2026-02-30', 'UTC')).toBeNull()
+    expect(parseReportDate('someday', 'UTC')).toBeNull()
+  })
+
+  it('handles days that daylight saving time shortens', () => {
+    // Clocks in New York skip from 2:00 to 3:00 on March 8, 2026
+    expect(parseReportDate('2026-03-08', 'America/New_York', true)?.toISOString()).toBe(
+      '2026-03-09T03:59:59.999Z',
+    )
+  })
+
+  it('finds the day, Monday week and month around an instant', () => {
+    // Sunday, March 1 in Berlin but still February 28 in UTC
+    const date = new Date('2026-02-28T23:30:00.000Z')
+    const week = startOfZonedPeriod(date, 'week', 'Europe/Berlin')
+    const month = startOfZonedPeriod(date, 'month', 'Europe/Berlin')
+
+    expect(startOfZonedPeriod(date, 'day', 'Europe/Berlin').toISOString()).toBe(
+      '2026-02-28T23:00:00.000Z',
+    )
+    expect(week.toISOString()).toBe('2026-02-22T23:00:00.000Z')
+    expect(month.toISOString()).toBe('2026-02-28T23:00:00.000Z')
+    // Summer time starts in Berlin on March 29
+    expect(nextZonedPeriod(month, 'month', 'Europe/Berlin').toISOString()).toBe(
+      '2026-03-31T22:00:00.000Z',
+    )
+  })
+
+  it('validates IANA names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+  })
+})
@@ -0,0 +1,210 @@
+import {
+  addVerifiedSession,
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+  isTwoFactorPending,
+  MAX_TWO_FACTOR_ATTEMPTS,
+  type SessionUser,
+  verifyTotp,
+  verifyTwoFactor,
+} from '@/lib/two-factor'
+import { getDeviceId } from '@/lib/login-history'
+import { encrypt } from '@/lib/encryption'
+import { getPayloadClient } from '@/lib/payload'
+import { POST } from '@/app/api/admin/two-factor/verify/route'
+import { MemoryPayload } from './helpers/memory-payload'
+
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest'
+
+vi.mock('@/lib/payload', () => ({ getPayloadClient: vi.fn() }))
+
+// RFC 6238 test secret: ASCII "12345678901234567890"
+const SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 test vectors', () => {
+    expect(SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    expect(base32Decode(SECRET).toString()).toBe('12345678901234567890')
+    expect(generateTotp(SECRET, 59 * 1000)).toBe('287082')
+    expect(generateTotp(SECRET, 1111111109 * 1000)).toBe('081804')
+    expect(generateTotp(SECRET, 1234567890 * 1000)).toBe('005924')
+  })
+
+  it('accepts codes one step either side and rejects replays', () => {
+    const now = 1234567890 * 1000
+    const step = Math.floor(now / 30000)
+    expect(verifyTotp(SECRET, generateTotp(SECRET, now), null, now)).toBe(step)
+    expect(verifyTotp(SECRET, generateTotp(SECRET, now - 30000), null, now)).toBe(step - 1)
+    expect(verifyTotp(SECRET, generateTotp(SECRET, now - 60000), null, now)).toBeNull()
+    expect(verifyTotp(SECRET, generateTotp(SECRET, now), step, now)).toBeNull()
+    expect(verifyTotp(SECRET, '12345', null, now)).toBeNull()
+  })
+})
+
+describe('Recovery codes', () => {
+  it('generates distinct codes that hash the same however they are typed', () => {
+    const codes = generateRecoveryCodes()
+    expect(codes).toHaveLength(10)
+    expect(new Set(codes).size).toBe(10)
+    expect(codes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/)
+    expect(hashRecoveryCode(codes[0].toLowerCase().replace('-', ' '))).toBe(
+      hashRecoveryCode(codes[0]),
+    )
+  })
+})
+
+describe('Two-factor sessions', () => {
+  const enabled = { enabled: true, verifiedSessions: ['s1'] }
+
+  it('holds password sessions until they pass two-factor', () => {
+    const session = { _strategy: 'local-jwt', _sid: 's2' }
+    expect(isTwoFactorPending({ role: 'support', ...session })).toBe(false)
+    expect(isTwoFactorPending({ role: 'finance', ...session })).toBe(true)
+    expect(isTwoFactorPending({ role: 'support', twoFactor: enabled, ...session })).toBe(true)
+    expect(isTwoFactorPending({ role: 'admin', twoFactor: enabled, ...session, _sid: 's1' })).toBe(
+      false,
+    )
+  })
+
+  it('never asks API key requests for a code', () => {
+    expect(isTwoFactorPending({ role: 'admin', _strategy: 'api-key' })).toBe(false)
+  })
+
+  it('drops verified sessions that have ended', () => {
+    expect(
+      addVerifiedSession({
+        sessions: [
+          { id: 's2', expiresAt: '' },
+          { id: 's3', expiresAt: '' },
+        ],
+        twoFactor: { verifiedSessions: ['s1', 's2'] },
+        _sid: 's3',
+      }),
+    ).toEqual(['s2', 's3'])
+  })
+})
+
+describe('Login history', () => {
+  it('identifies a device by its user agent', () => {
+    const chrome = 'Mozilla/5.0 (Macintosh) Chrome/130.0'
+    expect(getDeviceId(chrome)).toBe(getDeviceId(` ${chrome} `))
+    expect(getDeviceId(chrome)).not.toBe(getDeviceId('Mozilla/5.0 (Windows) Firefox/131.0'))
+  })
+})
+
+describe('Two-factor verification', () => {
+  const audit = { ip: '203.0.113.7', userAgent: 'vitest' }
+  const recoveryCodes = ['AAAAA-BBBBB', 'CCCCC-DDDDD']
+  let memory: MemoryPayload
+
+  beforeAll(() => {
+    process.env.STRIPE_ENCRYPTION_KEY ||= 'test-encryption-key'
+  })
+
+  beforeEach(() => {
+    memory = new MemoryPayload()
+    vi.mocked(getPayloadClient).mockResolvedValue(memory.payload)
+  })
+
+  // A password session that hasn't passed two-factor yet
+  const seedUser = (): SessionUser => {
+    const user = memory.seed('users', {
+      email: 'admin@dztech.test',
+      role: 'admin',
+      sessions: [{ id: 's1', expiresAt: '' }],
+      twoFactor: {
+        enabled: true,
+        secret: encrypt(SECRET),
+        recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        lastUsedStep: null,
+        failedAttempts: 0,
+        verifiedSessions: [],
+      },
+    })
+    return { ...user, _strategy: 'local-jwt', _sid: 's1' } as unknown as SessionUser
+  }
+
+  const wrongCode = () => String((Number(generateTotp(SECRET)) + 500000) % 1000000).padStart(6, '0')
+
+  it('locks the account once wrong codes reach the limit, even when sent together', async () => {
+    const user = seedUser()
+
+    const results = await Promise.allSettled(
+      Array.from({ length: MAX_TWO_FACTOR_ATTEMPTS }, () =>
+        verifyTwoFactor(memory.payload, user, { code: wrongCode(), audit }),
+      ),
+    )
+
+    const statuses = results.map((result) =>
+      result.status === 'rejected' ? (result.reason as { status: number }).status : 200,
+    )
+    expect(statuses.sort()).toEqual([...Array(MAX_TWO_FACTOR_ATTEMPTS - 1).fill(400), 401])
+    const [stored] = memory.docs('users') as unknown as SessionUser[]
+    expect(stored.twoFactor?.failedAttempts).toBe(0)
+    expect(stored.sessions).toEqual([])
+    expect(new Date(stored.lockUntil!).getTime()).toBeGreaterThan(Date.now())
+  })
+
+  it('uses up a recovery code', async () => {
+    const user = seedUser()
+
+    await verifyTwoFactor(memory.payload, user, { recoveryCode: 'aaaaa bbbbb', audit })
+
+    const [stored] = memory.docs('users') as unknown as SessionUser[]
+    expect(stored.twoFactor?.verifiedSessions).toEqual(['s1'])
+    expect(stored.twoFactor?.recoveryCodes).toEqual([hashRecoveryCode(recoveryCodes[1])])
+    await expect(
+      verifyTwoFactor(
+        memory.payload,
+        { ...stored, _strategy: 'local-jwt', _sid: 's1' },
+        {
+          recoveryCode: recoveryCodes[0],
+          audit,
+        },
+      ),
+    ).rejects.toMatchObject({ status: 400, message: 'Invalid code' })
+  })
+
+  describe('POST /api/admin/two-factor/verify', () => {
+    const verify = (body: unknown) =>
+      POST(
+        new Request('http://localhost/api/admin/two-factor/verify', {
+          method: 'POST',
+          body: JSON.stringify(body),
+        }),
+      )
+
+    it('rejects anonymous callers', async () => {
+      expect((await verify({ code: '123456' })).status).toBe(401)
+    })
+
+    it('verifies a pending session with an app code', async () => {
+      memory.user = seedUser()
+
+      const response = await verify({ code: generateTotp(SECRET) })
+
+      expect(response.status).toBe(200)
+      await expect(response.json()).resolves.toEqual({ verified: true })
+      expect(memory.docs('users')[0]).toMatchObject({ twoFactor: { verifiedSessions: ['s1'] } })
+      expect(memory.docs('login-events')).toEqual([
+        expect.objectContaining({ outcome: 'two_factor_verified' }),
+      ])
+    })
+
+    it('returns JSON errors for a missing or wrong code', async () => {
+      memory.user = seedUser()
+
+      const missing = await verify({})
+      expect(missing.status).toBe(400)
+      await expect(missing.json()).resolves.toEqual({ error: 'code or recoveryCode is required' })
+
+      const wrong = await verify({ code: wrongCode() })
+      expect(wrong.status).toBe(400)
+      await expect(wrong.json()).resolves.toEqual({ error: 'Invalid code' })
+      expect(memory.docs('users')[0]).toMatchObject({ twoFactor: { failedAttempts: 1 } })
+    })
+  })
+})
@@ -0,0 +1,178 @@
+import {
+  attemptWebhookDelivery,
+  getNextAttemptAt,
+  MAX_WEBHOOK_ATTEMPTS,
+  processDueWebhookDeliveries,
+  replayWebhookDelivery,
+} from '@/lib/webhook-delivery'
+import { getPayloadClient } from '@/lib/payload'
+import { POST } from '@/app/api/admin/webhook-deliveries/replay/route'
+import { MemoryPayload } from './helpers/memory-payload'
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/lib/payload', () => ({ getPayloadClient: vi.fn() }))
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString()
+
+// Stored with the provider populated, since the memory store does not resolve relationships
+const seedDelivery = (memory: MemoryPayload, overrides: Record<string, unknown> = {}) =>
+  memory.seed('webhook-deliveries', {
+    provider: {
+      id: 'p1',
+      name: 'Acme',
+      webhookUrl: 'https://acme.test/hooks',
+      webhookSigningSecret: 'whsec_test',
+    },
+    order: 'o1',
+    event: 'payment.succeeded',
+    status: 'retrying',
+    attemptCount: 1,
+    payload: { event: 'payment.succeeded', orderId: 'o1' },
+    nextAttemptAt: minutesAgo(1),
+    attempts: [],
+    ...overrides,
+  })
+
+const respond = (status: number) =>
+  vi.fn(async () => new Response(null, { status, statusText: status === 200 ? 'OK' : 'Error' }))
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('Webhook retry schedule', () => {
+  it('backs off after each failed attempt and stops after the last one', () => {
+    const from = new Date('2026-01-01T00:00:00.000Z')
+
+    expect(getNextAttemptAt(1, from)?.toISOString()).toBe('2026-01-01T00:01:00.000Z')
+    expect(getNextAttemptAt(2, from)?.toISOString()).toBe('2026-01-01T00:05:00.000Z')
+    expect(getNextAttemptAt(MAX_WEBHOOK_ATTEMPTS - 1, from)?.toISOString()).toBe(
+      '2026-01-01T08:00:00.000Z',
+    )
+    expect(getNextAttemptAt(MAX_WEBHOOK_ATTEMPTS, from)).toBeNull()
+  })
+})
+
+describe('Webhook delivery attempts', () => {
+  it('schedules a retry after a failure and dead-letters after the last attempt', async () => {
+    const memory = new MemoryPayload()
+    vi.stubGlobal('fetch', respond(500))
+    const delivery = seedDelivery(memory, { attemptCount: MAX_WEBHOOK_ATTEMPTS - 2 })
+
+    const retrying = await attemptWebhookDelivery(memory.payload, delivery.id)
+    expect(retrying).toMatchObject({
+      status: 'retrying',
+      attemptCount: MAX_WEBHOOK_ATTEMPTS - 1,
+      lastResponseCode: 500,
+    })
+    expect(retrying?.nextAttemptAt).toBeTruthy()
+
+    await memory.update({
+      collection: 'webhook-deliveries',
+      id: delivery.id,
+      data: { nextAttemptAt: minutesAgo(1) },
+    })
+    const dead = await attemptWebhookDelivery(memory.payload, delivery.id)
+    expect(dead).toMatchObject({
+      status: 'dead_letter',
+      attemptCount: MAX_WEBHOOK_ATTEMPTS,
+      nextAttemptAt: null,
+    })
+    expect(dead?.attempts).toHaveLength(2)
+  })
+
+  it('sends once when two workers pick up the same delivery', async () => {
+    const memory = new MemoryPayload()
+    const fetch = respond(200)
+    vi.stubGlobal('fetch', fetch)
+    const delivery = seedDelivery(memory)
+
+    const results = await Promise.all([
+      attemptWebhookDelivery(memory.payload, delivery.id),
+      attemptWebhookDelivery(memory.payload, delivery.id),
+    ])
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(results.filter(Boolean)).toHaveLength(1)
+    expect(memory.docs('webhook-deliveries')[0]).toMatchObject({
+      status: 'delivered',
+      attemptCount: 2,
+    })
+  })
+
+  it('skips deliveries that are no longer due when the worker gets to them', async () => {
+    const memory = new MemoryPayload()
+    const fetch = respond(200)
+    vi.stubGlobal('fetch', fetch)
+    seedDelivery(memory)
+    seedDelivery(memory, { status: 'delivered', nextAttemptAt: null })
+
+    await expect(processDueWebhookDeliveries(memory.payload)).resolves.toEqual({
+      processed: 1,
+      delivered: 1,
+      deadLettered: 0,
+    })
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('replays a dead-lettered delivery with a fresh attempt budget', async () => {
+    const memory = new MemoryPayload()
+    vi.stubGlobal('fetch', respond(200))
+    const delivery = seedDelivery(memory, {
+      status: 'dead_letter',
+      attemptCount: MAX_WEBHOOK_ATTEMPTS,
+      nextAttemptAt: null,
+    })
+
+    await expect(replayWebhookDelivery(memory.payload, delivery.id)).resolves.toMatchObject({
+      status: 'delivered',
+      attemptCount: 1,
+      lastError: null,
+    })
+  })
+})
+
+describe('POST /api/admin/webhook-deliveries/replay', () => {
+  let memory: MemoryPayload
+
+  beforeEach(() => {
+    memory = new MemoryPayload()
+    vi.mocked(getPayloadClient).mockResolvedValue(memory.payload)
+    vi.stubGlobal('fetch', respond(200))
+  })
+
+  const replay = (body: unknown) =>
+    POST(
+      new Request('http://localhost/api/admin/webhook-deliveries/replay', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      }),
+    )
+
+  it('rejects anonymous callers and roles without the replay permission', async () => {
+    const delivery = seedDelivery(memory, { status: 'dead_letter' })
+
+    expect((await replay({ ids: [delivery.id] })).status).toBe(401)
+    memory.user = { id: 'u1', role: 'finance' }
+    expect((await replay({ ids: [delivery.id] })).status).toBe(403)
+    expect(memory.docs('webhook-deliveries')[0]).toMatchObject({ status: 'dead_letter' })
+  })
+
+  it('replays the selected deliveries for support and records the replay', async () => {
+    memory.user = { id: 'u1', email: 'support@dztech.test', role: 'support' }
+    const delivery = seedDelivery(memory, { status: 'dead_letter', nextAttemptAt: null })
+
+    const response = await replay({ ids: [delivery.id] })
+
+    expect(response.status).toBe(200)
+    await expect(response.json()).resolves.toMatchObject({
+      replayed: 1,
+      delivered: 1,
+      results: [{ id: delivery.id, status: 'delivered' }],
+    })
+    expect(memory.docs('audit-logs')).toEqual([
+      expect.objectContaining({ action: 'replay', documentId: delivery.id }),
+    ])
+  })
+})
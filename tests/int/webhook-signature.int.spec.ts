@@ -0,0 +1,88 @@
+import {
+  buildWebhookSignatureHeaders,
+  getActiveWebhookSecrets,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '@/lib/webhook-signature'
+
+import { describe, it, expect } from 'vitest'
+
+const body = JSON.stringify({ event: 'payment_succeeded', orderId: 'abc123' })
+const now = 1769767200
+
+describe('Webhook signatures', () => {
+  it('verifies a delivery signed with the current secret', () => {
+    const headers = buildWebhookSignatureHeaders(['whsec_dz_current'], body, now)
+
+    expect(
+      verifyWebhookSignature({
+        body,
+        signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER],
+        timestampHeader: headers[WEBHOOK_TIMESTAMP_HEADER],
+        secrets: 'whsec_dz_current',
+        now,
+      }),
+    ).toBe(true)
+  })
+
+  it('rejects a tampered body or wrong secret', () => {
+    const headers = buildWebhookSignatureHeaders(['whsec_dz_current'], body, now)
+    const base = {
+      signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER],
+      timestampHeader: headers[WEBHOOK_TIMESTAMP_HEADER],
+      now,
+    }
+
+    expect(verifyWebhookSignature({ ...base, body: body + ' ', secrets: 'whsec_dz_current' })).toBe(
+      false,
+    )
+    expect(verifyWebhookSignature({ ...base, body, secrets: 'whsec_dz_other' })).toBe(false)
+  })
+
+  it('rejects deliveries outside the timestamp tolerance', () => {
+    const headers = buildWebhookSignatureHeaders(['whsec_dz_current'], body, now)
+
+    expect(
+      verifyWebhookSignature({
+        body,
+        signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER],
+        timestampHeader: headers[WEBHOOK_TIMESTAMP_HEADER],
+        secrets: 'whsec_dz_current',
+        now: now + 10 * 60,
+      }),
+    ).toBe(false)
+  })
+
+  it('signs with both secrets during a rotation grace window', () => {
+    const secrets = getActiveWebhookSecrets({
+      webhookSigningSecret: 'whsec_dz_new',
+      previousWebhookSigningSecret: 'whsec_dz_old',
+      previousWebhookSigningSecretExpiresAt: new Date(Date.now() + 60_000).toISOString(),
+    })
+    expect(secrets).toEqual(['whsec_dz_new', 'whsec_dz_old'])
+
+    const headers = buildWebhookSignatureHeaders(secrets, body, now)
+    for (const secret of secrets) {
+      expect(
+        verifyWebhookSignature({
+          body,
+          signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER],
+          timestampHeader: headers[WEBHOOK_TIMESTAMP_HEADER],
+          secrets: secret,
+          now,
+        }),
+      ).toBe(true)
+    }
+  })
+
+  it('drops the previous secret once the grace window has expired', () => {
+    expect(
+      getActiveWebhookSecrets({
+        webhookSigningSecret: 'whsec_dz_new',
+        previousWebhookSigningSecret: 'whsec_dz_old',
+        previousWebhookSigningSecretExpiresAt: new Date(Date.now() - 60_000).toISOString(),
+      }),
+    ).toEqual(['whsec_dz_new'])
+  })
+})